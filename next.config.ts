@@ -2,6 +2,14 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   devIndicators: false,
+  // The preview runtime bundles packages and compiles Tailwind at request time
+  serverExternalPackages: ["esbuild", "tailwindcss"],
+  experimental: {
+    // Project imports send up to FILE_LIMITS.MAX_TOTAL_SIZE (5MB) of files
+    serverActions: {
+      bodySizeLimit: "6mb",
+    },
+  },
 };
 
 export default nextConfig;
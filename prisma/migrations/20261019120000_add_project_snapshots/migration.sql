@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "ProjectSnapshot" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "data" TEXT NOT NULL DEFAULT '{}',
+    "prompt" TEXT NOT NULL DEFAULT '',
+    "source" TEXT NOT NULL DEFAULT 'chat',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ProjectSnapshot_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectSnapshot_projectId_createdAt_idx" ON "ProjectSnapshot"("projectId", "createdAt");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "shareToken" TEXT;
+ALTER TABLE "Project" ADD COLUMN "shareMessages" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_shareToken_key" ON "Project"("shareToken");
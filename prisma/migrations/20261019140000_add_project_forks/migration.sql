@@ -0,0 +1,25 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Project" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "userId" TEXT,
+    "messages" TEXT NOT NULL DEFAULT '[]',
+    "data" TEXT NOT NULL DEFAULT '{}',
+    "provider" TEXT NOT NULL DEFAULT 'anthropic',
+    "model" TEXT NOT NULL DEFAULT '',
+    "shareToken" TEXT,
+    "shareMessages" BOOLEAN NOT NULL DEFAULT false,
+    "forkedFromId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Project_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Project_forkedFromId_fkey" FOREIGN KEY ("forkedFromId") REFERENCES "Project" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Project" ("createdAt", "data", "id", "messages", "model", "name", "provider", "shareMessages", "shareToken", "updatedAt", "userId") SELECT "createdAt", "data", "id", "messages", "model", "name", "provider", "shareMessages", "shareToken", "updatedAt", "userId" FROM "Project";
+DROP TABLE "Project";
+ALTER TABLE "new_Project" RENAME TO "Project";
+CREATE UNIQUE INDEX "Project_shareToken_key" ON "Project"("shareToken");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
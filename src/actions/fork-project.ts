@@ -0,0 +1,142 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { sanitizeProjectName, validateShareToken } from "@/lib/validation";
+import { recordProjectSnapshot } from "@/lib/snapshots";
+import { getDefaultProvider } from "./get-default-provider";
+
+interface ForkResult {
+  success: boolean;
+  projectId?: string;
+  error?: string;
+}
+
+/**
+ * Name for a fork: "Landing page" -> "Landing page (fork)"
+ */
+function getForkName(name: string): string {
+  return sanitizeProjectName(`${name} (fork)`);
+}
+
+/**
+ * Create the fork and record its first snapshot
+ * Data and messages are stored strings, so copying them is a deep copy
+ */
+async function createFork(
+  userId: string,
+  source: { id: string; name: string; data: string },
+  {
+    messages,
+    provider,
+    model,
+    instructions,
+  }: { messages: string; provider: string; model: string; instructions: string }
+): Promise<string> {
+  const fork = await prisma.project.create({
+    data: {
+      name: getForkName(source.name),
+      userId,
+      data: source.data,
+      messages,
+      provider,
+      model,
+      instructions,
+      forkedFromId: source.id,
+    },
+  });
+
+  await recordProjectSnapshot({
+    projectId: fork.id,
+    data: source.data,
+    prompt: `Forked from ${source.name}`,
+    source: "manual",
+  });
+
+  revalidatePath("/");
+  return fork.id;
+}
+
+/**
+ * Duplicate one of the user's projects
+ * Copies files, provider, model and instructions; messages only when includeMessages is set
+ */
+export async function forkProject(
+  projectId: string,
+  includeMessages: boolean = false
+): Promise<ForkResult> {
+  if (!projectId || typeof projectId !== "string") {
+    return { success: false, error: "Invalid project ID" };
+  }
+
+  const session = await getSession();
+  if (!session) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  try {
+    const source = await prisma.project.findFirst({
+      where: {
+        id: projectId,
+        userId: session.userId,
+      },
+    });
+
+    if (!source) {
+      return { success: false, error: "Project not found or access denied" };
+    }
+
+    const forkId = await createFork(session.userId, source, {
+      messages: includeMessages === true ? source.messages : "[]",
+      provider: source.provider,
+      model: source.model,
+      instructions: source.instructions,
+    });
+
+    return { success: true, projectId: forkId };
+  } catch (error) {
+    console.error("[Fork Project] Error:", error);
+    return { success: false, error: "Failed to fork project" };
+  }
+}
+
+/**
+ * Fork a project someone shared publicly into the user's own projects
+ * Messages are copied only if the owner shared them; the provider comes from
+ * the forking user's own keys since the owner's may not be available to them
+ * Settings instructions are private to the owner; an instructions file comes with the files
+ */
+export async function forkSharedProject(token: string): Promise<ForkResult> {
+  if (!validateShareToken(token)) {
+    return { success: false, error: "Invalid share link" };
+  }
+
+  const session = await getSession();
+  if (!session) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  try {
+    const source = await prisma.project.findUnique({
+      where: { shareToken: token },
+    });
+
+    if (!source) {
+      return { success: false, error: "This share link is no longer available" };
+    }
+
+    const { provider, model } = await getDefaultProvider();
+    const forkId = await createFork(session.userId, source, {
+      messages: source.shareMessages ? source.messages : "[]",
+      provider,
+      model,
+      instructions: "",
+    });
+
+    return { success: true, projectId: forkId };
+  } catch (error) {
+    console.error("[Fork Shared Project] Error:", error);
+    return { success: false, error: "Failed to fork project" };
+  }
+}
@@ -0,0 +1,51 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import type { SnapshotSummary, SnapshotSource } from "@/lib/snapshots";
+
+/**
+ * Fetch a single snapshot including its serialized file system
+ * Requires authentication and ownership of the snapshot's project
+ */
+export async function getProjectSnapshot(
+  snapshotId: string
+): Promise<SnapshotSummary & { data: Record<string, any> }> {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const snapshot = await prisma.projectSnapshot.findFirst({
+    where: {
+      id: snapshotId,
+      project: { userId: session.userId },
+    },
+  });
+
+  if (!snapshot) {
+    throw new Error("Snapshot not found");
+  }
+
+  // Safely parse JSON with validation and fallback
+  let data = {};
+  try {
+    const parsedData = JSON.parse(snapshot.data);
+    if (parsedData && typeof parsedData === "object" && !Array.isArray(parsedData)) {
+      data = parsedData;
+    } else {
+      console.error("[Data Corruption] Snapshot data is not an object:", snapshotId);
+    }
+  } catch (error) {
+    console.error("[Data Corruption] Failed to parse snapshot data:", snapshotId, error);
+  }
+
+  return {
+    id: snapshot.id,
+    prompt: snapshot.prompt,
+    source: snapshot.source as SnapshotSource,
+    createdAt: snapshot.createdAt,
+    data,
+  };
+}
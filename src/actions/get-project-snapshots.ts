@@ -0,0 +1,38 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import type { SnapshotSummary, SnapshotSource } from "@/lib/snapshots";
+
+/**
+ * List a project's snapshots, newest first (without file data)
+ * Requires authentication and ownership validation
+ */
+export async function getProjectSnapshots(projectId: string): Promise<SnapshotSummary[]> {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const snapshots = await prisma.projectSnapshot.findMany({
+    where: {
+      projectId,
+      project: { userId: session.userId },
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    select: {
+      id: true,
+      prompt: true,
+      source: true,
+      createdAt: true,
+    },
+  });
+
+  return snapshots.map((snapshot: { id: string; prompt: string; source: string; createdAt: Date }) => ({
+    ...snapshot,
+    source: snapshot.source as SnapshotSource,
+  }));
+}
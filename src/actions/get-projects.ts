@@ -22,8 +22,31 @@ export async function getProjects() {
       name: true,
       createdAt: true,
       updatedAt: true,
+      forkedFrom: {
+        select: { id: true, name: true, userId: true },
+      },
     },
   });
 
-  return projects;
+  // Lineage for the sidebar. Someone else's source stays private: its id and current
+  // name aren't returned, since its share link may have been revoked since the fork
+  return projects.map(
+    ({
+      forkedFrom,
+      ...project
+    }: {
+      id: string;
+      name: string;
+      createdAt: Date;
+      updatedAt: Date;
+      forkedFrom: { id: string; name: string; userId: string | null } | null;
+    }) => ({
+      ...project,
+      forkedFrom: !forkedFrom
+        ? null
+        : forkedFrom.userId === session.userId
+          ? { isOwn: true as const, id: forkedFrom.id, name: forkedFrom.name }
+          : { isOwn: false as const },
+    })
+  );
 }
\ No newline at end of file
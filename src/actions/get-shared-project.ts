@@ -0,0 +1,58 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { validateShareToken } from "@/lib/validation";
+
+/**
+ * Load a project through its public share token
+ * No authentication: returns only what the share page renders, and includes
+ * messages only when the owner opted in
+ */
+export async function getSharedProject(token: string) {
+  if (!validateShareToken(token)) {
+    return null;
+  }
+
+  const project = await prisma.project.findUnique({
+    where: { shareToken: token },
+    select: {
+      name: true,
+      data: true,
+      messages: true,
+      shareMessages: true,
+      updatedAt: true,
+    },
+  });
+
+  if (!project) {
+    return null;
+  }
+
+  let data = {};
+  try {
+    const parsedData = JSON.parse(project.data);
+    if (parsedData && typeof parsedData === "object" && !Array.isArray(parsedData)) {
+      data = parsedData;
+    }
+  } catch (error) {
+    console.error("[Data Corruption] Failed to parse shared project data", error);
+  }
+
+  let messages: any[] | null = null;
+  if (project.shareMessages) {
+    try {
+      const parsedMessages = JSON.parse(project.messages);
+      messages = Array.isArray(parsedMessages) ? parsedMessages : [];
+    } catch (error) {
+      console.error("[Data Corruption] Failed to parse shared project messages", error);
+      messages = [];
+    }
+  }
+
+  return {
+    name: project.name,
+    data,
+    messages,
+    updatedAt: project.updatedAt,
+  };
+}
@@ -0,0 +1,114 @@
+"use server";
+
+import { randomUUID } from "crypto";
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getDefaultProvider } from "./get-default-provider";
+import { sanitizeProjectName } from "@/lib/validation";
+import { recordProjectSnapshot } from "@/lib/snapshots";
+import { FILE_LIMITS } from "@/lib/constants";
+import {
+  importProjectFiles,
+  buildImportMessage,
+  type RejectedFile,
+} from "@/lib/import/project-import";
+
+// Longest rejection reason kept from the client; the client's own reasons are short
+const MAX_REASON_LENGTH = 200;
+
+interface ImportProjectInput {
+  sourceName: string; // Uploaded zip or folder name, shown in the first message
+  files: Record<string, string>; // Final path -> text content, as imported on the client
+  rejected?: RejectedFile[]; // Files the client could not read (e.g. binary)
+}
+
+/**
+ * Create a project from uploaded files
+ * Files are re-validated here; the client-side pass is only for feedback
+ */
+export async function importProject(input: ImportProjectInput): Promise<{
+  success: boolean;
+  projectId?: string;
+  imported?: string[];
+  rejected?: RejectedFile[];
+  error?: string;
+}> {
+  const session = await getSession();
+  if (!session) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  if (
+    !input?.files ||
+    typeof input.files !== "object" ||
+    Array.isArray(input.files) ||
+    (input.sourceName !== undefined && typeof input.sourceName !== "string")
+  ) {
+    return { success: false, error: "Invalid import data" };
+  }
+
+  const entries = Object.entries(input.files);
+  if (entries.length > FILE_LIMITS.MAX_FILES * 2) {
+    return { success: false, error: `Too many files (max ${FILE_LIMITS.MAX_FILES})` };
+  }
+
+  const { fileSystem, imported, rejected } = importProjectFiles(
+    entries
+      .filter(([, content]) => typeof content === "string")
+      .map(([path, content]) => ({ path, content })),
+    { stripRoot: false }
+  );
+
+  // Client rejections end up in the first message, so their count and length are capped
+  const clientRejected = Array.isArray(input.rejected)
+    ? input.rejected
+        .slice(0, FILE_LIMITS.MAX_FILES * 2)
+        .filter((file) => typeof file?.path === "string" && typeof file?.reason === "string")
+        .map((file) => ({
+          path: file.path.slice(0, FILE_LIMITS.MAX_PATH_LENGTH),
+          reason: file.reason.slice(0, MAX_REASON_LENGTH),
+        }))
+    : [];
+  const allRejected = [...clientRejected, ...rejected];
+
+  if (imported.length === 0) {
+    return { success: false, rejected: allRejected, error: "No supported files to import" };
+  }
+
+  const sourceName = sanitizeProjectName(input.sourceName || "") || "Imported project";
+
+  try {
+    const { provider, model } = await getDefaultProvider();
+    const data = JSON.stringify(fileSystem.serialize());
+    const messages = [
+      {
+        id: randomUUID(),
+        role: "user",
+        parts: [{ type: "text", text: buildImportMessage(sourceName, imported, allRejected) }],
+      },
+    ];
+
+    const project = await prisma.project.create({
+      data: {
+        name: sanitizeProjectName(sourceName.replace(/\.zip$/i, "")),
+        userId: session.userId,
+        messages: JSON.stringify(messages),
+        data,
+        provider,
+        model,
+      },
+    });
+
+    await recordProjectSnapshot({
+      projectId: project.id,
+      data,
+      prompt: `Imported from ${sourceName}`,
+      source: "manual",
+    });
+
+    return { success: true, projectId: project.id, imported, rejected: allRejected };
+  } catch (error) {
+    console.error("[Import Project] Error:", error);
+    return { success: false, error: "Failed to import project" };
+  }
+}
@@ -0,0 +1,89 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth";
+import { PROJECT_INSTRUCTIONS } from "@/lib/constants";
+
+export interface InstructionsResult {
+  success: boolean;
+  instructions?: string;
+  error?: string;
+}
+
+/**
+ * Get a project's custom instructions
+ * Requires authentication and ownership validation
+ */
+export async function getProjectInstructions(projectId: string): Promise<InstructionsResult> {
+  if (!projectId || typeof projectId !== "string") {
+    return { success: false, error: "Invalid project ID" };
+  }
+
+  const session = await getSession();
+  if (!session) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const project = await prisma.project.findFirst({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+    select: { instructions: true },
+  });
+
+  if (!project) {
+    return { success: false, error: "Project not found or access denied" };
+  }
+
+  return { success: true, instructions: project.instructions };
+}
+
+/**
+ * Replace a project's custom instructions, only if the user owns it
+ * An empty string clears them
+ */
+export async function updateProjectInstructions(
+  projectId: string,
+  instructions: string
+): Promise<InstructionsResult> {
+  if (!projectId || typeof projectId !== "string") {
+    return { success: false, error: "Invalid project ID" };
+  }
+
+  if (typeof instructions !== "string") {
+    return { success: false, error: "Invalid instructions" };
+  }
+
+  const trimmed = instructions.trim();
+  if (trimmed.length > PROJECT_INSTRUCTIONS.MAX_LENGTH) {
+    return {
+      success: false,
+      error: `Instructions must be at most ${PROJECT_INSTRUCTIONS.MAX_LENGTH.toLocaleString()} characters`,
+    };
+  }
+
+  const session = await getSession();
+  if (!session) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  try {
+    const result = await prisma.project.updateMany({
+      where: {
+        id: projectId,
+        userId: session.userId,
+      },
+      data: { instructions: trimmed },
+    });
+
+    if (result.count === 0) {
+      return { success: false, error: "Project not found or access denied" };
+    }
+
+    return { success: true, instructions: trimmed };
+  } catch (error) {
+    console.error("[Project Instructions] Error:", error);
+    return { success: false, error: "Failed to save instructions" };
+  }
+}
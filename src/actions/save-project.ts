@@ -0,0 +1,61 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth";
+import { recordProjectSnapshot } from "@/lib/snapshots";
+
+/**
+ * Save the editor's file system to a project and record a snapshot
+ * Requires authentication and ownership validation
+ */
+export async function saveProject(
+  projectId: string,
+  data: Record<string, any>,
+  label: string = "Manual save"
+): Promise<{ success: boolean; error?: string }> {
+  // Validate input
+  if (!projectId || typeof projectId !== "string") {
+    return { success: false, error: "Invalid project ID" };
+  }
+
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return { success: false, error: "Invalid project data" };
+  }
+
+  // Require authentication
+  const session = await getSession();
+  if (!session) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  try {
+    const serializedData = JSON.stringify(data);
+
+    // Update project only if user owns it
+    const result = await prisma.project.updateMany({
+      where: {
+        id: projectId,
+        userId: session.userId,
+      },
+      data: {
+        data: serializedData,
+      },
+    });
+
+    if (result.count === 0) {
+      return { success: false, error: "Project not found or access denied" };
+    }
+
+    await recordProjectSnapshot({
+      projectId,
+      data: serializedData,
+      prompt: label,
+      source: "manual",
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("[Save Project] Error:", error);
+    return { success: false, error: "Failed to save project" };
+  }
+}
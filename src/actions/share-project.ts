@@ -0,0 +1,124 @@
+"use server";
+
+import { randomBytes } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth";
+import { SHARE_LINKS } from "@/lib/constants";
+
+export interface ShareResult {
+  success: boolean;
+  shareToken?: string | null;
+  shareMessages?: boolean;
+  error?: string;
+}
+
+function generateShareToken(): string {
+  return randomBytes(SHARE_LINKS.TOKEN_BYTES).toString("base64url");
+}
+
+/**
+ * Update a project's share settings, only if the user owns it
+ */
+async function updateShare(
+  projectId: string,
+  data: { shareToken?: string | null; shareMessages?: boolean }
+): Promise<ShareResult> {
+  if (!projectId || typeof projectId !== "string") {
+    return { success: false, error: "Invalid project ID" };
+  }
+
+  const session = await getSession();
+  if (!session) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  try {
+    const result = await prisma.project.updateMany({
+      where: {
+        id: projectId,
+        userId: session.userId,
+      },
+      data,
+    });
+
+    if (result.count === 0) {
+      return { success: false, error: "Project not found or access denied" };
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { shareToken: true, shareMessages: true },
+    });
+
+    return {
+      success: true,
+      shareToken: project?.shareToken ?? null,
+      shareMessages: project?.shareMessages ?? false,
+    };
+  } catch (error) {
+    console.error("[Share Project] Error:", error);
+    return { success: false, error: "Failed to update share link" };
+  }
+}
+
+/**
+ * Get a project's current share settings
+ * Requires authentication and ownership validation
+ */
+export async function getProjectShare(projectId: string): Promise<ShareResult> {
+  if (!projectId || typeof projectId !== "string") {
+    return { success: false, error: "Invalid project ID" };
+  }
+
+  const session = await getSession();
+  if (!session) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const project = await prisma.project.findFirst({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+    select: { shareToken: true, shareMessages: true },
+  });
+
+  if (!project) {
+    return { success: false, error: "Project not found or access denied" };
+  }
+
+  return { success: true, shareToken: project.shareToken, shareMessages: project.shareMessages };
+}
+
+/**
+ * Create a public read-only link, or update whether it includes the chat history
+ * An existing token is kept so links already sent out keep working
+ */
+export async function shareProject(
+  projectId: string,
+  includeMessages: boolean = false
+): Promise<ShareResult> {
+  const current = await getProjectShare(projectId);
+  if (!current.success) {
+    return current;
+  }
+
+  return updateShare(projectId, {
+    shareToken: current.shareToken || generateShareToken(),
+    shareMessages: includeMessages === true,
+  });
+}
+
+/**
+ * Replace the share token; the previous link stops working
+ */
+export async function rotateShareLink(projectId: string): Promise<ShareResult> {
+  return updateShare(projectId, { shareToken: generateShareToken() });
+}
+
+/**
+ * Disable the public link
+ */
+export async function revokeShareLink(projectId: string): Promise<ShareResult> {
+  return updateShare(projectId, { shareToken: null, shareMessages: false });
+}
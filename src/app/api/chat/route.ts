@@ -1,16 +1,23 @@
 import type { FileNode } from "@/lib/file-system";
 import { VirtualFileSystem } from "@/lib/file-system";
-import { streamText, stepCountIs } from "ai";
+import { streamText, stepCountIs, createUIMessageStreamResponse } from "ai";
 import { buildStrReplaceTool } from "@/lib/tools/str-replace";
 import { buildFileManagerTool } from "@/lib/tools/file-manager";
+import { buildSearchFilesTool } from "@/lib/tools/search-files";
+import { buildApplyPatchTool } from "@/lib/tools/apply-patch";
+import { buildAddDependencyTool } from "@/lib/tools/add-dependency";
+import { buildCheckBuildTool } from "@/lib/tools/check-build";
+import { buildCheckTypesTool } from "@/lib/tools/check-types";
+import { streamFileChanges } from "@/lib/file-sync";
 import { prisma } from "@/lib/prisma";
 import { getSession } from "@/lib/auth";
 import { getLanguageModel, isMockProvider, PROVIDERS, type ProviderId } from "@/lib/provider";
 import { isValidProvider } from "@/lib/providers";
-import { generationPrompt } from "@/lib/prompts/generation";
+import { generationPrompt, autoRepairPrompt, buildInstructionsPrompt } from "@/lib/prompts/generation";
 import { rateLimit, getClientIP } from "@/lib/rate-limit";
+import { recordProjectSnapshot, getSnapshotPrompt } from "@/lib/snapshots";
 import { decryptApiKeys } from "@/lib/crypto";
-import { RATE_LIMITS, EMPTY_API_KEYS } from "@/lib/constants";
+import { RATE_LIMITS, EMPTY_API_KEYS, AUTO_REPAIR, PROJECT_INSTRUCTIONS } from "@/lib/constants";
 import {
   invalidContentTypeResponse,
   invalidJsonResponse,
@@ -19,8 +26,10 @@ import {
 } from "@/lib/api-responses";
 
 // POST handler for chat messages
-// Receives: messages array, serialized file state, optional projectId, provider, model
-// Returns: Server-sent events stream with text and tool calls
+// Receives: messages array, serialized file state, optional projectId, provider, model,
+// with auto-repair on, the errors the preview last reported, and in review mode
+// reviewChanges, which leaves the project's files for the user to accept
+// Returns: Server-sent events stream with text, tool calls and the file changes they made
 export async function POST(req: Request) {
   // Security: Validate content-type
   const contentType = req.headers.get("content-type");
@@ -41,12 +50,18 @@ export async function POST(req: Request) {
     projectId,
     provider: requestedProvider,
     model: requestedModel,
+    autoRepair,
+    previewErrors,
+    reviewChanges,
   }: {
     messages: any[];
     files: Record<string, FileNode>;
     projectId?: string;
     provider?: string;
     model?: string;
+    autoRepair?: boolean;
+    previewErrors?: unknown;
+    reviewChanges?: boolean;
   } = body;
 
   // Validate input
@@ -58,6 +73,14 @@ export async function POST(req: Request) {
     return badRequestResponse("Invalid files format");
   }
 
+  // Preview errors are untrusted context for check_build; keep them short and few
+  const reportedErrors = Array.isArray(previewErrors)
+    ? previewErrors
+        .filter((error): error is string => typeof error === "string")
+        .slice(0, AUTO_REPAIR.MAX_REPORTED_ERRORS)
+        .map((error) => error.slice(0, AUTO_REPAIR.MAX_ERROR_LENGTH))
+    : [];
+
   // Validate provider if specified
   const providerId: ProviderId = (requestedProvider && isValidProvider(requestedProvider))
     ? requestedProvider
@@ -118,17 +141,36 @@ export async function POST(req: Request) {
     providerOptions.anthropic = { cacheControl: { type: "ephemeral" } };
   }
 
-  // Prepend system prompt with provider-specific options
+  // Reconstruct VirtualFileSystem from serialized state sent by client
+  const fileSystem = new VirtualFileSystem();
+  fileSystem.deserializeFromNodes(files);
+
+  // Custom instructions saved in the project's settings (owner only)
+  let projectInstructions = "";
+  if (session && projectId) {
+    try {
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, userId: session.userId },
+        select: { instructions: true },
+      });
+      projectInstructions = project?.instructions ?? "";
+    } catch (error) {
+      console.error("[Chat] Failed to read project instructions:", error);
+    }
+  }
+
+  // Prepend system prompt with provider-specific options; project instructions
+  // come from settings and from the instructions file that travels with the files
+  const instructionsPrompt = buildInstructionsPrompt(
+    projectInstructions,
+    fileSystem.readFile(PROJECT_INSTRUCTIONS.FILE_PATH)
+  );
   messages.unshift({
     role: "system",
-    content: generationPrompt,
+    content: generationPrompt + (autoRepair === true ? autoRepairPrompt : "") + instructionsPrompt,
     ...(Object.keys(providerOptions).length > 0 && { providerOptions }),
   });
 
-  // Reconstruct VirtualFileSystem from serialized state sent by client
-  const fileSystem = new VirtualFileSystem();
-  fileSystem.deserializeFromNodes(files);
-
   // Get language model for the specified provider
   const model = getLanguageModel(providerId, requestedModel, apiKey);
 
@@ -204,7 +246,8 @@ export async function POST(req: Request) {
     .filter((m: { role: string; content: string } | null): m is { role: string; content: string } => m !== null); // Remove null entries with type guard
 
   // Stream text with tool use (agentic loop)
-  // AI can call tools to create/edit files; we execute them in the fileSystem
+  // AI can call tools to create/edit files; we execute them in the fileSystem,
+  // which is the source of truth the client's files are synced from
   const result = streamText({
     model,
     messages: normalizedMessages as any,
@@ -220,6 +263,17 @@ export async function POST(req: Request) {
       str_replace_editor: buildStrReplaceTool(fileSystem),
       // Tool for file operations (rename, delete)
       file_manager: buildFileManagerTool(fileSystem),
+      // Tool for all-or-nothing edits across several files (unified diff or edit list)
+      apply_patch: buildApplyPatchTool(fileSystem),
+      // Tool for finding files and code, and reading several files at once
+      search_files: buildSearchFilesTool(fileSystem),
+      // Tool for pinning third-party packages in /package.json
+      add_dependency: buildAddDependencyTool(fileSystem),
+      // Tools for checking edits against the preview's build and the type checker (auto-repair only)
+      ...(autoRepair === true && {
+        check_build: buildCheckBuildTool(fileSystem, reportedErrors),
+        check_types: buildCheckTypesTool(fileSystem),
+      }),
     },
     // Called when streaming completes
     onFinish: async ({ response }) => {
@@ -240,6 +294,23 @@ export async function POST(req: Request) {
           const userMessages = messages.filter((m) => m.role !== "system");
           const allMessages = [...userMessages, ...responseMessages];
 
+          // In review mode the edits are only proposals: the client saves the
+          // files once the user accepts them
+          if (reviewChanges === true) {
+            await prisma.project.update({
+              where: {
+                id: projectId,
+                userId: session.userId,
+              },
+              data: {
+                messages: JSON.stringify(allMessages),
+              },
+            });
+            return;
+          }
+
+          const serializedData = JSON.stringify(fileSystem.serialize());
+
           // Update project in database with new messages and file state
           // Uses projectId + userId to ensure user can only update their own projects
           await prisma.project.update({
@@ -251,9 +322,18 @@ export async function POST(req: Request) {
               // Store message history as JSON
               messages: JSON.stringify(allMessages),
               // Store serialized file tree as JSON
-              data: JSON.stringify(fileSystem.serialize()),
+              data: serializedData,
             },
           });
+
+          // Record a version so this turn can be rolled back from the history panel
+          // Update above throws if the user doesn't own the project
+          await recordProjectSnapshot({
+            projectId,
+            data: serializedData,
+            prompt: getSnapshotPrompt(userMessages),
+            source: "chat",
+          });
         } catch (error) {
           console.error("Failed to save project data:", error);
         }
@@ -262,8 +342,11 @@ export async function POST(req: Request) {
   });
 
   // Return SSE response (Server-Sent Events for streaming)
-  // AI SDK v6: Use toUIMessageStreamResponse for useChat compatibility
-  return result.toUIMessageStreamResponse();
+  // AI SDK v6: UI message stream for useChat, with the file changes the tools
+  // made added as data parts; the client applies them rather than re-running tools
+  return createUIMessageStreamResponse({
+    stream: result.toUIMessageStream().pipeThrough(streamFileChanges(fileSystem)),
+  });
 }
 
 // Vercel timeout: 120 seconds for API route
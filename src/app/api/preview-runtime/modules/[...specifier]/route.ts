@@ -0,0 +1,44 @@
+// API route serving the preview's npm modules from this app's node_modules
+// GET /api/preview-runtime/modules/react-dom/client: allowlisted module bundled as an ES module
+// Public (no session) so shared project previews work too
+
+import { bundlePreviewModule } from "@/lib/preview/module-bundler";
+import { rateLimit, getClientIP } from "@/lib/rate-limit";
+import { RATE_LIMITS } from "@/lib/constants";
+import { errorResponse, rateLimitResponse, withHeaders } from "@/lib/api-responses";
+
+// Read-only previews load modules from an opaque (null) origin; errors carry the
+// header too, so they see why a module failed instead of a CORS error
+const CORS_HEADERS = { "Access-Control-Allow-Origin": "*" };
+
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ specifier: string[] }> }
+) {
+  return withHeaders(await serveModule(req, context), CORS_HEADERS);
+}
+
+async function serveModule(
+  req: Request,
+  { params }: { params: Promise<{ specifier: string[] }> }
+): Promise<Response> {
+  const rateLimitResult = rateLimit(`preview-modules:${getClientIP(req.headers)}`, RATE_LIMITS.PREVIEW_MODULES);
+  if (!rateLimitResult.success) {
+    return rateLimitResponse();
+  }
+
+  const { specifier } = await params;
+  const result = await bundlePreviewModule(specifier.join("/"));
+
+  if (!result.success) {
+    return errorResponse(result.error, result.status);
+  }
+
+  return new Response(result.code, {
+    headers: {
+      "Content-Type": "application/javascript; charset=utf-8",
+      // Bundles only change when dependencies are reinstalled
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+}
@@ -0,0 +1,15 @@
+// API route listing the packages the preview runtime serves locally
+// GET /api/preview-runtime/packages: { packages: { [name]: installedVersion | null } }
+// Public (no session) so shared project previews work too
+
+import { getInstalledPackageVersions } from "@/lib/preview/module-bundler";
+import { serverErrorResponse } from "@/lib/api-responses";
+
+export async function GET() {
+  try {
+    return Response.json({ packages: await getInstalledPackageVersions() });
+  } catch (error) {
+    console.error("[Preview Runtime] Failed to read package versions:", error);
+    return serverErrorResponse("Failed to read package versions");
+  }
+}
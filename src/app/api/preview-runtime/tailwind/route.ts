@@ -0,0 +1,88 @@
+// API route compiling Tailwind CSS for the preview
+// POST /api/preview-runtime/tailwind { sources: string[] }: CSS for the classes the sources use
+// Public (no session) so shared project previews work too
+
+import { extractTailwindCandidates, compileTailwind } from "@/lib/preview/tailwind-compiler";
+import { rateLimit, getClientIP } from "@/lib/rate-limit";
+import { FILE_LIMITS, RATE_LIMITS } from "@/lib/constants";
+import {
+  errorResponse,
+  rateLimitResponse,
+  invalidContentTypeResponse,
+  invalidJsonResponse,
+  badRequestResponse,
+  serverErrorResponse,
+  withHeaders,
+} from "@/lib/api-responses";
+
+// Read-only previews run in an opaque (null) origin, so their requests are cross-origin;
+// nothing here depends on cookies, so any origin may call it
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+// Transformed modules are close to their source size; allow some headroom,
+// and more again for the body since JSON escapes quotes and newlines
+const MAX_SOURCES_SIZE = FILE_LIMITS.MAX_TOTAL_SIZE * 2;
+const MAX_BODY_SIZE = MAX_SOURCES_SIZE * 2;
+
+// OPTIONS: CORS preflight for the JSON POST
+export function OPTIONS() {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+// POST: Compile the classes used by the previewed modules
+// Errors carry the CORS headers too, so read-only previews can see them
+export async function POST(req: Request) {
+  return withHeaders(await compileStyles(req), CORS_HEADERS);
+}
+
+async function compileStyles(req: Request): Promise<Response> {
+  const rateLimitResult = rateLimit(`preview-styles:${getClientIP(req.headers)}`, RATE_LIMITS.PREVIEW_STYLES);
+  if (!rateLimitResult.success) {
+    return rateLimitResponse();
+  }
+
+  const contentType = req.headers.get("content-type");
+  if (!contentType || !contentType.includes("application/json")) {
+    return invalidContentTypeResponse();
+  }
+
+  // Size is checked before parsing; Content-Length may be missing, so the text is checked too
+  if (Number(req.headers.get("content-length")) > MAX_BODY_SIZE) {
+    return errorResponse("Sources too large", 413);
+  }
+  const text = await req.text();
+  if (text.length > MAX_BODY_SIZE) {
+    return errorResponse("Sources too large", 413);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return invalidJsonResponse();
+  }
+
+  const sources = body && typeof body === "object" ? (body as { sources?: unknown }).sources : undefined;
+  if (!Array.isArray(sources) || !sources.every((source) => typeof source === "string")) {
+    return badRequestResponse("sources must be an array of strings");
+  }
+
+  const totalSize = sources.reduce((total, source) => total + source.length, 0);
+  if (totalSize > MAX_SOURCES_SIZE) {
+    return errorResponse("Sources too large", 413);
+  }
+
+  try {
+    const css = await compileTailwind(extractTailwindCandidates(sources));
+    return new Response(css, {
+      headers: { "Content-Type": "text/css; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error("[Preview Runtime] Failed to compile Tailwind:", error);
+    return serverErrorResponse("Failed to compile styles");
+  }
+}
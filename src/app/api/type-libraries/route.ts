@@ -0,0 +1,24 @@
+// API route serving the type checker's libraries from this app's node_modules
+// GET /api/type-libraries: { files: { "/node_modules/@types/react/index.d.ts": "...", ... } }
+// Public (no session) so shared project views can type check too
+
+import { loadTypeLibraries } from "@/lib/typescript/type-libraries";
+import { serverErrorResponse } from "@/lib/api-responses";
+
+export async function GET() {
+  try {
+    const files = await loadTypeLibraries();
+    return Response.json(
+      { files },
+      {
+        headers: {
+          // Libraries only change when dependencies are reinstalled
+          "Cache-Control": "public, max-age=3600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("[Type Libraries] Failed to load type libraries:", error);
+    return serverErrorResponse("Failed to load type libraries");
+  }
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import {
   ResizableHandle,
@@ -9,29 +9,38 @@ import {
 } from "@/components/ui/resizable";
 import { FileSystemProvider } from "@/lib/contexts/file-system-context";
 import { ChatProvider } from "@/lib/contexts/chat-context";
+import { TypeCheckProvider } from "@/lib/contexts/type-check-context";
+import { EditorTabsProvider } from "@/lib/contexts/editor-tabs-context";
 import { ChatInterface } from "@/components/chat/ChatInterface";
 import { FileTree } from "@/components/editor/FileTree";
 import { CodeEditor } from "@/components/editor/CodeEditor";
+import { ProblemsPanel } from "@/components/editor/ProblemsPanel";
 import { PreviewFrame } from "@/components/preview/PreviewFrame";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { HeaderActions } from "@/components/HeaderActions";
 import { ProviderSelector } from "@/components/editor/ProviderSelector";
 import { ProjectList } from "@/components/projects/ProjectList";
+import { ProjectHistory } from "@/components/projects/ProjectHistory";
 import { MobileLayout } from "@/components/layout/MobileLayout";
 import { useChat } from "@/lib/contexts/chat-context";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useToast } from "@/components/ui/toast";
 import { useIsMobile } from "@/hooks/useMediaQuery";
 import { useKeyboardShortcuts, createAppShortcuts } from "@/hooks/useKeyboardShortcuts";
 import { type ProviderId } from "@/lib/providers";
-import { PanelLeftClose, PanelLeft, Sparkles } from "lucide-react";
+import { PanelLeftClose, PanelLeft, Sparkles, Save, Loader2, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
 import { createProject } from "@/actions/create-project";
+import { saveProject } from "@/actions/save-project";
+import { downloadProjectZip } from "@/lib/export/project-export";
 
 interface Project {
   id: string;
   name: string;
   createdAt: Date;
   updatedAt: Date;
+  forkedFrom?: { isOwn: true; id: string; name: string } | { isOwn: false } | null; // Source project of a fork; only the user's own sources are named
 }
 
 interface MainContentProps {
@@ -58,13 +67,54 @@ function EditorHeader({
   setActiveView,
   user,
   projectId,
+  projectName,
+  onSaved,
 }: {
   activeView: "preview" | "code";
   setActiveView: (view: "preview" | "code") => void;
   user?: MainContentProps["user"];
   projectId?: string;
+  projectName?: string;
+  onSaved?: () => void;
 }) {
   const { provider, model, setProviderAndModel } = useChat();
+  const { fileSystem, editorLocation } = useFileSystem();
+  const { success, error: toastError } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Opening a file location (e.g. from a preview error) shows the code view
+  useEffect(() => {
+    if (editorLocation) setActiveView("code");
+  }, [editorLocation, setActiveView]);
+
+  // Manual save: persists editor changes and records a snapshot in project history
+  const handleSave = useCallback(async () => {
+    if (!projectId || isSaving) return;
+    setIsSaving(true);
+    const result = await saveProject(projectId, fileSystem.serialize());
+    if (result.success) {
+      success("Project saved", "A new version was added to history.");
+      onSaved?.();
+    } else {
+      toastError("Failed to save project", result.error || "An error occurred");
+    }
+    setIsSaving(false);
+  }, [projectId, isSaving, fileSystem, success, toastError, onSaved]);
+
+  // Download the current files as a runnable Vite + React + Tailwind project
+  const handleExport = useCallback(() => {
+    const files = fileSystem.getAllFiles();
+    if (files.size === 0) {
+      toastError("Nothing to export", "Generate some components first.");
+      return;
+    }
+    downloadProjectZip(files, projectName || "uigen-project");
+  }, [fileSystem, projectName, toastError]);
+
+  useKeyboardShortcuts({
+    shortcuts: createAppShortcuts({ onSave: projectId ? handleSave : undefined }),
+    enabled: !!projectId,
+  });
 
   return (
     <div className="h-14 border-b border-border/50 px-6 flex items-center justify-between bg-card/50 backdrop-blur-sm">
@@ -96,6 +146,31 @@ function EditorHeader({
         />
       </div>
       <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={handleExport}
+          title="Export as Vite project (.zip)"
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+        {projectId && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={handleSave}
+            disabled={isSaving}
+            title="Save version (Cmd+S)"
+          >
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4" />
+            )}
+          </Button>
+        )}
         <ThemeToggle />
         <HeaderActions user={user} projectId={projectId} />
       </div>
@@ -106,6 +181,8 @@ function EditorHeader({
 export function MainContent({ user, project, projects = [] }: MainContentProps) {
   const [activeView, setActiveView] = useState<"preview" | "code">("preview");
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  // Bumped after a manual save so the history panel reloads
+  const [historyVersion, setHistoryVersion] = useState(0);
   const isMobile = useIsMobile();
   const router = useRouter();
 
@@ -140,153 +217,178 @@ export function MainContent({ user, project, projects = [] }: MainContentProps)
   if (isMobile) {
     return (
       <FileSystemProvider initialData={project?.data}>
-        <ChatProvider
-          projectId={project?.id}
-          initialMessages={project?.messages}
-          initialProvider={(project?.provider as ProviderId) || "anthropic"}
-          initialModel={project?.model || ""}
-        >
-          <MobileLayout user={user} project={project} projects={projects} />
-        </ChatProvider>
+        <EditorTabsProvider projectId={project?.id}>
+          <TypeCheckProvider>
+            <ChatProvider
+              projectId={project?.id}
+              initialMessages={project?.messages}
+              initialProvider={(project?.provider as ProviderId) || "anthropic"}
+              initialModel={project?.model || ""}
+            >
+              <MobileLayout
+                user={user}
+                project={project}
+                projects={projects}
+                historyVersion={historyVersion}
+              />
+            </ChatProvider>
+          </TypeCheckProvider>
+        </EditorTabsProvider>
       </FileSystemProvider>
     );
   }
 
   return (
     <FileSystemProvider initialData={project?.data}>
-      <ChatProvider
-        projectId={project?.id}
-        initialMessages={project?.messages}
-        initialProvider={(project?.provider as ProviderId) || "anthropic"}
-        initialModel={project?.model || ""}
-      >
-        <div id="main-content" className="h-screen w-screen overflow-hidden bg-background flex">
-          {/* Sidebar - Project List (only for authenticated users) */}
-          {user && (
-            <div
-              className={`h-full bg-sidebar border-r border-sidebar-border transition-[width,opacity] duration-300 ease-out flex-shrink-0 will-change-[width] ${
-                sidebarOpen ? "w-72 opacity-100" : "w-0 opacity-0"
-              } overflow-hidden`}
-            >
-              <ProjectList projects={projects} currentProjectId={project?.id} />
-            </div>
-          )}
+      <EditorTabsProvider projectId={project?.id}>
+        <TypeCheckProvider>
+          <ChatProvider
+            projectId={project?.id}
+            initialMessages={project?.messages}
+            initialProvider={(project?.provider as ProviderId) || "anthropic"}
+            initialModel={project?.model || ""}
+          >
+            <div id="main-content" className="h-screen w-screen overflow-hidden bg-background flex">
+              {/* Sidebar - Project List (only for authenticated users) */}
+              {user && (
+                <div
+                  className={`h-full bg-sidebar border-r border-sidebar-border transition-[width,opacity] duration-300 ease-out flex-shrink-0 will-change-[width] ${
+                    sidebarOpen ? "w-72 opacity-100" : "w-0 opacity-0"
+                  } overflow-hidden`}
+                >
+                  <div className="h-full flex flex-col">
+                    <div className="flex-1 min-h-0">
+                      <ProjectList projects={projects} currentProjectId={project?.id} />
+                    </div>
+                    {project && (
+                      <ProjectHistory projectId={project.id} refreshKey={historyVersion} />
+                    )}
+                  </div>
+                </div>
+              )}
 
-          {/* Main Content */}
-          <div className="flex-1 h-full overflow-hidden">
-            <ResizablePanelGroup direction="horizontal" className="h-full">
-              {/* Left Panel - Chat */}
-              <ResizablePanel defaultSize={35} minSize={25} maxSize={50}>
-                <div className="h-full flex flex-col bg-card">
-                  {/* Chat Header */}
-                  <div className="h-14 flex items-center px-4 border-b border-border/50 bg-card/80 backdrop-blur-sm">
-                    {user && (
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-9 w-9 mr-3 hover:bg-accent/50"
-                        onClick={() => setSidebarOpen(!sidebarOpen)}
-                        title={sidebarOpen ? "Hide sidebar" : "Show sidebar"}
-                      >
-                        {sidebarOpen ? (
-                          <PanelLeftClose className="h-4 w-4" />
-                        ) : (
-                          <PanelLeft className="h-4 w-4" />
+              {/* Main Content */}
+              <div className="flex-1 h-full overflow-hidden">
+                <ResizablePanelGroup direction="horizontal" className="h-full">
+                  {/* Left Panel - Chat */}
+                  <ResizablePanel defaultSize={35} minSize={25} maxSize={50}>
+                    <div className="h-full flex flex-col bg-card">
+                      {/* Chat Header */}
+                      <div className="h-14 flex items-center px-4 border-b border-border/50 bg-card/80 backdrop-blur-sm">
+                        {user && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-9 w-9 mr-3 hover:bg-accent/50"
+                            onClick={() => setSidebarOpen(!sidebarOpen)}
+                            title={sidebarOpen ? "Hide sidebar" : "Show sidebar"}
+                          >
+                            {sidebarOpen ? (
+                              <PanelLeftClose className="h-4 w-4" />
+                            ) : (
+                              <PanelLeft className="h-4 w-4" />
+                            )}
+                          </Button>
                         )}
-                      </Button>
-                    )}
-                    <div className="flex items-center gap-2.5">
-                      <div className="h-8 w-8 rounded-lg bg-primary flex items-center justify-center">
-                        <Sparkles className="h-4 w-4 text-primary-foreground" />
+                        <div className="flex items-center gap-2.5">
+                          <div className="h-8 w-8 rounded-lg bg-primary flex items-center justify-center">
+                            <Sparkles className="h-4 w-4 text-primary-foreground" />
+                          </div>
+                          <div>
+                            <h1
+                              className="text-sm font-semibold text-foreground truncate max-w-[180px]"
+                              title={project?.name || "React AI UI Generator"}
+                            >
+                              {project?.name || "React AI UI Generator"}
+                            </h1>
+                            <p className="text-xs text-muted-foreground">
+                              AI Component Generator
+                            </p>
+                          </div>
+                        </div>
                       </div>
-                      <div>
-                        <h1
-                          className="text-sm font-semibold text-foreground truncate max-w-[180px]"
-                          title={project?.name || "React AI UI Generator"}
-                        >
-                          {project?.name || "React AI UI Generator"}
-                        </h1>
-                        <p className="text-xs text-muted-foreground">
-                          AI Component Generator
-                        </p>
+
+                      {/* Chat Content */}
+                      <div className="flex-1 overflow-hidden">
+                        <ChatInterface />
                       </div>
                     </div>
-                  </div>
-
-                  {/* Chat Content */}
-                  <div className="flex-1 overflow-hidden">
-                    <ChatInterface />
-                  </div>
-                </div>
-              </ResizablePanel>
+                  </ResizablePanel>
 
-              <ResizableHandle className="w-1 bg-border/50 hover:bg-primary/50 hover:w-1.5 transition-all group data-[resize-handle-active]:bg-primary">
-                <div className="hidden group-hover:flex flex-col gap-0.5 items-center justify-center h-full">
-                  <div className="w-0.5 h-0.5 rounded-full bg-muted-foreground/50" />
-                  <div className="w-0.5 h-0.5 rounded-full bg-muted-foreground/50" />
-                  <div className="w-0.5 h-0.5 rounded-full bg-muted-foreground/50" />
-                </div>
-              </ResizableHandle>
+                  <ResizableHandle className="w-1 bg-border/50 hover:bg-primary/50 hover:w-1.5 transition-all group data-[resize-handle-active]:bg-primary">
+                    <div className="hidden group-hover:flex flex-col gap-0.5 items-center justify-center h-full">
+                      <div className="w-0.5 h-0.5 rounded-full bg-muted-foreground/50" />
+                      <div className="w-0.5 h-0.5 rounded-full bg-muted-foreground/50" />
+                      <div className="w-0.5 h-0.5 rounded-full bg-muted-foreground/50" />
+                    </div>
+                  </ResizableHandle>
 
-              {/* Right Panel - Preview/Code */}
-              <ResizablePanel defaultSize={65}>
-                <div className="h-full flex flex-col bg-card">
-                  {/* Top Bar */}
-                  <EditorHeader
-                    activeView={activeView}
-                    setActiveView={setActiveView}
-                    user={user}
-                    projectId={project?.id}
-                  />
+                  {/* Right Panel - Preview/Code */}
+                  <ResizablePanel defaultSize={65}>
+                    <div className="h-full flex flex-col bg-card">
+                      {/* Top Bar */}
+                      <EditorHeader
+                        activeView={activeView}
+                        setActiveView={setActiveView}
+                        user={user}
+                        projectId={project?.id}
+                        projectName={project?.name}
+                        onSaved={() => setHistoryVersion((v) => v + 1)}
+                      />
 
-                  {/* Content Area */}
-                  <div className="flex-1 overflow-hidden bg-muted/30 dark:bg-background/50">
-                    {activeView === "preview" ? (
-                      <div className="h-full p-6 canvas-pattern">
-                        {/* Preview artboard - component render area */}
-                        <div className="h-full preview-artboard rounded-lg border border-border/50 overflow-hidden">
-                          <PreviewFrame />
-                        </div>
-                      </div>
-                    ) : (
-                      <ResizablePanelGroup
-                        direction="horizontal"
-                        className="h-full"
-                      >
-                        {/* File Tree */}
-                        <ResizablePanel
-                          defaultSize={28}
-                          minSize={20}
-                          maxSize={40}
-                        >
-                          <div className="h-full bg-sidebar border-r border-border/50">
-                            <FileTree />
+                      {/* Content Area */}
+                      <div className="flex-1 overflow-hidden bg-muted/30 dark:bg-background/50">
+                        {activeView === "preview" ? (
+                          <div className="h-full p-6 canvas-pattern">
+                            {/* Preview artboard - component render area */}
+                            <div className="h-full preview-artboard rounded-lg border border-border/50 overflow-hidden">
+                              <PreviewFrame />
+                            </div>
                           </div>
-                        </ResizablePanel>
+                        ) : (
+                          <ResizablePanelGroup
+                            direction="horizontal"
+                            className="h-full"
+                          >
+                            {/* File Tree */}
+                            <ResizablePanel
+                              defaultSize={28}
+                              minSize={20}
+                              maxSize={40}
+                            >
+                              <div className="h-full bg-sidebar border-r border-border/50">
+                                <FileTree />
+                              </div>
+                            </ResizablePanel>
 
-                        <ResizableHandle className="w-1 bg-border/50 hover:bg-primary/50 hover:w-1.5 transition-all group data-[resize-handle-active]:bg-primary">
-                          <div className="hidden group-hover:flex flex-col gap-0.5 items-center justify-center h-full">
-                            <div className="w-0.5 h-0.5 rounded-full bg-muted-foreground/50" />
-                            <div className="w-0.5 h-0.5 rounded-full bg-muted-foreground/50" />
-                            <div className="w-0.5 h-0.5 rounded-full bg-muted-foreground/50" />
-                          </div>
-                        </ResizableHandle>
+                            <ResizableHandle className="w-1 bg-border/50 hover:bg-primary/50 hover:w-1.5 transition-all group data-[resize-handle-active]:bg-primary">
+                              <div className="hidden group-hover:flex flex-col gap-0.5 items-center justify-center h-full">
+                                <div className="w-0.5 h-0.5 rounded-full bg-muted-foreground/50" />
+                                <div className="w-0.5 h-0.5 rounded-full bg-muted-foreground/50" />
+                                <div className="w-0.5 h-0.5 rounded-full bg-muted-foreground/50" />
+                              </div>
+                            </ResizableHandle>
 
-                        {/* Code Editor */}
-                        <ResizablePanel defaultSize={72}>
-                          <div className="h-full bg-card">
-                            <CodeEditor />
-                          </div>
-                        </ResizablePanel>
-                      </ResizablePanelGroup>
-                    )}
-                  </div>
-                </div>
-              </ResizablePanel>
-            </ResizablePanelGroup>
-          </div>
-        </div>
-      </ChatProvider>
+                            {/* Code Editor */}
+                            <ResizablePanel defaultSize={72}>
+                              <div className="h-full bg-card flex flex-col">
+                                <div className="flex-1 min-h-0">
+                                  <CodeEditor />
+                                </div>
+                                <ProblemsPanel />
+                              </div>
+                            </ResizablePanel>
+                          </ResizablePanelGroup>
+                        )}
+                      </div>
+                    </div>
+                  </ResizablePanel>
+                </ResizablePanelGroup>
+              </div>
+            </div>
+          </ChatProvider>
+        </TypeCheckProvider>
+      </EditorTabsProvider>
     </FileSystemProvider>
   );
 }
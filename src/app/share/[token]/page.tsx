@@ -0,0 +1,34 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getUser } from "@/actions";
+import { getSharedProject } from "@/actions/get-shared-project";
+import { SharedProjectView } from "@/components/share/SharedProjectView";
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { token } = await params;
+  const project = await getSharedProject(token);
+
+  return {
+    title: project ? `${project.name} - React AI UI Generator` : "Shared design not found",
+    // Share links are unlisted
+    robots: { index: false, follow: false },
+  };
+}
+
+// Public read-only view of a shared project (no authentication)
+export default async function SharePage({ params }: PageProps) {
+  const { token } = await params;
+  const project = await getSharedProject(token);
+
+  if (!project) {
+    notFound();
+  }
+
+  const user = await getUser();
+
+  return <SharedProjectView token={token} project={project} canFork={!!user} />;
+}
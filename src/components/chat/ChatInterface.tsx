@@ -3,6 +3,7 @@
 import { useEffect, useRef, useMemo, useState, useCallback } from "react";
 import { MessageList } from "./MessageList";
 import { MessageInput } from "./MessageInput";
+import { ReviewChanges } from "./ReviewChanges";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useChat } from "@/lib/contexts/chat-context";
 import { Button } from "@/components/ui/button";
@@ -62,7 +63,7 @@ function parseError(error: Error | undefined, provider: ProviderId): {
 
 export function ChatInterface() {
   const scrollAreaRef = useRef<HTMLDivElement>(null);
-  const { messages, input, setInput, handleSubmit, status, error, reload, provider } = useChat();
+  const { messages, input, setInput, handleSubmit, status, error, reload, provider, turnChanges } = useChat();
 
   // Count user messages and detect demo mode
   const { userMessageCount, isDemoMode } = useMemo(() => {
@@ -215,7 +216,7 @@ export function ChatInterface() {
       ) : (
         <ScrollArea ref={scrollAreaRef} className="flex-1 overflow-hidden">
           <div className="p-4">
-            <MessageList messages={messages} isLoading={status === "streaming"} />
+            <MessageList messages={messages} isLoading={status === "streaming"} turnChanges={turnChanges} />
           </div>
         </ScrollArea>
       )}
@@ -364,6 +365,7 @@ export function ChatInterface() {
       )}
 
       <div className="p-4 pt-0 flex-shrink-0">
+        <ReviewChanges />
         <MessageInput
           input={input}
           setInput={setInput}
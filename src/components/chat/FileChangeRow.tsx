@@ -0,0 +1,87 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { DiffEditor } from "@monaco-editor/react";
+import { useTheme } from "next-themes";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { countChangedLines, type FileChange, type FileChangeStatus } from "@/lib/turn-changes";
+import { getLanguageFromPath } from "@/lib/typescript/monaco-project";
+
+interface FileChangeRowProps {
+  change: FileChange;
+  done?: string; // Shown in place of the actions once the change is handled, e.g. "Reverted"
+  children?: ReactNode; // Actions for this file
+}
+
+const STATUS_BADGES: Record<FileChangeStatus, { label: string; title: string; className: string }> = {
+  added: { label: "A", title: "Added", className: "text-green-600 dark:text-green-400" },
+  modified: { label: "M", title: "Modified", className: "text-amber-600" },
+  deleted: { label: "D", title: "Deleted", className: "text-destructive" },
+};
+
+// Diffs grow with the file up to this height, then scroll
+const DIFF_LINE_HEIGHT = 19;
+const MAX_DIFF_HEIGHT = 320;
+
+function getDiffHeight(change: FileChange): number {
+  const lines = Math.max(
+    change.before?.split("\n").length ?? 0,
+    change.after?.split("\n").length ?? 0
+  );
+  return Math.min(MAX_DIFF_HEIGHT, (lines + 1) * DIFF_LINE_HEIGHT);
+}
+
+// One changed file: a summary row that expands into an inline Monaco diff
+export function FileChangeRow({ change, done, children }: FileChangeRowProps) {
+  const { resolvedTheme } = useTheme();
+  const [open, setOpen] = useState(false);
+  const badge = STATUS_BADGES[change.status];
+  const { added, removed } = countChangedLines(change);
+
+  return (
+    <div className="border-t border-border/50">
+      <div className="flex items-center gap-2 px-3 py-1.5">
+        <button
+          onClick={() => setOpen(!open)}
+          className="flex-1 min-w-0 flex items-center gap-2 text-left hover:text-foreground"
+          aria-expanded={open}
+          title={change.path}
+        >
+          {open ? <ChevronDown className="h-3 w-3 flex-shrink-0" /> : <ChevronRight className="h-3 w-3 flex-shrink-0" />}
+          <span className={`font-mono font-semibold ${badge.className}`} title={badge.title}>
+            {badge.label}
+          </span>
+          <span className={`truncate font-mono ${done ? "line-through text-muted-foreground" : ""}`}>
+            {change.path}
+          </span>
+          <span className="flex-shrink-0 text-muted-foreground">
+            <span className="text-green-600 dark:text-green-400">+{added}</span>{" "}
+            <span className="text-destructive">-{removed}</span>
+          </span>
+        </button>
+        {done ? <span className="text-muted-foreground">{done}</span> : children}
+      </div>
+      {open && (
+        <div className="border-t border-border/50">
+          <DiffEditor
+            height={getDiffHeight(change)}
+            original={change.before ?? ""}
+            modified={change.after ?? ""}
+            language={getLanguageFromPath(change.path)}
+            theme={resolvedTheme === "dark" ? "vs-dark" : "light"}
+            options={{
+              readOnly: true,
+              renderSideBySide: false,
+              minimap: { enabled: false },
+              scrollBeyondLastLine: false,
+              automaticLayout: true,
+              fontSize: 12,
+              fontFamily: 'var(--font-geist-mono), ui-monospace, monospace',
+              hideUnchangedRegions: { enabled: true },
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
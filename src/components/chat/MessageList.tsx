@@ -7,10 +7,13 @@ import { User, Bot, Loader2, Sparkles } from "lucide-react";
 import { MarkdownRenderer } from "./MarkdownRenderer";
 import { getToolDisplayName } from "@/lib/utils/tool-display";
 import { LOADING_MESSAGES } from "@/lib/design-tokens";
+import type { FileChange } from "@/lib/turn-changes";
+import { TurnChanges } from "./TurnChanges";
 
 interface MessageListProps {
   messages: UIMessage[];
   isLoading?: boolean;
+  turnChanges?: Record<string, FileChange[]>; // Files changed by each assistant message, by ID
 }
 
 // Part type for rendering - supports both v6 parts and legacy content
@@ -78,7 +81,7 @@ function hasVisibleContent(message: UIMessage): boolean {
   });
 }
 
-export function MessageList({ messages, isLoading }: MessageListProps) {
+export function MessageList({ messages, isLoading, turnChanges }: MessageListProps) {
   // Rotating loading messages for better UX
   const [loadingMsgIndex, setLoadingMsgIndex] = useState(0);
 
@@ -118,8 +121,9 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
           // unless it's the last message and we're loading (show loading state)
           const isLastMessage = index === messages.length - 1;
           const showLoadingState = isLoading && isLastMessage && message.role === "assistant";
+          const changes = message.role === "assistant" ? turnChanges?.[message.id] : undefined;
 
-          if (!hasVisibleContent(message) && !showLoadingState) {
+          if (!hasVisibleContent(message) && !showLoadingState && !changes) {
             return null;
           }
 
@@ -211,6 +215,7 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
 
                     return null;
                   })}
+                  {changes && <TurnChanges changes={changes} />}
                   {isLoading &&
                     message.role === "assistant" &&
                     messages.indexOf(message) === messages.length - 1 && (
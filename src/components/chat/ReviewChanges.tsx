@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { Check, ChevronDown, ChevronRight, Eye, X } from "lucide-react";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useChat } from "@/lib/contexts/chat-context";
+import { useToast } from "@/components/ui/toast";
+import { FileChangeRow } from "./FileChangeRow";
+
+// Review mode toggle, and the AI's staged edits with accept and reject per file or all
+export function ReviewChanges() {
+  const { getStagedChanges } = useFileSystem();
+  const { reviewChanges, setReviewChanges, acceptChanges, rejectChanges, status } = useChat();
+  const { error: toastError } = useToast();
+  const [open, setOpen] = useState(true);
+  const changes = getStagedChanges();
+  // The AI may still be editing the staged files
+  const busy = status === "submitted" || status === "streaming";
+
+  const accept = async (paths?: string[]) => {
+    const result = await acceptChanges(paths);
+    if (!result.success) {
+      toastError("Failed to save accepted changes", result.error || "An error occurred");
+    }
+  };
+
+  return (
+    <div className="mb-2 text-xs">
+      {changes.length > 0 && (
+        <div className="mb-2 rounded-lg border border-primary/30 bg-secondary/50 overflow-hidden">
+          <div className="flex items-center gap-2 px-3 py-2">
+            <button
+              onClick={() => setOpen(!open)}
+              className="flex-1 flex items-center gap-2 text-left font-medium text-foreground"
+              aria-expanded={open}
+            >
+              {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+              {changes.length === 1 ? "1 file awaiting review" : `${changes.length} files awaiting review`}
+            </button>
+            <button
+              onClick={() => rejectChanges()}
+              disabled={busy}
+              className="flex items-center gap-1 px-2 py-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors disabled:opacity-40"
+            >
+              <X className="h-3 w-3" />
+              Reject all
+            </button>
+            <button
+              onClick={() => accept()}
+              disabled={busy}
+              className="flex items-center gap-1 px-2 py-1 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-40"
+            >
+              <Check className="h-3 w-3" />
+              Accept all
+            </button>
+          </div>
+          {open && (
+            <div className="max-h-80 overflow-y-auto">
+              {changes.map((change) => (
+                <FileChangeRow key={change.path} change={change}>
+                  <button
+                    onClick={() => rejectChanges([change.path])}
+                    disabled={busy}
+                    className="p-0.5 rounded text-muted-foreground hover:text-destructive hover:bg-muted disabled:opacity-40"
+                    aria-label={`Reject ${change.path}`}
+                    title="Discard this edit"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    onClick={() => accept([change.path])}
+                    disabled={busy}
+                    className="p-0.5 rounded text-muted-foreground hover:text-green-600 hover:bg-muted disabled:opacity-40"
+                    aria-label={`Accept ${change.path}`}
+                    title="Apply this edit to the project"
+                  >
+                    <Check className="h-3.5 w-3.5" />
+                  </button>
+                </FileChangeRow>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      <div className="flex justify-end">
+        <button
+          onClick={() => setReviewChanges(!reviewChanges)}
+          className={`flex items-center gap-1 px-1.5 py-0.5 rounded-md transition-colors ${
+            reviewChanges
+              ? "bg-foreground text-background"
+              : "text-muted-foreground hover:text-foreground hover:bg-muted"
+          }`}
+          aria-pressed={reviewChanges}
+          title="Stage the AI's edits for you to accept or reject; the preview shows them meanwhile"
+        >
+          <Eye className="h-3.5 w-3.5" />
+          Review changes
+        </button>
+      </div>
+    </div>
+  );
+}
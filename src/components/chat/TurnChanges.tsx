@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronRight, FileDiff, Undo2 } from "lucide-react";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { isChangeReverted, type FileChange } from "@/lib/turn-changes";
+import { FileChangeRow } from "./FileChangeRow";
+
+interface TurnChangesProps {
+  changes: FileChange[];
+}
+
+// Files changed by one assistant response, with per-file and whole-turn revert
+export function TurnChanges({ changes }: TurnChangesProps) {
+  const { fileSystem, stagedFileSystem, revertChanges } = useFileSystem();
+  const [open, setOpen] = useState(false);
+  // While edits await review, turns are compared with (and reverted in) the staged files
+  const files = stagedFileSystem ?? fileSystem;
+  const pending = changes.filter((change) => !isChangeReverted(change, files.readFile(change.path)));
+
+  return (
+    <div className="mt-3 rounded-lg border border-border/50 bg-secondary/50 text-xs overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <button
+          onClick={() => setOpen(!open)}
+          className="flex-1 flex items-center gap-2 text-left font-medium text-foreground"
+          aria-expanded={open}
+        >
+          {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+          <FileDiff className="h-3.5 w-3.5 text-muted-foreground" />
+          {changes.length === 1 ? "1 file changed" : `${changes.length} files changed`}
+        </button>
+        {pending.length > 0 && (
+          <button
+            onClick={() => revertChanges(pending)}
+            className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+            title="Restore every file this response changed"
+          >
+            <Undo2 className="h-3 w-3" />
+            Revert turn
+          </button>
+        )}
+      </div>
+      {open &&
+        changes.map((change) => (
+          <FileChangeRow
+            key={change.path}
+            change={change}
+            done={pending.includes(change) ? undefined : "Reverted"}
+          >
+            <button
+              onClick={() => revertChanges([change])}
+              className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+              aria-label={`Revert ${change.path}`}
+              title="Restore this file as it was before this response"
+            >
+              <Undo2 className="h-3 w-3" />
+              Revert
+            </button>
+          </FileChangeRow>
+        ))}
+    </div>
+  );
+}
@@ -55,6 +55,10 @@ vi.mock("../MessageList", () => ({
   ),
 }));
 
+vi.mock("../ReviewChanges", () => ({
+  ReviewChanges: () => null,
+}));
+
 vi.mock("../MessageInput", () => ({
   MessageInput: ({ input, handleInputChange, handleSubmit, isLoading }: any) => (
     <div data-testid="message-input">
@@ -8,6 +8,12 @@ vi.mock("../MarkdownRenderer", () => ({
   MarkdownRenderer: ({ content }: { content: string }) => <div>{content}</div>,
 }));
 
+vi.mock("../TurnChanges", () => ({
+  TurnChanges: ({ changes }: { changes: unknown[] }) => (
+    <div data-testid="turn-changes">{changes.length} changes</div>
+  ),
+}));
+
 // Mock lucide-react icons
 vi.mock("lucide-react", () => ({
   User: ({ className }: { className?: string }) => (
@@ -313,3 +319,20 @@ test("MessageList shows loading for assistant message with empty parts", () => {
   );
   expect(generatingElements).toHaveLength(1);
 });
+
+test("MessageList shows the files an assistant message changed", () => {
+  const messages: UIMessage[] = [
+    createMessage({
+      id: "1",
+      role: "assistant",
+      parts: [{ type: "tool-str_replace_editor", toolCallId: "t1", state: "output-available", input: { command: "create", path: "/App.jsx" } } as any],
+    }),
+  ];
+  const turnChanges = {
+    "1": [{ path: "/App.jsx", status: "added" as const, before: null, after: "app" }],
+  };
+
+  render(<MessageList messages={messages} turnChanges={turnChanges} />);
+
+  expect(screen.getByTestId("turn-changes").textContent).toBe("1 changes");
+});
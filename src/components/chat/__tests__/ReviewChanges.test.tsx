@@ -0,0 +1,103 @@
+import { test, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, cleanup, waitFor } from "@testing-library/react";
+import { ReviewChanges } from "../ReviewChanges";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useChat } from "@/lib/contexts/chat-context";
+import type { FileChange } from "@/lib/turn-changes";
+
+vi.mock("@/lib/contexts/file-system-context");
+vi.mock("@/lib/contexts/chat-context", () => ({
+  useChat: vi.fn(),
+}));
+
+const toastError = vi.fn();
+vi.mock("@/components/ui/toast", () => ({
+  useToast: () => ({ error: toastError }),
+}));
+
+vi.mock("../FileChangeRow", () => ({
+  FileChangeRow: ({ change, children }: { change: FileChange; children: React.ReactNode }) => (
+    <div>
+      {change.path}
+      {children}
+    </div>
+  ),
+}));
+
+afterEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+});
+
+const setReviewChanges = vi.fn();
+const acceptChanges = vi.fn();
+const rejectChanges = vi.fn();
+
+const changes: FileChange[] = [
+  { path: "/App.jsx", status: "modified", before: "app", after: "app v2" },
+  { path: "/Button.jsx", status: "added", before: null, after: "button" },
+];
+
+function setup({ staged = changes, reviewChanges = true, status = "ready" } = {}) {
+  (useFileSystem as any).mockReturnValue({ getStagedChanges: () => staged });
+  (useChat as any).mockReturnValue({
+    reviewChanges,
+    setReviewChanges,
+    acceptChanges,
+    rejectChanges,
+    status,
+  });
+  acceptChanges.mockResolvedValue({ success: true });
+  render(<ReviewChanges />);
+}
+
+test("toggles review mode", () => {
+  setup({ staged: [], reviewChanges: false });
+
+  const toggle = screen.getByText("Review changes").closest("button")!;
+  expect(toggle.getAttribute("aria-pressed")).toBe("false");
+  expect(screen.queryByText(/awaiting review/)).toBeNull();
+
+  fireEvent.click(toggle);
+  expect(setReviewChanges).toHaveBeenCalledWith(true);
+});
+
+test("lists staged files with accept and reject for each", () => {
+  setup();
+
+  expect(screen.getByText("2 files awaiting review")).toBeDefined();
+
+  fireEvent.click(screen.getByLabelText("Accept /App.jsx"));
+  expect(acceptChanges).toHaveBeenCalledWith(["/App.jsx"]);
+
+  fireEvent.click(screen.getByLabelText("Reject /Button.jsx"));
+  expect(rejectChanges).toHaveBeenCalledWith(["/Button.jsx"]);
+});
+
+test("accepts or rejects the whole turn", () => {
+  setup();
+
+  fireEvent.click(screen.getByText("Accept all"));
+  expect(acceptChanges).toHaveBeenCalledWith(undefined);
+
+  fireEvent.click(screen.getByText("Reject all"));
+  expect(rejectChanges).toHaveBeenCalledWith();
+});
+
+test("waits for the AI to finish before accepting", () => {
+  setup({ status: "streaming" });
+
+  expect((screen.getByText("Accept all").closest("button") as HTMLButtonElement).disabled).toBe(true);
+  expect((screen.getByLabelText("Reject /App.jsx") as HTMLButtonElement).disabled).toBe(true);
+});
+
+test("reports a failed save", async () => {
+  setup();
+  acceptChanges.mockResolvedValue({ success: false, error: "Not authenticated" });
+
+  fireEvent.click(screen.getByText("Accept all"));
+
+  await waitFor(() => {
+    expect(toastError).toHaveBeenCalledWith("Failed to save accepted changes", "Not authenticated");
+  });
+});
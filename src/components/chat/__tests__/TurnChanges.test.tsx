@@ -0,0 +1,101 @@
+import { test, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { TurnChanges } from "../TurnChanges";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import type { FileChange } from "@/lib/turn-changes";
+
+vi.mock("@/lib/contexts/file-system-context");
+
+vi.mock("next-themes", () => ({
+  useTheme: () => ({ resolvedTheme: "light" }),
+}));
+
+vi.mock("@monaco-editor/react", () => ({
+  DiffEditor: ({ original, modified, language }: any) => (
+    <div data-testid="diff-editor" data-language={language}>
+      {original} =&gt; {modified}
+    </div>
+  ),
+}));
+
+afterEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+});
+
+const revertChanges = vi.fn();
+
+const changes: FileChange[] = [
+  { path: "/App.jsx", status: "modified", before: "old app", after: "new app" },
+  { path: "/components/Card.jsx", status: "added", before: null, after: "card" },
+];
+
+const fileSystemOf = (files: Record<string, string>) => ({
+  readFile: (path: string) => files[path] ?? null,
+});
+
+function setup(files: Record<string, string>, stagedFiles?: Record<string, string>) {
+  (useFileSystem as any).mockReturnValue({
+    fileSystem: fileSystemOf(files),
+    stagedFileSystem: stagedFiles ? fileSystemOf(stagedFiles) : null,
+    revertChanges,
+  });
+  render(<TurnChanges changes={changes} />);
+}
+
+test("expands into the changed files", () => {
+  setup({ "/App.jsx": "new app", "/components/Card.jsx": "card" });
+
+  expect(screen.getByText("2 files changed")).toBeDefined();
+  expect(screen.queryByText("/App.jsx")).toBeNull();
+
+  fireEvent.click(screen.getByText("2 files changed"));
+
+  expect(screen.getByText("/App.jsx")).toBeDefined();
+  expect(screen.getByText("/components/Card.jsx")).toBeDefined();
+});
+
+test("shows a Monaco diff of a file's changes during the turn", () => {
+  setup({ "/App.jsx": "edited later", "/components/Card.jsx": "card" });
+  fireEvent.click(screen.getByText("2 files changed"));
+
+  fireEvent.click(screen.getByText("/App.jsx"));
+
+  const diff = screen.getByTestId("diff-editor");
+  expect(diff.textContent).toBe("old app => new app");
+  expect(diff.getAttribute("data-language")).toBe("javascript");
+});
+
+test("reverts a single file", () => {
+  setup({ "/App.jsx": "new app", "/components/Card.jsx": "card" });
+  fireEvent.click(screen.getByText("2 files changed"));
+
+  fireEvent.click(screen.getByLabelText("Revert /components/Card.jsx"));
+
+  expect(revertChanges).toHaveBeenCalledWith([changes[1]]);
+});
+
+test("reverts the files of the turn that aren't reverted yet", () => {
+  setup({ "/App.jsx": "old app", "/components/Card.jsx": "card" });
+  fireEvent.click(screen.getByText("2 files changed"));
+
+  expect(screen.getByText("Reverted")).toBeDefined();
+  expect(screen.queryByLabelText("Revert /App.jsx")).toBeNull();
+
+  fireEvent.click(screen.getByText("Revert turn"));
+
+  expect(revertChanges).toHaveBeenCalledWith([changes[1]]);
+});
+
+test("hides the turn revert once every file is reverted", () => {
+  setup({ "/App.jsx": "old app" });
+
+  expect(screen.queryByText("Revert turn")).toBeNull();
+});
+
+test("compares turns with the staged files while edits await review", () => {
+  // The turn's edits were staged; the project still has the old content
+  setup({ "/App.jsx": "old app" }, { "/App.jsx": "new app", "/components/Card.jsx": "card" });
+
+  expect(screen.getByText("Revert turn")).toBeDefined();
+});
@@ -1,58 +1,196 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
-import Editor from "@monaco-editor/react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import Editor, { type Monaco } from "@monaco-editor/react";
 import { useTheme } from "next-themes";
 import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useTypeCheck } from "@/lib/contexts/type-check-context";
+import { useEditorTabs } from "@/lib/contexts/editor-tabs-context";
+import {
+  MonacoProject,
+  configureTypeScript,
+  getLanguageFromPath,
+  getModelPath,
+  loadPackageTypings,
+  type MonacoInstance,
+} from "@/lib/typescript/monaco-project";
+import type { EditorPane } from "@/lib/editor-tabs";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { EditorTabBar } from "./EditorTabBar";
 import { Code2 } from "lucide-react";
 
-export function CodeEditor() {
-  const { selectedFile, getFileContent, updateFile } = useFileSystem();
-  const { resolvedTheme } = useTheme();
+interface CodeEditorProps {
+  readOnly?: boolean; // Used by public share pages
+  splittable?: boolean; // False on narrow screens
+}
+
+interface EditorPaneViewProps {
+  pane: EditorPane;
+  focused: boolean;
+  readOnly: boolean;
+  theme: string;
+  onMonacoReady: (monaco: Monaco) => void;
+  onFocus: () => void;
+  onSplit?: () => void;
+  onActivate: (path: string) => void;
+  onClose: (path: string) => void;
+  isModified: (path: string) => boolean;
+}
+
+// One pane: its tab bar and a Monaco editor showing the active tab
+function EditorPaneView({
+  pane,
+  focused,
+  readOnly,
+  theme,
+  onMonacoReady,
+  onFocus,
+  onSplit,
+  onActivate,
+  onClose,
+  isModified,
+}: EditorPaneViewProps) {
+  const { getFileContent, editorLocation, clearEditorLocation } = useFileSystem();
   const editorRef = useRef<any>(null);
+  const [editorReady, setEditorReady] = useState(false);
+
+  // Monaco's focus listener is registered once; keep it pointed at the current pane
+  const onFocusRef = useRef(onFocus);
+  onFocusRef.current = onFocus;
+
+  // Reveal a location opened from elsewhere (e.g. a preview error) once its file is shown
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editorReady || !editor || !focused || !editorLocation || editorLocation.path !== pane.active) {
+      return;
+    }
+
+    if (editorLocation.line) {
+      const position = { lineNumber: editorLocation.line, column: editorLocation.column ?? 1 };
+      editor.revealLineInCenter(position.lineNumber);
+      editor.setPosition(position);
+    }
+    editor.focus();
+    clearEditorLocation();
+  }, [editorReady, focused, editorLocation, pane.active, clearEditorLocation]);
+
+  const handleEditorWillMount = (monaco: Monaco) => {
+    configureTypeScript(monaco as MonacoInstance);
+  };
+
+  const handleEditorDidMount = (editor: any, monaco: Monaco) => {
+    editorRef.current = editor;
+    editor.onDidFocusEditorText(() => onFocusRef.current());
+    onMonacoReady(monaco);
+    setEditorReady(true);
+  };
+
+  return (
+    <div className="h-full flex flex-col" onMouseDown={onFocus}>
+      <EditorTabBar
+        pane={pane}
+        focused={focused}
+        isModified={isModified}
+        onActivate={onActivate}
+        onClose={onClose}
+        onSplit={onSplit}
+      />
+      <div className="flex-1 min-h-0">
+        {pane.active && (
+          <Editor
+            height="100%"
+            path={getModelPath(pane.active)}
+            language={getLanguageFromPath(pane.active)}
+            value={getFileContent(pane.active) || ''}
+            // Models belong to the MonacoProject, which disposes them
+            keepCurrentModel
+            beforeMount={handleEditorWillMount}
+            onMount={handleEditorDidMount}
+            theme={theme}
+            options={{
+              minimap: { enabled: false },
+              fontSize: 14,
+              lineNumbers: 'on',
+              roundedSelection: true,
+              scrollBeyondLastLine: false,
+              readOnly,
+              automaticLayout: true,
+              wordWrap: 'on',
+              padding: { top: 16, bottom: 16 },
+              fontFamily: 'var(--font-geist-mono), ui-monospace, monospace',
+              fontLigatures: true,
+              cursorBlinking: 'smooth',
+              cursorSmoothCaretAnimation: 'on',
+              smoothScrolling: true,
+              bracketPairColorization: { enabled: true },
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Tabbed editor, optionally split into two panes side by side
+export function CodeEditor({ readOnly = false, splittable = true }: CodeEditorProps = {}) {
+  const { getFileContent, getAllFiles, refreshTrigger, updateFile, openFile } = useFileSystem();
+  const { diagnostics } = useTypeCheck();
+  const { panes, focusedPane, activateTab, closeTab, focusPane, canSplit, split, isModified } =
+    useEditorTabs();
+  const { resolvedTheme } = useTheme();
+  const projectRef = useRef<MonacoProject | null>(null);
+  const [project, setProject] = useState<MonacoProject | null>(null);
   const [mounted, setMounted] = useState(false);
 
+  // Monaco calls back into the project long after mount; keep its handlers current
+  const handlersRef = useRef({ getFileContent, updateFile, openFile, readOnly });
+  handlersRef.current = { getFileContent, updateFile, openFile, readOnly };
+
   // Avoid hydration mismatch
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  const handleEditorDidMount = (editor: any) => {
-    editorRef.current = editor;
-  };
+  useEffect(() => {
+    return () => {
+      project?.dispose();
+      projectRef.current = null;
+    };
+  }, [project]);
 
-  const handleEditorChange = (value: string | undefined) => {
-    if (selectedFile && value !== undefined) {
-      updateFile(selectedFile, value);
-    }
-  };
+  // Every file is a model, so navigation and rename work across the project
+  useEffect(() => {
+    project?.sync(getAllFiles());
+  }, [project, getAllFiles, refreshTrigger]);
 
-  const getLanguageFromPath = (path: string): string => {
-    const extension = path.split('.').pop()?.toLowerCase();
-    switch (extension) {
-      case 'js':
-      case 'jsx':
-        return 'javascript';
-      case 'ts':
-      case 'tsx':
-        return 'typescript';
-      case 'json':
-        return 'json';
-      case 'css':
-        return 'css';
-      case 'html':
-        return 'html';
-      case 'md':
-        return 'markdown';
-      default:
-        return 'plaintext';
-    }
-  };
+  useEffect(() => {
+    project?.setDiagnostics(diagnostics);
+  }, [project, diagnostics]);
+
+  // The first pane's editor sets up the project; both panes share its models
+  const handleMonacoReady = useCallback((monaco: Monaco) => {
+    if (projectRef.current) return;
+    loadPackageTypings(monaco as MonacoInstance).catch((error) => {
+      console.error("Failed to load React typings for the editor:", error);
+    });
+    projectRef.current = new MonacoProject(monaco as MonacoInstance, {
+      // Edits Monaco makes (typing, renames, auto-imports) go back to the file system
+      onEdit: (path, content) => {
+        const { getFileContent, updateFile, readOnly } = handlersRef.current;
+        if (!readOnly && getFileContent(path) !== content) {
+          updateFile(path, content);
+        }
+      },
+      // Go to definition in another file opens it in the focused pane
+      onOpen: (path, line, column) => handlersRef.current.openFile(path, line, column),
+    });
+    setProject(projectRef.current);
+  }, []);
 
   // Determine editor theme based on app theme
   const editorTheme = mounted && resolvedTheme === 'dark' ? 'vs-dark' : 'light';
 
-  if (!selectedFile) {
+  if (panes.every((pane) => !pane.active)) {
     return (
       <div className="h-full flex items-center justify-center bg-card">
         <div className="text-center">
@@ -60,7 +198,7 @@ export function CodeEditor() {
             <Code2 className="h-7 w-7 text-primary/60" />
           </div>
           <p className="text-sm font-medium text-foreground">
-            Select a file to edit
+            {readOnly ? "Select a file to view" : "Select a file to edit"}
           </p>
           <p className="text-xs text-muted-foreground mt-1">
             Choose a file from the file tree
@@ -70,36 +208,35 @@ export function CodeEditor() {
     );
   }
 
-  const content = getFileContent(selectedFile) || '';
-  const language = getLanguageFromPath(selectedFile);
+  const renderPane = (pane: EditorPane, index: number) => (
+    <EditorPaneView
+      pane={pane}
+      focused={index === focusedPane}
+      readOnly={readOnly}
+      theme={editorTheme}
+      onMonacoReady={handleMonacoReady}
+      onFocus={() => focusPane(index)}
+      // The split button sits on the last pane
+      onSplit={splittable && canSplit && index === panes.length - 1 ? split : undefined}
+      onActivate={(path) => activateTab(index, path)}
+      onClose={(path) => closeTab(index, path)}
+      isModified={isModified}
+    />
+  );
+
+  if (panes.length === 1) {
+    return <div className="h-full w-full">{renderPane(panes[0], 0)}</div>;
+  }
 
   return (
-    <div className="h-full w-full">
-      <Editor
-        height="100%"
-        language={language}
-        value={content}
-        onChange={handleEditorChange}
-        onMount={handleEditorDidMount}
-        theme={editorTheme}
-        options={{
-          minimap: { enabled: false },
-          fontSize: 14,
-          lineNumbers: 'on',
-          roundedSelection: true,
-          scrollBeyondLastLine: false,
-          readOnly: false,
-          automaticLayout: true,
-          wordWrap: 'on',
-          padding: { top: 16, bottom: 16 },
-          fontFamily: 'var(--font-geist-mono), ui-monospace, monospace',
-          fontLigatures: true,
-          cursorBlinking: 'smooth',
-          cursorSmoothCaretAnimation: 'on',
-          smoothScrolling: true,
-          bracketPairColorization: { enabled: true },
-        }}
-      />
-    </div>
+    <ResizablePanelGroup direction="horizontal" className="h-full w-full">
+      <ResizablePanel defaultSize={50} minSize={20}>
+        {renderPane(panes[0], 0)}
+      </ResizablePanel>
+      <ResizableHandle className="w-1 bg-border/50 hover:bg-primary/50 transition-all" />
+      <ResizablePanel defaultSize={50} minSize={20}>
+        {renderPane(panes[1], 1)}
+      </ResizablePanel>
+    </ResizablePanelGroup>
   );
 }
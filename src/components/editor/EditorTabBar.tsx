@@ -0,0 +1,88 @@
+"use client";
+
+import { Columns2, X } from "lucide-react";
+import type { EditorPane } from "@/lib/editor-tabs";
+
+interface EditorTabBarProps {
+  pane: EditorPane;
+  focused: boolean; // Only the focused pane highlights its active tab
+  isModified: (path: string) => boolean;
+  onActivate: (path: string) => void;
+  onClose: (path: string) => void;
+  onSplit?: () => void; // Shown when another pane can be opened
+}
+
+function getFileName(path: string): string {
+  return path.split("/").pop() || path;
+}
+
+// Open files of one editor pane; middle-click closes a tab
+export function EditorTabBar({
+  pane,
+  focused,
+  isModified,
+  onActivate,
+  onClose,
+  onSplit,
+}: EditorTabBarProps) {
+  return (
+    <div className="h-9 flex items-stretch border-b border-border/50 bg-muted/30 flex-shrink-0">
+      <div className="flex-1 flex items-stretch overflow-x-auto" role="tablist">
+        {pane.tabs.map((path) => {
+          const active = path === pane.active;
+          const modified = isModified(path);
+          return (
+            <div
+              key={path}
+              role="tab"
+              aria-selected={active}
+              title={path}
+              onClick={() => onActivate(path)}
+              onMouseDown={(event) => {
+                // Keep the browser from starting autoscroll on middle-click
+                if (event.button === 1) event.preventDefault();
+              }}
+              onAuxClick={(event) => {
+                if (event.button === 1) onClose(path);
+              }}
+              className={`group flex items-center gap-1.5 pl-3 pr-1.5 text-xs border-r border-border/50 cursor-pointer select-none whitespace-nowrap transition-colors ${
+                active
+                  ? `bg-card text-foreground ${focused ? "shadow-[inset_0_-2px_0_var(--primary)]" : ""}`
+                  : "text-muted-foreground hover:text-foreground hover:bg-muted/50"
+              }`}
+            >
+              <span className={modified ? "italic" : undefined}>{getFileName(path)}</span>
+              {modified && (
+                <span
+                  className="h-1.5 w-1.5 rounded-full bg-primary"
+                  aria-label="Modified since last viewed"
+                  title="Changed since you last viewed it"
+                />
+              )}
+              <button
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onClose(path);
+                }}
+                className={`p-0.5 rounded hover:bg-muted ${active ? "" : "opacity-0 group-hover:opacity-100"}`}
+                aria-label={`Close ${getFileName(path)}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      {onSplit && (
+        <button
+          onClick={onSplit}
+          className="px-2 text-muted-foreground hover:text-foreground hover:bg-muted transition-colors flex-shrink-0"
+          aria-label="Split editor"
+          title="Split editor"
+        >
+          <Columns2 className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronUp, ListChecks, Loader2 } from "lucide-react";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useTypeCheck } from "@/lib/contexts/type-check-context";
+
+// Collapsible list of the type checker's diagnostics; clicking one opens its location
+export function ProblemsPanel() {
+  const { openFile } = useFileSystem();
+  const { diagnostics, checking } = useTypeCheck();
+  const [open, setOpen] = useState(false);
+  const errorCount = diagnostics.filter((diagnostic) => diagnostic.severity === "error").length;
+  const warningCount = diagnostics.length - errorCount;
+
+  return (
+    <div className="border-t border-border/50 bg-card text-xs flex-shrink-0">
+      <div className="h-8 px-3 flex items-center gap-2">
+        <button
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-1.5 text-muted-foreground hover:text-foreground transition-colors"
+          aria-expanded={open}
+        >
+          <ListChecks className="h-3.5 w-3.5" />
+          Problems
+          {errorCount > 0 && (
+            <span className="flex items-center gap-0.5 text-destructive">
+              <AlertCircle className="h-3 w-3" />
+              {errorCount}
+            </span>
+          )}
+          {warningCount > 0 && (
+            <span className="flex items-center gap-0.5 text-amber-600">
+              <AlertTriangle className="h-3 w-3" />
+              {warningCount}
+            </span>
+          )}
+          {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronUp className="h-3.5 w-3.5" />}
+        </button>
+        {checking && (
+          <span className="ml-auto flex items-center gap-1 text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Checking types
+          </span>
+        )}
+      </div>
+      {open && (
+        <div className="max-h-48 overflow-auto border-t border-border/50 font-mono">
+          {diagnostics.length === 0 ? (
+            <p className="px-3 py-2 text-muted-foreground font-sans">No problems in TypeScript files</p>
+          ) : (
+            diagnostics.map((diagnostic, index) => (
+              <button
+                key={`${diagnostic.path}:${diagnostic.line}:${diagnostic.column}:${index}`}
+                onClick={() => openFile(diagnostic.path, diagnostic.line, diagnostic.column)}
+                className={`w-full flex gap-2 px-3 py-1 border-b border-border/30 text-left hover:bg-muted/50 ${
+                  diagnostic.severity === "error" ? "text-destructive" : "text-amber-600"
+                }`}
+                title="Open in editor"
+              >
+                {diagnostic.severity === "error" ? (
+                  <AlertCircle className="h-3.5 w-3.5 flex-shrink-0 mt-px" />
+                ) : (
+                  <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 mt-px" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="whitespace-pre-wrap break-words text-foreground">{diagnostic.message}</div>
+                  <div className="text-muted-foreground">
+                    {diagnostic.path}:{diagnostic.line}:{diagnostic.column} · TS{diagnostic.code}
+                  </div>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
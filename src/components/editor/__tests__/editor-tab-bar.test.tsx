@@ -0,0 +1,78 @@
+import { test, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { EditorTabBar } from "@/components/editor/EditorTabBar";
+
+afterEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+});
+
+const onActivate = vi.fn();
+const onClose = vi.fn();
+const onSplit = vi.fn();
+
+function setup({ modified = [] as string[], splittable = true } = {}) {
+  render(
+    <EditorTabBar
+      pane={{ tabs: ["/App.jsx", "/components/Card.jsx"], active: "/App.jsx" }}
+      focused
+      isModified={(path) => modified.includes(path)}
+      onActivate={onActivate}
+      onClose={onClose}
+      onSplit={splittable ? onSplit : undefined}
+    />
+  );
+}
+
+test("shows a tab per open file with the active one selected", () => {
+  setup();
+
+  const tabs = screen.getAllByRole("tab");
+  expect(tabs.map((tab) => tab.textContent)).toEqual(["App.jsx", "Card.jsx"]);
+  expect(tabs[0].getAttribute("aria-selected")).toBe("true");
+  expect(tabs[1].getAttribute("title")).toBe("/components/Card.jsx");
+});
+
+test("activates a tab on click", () => {
+  setup();
+
+  fireEvent.click(screen.getByText("Card.jsx"));
+
+  expect(onActivate).toHaveBeenCalledWith("/components/Card.jsx");
+});
+
+test("closes a tab on middle-click", () => {
+  setup();
+
+  fireEvent(screen.getByText("Card.jsx").closest("[role=tab]")!, new MouseEvent("auxclick", { bubbles: true, button: 1 }));
+
+  expect(onClose).toHaveBeenCalledWith("/components/Card.jsx");
+  expect(onActivate).not.toHaveBeenCalled();
+});
+
+test("closes a tab with its close button without activating it", () => {
+  setup();
+
+  fireEvent.click(screen.getByLabelText("Close Card.jsx"));
+
+  expect(onClose).toHaveBeenCalledWith("/components/Card.jsx");
+  expect(onActivate).not.toHaveBeenCalled();
+});
+
+test("marks files modified since last viewed", () => {
+  setup({ modified: ["/components/Card.jsx"] });
+
+  const indicators = screen.getAllByLabelText("Modified since last viewed");
+  expect(indicators).toHaveLength(1);
+  expect(indicators[0].closest("[role=tab]")?.getAttribute("title")).toBe("/components/Card.jsx");
+});
+
+test("shows the split button only when splitting is possible", () => {
+  setup();
+  fireEvent.click(screen.getByLabelText("Split editor"));
+  expect(onSplit).toHaveBeenCalled();
+
+  cleanup();
+  setup({ splittable: false });
+  expect(screen.queryByLabelText("Split editor")).toBeNull();
+});
@@ -0,0 +1,70 @@
+import { test, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { ProblemsPanel } from "@/components/editor/ProblemsPanel";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useTypeCheck } from "@/lib/contexts/type-check-context";
+
+vi.mock("@/lib/contexts/file-system-context");
+vi.mock("@/lib/contexts/type-check-context");
+
+afterEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+});
+
+const openFile = vi.fn();
+
+function setup(diagnostics: any[], checking = false) {
+  (useFileSystem as any).mockReturnValue({ openFile });
+  (useTypeCheck as any).mockReturnValue({ diagnostics, checking });
+  render(<ProblemsPanel />);
+}
+
+const diagnostics = [
+  {
+    path: "/components/Card.tsx",
+    line: 4,
+    column: 10,
+    endLine: 4,
+    endColumn: 15,
+    message: "Type 'number' is not assignable to type 'string'.",
+    code: 2322,
+    severity: "error",
+  },
+  {
+    path: "/App.tsx",
+    line: 1,
+    column: 1,
+    endLine: 1,
+    endColumn: 5,
+    message: "'React' is declared but its value is never read.",
+    code: 6133,
+    severity: "warning",
+  },
+];
+
+test("shows error and warning counts", () => {
+  setup(diagnostics);
+
+  const toggle = screen.getByRole("button", { name: /Problems/ });
+  expect(toggle.textContent).toContain("1");
+  expect(screen.queryByText(diagnostics[0].message)).toBeNull();
+});
+
+test("lists diagnostics and opens their location", () => {
+  setup(diagnostics);
+  fireEvent.click(screen.getByRole("button", { name: /Problems/ }));
+
+  expect(screen.getByText("/components/Card.tsx:4:10 · TS2322")).toBeDefined();
+  fireEvent.click(screen.getByText(diagnostics[0].message));
+
+  expect(openFile).toHaveBeenCalledWith("/components/Card.tsx", 4, 10);
+});
+
+test("shows an empty state and a running check", () => {
+  setup([], true);
+  fireEvent.click(screen.getByRole("button", { name: /Problems/ }));
+
+  expect(screen.getByText("No problems in TypeScript files")).toBeDefined();
+  expect(screen.getByText("Checking types")).toBeDefined();
+});
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { MessageSquare, Code, Eye, Menu, X, Sparkles } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
@@ -8,15 +8,19 @@ import { ChatInterface } from "@/components/chat/ChatInterface";
 import { PreviewFrame } from "@/components/preview/PreviewFrame";
 import { CodeEditor } from "@/components/editor/CodeEditor";
 import { FileTree } from "@/components/editor/FileTree";
+import { ProblemsPanel } from "@/components/editor/ProblemsPanel";
 import { ProjectList } from "@/components/projects/ProjectList";
+import { ProjectHistory } from "@/components/projects/ProjectHistory";
 import { HeaderActions } from "@/components/HeaderActions";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
 
 interface Project {
   id: string;
   name: string;
   createdAt: Date;
   updatedAt: Date;
+  forkedFrom?: { isOwn: true; id: string; name: string } | { isOwn: false } | null; // Source project of a fork; only the user's own sources are named
 }
 
 interface MobileLayoutProps {
@@ -35,12 +39,19 @@ interface MobileLayoutProps {
     updatedAt: Date;
   };
   projects?: Project[];
+  historyVersion?: number; // Reloads the history panel when changed, as on desktop
 }
 
-export function MobileLayout({ user, project, projects = [] }: MobileLayoutProps) {
+export function MobileLayout({ user, project, projects = [], historyVersion }: MobileLayoutProps) {
   const [activeView, setActiveView] = useState<"chat" | "preview" | "code">("chat");
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [showFileTree, setShowFileTree] = useState(false);
+  const { editorLocation } = useFileSystem();
+
+  // Opening a file location (e.g. from a preview error) shows the code view
+  useEffect(() => {
+    if (editorLocation) setActiveView("code");
+  }, [editorLocation]);
 
   return (
     <div id="main-content" className="h-screen w-screen flex flex-col bg-background">
@@ -107,9 +118,10 @@ export function MobileLayout({ user, project, projects = [] }: MobileLayoutProps
                 </div>
               )}
               <div className="flex-1 overflow-hidden">
-                <CodeEditor />
+                <CodeEditor splittable={false} />
               </div>
             </div>
+            <ProblemsPanel />
           </TabsContent>
         </div>
 
@@ -162,11 +174,14 @@ export function MobileLayout({ user, project, projects = [] }: MobileLayoutProps
                 <X className="h-5 w-5" />
               </Button>
             </div>
-            <div className="h-[calc(100%-57px)] overflow-hidden">
-              <ProjectList
-                projects={projects}
-                currentProjectId={project?.id}
-              />
+            <div className="h-[calc(100%-57px)] overflow-hidden flex flex-col">
+              <div className="flex-1 min-h-0">
+                <ProjectList
+                  projects={projects}
+                  currentProjectId={project?.id}
+                />
+              </div>
+              {project && <ProjectHistory projectId={project.id} refreshKey={historyVersion} />}
             </div>
           </div>
         </>
@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  AlertCircle,
+  AlertTriangle,
+  ChevronDown,
+  ChevronUp,
+  Globe,
+  Info,
+  Terminal,
+  Trash2,
+  Wand2,
+  FileCode,
+} from "lucide-react";
+import {
+  isFixableEntry,
+  type ConsoleLevel,
+  type PreviewConsoleEntry,
+} from "@/lib/preview/console-bridge";
+
+interface ConsolePanelProps {
+  entries: PreviewConsoleEntry[];
+  onClear: () => void;
+  onAskFix?: (entry: PreviewConsoleEntry) => void; // Send the error to the AI (omitted in read-only previews)
+  canAskFix?: boolean; // False while the AI is responding
+  autoRepair?: boolean;
+  onAutoRepairChange?: (enabled: boolean) => void; // Omitted in read-only previews
+  onOpenLocation: (entry: PreviewConsoleEntry) => void; // Open the entry's file and line in the editor
+}
+
+const LEVEL_STYLES: Record<ConsoleLevel, string> = {
+  log: "text-foreground",
+  info: "text-foreground",
+  debug: "text-muted-foreground",
+  warn: "text-amber-600 bg-amber-500/5",
+  error: "text-destructive bg-destructive/5",
+};
+
+// "/components/Card.jsx:12:5", or just the path when the line is unknown
+function formatLocation({ path, line, column }: PreviewConsoleEntry): string {
+  if (!line) return path ?? "";
+  return column ? `${path}:${line}:${column}` : `${path}:${line}`;
+}
+
+function EntryIcon({ entry }: { entry: PreviewConsoleEntry }) {
+  const className = "h-3.5 w-3.5 flex-shrink-0 mt-px";
+  if (entry.kind === "network") return <Globe className={className} />;
+  if (entry.kind === "build") return <FileCode className={className} />;
+  if (entry.level === "error") return <AlertCircle className={className} />;
+  if (entry.level === "warn") return <AlertTriangle className={className} />;
+  if (entry.level === "info") return <Info className={className} />;
+  return <span className="w-3.5 flex-shrink-0" />;
+}
+
+// Collapsible log of build errors, console output, errors and fetch calls from the preview
+export function ConsolePanel({
+  entries,
+  onClear,
+  onAskFix,
+  canAskFix,
+  autoRepair,
+  onAutoRepairChange,
+  onOpenLocation,
+}: ConsolePanelProps) {
+  const [open, setOpen] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+  const errorCount = entries.filter((entry) => entry.level === "error").length;
+  const warningCount = entries.filter((entry) => entry.level === "warn").length;
+
+  // Build errors stop the preview from running, so show them and their fix buttons
+  useEffect(() => {
+    if (entries.some((entry) => entry.kind === "build")) setOpen(true);
+  }, [entries]);
+
+  // Keep the newest entry in view
+  useEffect(() => {
+    if (open && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [entries, open]);
+
+  return (
+    <div className="border-t border-border/50 bg-card text-xs flex-shrink-0">
+      <div className="h-8 px-3 flex items-center gap-2">
+        <button
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-1.5 text-muted-foreground hover:text-foreground transition-colors"
+          aria-expanded={open}
+        >
+          <Terminal className="h-3.5 w-3.5" />
+          Console
+          {errorCount > 0 && (
+            <span className="flex items-center gap-0.5 text-destructive">
+              <AlertCircle className="h-3 w-3" />
+              {errorCount}
+            </span>
+          )}
+          {warningCount > 0 && (
+            <span className="flex items-center gap-0.5 text-amber-600">
+              <AlertTriangle className="h-3 w-3" />
+              {warningCount}
+            </span>
+          )}
+          {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronUp className="h-3.5 w-3.5" />}
+        </button>
+        <span className="ml-auto" />
+        {onAutoRepairChange && (
+          <button
+            onClick={() => onAutoRepairChange(!autoRepair)}
+            className={`flex items-center gap-1 px-1.5 py-0.5 rounded-md transition-colors ${
+              autoRepair
+                ? "bg-foreground text-background"
+                : "text-muted-foreground hover:text-foreground hover:bg-muted"
+            }`}
+            aria-pressed={autoRepair}
+            title="Let the AI check its edits and fix build errors before finishing"
+          >
+            <Wand2 className="h-3.5 w-3.5" />
+            Auto-repair
+          </button>
+        )}
+        {open && (
+          <button
+            onClick={onClear}
+            disabled={entries.length === 0}
+            className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors disabled:opacity-40"
+            aria-label="Clear console"
+            title="Clear console"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+      {open && (
+        <div ref={listRef} className="max-h-48 overflow-auto border-t border-border/50 font-mono">
+          {entries.length === 0 ? (
+            <p className="px-3 py-2 text-muted-foreground font-sans">No console output</p>
+          ) : (
+            entries.map((entry) => (
+              <div
+                key={entry.id}
+                className={`flex gap-2 px-3 py-1 border-b border-border/30 ${LEVEL_STYLES[entry.level]}`}
+              >
+                <EntryIcon entry={entry} />
+                <div className="min-w-0 flex-1">
+                  {entry.path && (
+                    <button
+                      onClick={() => onOpenLocation(entry)}
+                      className="font-medium text-left hover:underline"
+                      title="Open in editor"
+                    >
+                      {formatLocation(entry)}
+                    </button>
+                  )}
+                  <div className="whitespace-pre-wrap break-words">{entry.message}</div>
+                  {entry.stack && (
+                    <details className="mt-0.5">
+                      <summary className="cursor-pointer text-muted-foreground">Stack trace</summary>
+                      <pre className="whitespace-pre-wrap break-words text-muted-foreground">
+                        {entry.stack}
+                      </pre>
+                    </details>
+                  )}
+                </div>
+                {onAskFix && isFixableEntry(entry) && (
+                  <button
+                    onClick={() => onAskFix(entry)}
+                    disabled={!canAskFix}
+                    className="self-start flex-shrink-0 flex items-center gap-1 px-1.5 py-0.5 rounded-md font-sans text-foreground border border-border bg-background hover:bg-muted transition-colors disabled:opacity-40"
+                  >
+                    <Wand2 className="h-3 w-3" />
+                    Ask AI to fix
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
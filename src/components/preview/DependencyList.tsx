@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Package, AlertTriangle } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { PREVIEW_RUNTIME_PATH } from "@/lib/preview/runtime-config";
+import type { PackageResolution } from "@/lib/transform/jsx-transformer";
+
+interface DependencyListProps {
+  packages: PackageResolution[];
+}
+
+// Installed versions of locally served packages; fetched once per page load
+let installedVersions: Promise<Record<string, string | null>> | null = null;
+
+function loadInstalledVersions() {
+  if (!installedVersions) {
+    installedVersions = fetch(`${PREVIEW_RUNTIME_PATH}/packages`)
+      .then((res) => (res.ok ? res.json() : { packages: {} }))
+      .then((data) => data.packages ?? {})
+      .catch(() => {
+        installedVersions = null; // Retry next time the list opens
+        return {};
+      });
+  }
+  return installedVersions;
+}
+
+// Third-party packages used by the preview, with the version each one resolves to
+export function DependencyList({ packages }: DependencyListProps) {
+  const [open, setOpen] = useState(false);
+  const [installed, setInstalled] = useState<Record<string, string | null>>({});
+  const problems = packages.filter(
+    (pkg) => pkg.source === "unlisted" || pkg.source === "unavailable"
+  ).length;
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    loadInstalledVersions().then((versions) => {
+      if (!cancelled) setInstalled(versions);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const describe = (pkg: PackageResolution) => {
+    switch (pkg.source) {
+      case "local":
+        return { resolved: installed[pkg.name] ?? "bundled", note: "Local" };
+      case "cdn":
+        return { resolved: pkg.version!, note: "esm.sh" };
+      case "unlisted":
+        return { resolved: "—", note: "Not in /package.json" };
+      case "unavailable":
+        return { resolved: "—", note: "Not available" };
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className={`flex items-center gap-1.5 px-2 py-1 rounded-md transition-colors hover:bg-muted ${
+            problems > 0 ? "text-destructive" : "text-muted-foreground hover:text-foreground"
+          }`}
+          aria-label="Packages"
+        >
+          {problems > 0 ? (
+            <AlertTriangle className="h-3.5 w-3.5" />
+          ) : (
+            <Package className="h-3.5 w-3.5" />
+          )}
+          Packages ({packages.length})
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-96 p-0 text-xs">
+        <div className="px-3 py-2 border-b border-border font-medium text-foreground">
+          Preview packages
+        </div>
+        <table className="w-full">
+          <thead className="text-muted-foreground">
+            <tr className="text-left">
+              <th className="px-3 py-1.5 font-normal">Package</th>
+              <th className="px-3 py-1.5 font-normal">Requested</th>
+              <th className="px-3 py-1.5 font-normal">Resolved</th>
+            </tr>
+          </thead>
+          <tbody>
+            {packages.map((pkg) => {
+              const { resolved, note } = describe(pkg);
+              const failed = pkg.source === "unlisted" || pkg.source === "unavailable";
+              return (
+                <tr key={pkg.name} className="border-t border-border/50">
+                  <td className="px-3 py-1.5 font-mono text-foreground">{pkg.name}</td>
+                  <td className="px-3 py-1.5 font-mono text-muted-foreground">
+                    {pkg.version ?? "—"}
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <span className="font-mono text-foreground">{resolved}</span>
+                    <span className={`ml-1.5 ${failed ? "text-destructive" : "text-muted-foreground"}`}>
+                      {note}
+                    </span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </PopoverContent>
+    </Popover>
+  );
+}
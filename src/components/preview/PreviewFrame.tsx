@@ -2,21 +2,106 @@
 
 import { useEffect, useRef, useState } from "react";
 import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useOptionalChat } from "@/lib/contexts/chat-context";
 import {
   createImportMap,
   createPreviewHTML,
+  createGalleryHTML,
+  createStoriesHTML,
+  discoverGalleryComponents,
+  discoverStoryFiles,
+  getComponentName,
+  type PackageResolution,
 } from "@/lib/transform/jsx-transformer";
-import { AlertCircle, Zap, MonitorSmartphone, Loader2 } from "lucide-react";
+import { AlertCircle, Zap, MonitorSmartphone, Loader2, AppWindow, LayoutGrid, BookOpen } from "lucide-react";
 import { PREVIEW_LOADING_MESSAGES } from "@/lib/design-tokens";
+import {
+  VIEWPORT_PRESETS,
+  SIDE_BY_SIDE_GAP,
+  getViewportSize,
+  getFitScale,
+  getSideBySideSize,
+  type ViewportSize,
+} from "@/lib/preview/viewport";
+import { ViewportControls, DEFAULT_VIEWPORT, type ViewportState } from "./ViewportControls";
+import { DependencyList } from "./DependencyList";
+import { ConsolePanel } from "./ConsolePanel";
+import {
+  MAX_CONSOLE_ENTRIES,
+  getModuleUrlPaths,
+  isFixableEntry,
+  isPreviewConsoleMessage,
+  mapStackToFiles,
+  type PreviewConsoleEntry,
+} from "@/lib/preview/console-bridge";
+import { buildFixRequest, getProblemLocation } from "@/lib/preview/fix-request";
+import { mapStackToSources, type SourceMap } from "@/lib/preview/source-map";
+import { TransformCache } from "@/lib/transform/transform-cache";
+import { TransformWorker } from "@/lib/transform/transform-worker";
+import { PREVIEW_BUILD } from "@/lib/constants";
+import {
+  HOT_UPDATE_MESSAGE,
+  getHotUpdate,
+  isHotStatusMessage,
+  type HotUpdateMessage,
+} from "@/lib/preview/hot-update";
+
+type PreviewMode = "app" | "gallery" | "stories";
 
-export function PreviewFrame() {
+// The editor's preview shares the app's origin so it can load blob URL modules; read-only
+// previews run other people's (or past) code, so they get an opaque origin and data URLs
+const PREVIEW_SANDBOX = "allow-scripts allow-same-origin allow-forms";
+const ISOLATED_PREVIEW_SANDBOX = "allow-scripts allow-forms";
+
+// Padding around fixed-size frames and the height of side-by-side labels, in CSS pixels
+const STAGE_PADDING = 16;
+const FRAME_LABEL_HEIGHT = 24;
+
+interface PreviewFrameProps {
+  // Previews of someone else's project or a past version: nothing is sent to the chat
+  readOnly?: boolean;
+}
+
+export function PreviewFrame({ readOnly = false }: PreviewFrameProps) {
   const iframeRef = useRef<HTMLIFrameElement>(null);
-  const { getAllFiles, refreshTrigger } = useFileSystem();
+  const stageRef = useRef<HTMLDivElement>(null);
+  const { getPreviewFiles, refreshTrigger, openFile } = useFileSystem();
+  const liveChat = useOptionalChat();
+  const chat = readOnly ? null : liveChat;
+  const setPreviewErrors = chat?.setPreviewErrors;
+  const sandbox = readOnly ? ISOLATED_PREVIEW_SANDBOX : PREVIEW_SANDBOX;
   const [error, setError] = useState<string | null>(null);
   const [entryPoint, setEntryPoint] = useState<string>("/App.jsx");
   const [isFirstLoad, setIsFirstLoad] = useState(true);
   const [isCompiling, setIsCompiling] = useState(false);
   const [loadingMsgIndex, setLoadingMsgIndex] = useState(0);
+  // Gallery mode renders every component under /components; focusing one renders it alone
+  const [mode, setMode] = useState<PreviewMode>("app");
+  const [galleryComponents, setGalleryComponents] = useState<string[]>([]);
+  const [focusedComponent, setFocusedComponent] = useState<string | null>(null);
+  // Stories mode renders every variant exported from *.stories.jsx files
+  const [storyFiles, setStoryFiles] = useState<string[]>([]);
+  // Device size of the preview; side-by-side frames share the main frame's document
+  const [viewport, setViewport] = useState<ViewportState>(DEFAULT_VIEWPORT);
+  const [frameHTML, setFrameHTML] = useState("");
+  const [paneSize, setPaneSize] = useState<ViewportSize>({ width: 0, height: 0 });
+  // Third-party packages the preview resolves, from imports and /package.json
+  const [packages, setPackages] = useState<PackageResolution[]>([]);
+  // Build errors and console output of the main frame's current document; blob URLs
+  // in stacks are mapped back to file paths using the latest build's import map, and
+  // transformed-code locations to original ones using its source maps
+  const [consoleEntries, setConsoleEntries] = useState<PreviewConsoleEntry[]>([]);
+  const modulePathsRef = useRef<Map<string, string>>(new Map());
+  const sourceMapsRef = useRef<Map<string, SourceMap>>(new Map());
+  const nextEntryIdRef = useRef(0);
+  // Incremental builds: transforms and blob URLs of unchanged files are reused
+  const transformCacheRef = useRef(new TransformCache());
+  const transformWorkerRef = useRef(new TransformWorker());
+  const builtTriggerRef = useRef<number | null>(null); // refreshTrigger of the latest build
+  // Hot updates: what the main frame's document shows, the import map it runs with (after
+  // any hot updates) and whether it accepts updates; plus the latest build's HTML for reloads
+  const hotRef = useRef<{ documentKey: string; importMap: string; ready: boolean } | null>(null);
+  const latestHTMLRef = useRef("");
 
   // Rotate loading messages during compilation
   useEffect(() => {
@@ -30,11 +115,86 @@ export function PreviewFrame() {
     return () => clearInterval(interval);
   }, [isCompiling]);
 
+  // Track the pane size for zoom-to-fit
   useEffect(() => {
-    const updatePreview = () => {
-      try {
-        const files = getAllFiles();
+    const stage = stageRef.current;
+    if (!stage || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(([entry]) => {
+      setPaneSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(stage);
+    return () => observer.disconnect();
+  }, [error, isCompiling]);
+
+  // Gallery cells post a message when their title is clicked; the console bridge
+  // posts console entries (only the main frame's, so side-by-side frames don't repeat them);
+  // the main frame reports when it accepts hot updates or needs a full reload
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (isHotStatusMessage(event.data)) {
+        const iframe = iframeRef.current;
+        const hot = hotRef.current;
+        if (!iframe || !hot || event.source !== iframe.contentWindow) return;
+        if (event.data.status === "ready") {
+          hot.ready = true;
+        } else if (event.data.status === "reload") {
+          hot.ready = false;
+          iframe.srcdoc = latestHTMLRef.current;
+          modulePathsRef.current = getModuleUrlPaths(hot.importMap);
+          setConsoleEntries([]);
+        }
+        return;
+      }
 
+      if (isPreviewConsoleMessage(event.data)) {
+        if (event.source !== iframeRef.current?.contentWindow) return;
+        const { kind, level } = event.data;
+        const toSource = (text: string) =>
+          mapStackToSources(mapStackToFiles(text, modulePathsRef.current), sourceMapsRef.current);
+        const message = toSource(event.data.message);
+        const stack = event.data.stack && toSource(event.data.stack);
+        const location = getProblemLocation({ message, stack }, getPreviewFiles());
+        const entry: PreviewConsoleEntry = {
+          id: nextEntryIdRef.current++,
+          kind,
+          level,
+          message,
+          stack,
+          ...location,
+        };
+        setConsoleEntries((prev) => [...prev, entry].slice(-MAX_CONSOLE_ENTRIES));
+        return;
+      }
+
+      const frames = Array.from(stageRef.current?.querySelectorAll("iframe") ?? []);
+      if (
+        frames.some((frame) => frame.contentWindow === event.source) &&
+        event.data?.type === "uigen:gallery-focus" &&
+        typeof event.data.path === "string"
+      ) {
+        setFocusedComponent(event.data.path);
+      }
+    };
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [getPreviewFiles]);
+
+  // Release the cached modules' blob URLs and the worker when the preview goes away
+  useEffect(() => {
+    const cache = transformCacheRef.current;
+    const worker = transformWorkerRef.current;
+    return () => {
+      cache.clear();
+      worker.terminate();
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const cache = transformCacheRef.current;
+
+    const updatePreview = (files: Map<string, string>) => {
+      try {
         // Clear error first when we have files
         if (files.size > 0 && error) {
           setError(null);
@@ -89,19 +249,85 @@ export function PreviewFrame() {
           return;
         }
 
+        const components = discoverGalleryComponents(files);
+        setGalleryComponents((prev) =>
+          prev.join("\n") === components.join("\n") ? prev : components
+        );
+        const stories = discoverStoryFiles(files);
+        setStoryFiles((prev) => (prev.join("\n") === stories.join("\n") ? prev : stories));
+        const focused =
+          focusedComponent && components.includes(focusedComponent) ? focusedComponent : null;
+
         setIsCompiling(true);
-        const { importMap, styles, errors } = createImportMap(files);
-        const previewHTML = createPreviewHTML(foundEntryPoint, importMap, styles, errors);
+        const { importMap, styles, errors, packages: resolved, sourceMaps } = createImportMap(
+          files,
+          undefined,
+          cache,
+          readOnly
+        );
+        setPackages((prev) =>
+          JSON.stringify(prev) === JSON.stringify(resolved) ? prev : resolved
+        );
+        sourceMapsRef.current = sourceMaps;
+        let previewHTML: string;
+        if (mode === "stories" && stories.length > 0) {
+          previewHTML = createStoriesHTML(stories, importMap, styles, errors);
+        } else if (mode === "gallery" && components.length > 0) {
+          previewHTML = focused
+            ? createPreviewHTML(focused, importMap, styles, errors)
+            : createGalleryHTML(components, importMap, styles, errors);
+        } else {
+          previewHTML = createPreviewHTML(foundEntryPoint, importMap, styles, errors);
+        }
 
         if (iframeRef.current) {
           const iframe = iframeRef.current;
+          latestHTMLRef.current = previewHTML;
 
-          // Need both allow-scripts and allow-same-origin for blob URLs in import map
-          iframe.setAttribute(
-            "sandbox",
-            "allow-scripts allow-same-origin allow-forms"
-          );
-          iframe.srcdoc = previewHTML;
+          // When only module code changed, the document swaps the modules in place
+          // and keeps React state; anything else reloads it
+          const documentKey = JSON.stringify([mode, focused, foundEntryPoint, components, stories, styles]);
+          const hot = hotRef.current;
+          const hotModules =
+            hot?.ready && hot.documentKey === documentKey && errors.length === 0
+              ? getHotUpdate(hot.importMap, importMap)
+              : null;
+
+          if (hot && hotModules) {
+            if (hotModules.length > 0) {
+              const message: HotUpdateMessage = {
+                type: HOT_UPDATE_MESSAGE,
+                modules: hotModules,
+                imports: JSON.parse(importMap).imports,
+              };
+              iframe.contentWindow?.postMessage(message, "*");
+            }
+            hot.importMap = importMap;
+            // Stacks can still name the previous versions of swapped modules
+            modulePathsRef.current = new Map([
+              ...modulePathsRef.current,
+              ...getModuleUrlPaths(importMap),
+            ]);
+          } else {
+            iframe.setAttribute("sandbox", sandbox);
+            iframe.srcdoc = previewHTML;
+            hotRef.current = { documentKey, importMap, ready: false };
+            modulePathsRef.current = getModuleUrlPaths(importMap);
+            // Entries from the previous document no longer apply
+            setConsoleEntries(
+              errors.map(({ path, error, line, column }) => ({
+                id: nextEntryIdRef.current++,
+                kind: "build",
+                level: "error",
+                message: error,
+                path,
+                line,
+                column,
+              }))
+            );
+          }
+          // Side-by-side frames render the same build, so they reuse one import map
+          setFrameHTML(previewHTML);
 
           setError(null);
         }
@@ -112,8 +338,68 @@ export function PreviewFrame() {
       }
     };
 
-    updatePreview();
-  }, [refreshTrigger, getAllFiles, entryPoint, error, isFirstLoad]);
+    // Changed files are transformed in the worker first; without it, if it fails, or in
+    // read-only previews (which don't use the cache), createImportMap transforms them
+    const build = () => {
+      const files = getPreviewFiles();
+      const worker = transformWorkerRef.current;
+      const misses = !readOnly && worker.isAvailable() ? cache.getMisses(files) : [];
+      if (misses.length === 0) {
+        updatePreview(files);
+        return;
+      }
+      worker
+        .transform(misses, Array.from(files.keys()))
+        .then(
+          (results) => misses.forEach(([path, content], i) => cache.add(path, content, results[i])),
+          (err) => console.error("Transform worker failed:", err)
+        )
+        .then(() => {
+          if (!cancelled) updatePreview(files);
+        });
+    };
+
+    // File edits (e.g. typing in the editor) rebuild once they pause; the first build
+    // and mode changes happen right away
+    const filesChanged =
+      builtTriggerRef.current !== null && builtTriggerRef.current !== refreshTrigger;
+    builtTriggerRef.current = refreshTrigger;
+    if (!filesChanged) {
+      build();
+      return () => {
+        cancelled = true;
+      };
+    }
+    const timer = setTimeout(build, PREVIEW_BUILD.DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [refreshTrigger, getPreviewFiles, entryPoint, error, isFirstLoad, mode, focusedComponent, readOnly, sandbox]);
+
+  // Runtime errors go to the chat route for check_build; it finds build errors itself
+  useEffect(() => {
+    setPreviewErrors?.(
+      consoleEntries
+        .filter((entry) => isFixableEntry(entry) && entry.kind !== "build")
+        .map((entry) => (entry.stack ? `${entry.message}\n${entry.stack}` : entry.message))
+    );
+  }, [consoleEntries, setPreviewErrors]);
+
+  const askToFix = (entry: PreviewConsoleEntry) => {
+    chat?.sendMessage(
+      buildFixRequest(
+        {
+          message: entry.message,
+          stack: entry.stack,
+          path: entry.path,
+          line: entry.line,
+          column: entry.column,
+        },
+        getPreviewFiles()
+      )
+    );
+  };
 
   if (error) {
     if (error === "firstLoad") {
@@ -176,11 +462,150 @@ export function PreviewFrame() {
     );
   }
 
+  const modeButtonClass = (active: boolean) =>
+    `flex items-center gap-1.5 px-2.5 py-1 rounded-md transition-colors ${
+      active
+        ? "bg-foreground text-background"
+        : "text-muted-foreground hover:text-foreground"
+    }`;
+
+  const frames = viewport.sideBySide
+    ? VIEWPORT_PRESETS.map((preset) => ({
+        label: preset.label,
+        size: getViewportSize(preset.id, viewport.custom, viewport.rotated),
+      }))
+    : [{ label: "", size: getViewportSize(viewport.preset, viewport.custom, viewport.rotated) }];
+  const fixedSizes = frames.flatMap((frame) => (frame.size ? [frame.size] : []));
+  const scale =
+    viewport.zoomToFit && fixedSizes.length > 0
+      ? getFitScale(getSideBySideSize(fixedSizes), {
+          width: paneSize.width - STAGE_PADDING * 2,
+          height:
+            paneSize.height - STAGE_PADDING * 2 - (viewport.sideBySide ? FRAME_LABEL_HEIGHT : 0),
+        })
+      : 1;
+
+  // The main iframe keeps its position in the tree across toolbar and viewport
+  // changes so its document isn't lost
   return (
-    <iframe
-      ref={iframeRef}
-      className="w-full h-full border-0 bg-white"
-      title="Preview"
-    />
+    <div className="h-full flex flex-col">
+      <div className="h-10 px-3 flex items-center gap-3 border-b border-border/50 bg-card text-xs flex-shrink-0">
+        {(galleryComponents.length > 0 || storyFiles.length > 0) && (
+          <div className="flex items-center gap-0.5 border border-border rounded-lg p-0.5" role="group" aria-label="Preview mode">
+            <button
+              onClick={() => setMode("app")}
+              className={modeButtonClass(mode === "app")}
+              aria-pressed={mode === "app"}
+            >
+              <AppWindow className="h-3.5 w-3.5" />
+              App
+            </button>
+            {galleryComponents.length > 0 && (
+              <button
+                onClick={() => setMode("gallery")}
+                className={modeButtonClass(mode === "gallery")}
+                aria-pressed={mode === "gallery"}
+              >
+                <LayoutGrid className="h-3.5 w-3.5" />
+                Gallery ({galleryComponents.length})
+              </button>
+            )}
+            {storyFiles.length > 0 && (
+              <button
+                onClick={() => setMode("stories")}
+                className={modeButtonClass(mode === "stories")}
+                aria-pressed={mode === "stories"}
+              >
+                <BookOpen className="h-3.5 w-3.5" />
+                Stories ({storyFiles.length})
+              </button>
+            )}
+          </div>
+        )}
+        {mode === "gallery" && galleryComponents.length > 0 && (
+          <select
+            value={
+              focusedComponent && galleryComponents.includes(focusedComponent)
+                ? focusedComponent
+                : ""
+            }
+            onChange={(e) => setFocusedComponent(e.target.value || null)}
+            className="h-7 rounded-md border border-border bg-background px-2 text-xs text-foreground"
+            aria-label="Focused component"
+          >
+            <option value="">All components</option>
+            {galleryComponents.map((path) => (
+              <option key={path} value={path}>
+                {getComponentName(path)} ({path})
+              </option>
+            ))}
+          </select>
+        )}
+        {packages.length > 0 && <DependencyList packages={packages} />}
+        <ViewportControls viewport={viewport} onChange={setViewport} scale={scale} />
+      </div>
+      <div
+        ref={stageRef}
+        className={`flex-1 min-h-0 ${fixedSizes.length > 0 ? "overflow-auto bg-muted/40" : ""}`}
+      >
+        <div
+          className={fixedSizes.length > 0 ? "w-max mx-auto flex items-start" : "h-full"}
+          style={
+            fixedSizes.length > 0 ? { gap: SIDE_BY_SIDE_GAP, padding: STAGE_PADDING } : undefined
+          }
+        >
+          {frames.map(({ label, size }, index) => (
+            <div key={index} className={size ? "flex-shrink-0" : "h-full"}>
+              {viewport.sideBySide && size && (
+                <div
+                  className="flex items-center text-xs text-muted-foreground"
+                  style={{ height: FRAME_LABEL_HEIGHT }}
+                >
+                  <span className="font-medium text-foreground mr-1.5">{label}</span>
+                  {size.width}×{size.height}
+                </div>
+              )}
+              <div
+                className={
+                  size
+                    ? "overflow-hidden rounded-md border border-border bg-white shadow-sm"
+                    : "h-full"
+                }
+                style={size ? { width: size.width * scale, height: size.height * scale } : undefined}
+              >
+                <iframe
+                  ref={index === 0 ? iframeRef : undefined}
+                  srcDoc={index === 0 ? undefined : frameHTML}
+                  sandbox={sandbox}
+                  className={
+                    size ? "block border-0 bg-white" : "w-full h-full border-0 bg-white min-h-0"
+                  }
+                  style={
+                    size
+                      ? {
+                          width: size.width,
+                          height: size.height,
+                          transform: `scale(${scale})`,
+                          transformOrigin: "top left",
+                        }
+                      : undefined
+                  }
+                  title={index === 0 ? "Preview" : `Preview (${label})`}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+      <ConsolePanel
+        entries={consoleEntries}
+        onClear={() => setConsoleEntries([])}
+        onAskFix={chat ? askToFix : undefined}
+        canAskFix={chat?.status === "ready" || chat?.status === "error"}
+        autoRepair={chat?.autoRepair}
+        onAutoRepairChange={chat?.setAutoRepair}
+        onOpenLocation={(entry) => entry.path && openFile(entry.path, entry.line, entry.column)}
+      />
+    </div>
   );
 }
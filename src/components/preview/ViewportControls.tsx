@@ -0,0 +1,124 @@
+"use client";
+
+import { RotateCcw, Minimize2, Columns3 } from "lucide-react";
+import {
+  VIEWPORT_PRESETS,
+  VIEWPORT_BOUNDS,
+  clampViewportDimension,
+  type ViewportPresetId,
+  type ViewportSize,
+} from "@/lib/preview/viewport";
+
+export interface ViewportState {
+  preset: ViewportPresetId;
+  custom: ViewportSize; // Used when preset is "custom"
+  rotated: boolean;
+  zoomToFit: boolean;
+  sideBySide: boolean; // Render every device preset at once
+}
+
+export const DEFAULT_VIEWPORT: ViewportState = {
+  preset: "fill",
+  custom: { width: 1024, height: 768 },
+  rotated: false,
+  zoomToFit: true,
+  sideBySide: false,
+};
+
+interface ViewportControlsProps {
+  viewport: ViewportState;
+  onChange: (viewport: ViewportState) => void;
+  scale: number; // Current zoom, shown as a percentage for fixed sizes
+}
+
+const toggleClass = (active: boolean) =>
+  `h-7 w-7 flex items-center justify-center rounded-md transition-colors disabled:opacity-40 disabled:pointer-events-none ${
+    active
+      ? "bg-foreground text-background"
+      : "text-muted-foreground hover:text-foreground hover:bg-muted"
+  }`;
+
+// Device presets, custom size, rotation, zoom-to-fit and side-by-side toggles
+export function ViewportControls({ viewport, onChange, scale }: ViewportControlsProps) {
+  const update = (changes: Partial<ViewportState>) => onChange({ ...viewport, ...changes });
+  const isFixed = viewport.sideBySide || viewport.preset !== "fill";
+
+  const updateCustom = (dimension: keyof ViewportSize, value: number) =>
+    update({ custom: { ...viewport.custom, [dimension]: value } });
+
+  return (
+    <div className="ml-auto flex items-center gap-1.5">
+      <select
+        value={viewport.preset}
+        onChange={(e) => update({ preset: e.target.value as ViewportPresetId })}
+        disabled={viewport.sideBySide}
+        className="h-7 rounded-md border border-border bg-background px-2 text-xs text-foreground disabled:opacity-40"
+        aria-label="Viewport"
+      >
+        <option value="fill">Fill pane</option>
+        {VIEWPORT_PRESETS.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.label} ({preset.width}×{preset.height})
+          </option>
+        ))}
+        <option value="custom">Custom</option>
+      </select>
+
+      {viewport.preset === "custom" && !viewport.sideBySide && (
+        <div className="flex items-center gap-1 text-muted-foreground">
+          {(["width", "height"] as const).map((dimension, index) => (
+            <span key={dimension} className="flex items-center gap-1">
+              {index > 0 && "×"}
+              <input
+                type="number"
+                min={VIEWPORT_BOUNDS.MIN}
+                max={VIEWPORT_BOUNDS.MAX}
+                value={viewport.custom[dimension]}
+                onChange={(e) => updateCustom(dimension, Number(e.target.value))}
+                onBlur={(e) => updateCustom(dimension, clampViewportDimension(Number(e.target.value)))}
+                className="h-7 w-16 rounded-md border border-border bg-background px-1.5 text-xs text-foreground"
+                aria-label={`Viewport ${dimension}`}
+              />
+            </span>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={() => update({ rotated: !viewport.rotated })}
+        disabled={!isFixed}
+        className={toggleClass(viewport.rotated)}
+        aria-pressed={viewport.rotated}
+        aria-label="Rotate viewport"
+        title="Rotate"
+      >
+        <RotateCcw className="h-3.5 w-3.5" />
+      </button>
+      <button
+        onClick={() => update({ zoomToFit: !viewport.zoomToFit })}
+        disabled={!isFixed}
+        className={toggleClass(viewport.zoomToFit)}
+        aria-pressed={viewport.zoomToFit}
+        aria-label="Zoom to fit"
+        title="Zoom to fit"
+      >
+        <Minimize2 className="h-3.5 w-3.5" />
+      </button>
+      <button
+        onClick={() => update({ sideBySide: !viewport.sideBySide })}
+        className={toggleClass(viewport.sideBySide)}
+        aria-pressed={viewport.sideBySide}
+        aria-label="Side by side"
+        title="Show every device size side by side"
+      >
+        <Columns3 className="h-3.5 w-3.5" />
+      </button>
+
+      {isFixed && (
+        <span className="w-9 text-right tabular-nums text-muted-foreground">
+          {Math.round(scale * 100)}%
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,30 @@
 import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
-import { render, screen, cleanup } from "@testing-library/react";
+import { render, screen, cleanup, fireEvent, act } from "@testing-library/react";
 import { PreviewFrame } from "../PreviewFrame";
 
 // Mock the file system context
 const mockGetAllFiles = vi.fn();
+const mockOpenFile = vi.fn();
+let mockRefreshTrigger = 0;
 vi.mock("@/lib/contexts/file-system-context", () => ({
   useFileSystem: () => ({
-    getAllFiles: mockGetAllFiles,
-    refreshTrigger: 0,
+    getPreviewFiles: mockGetAllFiles,
+    refreshTrigger: mockRefreshTrigger,
+    openFile: mockOpenFile,
+  }),
+}));
+
+// Mock the chat context
+const mockSendMessage = vi.fn();
+const mockSetAutoRepair = vi.fn();
+const mockSetPreviewErrors = vi.fn();
+vi.mock("@/lib/contexts/chat-context", () => ({
+  useOptionalChat: () => ({
+    sendMessage: mockSendMessage,
+    status: "ready",
+    autoRepair: false,
+    setAutoRepair: mockSetAutoRepair,
+    setPreviewErrors: mockSetPreviewErrors,
   }),
 }));
 
@@ -17,11 +34,31 @@ vi.mock("@/lib/transform/jsx-transformer", () => ({
     importMap: {},
     styles: "",
     errors: [],
+    packages: [],
+    sourceMaps: new Map(),
   })),
   createPreviewHTML: vi.fn(() => "<html><body>Preview</body></html>"),
+  createGalleryHTML: vi.fn(() => "<html><body>Gallery</body></html>"),
+  createStoriesHTML: vi.fn(() => "<html><body>Stories</body></html>"),
+  discoverGalleryComponents: vi.fn((files: Map<string, string>) =>
+    Array.from(files.keys()).filter(
+      (path) => path.startsWith("/components/") && !path.includes(".stories.")
+    )
+  ),
+  discoverStoryFiles: vi.fn((files: Map<string, string>) =>
+    Array.from(files.keys()).filter((path) => path.includes(".stories."))
+  ),
+  getComponentName: vi.fn((path: string) => path.split("/").pop()!.replace(/\.\w+$/, "")),
 }));
 
-import { createImportMap, createPreviewHTML } from "@/lib/transform/jsx-transformer";
+import { TransformCache } from "@/lib/transform/transform-cache";
+import { PREVIEW_BUILD } from "@/lib/constants";
+import {
+  createImportMap,
+  createPreviewHTML,
+  createGalleryHTML,
+  createStoriesHTML,
+} from "@/lib/transform/jsx-transformer";
 
 describe("PreviewFrame", () => {
   beforeEach(() => {
@@ -30,6 +67,8 @@ describe("PreviewFrame", () => {
 
   afterEach(() => {
     cleanup();
+    // Restore the default build result
+    vi.mocked(createImportMap).mockReset();
   });
 
   describe("First load state", () => {
@@ -96,7 +135,32 @@ describe("PreviewFrame", () => {
 
       render(<PreviewFrame />);
 
-      expect(createImportMap).toHaveBeenCalledWith(files);
+      expect(createImportMap).toHaveBeenCalledWith(files, undefined, expect.any(TransformCache), false);
+    });
+
+    test("should rebuild once file changes pause", () => {
+      vi.useFakeTimers();
+      mockGetAllFiles.mockReturnValue(new Map([["/App.jsx", "export default function App() {}"]]));
+      const { rerender } = render(<PreviewFrame />);
+      const builds = vi.mocked(createImportMap).mock.calls.length;
+
+      try {
+        mockRefreshTrigger = 1;
+        rerender(<PreviewFrame />);
+        act(() => vi.advanceTimersByTime(100));
+        mockRefreshTrigger = 2;
+        rerender(<PreviewFrame />);
+        act(() => vi.advanceTimersByTime(100));
+
+        expect(createImportMap).toHaveBeenCalledTimes(builds);
+
+        act(() => vi.advanceTimersByTime(100));
+
+        expect(createImportMap).toHaveBeenCalledTimes(builds + 1);
+      } finally {
+        mockRefreshTrigger = 0;
+        vi.useRealTimers();
+      }
     });
 
     test("should call createPreviewHTML with entry point", () => {
@@ -129,6 +193,22 @@ describe("PreviewFrame", () => {
       expect(sandbox).toContain("allow-scripts");
       expect(sandbox).toContain("allow-same-origin");
     });
+
+    test("should isolate read-only previews from the app's origin", () => {
+      mockGetAllFiles.mockReturnValue(
+        new Map([
+          ["/App.jsx", "export default function App() { return <div>Hello</div>; }"],
+        ])
+      );
+
+      render(<PreviewFrame readOnly />);
+
+      const sandbox = document.querySelector("iframe")?.getAttribute("sandbox");
+      expect(sandbox).toContain("allow-scripts");
+      expect(sandbox).not.toContain("allow-same-origin");
+      // Opaque origins can't load blob URLs, so modules are built as data URLs
+      expect(vi.mocked(createImportMap).mock.calls[0][3]).toBe(true);
+    });
   });
 
   describe("Entry point detection", () => {
@@ -236,4 +316,457 @@ describe("PreviewFrame", () => {
       expect(iframe?.classList.contains("bg-white")).toBe(true);
     });
   });
+
+  describe("Gallery mode", () => {
+    const galleryFiles = new Map([
+      ["/App.jsx", "export default function App() {}"],
+      ["/components/Button.jsx", "export default function Button() {}"],
+      ["/components/Card.jsx", "export default function Card() {}"],
+    ]);
+
+    test("should not show the mode toggle without gallery components", () => {
+      mockGetAllFiles.mockReturnValue(new Map([["/App.jsx", "export default function App() {}"]]));
+
+      render(<PreviewFrame />);
+
+      expect(screen.queryByText(/Gallery/)).toBeNull();
+    });
+
+    test("should render every component in a gallery", () => {
+      mockGetAllFiles.mockReturnValue(galleryFiles);
+
+      render(<PreviewFrame />);
+      fireEvent.click(screen.getByText("Gallery (2)"));
+
+      expect(createGalleryHTML).toHaveBeenLastCalledWith(
+        ["/components/Button.jsx", "/components/Card.jsx"],
+        expect.anything(),
+        expect.anything(),
+        expect.anything()
+      );
+      expect(document.querySelector("iframe")?.srcdoc).toContain("Gallery");
+    });
+
+    test("should render a focused component on its own", () => {
+      mockGetAllFiles.mockReturnValue(galleryFiles);
+
+      render(<PreviewFrame />);
+      fireEvent.click(screen.getByText("Gallery (2)"));
+      fireEvent.change(screen.getByLabelText("Focused component"), {
+        target: { value: "/components/Card.jsx" },
+      });
+
+      expect(createPreviewHTML).toHaveBeenLastCalledWith(
+        "/components/Card.jsx",
+        expect.anything(),
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    test("should focus a component when a gallery cell posts a message", () => {
+      mockGetAllFiles.mockReturnValue(galleryFiles);
+
+      render(<PreviewFrame />);
+      fireEvent.click(screen.getByText("Gallery (2)"));
+
+      const iframe = document.querySelector("iframe")!;
+      act(() => {
+        window.dispatchEvent(
+          new MessageEvent("message", {
+            data: { type: "uigen:gallery-focus", path: "/components/Button.jsx" },
+            source: iframe.contentWindow,
+          })
+        );
+      });
+
+      expect(createPreviewHTML).toHaveBeenLastCalledWith(
+        "/components/Button.jsx",
+        expect.anything(),
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    test("should return to the app entry point in app mode", () => {
+      mockGetAllFiles.mockReturnValue(galleryFiles);
+
+      render(<PreviewFrame />);
+      fireEvent.click(screen.getByText("Gallery (2)"));
+      fireEvent.click(screen.getByText("App"));
+
+      expect(createPreviewHTML).toHaveBeenLastCalledWith(
+        "/App.jsx",
+        expect.anything(),
+        expect.anything(),
+        expect.anything()
+      );
+    });
+  });
+
+  describe("Stories mode", () => {
+    test("should not show the stories toggle without story files", () => {
+      mockGetAllFiles.mockReturnValue(
+        new Map([
+          ["/App.jsx", "export default function App() {}"],
+          ["/components/Button.jsx", "export default function Button() {}"],
+        ])
+      );
+
+      render(<PreviewFrame />);
+
+      expect(screen.getByText("Gallery (1)")).toBeTruthy();
+      expect(screen.queryByText(/Stories/)).toBeNull();
+    });
+
+    test("should render every story file in stories mode", () => {
+      mockGetAllFiles.mockReturnValue(
+        new Map([
+          ["/App.jsx", "export default function App() {}"],
+          ["/components/Button.jsx", "export default function Button() {}"],
+          ["/components/Button.stories.jsx", "export const Primary = { args: {} };"],
+        ])
+      );
+
+      render(<PreviewFrame />);
+      fireEvent.click(screen.getByText("Stories (1)"));
+
+      expect(createStoriesHTML).toHaveBeenLastCalledWith(
+        ["/components/Button.stories.jsx"],
+        expect.anything(),
+        expect.anything(),
+        expect.anything()
+      );
+      expect(document.querySelector("iframe")?.srcdoc).toContain("Stories");
+    });
+  });
+
+  describe("Packages", () => {
+    test("should not show the packages list without third-party packages", () => {
+      mockGetAllFiles.mockReturnValue(new Map([["/App.jsx", "export default function App() {}"]]));
+
+      render(<PreviewFrame />);
+
+      expect(screen.queryByLabelText("Packages")).toBeNull();
+    });
+
+    test("should show the packages the preview resolves", () => {
+      vi.mocked(createImportMap).mockReturnValue({
+        importMap: "{}",
+        styles: "",
+        errors: [],
+        packages: [
+          { name: "framer-motion", source: "unlisted" },
+          { name: "lucide-react", source: "local" },
+        ],
+        sourceMaps: new Map(),
+      });
+      mockGetAllFiles.mockReturnValue(new Map([["/App.jsx", "export default function App() {}"]]));
+
+      render(<PreviewFrame />);
+
+      expect(screen.getByText("Packages (2)")).toBeTruthy();
+    });
+  });
+
+  describe("Console", () => {
+    const postConsole = (source: Window | null, data: Record<string, unknown>) =>
+      act(() => {
+        window.dispatchEvent(
+          new MessageEvent("message", { data: { type: "uigen:console", ...data }, source })
+        );
+      });
+
+    test("should show console entries from the preview", () => {
+      mockGetAllFiles.mockReturnValue(new Map([["/App.jsx", "export default function App() {}"]]));
+      render(<PreviewFrame />);
+      const iframe = document.querySelector("iframe")!;
+
+      postConsole(iframe.contentWindow, { kind: "console", level: "log", message: "Hello from App" });
+      postConsole(iframe.contentWindow, {
+        kind: "error",
+        level: "error",
+        message: "Uncaught Error: boom",
+        stack: "Error: boom\n    at App (/App.jsx:3:9)",
+      });
+      fireEvent.click(screen.getByText("Console"));
+
+      expect(screen.getByText("Hello from App")).toBeTruthy();
+      expect(screen.getByText("Uncaught Error: boom")).toBeTruthy();
+      expect(screen.getByText(/at App \(\/App\.jsx:3:9\)/)).toBeTruthy();
+    });
+
+    test("should ignore entries from other windows", () => {
+      mockGetAllFiles.mockReturnValue(new Map([["/App.jsx", "export default function App() {}"]]));
+      render(<PreviewFrame />);
+
+      postConsole(window, { kind: "console", level: "log", message: "Not the preview" });
+      fireEvent.click(screen.getByText("Console"));
+
+      expect(screen.queryByText("Not the preview")).toBeNull();
+      expect(screen.getByText("No console output")).toBeTruthy();
+    });
+
+    test("should clear entries", () => {
+      mockGetAllFiles.mockReturnValue(new Map([["/App.jsx", "export default function App() {}"]]));
+      render(<PreviewFrame />);
+      const iframe = document.querySelector("iframe")!;
+
+      postConsole(iframe.contentWindow, { kind: "network", level: "error", message: "GET /api/items 500" });
+      fireEvent.click(screen.getByText("Console"));
+      fireEvent.click(screen.getByLabelText("Clear console"));
+
+      expect(screen.queryByText("GET /api/items 500")).toBeNull();
+    });
+
+    test("should ask the AI to fix a runtime error with the failing code", () => {
+      mockGetAllFiles.mockReturnValue(
+        new Map([["/App.jsx", "export default function App() {\n  return items.map(() => null);\n}"]])
+      );
+      render(<PreviewFrame />);
+      const iframe = document.querySelector("iframe")!;
+
+      postConsole(iframe.contentWindow, {
+        kind: "error",
+        level: "error",
+        message: "Uncaught ReferenceError: items is not defined",
+        stack: "ReferenceError: items is not defined\n    at App (/App.jsx:2:10)",
+      });
+      fireEvent.click(screen.getByText("Console"));
+      fireEvent.click(screen.getByText("Ask AI to fix"));
+
+      const request = mockSendMessage.mock.calls[0][0];
+      expect(request).toContain("Fix this error in the preview.");
+      expect(request).toContain("File: /App.jsx (line 2, column 10)");
+      expect(request).toContain("> 2 |   return items.map(() => null);");
+    });
+
+    test("should show build errors with a fix button", () => {
+      vi.mocked(createImportMap).mockReturnValue({
+        importMap: "{}",
+        styles: "",
+        errors: [{ path: "/App.jsx", error: "Unexpected token (3:4)", line: 3, column: 5 }],
+        packages: [],
+        sourceMaps: new Map(),
+      });
+      mockGetAllFiles.mockReturnValue(new Map([["/App.jsx", "export default function App() {"]]));
+      render(<PreviewFrame />);
+
+      expect(screen.getByText("Unexpected token (3:4)")).toBeTruthy();
+      fireEvent.click(screen.getByText("Ask AI to fix"));
+      expect(mockSendMessage.mock.calls[0][0]).toContain("File: /App.jsx (line 3, column 5)");
+    });
+
+    test("should map runtime locations through source maps and open them in the editor", () => {
+      // One segment: generated line 5, column 1 -> original line 2, column 3
+      vi.mocked(createImportMap).mockReturnValue({
+        importMap: "{}",
+        styles: "",
+        errors: [],
+        packages: [],
+        sourceMaps: new Map([
+          ["/App.jsx", { version: 3, sources: ["/App.jsx"], mappings: ";;;;AACE" }],
+        ]),
+      });
+      mockGetAllFiles.mockReturnValue(
+        new Map([["/App.jsx", "export default function App() {\n  return items.map(() => null);\n}"]])
+      );
+      render(<PreviewFrame />);
+      const iframe = document.querySelector("iframe")!;
+
+      postConsole(iframe.contentWindow, {
+        kind: "error",
+        level: "error",
+        message: "Uncaught ReferenceError: items is not defined",
+        stack: "ReferenceError: items is not defined\n    at App (/App.jsx:5:12)",
+      });
+      fireEvent.click(screen.getByText("Console"));
+
+      expect(screen.getByText(/at App \(\/App\.jsx:2:3\)/)).toBeTruthy();
+      fireEvent.click(screen.getByText("/App.jsx:2:3"));
+      expect(mockOpenFile).toHaveBeenCalledWith("/App.jsx", 2, 3);
+    });
+
+    test("should toggle auto-repair", () => {
+      mockGetAllFiles.mockReturnValue(new Map([["/App.jsx", "export default function App() {}"]]));
+      render(<PreviewFrame />);
+
+      fireEvent.click(screen.getByText("Auto-repair"));
+
+      expect(mockSetAutoRepair).toHaveBeenCalledWith(true);
+    });
+
+    test("should not offer fixes or auto-repair in a read-only preview", () => {
+      vi.mocked(createImportMap).mockReturnValue({
+        importMap: "{}",
+        styles: "",
+        errors: [{ path: "/App.jsx", error: "Unexpected token (3:4)", line: 3, column: 5 }],
+        packages: [],
+        sourceMaps: new Map(),
+      });
+      mockGetAllFiles.mockReturnValue(new Map([["/App.jsx", "export default function App() {"]]));
+      render(<PreviewFrame readOnly />);
+      const iframe = document.querySelector("iframe")!;
+
+      postConsole(iframe.contentWindow, {
+        kind: "error",
+        level: "error",
+        message: "Uncaught Error: boom",
+      });
+
+      expect(screen.getByText("Uncaught Error: boom")).toBeTruthy();
+      expect(screen.queryByText("Ask AI to fix")).toBeNull();
+      expect(screen.queryByText("Auto-repair")).toBeNull();
+      expect(mockSetPreviewErrors).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Hot updates", () => {
+    let appUrl = "blob:app-1";
+    const importMapFor = (url: string) => JSON.stringify({ imports: { "/App.jsx": url, "/App": url } });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      appUrl = "blob:app-1";
+      vi.mocked(createImportMap).mockImplementation(() => ({
+        importMap: importMapFor(appUrl),
+        styles: "",
+        errors: [],
+        packages: [],
+        sourceMaps: new Map(),
+      }));
+      vi.mocked(createPreviewHTML).mockImplementation(
+        (entryPoint: string, importMap: string) => `<html><body>${importMap}</body></html>`
+      );
+      mockGetAllFiles.mockReturnValue(new Map([["/App.jsx", "export default function App() {}"]]));
+    });
+
+    afterEach(() => {
+      vi.mocked(createPreviewHTML).mockReset();
+      mockRefreshTrigger = 0;
+      vi.useRealTimers();
+    });
+
+    const editFiles = (rerender: (ui: React.ReactElement) => void) => {
+      appUrl = "blob:app-2";
+      mockRefreshTrigger++;
+      rerender(<PreviewFrame />);
+      act(() => vi.advanceTimersByTime(PREVIEW_BUILD.DEBOUNCE_MS));
+    };
+
+    const postStatus = (iframe: HTMLIFrameElement, status: string) =>
+      act(() => {
+        window.dispatchEvent(
+          new MessageEvent("message", {
+            data: { type: "uigen:hot-status", status },
+            source: iframe.contentWindow,
+          })
+        );
+      });
+
+    test("should send changed modules to a ready preview instead of reloading it", () => {
+      const { rerender } = render(<PreviewFrame />);
+      const iframe = document.querySelector("iframe")!;
+      const postMessage = vi.spyOn(iframe.contentWindow!, "postMessage");
+
+      postStatus(iframe, "ready");
+      editFiles(rerender);
+
+      expect(postMessage).toHaveBeenCalledWith(
+        {
+          type: "uigen:hot-update",
+          modules: [{ path: "/App.jsx", url: "blob:app-2" }],
+          imports: { "/App.jsx": "blob:app-2", "/App": "blob:app-2" },
+        },
+        "*"
+      );
+      expect(iframe.srcdoc).toContain("blob:app-1");
+    });
+
+    test("should reload when the preview can't apply an update", () => {
+      const { rerender } = render(<PreviewFrame />);
+      const iframe = document.querySelector("iframe")!;
+
+      postStatus(iframe, "ready");
+      editFiles(rerender);
+      postStatus(iframe, "reload");
+
+      expect(iframe.srcdoc).toContain("blob:app-2");
+    });
+
+    test("should reload a preview that isn't ready for updates", () => {
+      const { rerender } = render(<PreviewFrame />);
+      const iframe = document.querySelector("iframe")!;
+      const postMessage = vi.spyOn(iframe.contentWindow!, "postMessage");
+
+      editFiles(rerender);
+
+      expect(postMessage).not.toHaveBeenCalled();
+      expect(iframe.srcdoc).toContain("blob:app-2");
+    });
+  });
+
+  describe("Viewport", () => {
+    beforeEach(() => {
+      mockGetAllFiles.mockReturnValue(new Map([["/App.jsx", "export default function App() {}"]]));
+    });
+
+    test("should fill the pane by default", () => {
+      render(<PreviewFrame />);
+
+      const iframe = document.querySelector("iframe")!;
+      expect(iframe.style.width).toBe("");
+      expect(screen.queryByText("100%")).toBeNull();
+    });
+
+    test("should size the iframe to a device preset and rotate it", () => {
+      render(<PreviewFrame />);
+      fireEvent.change(screen.getByLabelText("Viewport"), { target: { value: "phone" } });
+
+      const iframe = document.querySelector("iframe")!;
+      expect(iframe.style.width).toBe("375px");
+      expect(iframe.style.height).toBe("667px");
+      expect(screen.getByText("100%")).toBeTruthy();
+
+      fireEvent.click(screen.getByLabelText("Rotate viewport"));
+
+      expect(iframe.style.width).toBe("667px");
+      expect(iframe.style.height).toBe("375px");
+    });
+
+    test("should use a custom size", () => {
+      render(<PreviewFrame />);
+      fireEvent.change(screen.getByLabelText("Viewport"), { target: { value: "custom" } });
+      fireEvent.change(screen.getByLabelText("Viewport width"), { target: { value: "600" } });
+
+      expect(document.querySelector("iframe")!.style.width).toBe("600px");
+    });
+
+    test("should render the same build at every preset side by side", () => {
+      render(<PreviewFrame />);
+      const iframe = document.querySelector("iframe")!;
+      const builds = vi.mocked(createImportMap).mock.calls.length;
+      fireEvent.click(screen.getByLabelText("Side by side"));
+
+      const frames = document.querySelectorAll("iframe");
+      expect(frames).toHaveLength(3);
+      // The main frame keeps its document; the others reuse its HTML
+      expect(frames[0]).toBe(iframe);
+      expect(frames[1].getAttribute("srcdoc")).toBe(iframe.srcdoc);
+      expect(frames[2].getAttribute("srcdoc")).toBe(iframe.srcdoc);
+      expect(screen.getByText("Tablet")).toBeTruthy();
+      expect(createImportMap).toHaveBeenCalledTimes(builds);
+    });
+
+    test("should sandbox every side-by-side frame", () => {
+      render(<PreviewFrame readOnly />);
+      fireEvent.click(screen.getByLabelText("Side by side"));
+
+      const frames = Array.from(document.querySelectorAll("iframe"));
+      expect(frames).toHaveLength(3);
+      for (const frame of frames) {
+        expect(frame.getAttribute("sandbox")).toBe("allow-scripts allow-forms");
+      }
+    });
+  });
 });
@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { GitFork, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toast";
+import { forkProject } from "@/actions/fork-project";
+
+interface ForkProjectDialogProps {
+  project: { id: string; name: string } | null; // Dialog is open while a project is set
+  onClose: () => void;
+}
+
+// Duplicate a project into a new one that records the original as its source
+export function ForkProjectDialog({ project, onClose }: ForkProjectDialogProps) {
+  const router = useRouter();
+  const { success, error: toastError } = useToast();
+  const [includeMessages, setIncludeMessages] = useState(false);
+  const [isForking, setIsForking] = useState(false);
+
+  const handleFork = async () => {
+    if (!project) return;
+    setIsForking(true);
+
+    const result = await forkProject(project.id, includeMessages);
+
+    if (result.success && result.projectId) {
+      success("Project forked", `"${project.name}" was copied to a new design.`);
+      onClose();
+      router.push(`/${result.projectId}`);
+      router.refresh();
+    } else {
+      toastError("Failed to fork project", result.error || "An error occurred");
+    }
+
+    setIsForking(false);
+  };
+
+  return (
+    <Dialog open={!!project} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="border-border/50 bg-card">
+        <DialogHeader>
+          <DialogTitle>Fork &quot;{project?.name}&quot;</DialogTitle>
+          <DialogDescription>
+            Creates a new design with a copy of the files. Changes to the fork never affect the original.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center gap-2">
+          <input
+            id="fork-messages"
+            type="checkbox"
+            checked={includeMessages}
+            onChange={(e) => setIncludeMessages(e.target.checked)}
+            className="h-4 w-4 accent-primary"
+          />
+          <Label htmlFor="fork-messages" className="text-sm font-normal">
+            Copy chat history
+          </Label>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isForking}>
+            Cancel
+          </Button>
+          <Button onClick={handleFork} disabled={isForking}>
+            {isForking ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <GitFork className="h-4 w-4 mr-2" />
+            )}
+            Fork
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { Upload, FileArchive, FolderOpen, Loader2, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toast";
+import { importProject } from "@/actions/import-project";
+import {
+  importProjectFiles,
+  readZipEntries,
+  readUploadedFiles,
+  type ImportEntry,
+  type ImportResult,
+} from "@/lib/import/project-import";
+
+interface ImportProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Read dropped or selected files; a single zip is expanded, anything else is imported as-is
+async function readUpload(files: File[]): Promise<{ sourceName: string; entries: ImportEntry[] }> {
+  if (files.length === 1 && files[0].name.toLowerCase().endsWith(".zip")) {
+    const data = new Uint8Array(await files[0].arrayBuffer());
+    return { sourceName: files[0].name, entries: readZipEntries(data) };
+  }
+
+  const entries = await readUploadedFiles(files);
+  const folder = files[0]?.webkitRelativePath.split("/")[0];
+  return { sourceName: folder || `${files.length} files`, entries };
+}
+
+// Upload flow for starting a project from existing code
+// Validates files locally so rejections are shown before anything is created
+export function ImportProjectDialog({ open, onOpenChange }: ImportProjectDialogProps) {
+  const router = useRouter();
+  const { success, error: toastError } = useToast();
+  const [sourceName, setSourceName] = useState("");
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setResult(null);
+    setSourceName("");
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsReading(true);
+    try {
+      const upload = await readUpload(files);
+      setSourceName(upload.sourceName);
+      setResult(importProjectFiles(upload.entries));
+    } catch (error) {
+      toastError("Could not read upload", "The zip file may be corrupted.");
+      console.error("Failed to read upload:", error);
+    }
+    setIsReading(false);
+  };
+
+  const handleImport = async () => {
+    if (!result) return;
+    setIsImporting(true);
+    try {
+      const response = await importProject({
+        sourceName,
+        files: Object.fromEntries(result.fileSystem.getAllFiles()),
+        rejected: result.rejected,
+      });
+
+      if (response.success && response.projectId) {
+        success("Project imported", `${response.imported?.length ?? 0} files imported.`);
+        handleOpenChange(false);
+        router.push(`/${response.projectId}`);
+        router.refresh();
+      } else {
+        toastError("Failed to import project", response.error || "An error occurred");
+      }
+    } catch (error) {
+      toastError("Failed to import project", "An error occurred");
+      console.error("Failed to import project:", error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg border-border/50 bg-card">
+        <DialogHeader>
+          <DialogTitle>Import Project</DialogTitle>
+          <DialogDescription>
+            Start a design from a zip archive, a folder, or individual files.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!result ? (
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              handleFiles(Array.from(e.dataTransfer.files));
+            }}
+            className={`flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed p-8 text-center transition-colors ${
+              isDragging ? "border-primary bg-primary/5" : "border-border"
+            }`}
+          >
+            {isReading ? (
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            ) : (
+              <Upload className="h-8 w-8 text-muted-foreground" />
+            )}
+            <p className="text-sm text-muted-foreground">Drop a .zip or files here</p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => zipInputRef.current?.click()}
+                disabled={isReading}
+              >
+                <FileArchive className="h-4 w-4 mr-2" />
+                Choose zip
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => folderInputRef.current?.click()}
+                disabled={isReading}
+              >
+                <FolderOpen className="h-4 w-4 mr-2" />
+                Choose folder
+              </Button>
+            </div>
+            <input
+              ref={zipInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={(e) => handleFiles(Array.from(e.target.files ?? []))}
+            />
+            <input
+              ref={folderInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              {...{ webkitdirectory: "" }}
+              onChange={(e) => handleFiles(Array.from(e.target.files ?? []))}
+            />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-foreground">
+              {result.imported.length} file{result.imported.length !== 1 ? "s" : ""} ready to import
+              from <span className="font-medium">{sourceName}</span>
+            </p>
+            {result.rejected.length > 0 && (
+              <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3">
+                <p className="flex items-center gap-2 text-sm font-medium text-destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  {result.rejected.length} file{result.rejected.length !== 1 ? "s" : ""} will be skipped
+                </p>
+                <ul className="mt-2 max-h-48 overflow-y-auto space-y-1 text-xs">
+                  {result.rejected.map((file, index) => (
+                    <li key={`${file.path}-${index}`} className="flex justify-between gap-3">
+                      <span className="truncate font-mono text-foreground" title={file.path}>
+                        {file.path}
+                      </span>
+                      <span className="flex-shrink-0 text-muted-foreground">{file.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <>
+              <Button variant="outline" onClick={reset} disabled={isImporting}>
+                Back
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={isImporting || result.imported.length === 0}
+              >
+                {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Import
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { History, ChevronDown, ChevronRight, MessageSquare, Save, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ProjectSkeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/components/ui/toast";
+import { PreviewFrame } from "@/components/preview/PreviewFrame";
+import { FileSystemProvider, useFileSystem } from "@/lib/contexts/file-system-context";
+import { useChat } from "@/lib/contexts/chat-context";
+import { getProjectSnapshots } from "@/actions/get-project-snapshots";
+import { getProjectSnapshot } from "@/actions/get-project-snapshot";
+import { saveProject } from "@/actions/save-project";
+import type { SnapshotSummary } from "@/lib/snapshots";
+
+interface ProjectHistoryProps {
+  projectId: string;
+  refreshKey?: number; // Incremented by the parent after a manual save
+}
+
+type SnapshotWithData = SnapshotSummary & { data: Record<string, any> };
+
+// Version history for the current project
+// Lists snapshots recorded after each chat turn and manual save, previews one
+// read-only in an isolated file system, and restores it into the editor
+export function ProjectHistory({ projectId, refreshKey = 0 }: ProjectHistoryProps) {
+  const { restoreFiles } = useFileSystem();
+  const { status } = useChat();
+  const { success, error: toastError } = useToast();
+  const [isOpen, setIsOpen] = useState(true);
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState<SnapshotWithData | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const previousStatus = useRef(status);
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      setSnapshots(await getProjectSnapshots(projectId));
+    } catch (error) {
+      console.error("Failed to load project history:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [loadSnapshots, refreshKey]);
+
+  // Reload once a chat turn finishes (the chat route records a snapshot on finish)
+  useEffect(() => {
+    if (previousStatus.current === "streaming" && status === "ready") {
+      loadSnapshots();
+    }
+    previousStatus.current = status;
+  }, [status, loadSnapshots]);
+
+  const openPreview = async (snapshot: SnapshotSummary) => {
+    setLoadingId(snapshot.id);
+    try {
+      setPreviewing(await getProjectSnapshot(snapshot.id));
+    } catch (error) {
+      toastError("Failed to load version", "This version could not be loaded.");
+      console.error("Failed to load snapshot:", error);
+    }
+    setLoadingId(null);
+  };
+
+  const handleRestore = async () => {
+    if (!previewing) return;
+    setIsRestoring(true);
+
+    restoreFiles(previewing.data);
+    // Persist the restored files; this records a new snapshot so the restore itself can be undone
+    const result = await saveProject(
+      projectId,
+      previewing.data,
+      `Restored version from ${format(new Date(previewing.createdAt), "MMM d, h:mm a")}`
+    );
+
+    if (result.success) {
+      success("Version restored", "Your files have been restored.");
+      await loadSnapshots();
+    } else {
+      toastError("Failed to save restored version", result.error || "An error occurred");
+    }
+
+    setIsRestoring(false);
+    setPreviewing(null);
+  };
+
+  return (
+    <div className={`flex flex-col border-t border-sidebar-border ${isOpen ? "max-h-[45%]" : ""}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-3 text-left hover:bg-sidebar-accent/50 transition-colors"
+        aria-expanded={isOpen}
+      >
+        {isOpen ? (
+          <ChevronDown className="h-3.5 w-3.5 text-muted-foreground" />
+        ) : (
+          <ChevronRight className="h-3.5 w-3.5 text-muted-foreground" />
+        )}
+        <History className="h-4 w-4 text-primary" />
+        <h2 className="text-sm font-semibold text-sidebar-foreground">History</h2>
+        {snapshots.length > 0 && (
+          <span className="ml-auto text-xs text-muted-foreground">{snapshots.length}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="flex-1 overflow-y-auto pb-2">
+          {loading ? (
+            <div className="px-2">
+              <ProjectSkeleton />
+            </div>
+          ) : snapshots.length === 0 ? (
+            <p className="px-4 pb-3 text-xs text-muted-foreground">
+              Versions appear here after each AI response or save.
+            </p>
+          ) : (
+            <ul className="px-2">
+              {snapshots.map((snapshot) => (
+                <li key={snapshot.id}>
+                  <button
+                    onClick={() => openPreview(snapshot)}
+                    disabled={loadingId !== null}
+                    className="w-full flex items-start gap-3 px-3 py-2 rounded-lg text-left hover:bg-sidebar-accent/50 transition-colors disabled:cursor-wait"
+                    title={snapshot.prompt}
+                  >
+                    <div className="h-6 w-6 rounded-md bg-muted text-muted-foreground flex items-center justify-center flex-shrink-0 mt-0.5">
+                      {loadingId === snapshot.id ? (
+                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                      ) : snapshot.source === "manual" ? (
+                        <Save className="h-3.5 w-3.5" />
+                      ) : (
+                        <MessageSquare className="h-3.5 w-3.5" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-sidebar-foreground truncate">
+                        {snapshot.prompt || "Untitled change"}
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {formatDistanceToNow(new Date(snapshot.createdAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Read-only preview of a snapshot in an isolated file system */}
+      <Dialog open={!!previewing} onOpenChange={(open) => !open && setPreviewing(null)}>
+        <DialogContent className="sm:max-w-4xl border-border/50 bg-card">
+          <DialogHeader>
+            <DialogTitle>
+              {previewing && format(new Date(previewing.createdAt), "MMM d, yyyy 'at' h:mm a")}
+            </DialogTitle>
+            <DialogDescription className="truncate">
+              {previewing?.prompt || "Untitled change"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="h-[60vh] rounded-lg border border-border/50 overflow-hidden">
+            {previewing && (
+              <FileSystemProvider key={previewing.id} initialData={previewing.data}>
+                <PreviewFrame readOnly />
+              </FileSystemProvider>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPreviewing(null)}>
+              Close
+            </Button>
+            <Button onClick={handleRestore} disabled={isRestoring}>
+              {isRestoring ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RotateCcw className="h-4 w-4 mr-2" />
+              )}
+              Restore this version
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState, useRef, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { formatDistanceToNow } from "date-fns";
-import { Trash2, FolderOpen, Plus, Loader2, Pencil, MoreHorizontal, Trash, Layers } from "lucide-react";
+import { Trash2, FolderOpen, Plus, Loader2, Pencil, MoreHorizontal, Trash, Layers, Upload, Share2, GitFork, Settings2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { deleteProject } from "@/actions/delete-project";
@@ -21,6 +21,10 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { ProjectSkeleton } from "@/components/ui/skeleton";
+import { ImportProjectDialog } from "./ImportProjectDialog";
+import { ShareProjectDialog } from "./ShareProjectDialog";
+import { ForkProjectDialog } from "./ForkProjectDialog";
+import { ProjectSettingsDialog } from "./ProjectSettingsDialog";
 import { useToast } from "@/components/ui/toast";
 import {
   DropdownMenu,
@@ -35,6 +39,7 @@ interface Project {
   name: string;
   createdAt: Date;
   updatedAt: Date;
+  forkedFrom?: { isOwn: true; id: string; name: string } | { isOwn: false } | null; // Source project of a fork; only the user's own sources are named
 }
 
 interface ProjectListProps {
@@ -50,6 +55,10 @@ export function ProjectList({ projects, currentProjectId, loading = false }: Pro
   const [confirmDeleteAll, setConfirmDeleteAll] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [isDeletingAll, setIsDeletingAll] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [sharingProject, setSharingProject] = useState<Project | null>(null);
+  const [forkingProject, setForkingProject] = useState<Project | null>(null);
+  const [settingsProject, setSettingsProject] = useState<Project | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState("");
   const inputRef = useRef<HTMLInputElement>(null);
@@ -179,6 +188,16 @@ export function ProjectList({ projects, currentProjectId, loading = false }: Pro
             )}
           </Button>
 
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsImportOpen(true)}
+            className="h-8 w-8 p-0 hover:bg-sidebar-accent"
+            title="Import project"
+          >
+            <Upload className="h-4 w-4" />
+          </Button>
+
           {projects.length > 0 && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -225,6 +244,7 @@ export function ProjectList({ projects, currentProjectId, loading = false }: Pro
               const isActive = project.id === currentProjectId;
               const isDeleting = deletingId === project.id;
               const isEditing = editingId === project.id;
+              const forkedFrom = project.forkedFrom;
 
               return (
                 <li
@@ -282,37 +302,76 @@ export function ProjectList({ projects, currentProjectId, loading = false }: Pro
                               addSuffix: true,
                             })}
                           </p>
+                          {forkedFrom && (
+                            <p className="flex items-center gap-1 text-xs text-muted-foreground mt-0.5 truncate">
+                              <GitFork className="h-3 w-3 flex-shrink-0" />
+                              {forkedFrom.isOwn ? (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    router.push(`/${forkedFrom.id}`);
+                                  }}
+                                  onKeyDown={(e) => e.stopPropagation()}
+                                  title={`Forked from ${forkedFrom.name}`}
+                                  className="truncate hover:text-foreground hover:underline"
+                                >
+                                  {forkedFrom.name}
+                                </button>
+                              ) : (
+                                <span className="truncate">Forked from a shared project</span>
+                              )}
+                            </p>
+                          )}
                         </div>
 
-                        {/* Action buttons */}
-                        <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-all">
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              startRename(project);
-                            }}
-                            disabled={isDeleting}
-                            className="p-1.5 rounded-md hover:bg-background text-muted-foreground hover:text-foreground transition-all translate-x-1 group-hover:translate-x-0 focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
-                            title="Rename"
-                          >
-                            <Pencil className="h-3.5 w-3.5" />
-                          </button>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setConfirmDelete(project);
-                            }}
-                            disabled={isDeleting}
-                            className="p-1.5 rounded-md hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-all translate-x-1 group-hover:translate-x-0 delay-75 focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
-                            title="Delete"
+                        {/* Project actions */}
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <button
+                              onClick={(e) => e.stopPropagation()}
+                              onKeyDown={(e) => e.stopPropagation()}
+                              disabled={isDeleting}
+                              className="p-1.5 rounded-md opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 hover:bg-background text-muted-foreground hover:text-foreground transition-all focus-visible:opacity-100 focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                              title="Project actions"
+                            >
+                              {isDeleting ? (
+                                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                              ) : (
+                                <MoreHorizontal className="h-3.5 w-3.5" />
+                              )}
+                            </button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent
+                            align="end"
+                            className="w-40"
+                            onClick={(e) => e.stopPropagation()}
                           >
-                            {isDeleting ? (
-                              <Loader2 className="h-3.5 w-3.5 animate-spin" />
-                            ) : (
-                              <Trash2 className="h-3.5 w-3.5" />
-                            )}
-                          </button>
-                        </div>
+                            <DropdownMenuItem onClick={() => startRename(project)}>
+                              <Pencil className="h-4 w-4 mr-2" />
+                              Rename
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setForkingProject(project)}>
+                              <GitFork className="h-4 w-4 mr-2" />
+                              Fork
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setSharingProject(project)}>
+                              <Share2 className="h-4 w-4 mr-2" />
+                              Share
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setSettingsProject(project)}>
+                              <Settings2 className="h-4 w-4 mr-2" />
+                              Settings
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              onClick={() => setConfirmDelete(project)}
+                              className="text-destructive focus:text-destructive focus:bg-destructive/10"
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
                       </div>
                     </div>
                   )}
@@ -323,6 +382,11 @@ export function ProjectList({ projects, currentProjectId, loading = false }: Pro
         )}
       </div>
 
+      <ImportProjectDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+      <ShareProjectDialog project={sharingProject} onClose={() => setSharingProject(null)} />
+      <ForkProjectDialog project={forkingProject} onClose={() => setForkingProject(null)} />
+      <ProjectSettingsDialog project={settingsProject} onClose={() => setSettingsProject(null)} />
+
       {/* Delete Single Project Confirmation */}
       <AlertDialog
         open={!!confirmDelete}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toast";
+import { getProjectInstructions, updateProjectInstructions } from "@/actions/project-instructions";
+import { PROJECT_INSTRUCTIONS } from "@/lib/constants";
+import { cn } from "@/lib/utils";
+
+interface ProjectSettingsDialogProps {
+  project: { id: string; name: string } | null; // Dialog is open while a project is set
+  onClose: () => void;
+}
+
+// Edit the custom instructions the AI follows for every message in a project
+export function ProjectSettingsDialog({ project, onClose }: ProjectSettingsDialogProps) {
+  const { success, error: toastError } = useToast();
+  const [instructions, setInstructions] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!project) return;
+    setLoading(true);
+    getProjectInstructions(project.id).then((result) => {
+      setInstructions(result.instructions ?? "");
+      setLoading(false);
+    });
+  }, [project]);
+
+  const tooLong = instructions.length > PROJECT_INSTRUCTIONS.MAX_LENGTH;
+
+  const handleSave = async () => {
+    if (!project) return;
+    setSaving(true);
+    const result = await updateProjectInstructions(project.id, instructions);
+    setSaving(false);
+    if (result.success) {
+      success("Instructions saved");
+      onClose();
+    } else {
+      toastError("Failed to save instructions", result.error || "An error occurred");
+    }
+  };
+
+  return (
+    <Dialog open={!!project} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="border-border/50 bg-card">
+        <DialogHeader>
+          <DialogTitle>&quot;{project?.name}&quot; settings</DialogTitle>
+          <DialogDescription>
+            Instructions the AI follows for every message in this project, such as brand colors,
+            component patterns or &quot;no external packages&quot;.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="project-instructions">Instructions</Label>
+            <textarea
+              id="project-instructions"
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              disabled={saving}
+              rows={8}
+              placeholder={"Use TypeScript.\nPrimary color: #0f766e.\nDon't add third-party packages."}
+              aria-invalid={tooLong}
+              className={cn(
+                "placeholder:text-muted-foreground dark:bg-input/30 border-input w-full min-w-0 resize-y rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none",
+                "focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]",
+                "aria-invalid:border-destructive"
+              )}
+            />
+            <div className="flex justify-between gap-4 text-xs text-muted-foreground">
+              <span>
+                Instructions in <code className="font-mono">{PROJECT_INSTRUCTIONS.FILE_PATH}</code> are
+                also followed, and travel with exports.
+              </span>
+              <span className={cn("tabular-nums", tooLong && "text-destructive")}>
+                {instructions.length.toLocaleString()}/{PROJECT_INSTRUCTIONS.MAX_LENGTH.toLocaleString()}
+              </span>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading || tooLong}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Link2, Copy, Check, RefreshCw, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toast";
+import {
+  getProjectShare,
+  shareProject,
+  rotateShareLink,
+  revokeShareLink,
+  type ShareResult,
+} from "@/actions/share-project";
+
+interface ShareProjectDialogProps {
+  project: { id: string; name: string } | null; // Dialog is open while a project is set
+  onClose: () => void;
+}
+
+// Create, rotate and revoke the public read-only link for a project
+export function ShareProjectDialog({ project, onClose }: ShareProjectDialogProps) {
+  const { success, error: toastError } = useToast();
+  const [shareToken, setShareToken] = useState<string | null>(null);
+  const [shareMessages, setShareMessages] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!project) return;
+    setLoading(true);
+    setCopied(false);
+    getProjectShare(project.id).then((result) => {
+      setShareToken(result.shareToken ?? null);
+      setShareMessages(result.shareMessages ?? false);
+      setLoading(false);
+    });
+  }, [project]);
+
+  const shareUrl =
+    shareToken && typeof window !== "undefined"
+      ? `${window.location.origin}/share/${shareToken}`
+      : "";
+
+  const run = async (action: () => Promise<ShareResult>, successTitle: string) => {
+    setPending(true);
+    const result = await action();
+    if (result.success) {
+      setShareToken(result.shareToken ?? null);
+      setShareMessages(result.shareMessages ?? false);
+      setCopied(false);
+      success(successTitle);
+    } else {
+      toastError("Failed to update share link", result.error || "An error occurred");
+    }
+    setPending(false);
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(shareUrl);
+    setCopied(true);
+  };
+
+  return (
+    <Dialog open={!!project} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="border-border/50 bg-card">
+        <DialogHeader>
+          <DialogTitle>Share &quot;{project?.name}&quot;</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view the preview and code without an account.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {shareToken && (
+              <div className="flex gap-2">
+                <Input value={shareUrl} readOnly className="font-mono text-xs" aria-label="Share link" />
+                <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <input
+                id="share-messages"
+                type="checkbox"
+                checked={shareMessages}
+                disabled={pending}
+                onChange={(e) => {
+                  const include = e.target.checked;
+                  if (shareToken && project) {
+                    run(() => shareProject(project.id, include), "Share settings updated");
+                  } else {
+                    setShareMessages(include);
+                  }
+                }}
+                className="h-4 w-4 accent-primary"
+              />
+              <Label htmlFor="share-messages" className="text-sm font-normal">
+                Include chat history
+              </Label>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {shareToken ? (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => project && run(() => revokeShareLink(project.id), "Share link revoked")}
+                disabled={pending}
+                className="text-destructive hover:text-destructive"
+              >
+                Revoke
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => project && run(() => rotateShareLink(project.id), "Share link rotated")}
+                disabled={pending}
+                title="Create a new link; the current link stops working"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Rotate link
+              </Button>
+            </>
+          ) : (
+            <Button
+              onClick={() =>
+                project && run(() => shareProject(project.id, shareMessages), "Share link created")
+              }
+              disabled={pending || loading}
+            >
+              {pending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Link2 className="h-4 w-4 mr-2" />
+              )}
+              Create link
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
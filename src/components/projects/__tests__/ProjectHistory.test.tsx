@@ -0,0 +1,87 @@
+import { test, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, cleanup, fireEvent, waitFor } from "@testing-library/react";
+import { ProjectHistory } from "../ProjectHistory";
+import { FileSystemProvider } from "@/lib/contexts/file-system-context";
+
+// The live chat of the project being edited
+const setPreviewErrors = vi.fn();
+const sendMessage = vi.fn();
+const setAutoRepair = vi.fn();
+vi.mock("@/lib/contexts/chat-context", () => {
+  const chat = {
+    status: "ready",
+    sendMessage: (...args: unknown[]) => sendMessage(...args),
+    autoRepair: false,
+    setAutoRepair: (...args: unknown[]) => setAutoRepair(...args),
+    setPreviewErrors: (...args: unknown[]) => setPreviewErrors(...args),
+  };
+  return { useChat: () => chat, useOptionalChat: () => chat };
+});
+
+vi.mock("@/components/ui/toast", () => ({
+  useToast: () => ({ success: vi.fn(), error: vi.fn() }),
+}));
+
+vi.mock("@/actions/get-project-snapshots", () => ({
+  getProjectSnapshots: vi.fn(async () => [
+    { id: "snap-1", prompt: "Add a card", source: "chat", createdAt: new Date() },
+  ]),
+}));
+
+vi.mock("@/actions/get-project-snapshot", () => ({
+  getProjectSnapshot: vi.fn(async () => ({
+    id: "snap-1",
+    prompt: "Add a card",
+    source: "chat",
+    createdAt: new Date(),
+    data: {
+      "/": { type: "directory", name: "", path: "/" },
+      "/App.jsx": {
+        type: "file",
+        name: "App.jsx",
+        path: "/App.jsx",
+        content: "export default function App() { return <div>Card</div>; }",
+      },
+    },
+  })),
+}));
+
+vi.mock("@/actions/save-project", () => ({
+  saveProject: vi.fn(),
+}));
+
+let nextUrl = 0;
+beforeEach(() => {
+  global.URL.createObjectURL = vi.fn(() => `blob:module-${nextUrl++}`);
+  global.URL.revokeObjectURL = vi.fn();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+});
+
+test("previews a version without connecting it to the live chat", async () => {
+  render(
+    <FileSystemProvider>
+      <ProjectHistory projectId="project-1" />
+    </FileSystemProvider>
+  );
+
+  fireEvent.click(await screen.findByText("Add a card"));
+  const iframe = await screen.findByTitle("Preview");
+
+  // Errors in the old version are not the current project's to fix
+  window.dispatchEvent(
+    new MessageEvent("message", {
+      data: { type: "uigen:console", kind: "error", level: "error", message: "Uncaught Error: old" },
+      source: (iframe as HTMLIFrameElement).contentWindow,
+    })
+  );
+  fireEvent.click(screen.getByText("Console"));
+
+  await waitFor(() => expect(screen.getByText("Uncaught Error: old")).toBeTruthy());
+  expect(screen.queryByText("Ask AI to fix")).toBeNull();
+  expect(screen.queryByText("Auto-repair")).toBeNull();
+  expect(setPreviewErrors).not.toHaveBeenCalled();
+});
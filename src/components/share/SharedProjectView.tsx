@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { Eye, MessageSquare, GitFork, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "@/components/ui/resizable";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ThemeToggle } from "@/components/ui/theme-toggle";
+import { FileSystemProvider } from "@/lib/contexts/file-system-context";
+import { EditorTabsProvider } from "@/lib/contexts/editor-tabs-context";
+import { PreviewFrame } from "@/components/preview/PreviewFrame";
+import { FileTree } from "@/components/editor/FileTree";
+import { CodeEditor } from "@/components/editor/CodeEditor";
+import { MessageList } from "@/components/chat/MessageList";
+import { useToast } from "@/components/ui/toast";
+import { forkSharedProject } from "@/actions/fork-project";
+
+type View = "preview" | "code" | "chat";
+
+interface SharedProjectViewProps {
+  token: string;
+  canFork: boolean; // Signed-in viewers can fork into their own projects
+  project: {
+    name: string;
+    data: Record<string, any>;
+    messages: any[] | null; // null unless the owner shared the chat history
+    updatedAt: Date;
+  };
+}
+
+const tabClassName =
+  "data-[state=active]:bg-foreground data-[state=active]:text-background data-[state=inactive]:bg-transparent data-[state=inactive]:text-muted-foreground data-[state=inactive]:hover:text-foreground px-4 py-1.5 text-sm font-medium transition-all duration-200 rounded-md border-0";
+
+// Read-only project viewer for public share links
+// Uses its own file system; nothing here writes back to the project
+export function SharedProjectView({ token, canFork, project }: SharedProjectViewProps) {
+  const router = useRouter();
+  const { error: toastError } = useToast();
+  const [activeView, setActiveView] = useState<View>("preview");
+  const [isForking, setIsForking] = useState(false);
+
+  const handleFork = async () => {
+    if (!canFork) {
+      // Sign-in lives on the home page
+      router.push("/");
+      return;
+    }
+
+    setIsForking(true);
+    const result = await forkSharedProject(token);
+    if (result.success && result.projectId) {
+      router.push(`/${result.projectId}`);
+    } else {
+      toastError("Failed to fork project", result.error || "An error occurred");
+      setIsForking(false);
+    }
+  };
+
+  return (
+    <FileSystemProvider initialData={project.data}>
+      <EditorTabsProvider>
+        <div className="h-screen w-screen overflow-hidden bg-background flex flex-col">
+          <div className="h-14 border-b border-border/50 px-6 flex items-center justify-between bg-card/50 backdrop-blur-sm">
+            <div className="flex items-center gap-4 min-w-0">
+              <div className="min-w-0">
+                <h1 className="text-sm font-semibold text-foreground truncate">{project.name}</h1>
+                <p className="text-xs text-muted-foreground">
+                  Updated {formatDistanceToNow(new Date(project.updatedAt), { addSuffix: true })}
+                </p>
+              </div>
+              <span className="flex items-center gap-1 rounded-md border border-border px-2 py-0.5 text-xs text-muted-foreground">
+                <Eye className="h-3 w-3" />
+                Read-only
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Tabs value={activeView} onValueChange={(v) => setActiveView(v as View)}>
+                <TabsList className="bg-transparent border border-border rounded-lg p-0.5 h-9 gap-0.5">
+                  <TabsTrigger value="preview" className={tabClassName}>
+                    Preview
+                  </TabsTrigger>
+                  <TabsTrigger value="code" className={tabClassName}>
+                    Code
+                  </TabsTrigger>
+                  {project.messages && (
+                    <TabsTrigger value="chat" className={tabClassName}>
+                      <MessageSquare className="h-3.5 w-3.5 mr-1.5" />
+                      Chat
+                    </TabsTrigger>
+                  )}
+                </TabsList>
+              </Tabs>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleFork}
+                disabled={isForking}
+                title={canFork ? "Copy this design into your projects" : "Sign in to fork this design"}
+              >
+                {isForking ? (
+                  <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+                ) : (
+                  <GitFork className="h-4 w-4 mr-1.5" />
+                )}
+                {canFork ? "Fork" : "Sign in to fork"}
+              </Button>
+              <ThemeToggle />
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-hidden bg-muted/30 dark:bg-background/50">
+            {activeView === "preview" && (
+              <div className="h-full p-6 canvas-pattern">
+                <div className="h-full preview-artboard rounded-lg border border-border/50 overflow-hidden">
+                  <PreviewFrame readOnly />
+                </div>
+              </div>
+            )}
+            {activeView === "code" && (
+              <ResizablePanelGroup direction="horizontal" className="h-full">
+                <ResizablePanel defaultSize={28} minSize={20} maxSize={40}>
+                  <div className="h-full bg-sidebar border-r border-border/50">
+                    <FileTree />
+                  </div>
+                </ResizablePanel>
+                <ResizableHandle className="w-1 bg-border/50 hover:bg-primary/50 transition-all" />
+                <ResizablePanel defaultSize={72}>
+                  <div className="h-full bg-card">
+                    <CodeEditor readOnly />
+                  </div>
+                </ResizablePanel>
+              </ResizablePanelGroup>
+            )}
+            {activeView === "chat" && project.messages && (
+              <div className="h-full overflow-y-auto">
+                <MessageList messages={project.messages} />
+              </div>
+            )}
+          </div>
+        </div>
+      </EditorTabsProvider>
+    </FileSystemProvider>
+  );
+}
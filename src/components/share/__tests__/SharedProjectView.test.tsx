@@ -0,0 +1,61 @@
+import { test, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, cleanup, act } from "@testing-library/react";
+import { SharedProjectView } from "../SharedProjectView";
+
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({ push: vi.fn() }),
+}));
+
+vi.mock("@/components/ui/toast", () => ({
+  useToast: () => ({ error: vi.fn() }),
+}));
+
+vi.mock("@/actions/fork-project", () => ({
+  forkSharedProject: vi.fn(),
+}));
+
+// The preview imports the chat context, which imports this action
+vi.mock("@/actions/save-project", () => ({
+  saveProject: vi.fn(),
+}));
+
+// The code and chat views aren't rendered until their tab is picked
+vi.mock("@/components/editor/CodeEditor", () => ({ CodeEditor: () => null }));
+vi.mock("@/components/editor/FileTree", () => ({ FileTree: () => null }));
+vi.mock("@/components/chat/MessageList", () => ({ MessageList: () => null }));
+
+let nextUrl = 0;
+beforeEach(() => {
+  global.URL.createObjectURL = vi.fn(() => `blob:module-${nextUrl++}`);
+  global.URL.revokeObjectURL = vi.fn();
+});
+
+afterEach(() => {
+  cleanup();
+});
+
+const project = {
+  name: "Shared Card",
+  data: {
+    "/": { type: "directory", name: "", path: "/" },
+    "/App.jsx": {
+      type: "file",
+      name: "App.jsx",
+      path: "/App.jsx",
+      content: "export default function App() { return <div>Card</div>; }",
+    },
+  },
+  messages: null,
+  updatedAt: new Date(),
+};
+
+test("renders the preview without a chat", async () => {
+  await act(async () => {
+    render(<SharedProjectView token="abc" canFork={false} project={project} />);
+  });
+
+  expect(screen.getByText("Shared Card")).toBeTruthy();
+  expect(screen.getByTitle("Preview")).toBeTruthy();
+  expect(screen.getByText("Console")).toBeTruthy();
+  expect(screen.queryByText("Auto-repair")).toBeNull();
+});
@@ -75,6 +75,7 @@ export function createAppShortcuts(handlers: {
   onSwitchToChat?: () => void;
   onSwitchToCode?: () => void;
   onSwitchToPreview?: () => void;
+  onSave?: () => void;
 }): KeyboardShortcut[] {
   const shortcuts: KeyboardShortcut[] = [];
 
@@ -123,5 +124,14 @@ export function createAppShortcuts(handlers: {
     });
   }
 
+  if (handlers.onSave) {
+    shortcuts.push({
+      key: "s",
+      meta: true,
+      handler: handlers.onSave,
+      description: "Save project",
+    });
+  }
+
   return shortcuts;
 }
@@ -9,6 +9,7 @@ import {
   invalidJsonResponse,
   rateLimitResponse,
   serverErrorResponse,
+  withHeaders,
 } from "../api-responses";
 
 describe("api-responses", () => {
@@ -143,4 +144,14 @@ describe("api-responses", () => {
       expect(await response.json()).toEqual({ error: "Database connection failed" });
     });
   });
+
+  describe("withHeaders", () => {
+    it("adds headers to an error response", async () => {
+      const response = withHeaders(notFoundResponse("Missing"), { "Access-Control-Allow-Origin": "*" });
+
+      expect(response.status).toBe(404);
+      expect(response.headers.get("Access-Control-Allow-Origin")).toBe("*");
+      expect(await response.json()).toEqual({ error: "Missing" });
+    });
+  });
 });
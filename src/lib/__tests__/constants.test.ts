@@ -8,6 +8,8 @@ import {
   PROJECT_NAME_MAX_LENGTH,
   DEFAULT_PROVIDER,
   EMPTY_API_KEYS,
+  SNAPSHOT_LIMITS,
+  SHARE_LINKS,
   VALIDATION_TIMEOUT_MS,
 } from "../constants";
 
@@ -122,6 +124,19 @@ describe("constants", () => {
     });
   });
 
+  describe("SNAPSHOT_LIMITS", () => {
+    it("defines snapshot retention and prompt length", () => {
+      expect(SNAPSHOT_LIMITS.MAX_PER_PROJECT).toBe(50);
+      expect(SNAPSHOT_LIMITS.PROMPT_MAX_LENGTH).toBe(200);
+    });
+  });
+
+  describe("SHARE_LINKS", () => {
+    it("uses enough random bytes for unguessable tokens", () => {
+      expect(SHARE_LINKS.TOKEN_BYTES).toBeGreaterThanOrEqual(16);
+    });
+  });
+
   describe("VALIDATION_TIMEOUT_MS", () => {
     it("equals 10 seconds", () => {
       expect(VALIDATION_TIMEOUT_MS).toBe(10_000);
@@ -0,0 +1,156 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import {
+  EMPTY_TABS_STATE,
+  closeTab,
+  focusPane,
+  getFocusedFile,
+  getVisibleFiles,
+  isModifiedSinceViewed,
+  loadTabsState,
+  markViewed,
+  openTab,
+  parseTabsState,
+  retainExistingFiles,
+  saveTabsState,
+  splitPane,
+  type EditorTabsState,
+} from "../editor-tabs";
+
+function withTabs(tabs: string[], active: string | null = tabs[0] ?? null): EditorTabsState {
+  return { ...EMPTY_TABS_STATE, panes: [{ tabs, active }] };
+}
+
+describe("openTab", () => {
+  test("should add a tab after the active one and activate it", () => {
+    const state = openTab(withTabs(["/App.jsx", "/Card.jsx"], "/App.jsx"), "/Button.jsx");
+
+    expect(state.panes[0].tabs).toEqual(["/App.jsx", "/Button.jsx", "/Card.jsx"]);
+    expect(getFocusedFile(state)).toBe("/Button.jsx");
+  });
+
+  test("should activate a tab that is already open", () => {
+    const state = openTab(withTabs(["/App.jsx", "/Card.jsx"], "/App.jsx"), "/Card.jsx");
+
+    expect(state.panes[0].tabs).toEqual(["/App.jsx", "/Card.jsx"]);
+    expect(getFocusedFile(state)).toBe("/Card.jsx");
+  });
+
+  test("should open in the given pane and focus it", () => {
+    const split = splitPane(withTabs(["/App.jsx"]));
+    const state = openTab(split, "/Card.jsx", 0);
+
+    expect(state.focused).toBe(0);
+    expect(state.panes[0].active).toBe("/Card.jsx");
+    expect(state.panes[1].tabs).toEqual(["/App.jsx"]);
+  });
+});
+
+describe("closeTab", () => {
+  test("should activate the right neighbour, then the left", () => {
+    const state = withTabs(["/A.jsx", "/B.jsx", "/C.jsx"], "/B.jsx");
+
+    const afterB = closeTab(state, 0, "/B.jsx");
+    expect(afterB.panes[0]).toEqual({ tabs: ["/A.jsx", "/C.jsx"], active: "/C.jsx" });
+
+    const afterC = closeTab(afterB, 0, "/C.jsx");
+    expect(afterC.panes[0]).toEqual({ tabs: ["/A.jsx"], active: "/A.jsx" });
+  });
+
+  test("should keep the active tab when closing another", () => {
+    const state = closeTab(withTabs(["/A.jsx", "/B.jsx"], "/A.jsx"), 0, "/B.jsx");
+
+    expect(state.panes[0]).toEqual({ tabs: ["/A.jsx"], active: "/A.jsx" });
+  });
+
+  test("should leave an empty single pane", () => {
+    const state = closeTab(withTabs(["/A.jsx"]), 0, "/A.jsx");
+
+    expect(state.panes).toEqual([{ tabs: [], active: null }]);
+    expect(getFocusedFile(state)).toBeNull();
+  });
+
+  test("should close a split pane once its last tab is closed", () => {
+    const split = openTab(splitPane(withTabs(["/A.jsx"])), "/B.jsx");
+    const state = closeTab(closeTab(split, 1, "/A.jsx"), 1, "/B.jsx");
+
+    expect(state.panes).toEqual([{ tabs: ["/A.jsx"], active: "/A.jsx" }]);
+    expect(state.focused).toBe(0);
+  });
+});
+
+describe("splitPane", () => {
+  test("should open the focused file in a second, focused pane", () => {
+    const state = splitPane(withTabs(["/A.jsx", "/B.jsx"], "/B.jsx"));
+
+    expect(state.panes[1]).toEqual({ tabs: ["/B.jsx"], active: "/B.jsx" });
+    expect(state.focused).toBe(1);
+    expect(getVisibleFiles(state)).toEqual(["/B.jsx", "/B.jsx"]);
+  });
+
+  test("should not split more than twice or without a file", () => {
+    const split = splitPane(withTabs(["/A.jsx"]));
+
+    expect(splitPane(split)).toBe(split);
+    expect(splitPane(EMPTY_TABS_STATE)).toBe(EMPTY_TABS_STATE);
+  });
+});
+
+describe("focusPane", () => {
+  test("should focus an existing pane only", () => {
+    const split = splitPane(withTabs(["/A.jsx"]));
+
+    expect(focusPane(split, 0).focused).toBe(0);
+    expect(focusPane(split, 5)).toBe(split);
+  });
+});
+
+describe("retainExistingFiles", () => {
+  test("should close tabs and forget hashes of missing files", () => {
+    const state = markViewed(withTabs(["/A.jsx", "/B.jsx"], "/B.jsx"), "/B.jsx", "hash");
+
+    const next = retainExistingFiles(state, (path) => path === "/A.jsx");
+
+    expect(next.panes[0]).toEqual({ tabs: ["/A.jsx"], active: "/A.jsx" });
+    expect(next.viewed).toEqual({});
+  });
+
+  test("should return the same state when every file exists", () => {
+    const state = markViewed(withTabs(["/A.jsx"]), "/A.jsx", "hash");
+
+    expect(retainExistingFiles(state, () => true)).toBe(state);
+  });
+});
+
+describe("isModifiedSinceViewed", () => {
+  test("should flag files whose content changed since last shown", () => {
+    const state = markViewed(EMPTY_TABS_STATE, "/A.jsx", "v1");
+
+    expect(isModifiedSinceViewed(state, "/A.jsx", "v1")).toBe(false);
+    expect(isModifiedSinceViewed(state, "/A.jsx", "v2")).toBe(true);
+    expect(isModifiedSinceViewed(state, "/B.jsx", "v1")).toBe(false);
+  });
+});
+
+describe("persistence", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  test("should save and load tab state per project", () => {
+    const state = markViewed(splitPane(withTabs(["/A.jsx", "/B.jsx"])), "/A.jsx", "hash");
+
+    saveTabsState("project-1", state);
+
+    expect(loadTabsState("project-1")).toEqual(state);
+    expect(loadTabsState("project-2")).toBeNull();
+  });
+
+  test("should ignore invalid stored state", () => {
+    localStorage.setItem("react-ai-ui-generator_editor_tabs_project-1", "{not json");
+    expect(loadTabsState("project-1")).toBeNull();
+
+    expect(parseTabsState({ panes: [], focused: 0, viewed: {} })).toBeNull();
+    expect(parseTabsState({ panes: [{ tabs: ["/A.jsx"], active: "/B.jsx" }], focused: 0, viewed: {} })).toBeNull();
+    expect(parseTabsState({ panes: [{ tabs: [], active: null }], focused: 1, viewed: {} })).toBeNull();
+  });
+});
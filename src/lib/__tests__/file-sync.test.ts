@@ -0,0 +1,156 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import type { UIMessageChunk } from "ai";
+import {
+  applyFileDelta,
+  checksumFiles,
+  diffSerializedFiles,
+  streamFileChanges,
+  FILE_DELTA_PART,
+  FILE_SYNC_PART,
+} from "../file-sync";
+import { VirtualFileSystem } from "../file-system";
+
+let server: VirtualFileSystem;
+let client: VirtualFileSystem;
+
+beforeEach(() => {
+  server = new VirtualFileSystem();
+  server.createFile("/App.jsx", "app");
+  server.createFile("/components/Card.jsx", "card");
+  server.createFile("/components/Badge.jsx", "badge");
+  client = new VirtualFileSystem();
+  client.deserializeFromNodes(server.serialize());
+});
+
+describe("diffSerializedFiles", () => {
+  test("lists changed, added and removed nodes", () => {
+    const before = server.serialize();
+    server.updateFile("/App.jsx", "app v2");
+    server.createFile("/hooks/useCart.js", "cart");
+    server.deleteFile("/components/Badge.jsx");
+
+    const delta = diffSerializedFiles(before, server.serialize());
+
+    expect(delta.upserts.map((node) => node.path)).toEqual(["/App.jsx", "/hooks", "/hooks/useCart.js"]);
+    expect(delta.deletes).toEqual(["/components/Badge.jsx"]);
+  });
+
+  test("deletes and recreates a node that changes between file and directory", () => {
+    const before = server.serialize();
+    server.deleteFile("/App.jsx");
+    server.createFile("/App.jsx/index.js", "app");
+
+    const delta = diffSerializedFiles(before, server.serialize());
+
+    expect(delta.deletes).toEqual(["/App.jsx"]);
+    expect(delta.upserts.map((node) => [node.path, node.type])).toEqual([
+      ["/App.jsx", "directory"],
+      ["/App.jsx/index.js", "file"],
+    ]);
+  });
+});
+
+describe("applyFileDelta", () => {
+  test("brings another file system in line, including renamed directories", () => {
+    const before = server.serialize();
+    server.rename("/components", "/ui");
+    server.updateFile("/App.jsx", "import Card from '@/ui/Card';");
+
+    applyFileDelta(client, diffSerializedFiles(before, server.serialize()));
+
+    expect(client.serialize()).toEqual(server.serialize());
+    expect(client.exists("/components")).toBe(false);
+  });
+});
+
+describe("checksumFiles", () => {
+  test("matches for equal trees whatever the key order", () => {
+    const files = server.serialize();
+    const reversed = Object.fromEntries(Object.entries(files).reverse());
+
+    expect(checksumFiles(reversed)).toBe(checksumFiles(files));
+    expect(checksumFiles(files)).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  test("changes with any content, path or node type", () => {
+    const checksum = checksumFiles(server.serialize());
+
+    client.updateFile("/App.jsx", "app ");
+    expect(checksumFiles(client.serialize())).not.toBe(checksum);
+
+    client.updateFile("/App.jsx", "app");
+    client.createDirectory("/empty");
+    expect(checksumFiles(client.serialize())).not.toBe(checksum);
+  });
+});
+
+describe("streamFileChanges", () => {
+  // Write chunks through the transform, calling each chunk's action (a tool
+  // running) just before the chunk is written
+  async function run(steps: [UIMessageChunk, () => void][]): Promise<UIMessageChunk[]> {
+    const transform = streamFileChanges(server);
+    const output: UIMessageChunk[] = [];
+    const reading = (async () => {
+      const reader = transform.readable.getReader();
+      for (let result = await reader.read(); !result.done; result = await reader.read()) {
+        output.push(result.value);
+      }
+    })();
+
+    const writer = transform.writable.getWriter();
+    for (const [chunk, action] of steps) {
+      action();
+      await writer.write(chunk);
+    }
+    await writer.close();
+    await reading;
+    return output;
+  }
+
+  const toolOutput = (toolCallId: string): UIMessageChunk => ({
+    type: "tool-output-available",
+    toolCallId,
+    output: "ok",
+  });
+  const noop = () => {};
+
+  test("sends a delta before each tool result that changed files, then the whole tree", async () => {
+    const output = await run([
+      [{ type: "start" }, noop],
+      [toolOutput("view"), noop],
+      [toolOutput("edit"), () => server.updateFile("/App.jsx", "app v2")],
+      [toolOutput("delete"), () => server.deleteFile("/components/Badge.jsx")],
+      [{ type: "finish" }, noop],
+    ]);
+
+    expect(output.map((chunk) => chunk.type)).toEqual([
+      "start",
+      "tool-output-available",
+      FILE_DELTA_PART,
+      "tool-output-available",
+      FILE_DELTA_PART,
+      "tool-output-available",
+      "finish",
+      FILE_SYNC_PART,
+    ]);
+    expect(output[2]).toEqual({
+      type: FILE_DELTA_PART,
+      data: { upserts: [expect.objectContaining({ path: "/App.jsx", content: "app v2" })], deletes: [] },
+      transient: true,
+    });
+    expect(output[4]).toMatchObject({ data: { upserts: [], deletes: ["/components/Badge.jsx"] } });
+
+    const files = server.serialize();
+    expect(output[7]).toEqual({ type: FILE_SYNC_PART, data: { files, checksum: checksumFiles(files) }, transient: true });
+  });
+
+  test("sends nothing extra when the response changed no files", async () => {
+    const output = await run([
+      [{ type: "start" }, noop],
+      [toolOutput("view"), noop],
+      [{ type: "finish" }, noop],
+    ]);
+
+    expect(output.map((chunk) => chunk.type)).toEqual(["start", "tool-output-available", "finish"]);
+  });
+});
@@ -385,6 +385,30 @@ test("createFileWithParents returns error for existing file", () => {
   expect(result).toBe("Error: File already exists: /test.txt");
 });
 
+test("createFileWithParents reports disallowed extensions without creating folders", () => {
+  const fs = new VirtualFileSystem();
+
+  const result = fs.createFileWithParents("/assets/logo.png", "binary");
+
+  expect(result).toMatch(/^Error: File type not allowed: \/assets\/logo\.png/);
+  expect(fs.exists("/assets")).toBe(false);
+});
+
+test("createFileWithParents reports size limit violations", () => {
+  const fs = new VirtualFileSystem();
+
+  expect(fs.createFileWithParents("/big.js", "x".repeat(500_001))).toBe(
+    "Error: File too large (max 500KB)"
+  );
+
+  for (let i = 0; i < 100; i++) {
+    fs.createFile(`/file${i}.js`, "");
+  }
+  expect(fs.createFileWithParents("/one-more.js", "")).toBe(
+    "Error: File limit reached (max 100 files)"
+  );
+});
+
 test("replaceInFile replaces all occurrences", () => {
   const fs = new VirtualFileSystem();
   fs.createFile("/test.txt", "foo bar foo baz foo");
@@ -486,6 +510,33 @@ test("insertInFile returns error for directory", () => {
   expect(result).toBe("Error: Cannot edit a directory: /src");
 });
 
+test("writeFile replaces content as one undoable edit", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "Hello World");
+
+  expect(fs.writeFile("/test.txt", "Goodbye")).toBe("Wrote /test.txt");
+  expect(fs.readFile("/test.txt")).toBe("Goodbye");
+
+  fs.undoEdit("/test.txt");
+  expect(fs.readFile("/test.txt")).toBe("Hello World");
+});
+
+test("writeFile returns error for non-existent file or directory", () => {
+  const fs = new VirtualFileSystem();
+  fs.createDirectory("/src");
+
+  expect(fs.writeFile("/nonexistent.txt", "text")).toBe("Error: File not found: /nonexistent.txt");
+  expect(fs.writeFile("/src", "text")).toBe("Error: Cannot edit a directory: /src");
+});
+
+test("writeFile reports size limit violations", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "small");
+
+  expect(fs.writeFile("/test.txt", "x".repeat(500_010))).toBe("Error: Size limit exceeded writing /test.txt");
+  expect(fs.readFile("/test.txt")).toBe("small");
+});
+
 test("rename moves a file to a new location", () => {
   const fs = new VirtualFileSystem();
   fs.createFile("/test.txt", "content");
@@ -676,3 +727,83 @@ test("rename handles empty directories", () => {
   expect(fs.exists("/moved-empty-dir")).toBe(true);
   expect(fs.getNode("/moved-empty-dir")?.type).toBe("directory");
 });
+
+test("undoEdit reverts edits to a path in reverse order", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFileWithParents("/App.jsx", "line1");
+  fs.insertInFile("/App.jsx", 1, "line2");
+  fs.replaceInFile("/App.jsx", "line2", "changed");
+
+  expect(fs.undoEdit("/App.jsx")).toContain("Reverted last edit");
+  expect(fs.readFile("/App.jsx")).toBe("line1\nline2");
+
+  expect(fs.undoEdit("/App.jsx")).toContain("Reverted last edit");
+  expect(fs.readFile("/App.jsx")).toBe("line1");
+
+  expect(fs.undoEdit("/App.jsx")).toContain("Undid creation");
+  expect(fs.exists("/App.jsx")).toBe(false);
+
+  expect(fs.undoEdit("/App.jsx")).toContain("No edit history");
+});
+
+test("undoEdit of a created file removes the folders created with it while empty", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFileWithParents("/components/Card.jsx", "card");
+  fs.createFileWithParents("/components/ui/forms/Input.jsx", "input");
+  fs.createFileWithParents("/components/ui/Button.jsx", "button");
+
+  expect(fs.undoEdit("/components/ui/forms/Input.jsx")).toContain("Undid creation");
+
+  expect(fs.exists("/components/ui/forms")).toBe(false);
+  // Still holds Button.jsx, and /components existed before
+  expect(fs.exists("/components/ui")).toBe(true);
+  expect(fs.exists("/components")).toBe(true);
+});
+
+test("undoEdit moves a renamed file back and keeps its history", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFileWithParents("/Button.jsx", "v1");
+  fs.replaceInFile("/Button.jsx", "v1", "v2");
+  fs.rename("/Button.jsx", "/components/Button.jsx");
+
+  expect(fs.undoEdit("/components/Button.jsx")).toContain("moved back to /Button.jsx");
+  expect(fs.exists("/components/Button.jsx")).toBe(false);
+
+  // Earlier edits follow the file back to its original path
+  fs.undoEdit("/Button.jsx");
+  expect(fs.readFile("/Button.jsx")).toBe("v1");
+});
+
+test("undoEdit restores a deleted directory with its contents", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/components/Card.jsx", "card");
+  fs.createFile("/components/ui/Badge.jsx", "badge");
+
+  fs.deleteFile("/components");
+  expect(fs.exists("/components/ui/Badge.jsx")).toBe(false);
+
+  expect(fs.undoEdit("/components")).toContain("Restored deleted /components");
+  expect(fs.readFile("/components/Card.jsx")).toBe("card");
+  expect(fs.readFile("/components/ui/Badge.jsx")).toBe("badge");
+});
+
+test("undoEdit does not journal plain updateFile calls", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/App.jsx", "typed in editor");
+  fs.updateFile("/App.jsx", "more typing");
+
+  expect(fs.undoEdit("/App.jsx")).toContain("No edit history");
+  expect(fs.readFile("/App.jsx")).toBe("more typing");
+});
+
+test("clearEditHistory and deserialize drop the edit journal", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFileWithParents("/App.jsx", "content");
+  fs.clearEditHistory();
+  expect(fs.undoEdit("/App.jsx")).toContain("No edit history");
+
+  fs.replaceInFile("/App.jsx", "content", "changed");
+  fs.deserializeFromNodes(fs.serialize());
+  expect(fs.undoEdit("/App.jsx")).toContain("No edit history");
+  expect(fs.readFile("/App.jsx")).toBe("changed");
+});
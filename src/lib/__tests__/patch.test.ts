@@ -0,0 +1,242 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { applyPatch, parseUnifiedDiff, planPatch } from "../patch";
+import { VirtualFileSystem } from "../file-system";
+
+const APP = ["import Card from '@/components/Card';", "", "export default function App() {", "  return <Card title=\"Hi\" />;", "}"].join(
+  "\n"
+);
+const CARD = ["export default function Card({ title }) {", "  return <h2>{title}</h2>;", "}"].join("\n");
+
+let fs: VirtualFileSystem;
+
+beforeEach(() => {
+  fs = new VirtualFileSystem();
+  fs.createFileWithParents("/App.jsx", APP);
+  fs.createFileWithParents("/components/Card.jsx", CARD);
+  fs.clearEditHistory();
+});
+
+// Rename the title prop to heading in both files
+const RENAME_PROP = `diff --git a/App.jsx b/App.jsx
+--- a/App.jsx
++++ b/App.jsx
+@@ -3,3 +3,3 @@
+ export default function App() {
+-  return <Card title="Hi" />;
++  return <Card heading="Hi" />;
+ }
+--- a/components/Card.jsx
++++ b/components/Card.jsx
+@@ -1,2 +1,2 @@
+-export default function Card({ title }) {
+-  return <h2>{title}</h2>;
++export default function Card({ heading }) {
++  return <h2>{heading}</h2>;
+`;
+
+describe("parseUnifiedDiff", () => {
+  test("splits a diff into files and hunks", () => {
+    const { files, errors } = parseUnifiedDiff(RENAME_PROP);
+
+    expect(errors).toEqual([]);
+    expect(files.map((file) => [file.oldPath, file.newPath])).toEqual([
+      ["/App.jsx", "/App.jsx"],
+      ["/components/Card.jsx", "/components/Card.jsx"],
+    ]);
+    expect(files[0].hunks[0]).toEqual({
+      header: "@@ -3,3 +3,3 @@",
+      oldStart: 3,
+      oldLines: ["export default function App() {", '  return <Card title="Hi" />;', "}"],
+      newLines: ["export default function App() {", '  return <Card heading="Hi" />;', "}"],
+    });
+  });
+
+  test("reads /dev/null as a created or deleted file", () => {
+    const { files } = parseUnifiedDiff("--- /dev/null\n+++ b/New.jsx\n@@ -0,0 +1 @@\n+new\n--- a/Old.jsx\n+++ /dev/null");
+
+    expect(files.map((file) => [file.oldPath, file.newPath])).toEqual([
+      [null, "/New.jsx"],
+      ["/Old.jsx", null],
+    ]);
+  });
+
+  test("treats a bare empty line inside a hunk as blank context", () => {
+    const { files } = parseUnifiedDiff("--- a/A.js\n+++ b/A.js\n@@ -1,3 +1,3 @@\n a\n\n-b\n+c\n");
+
+    expect(files[0].hunks[0].oldLines).toEqual(["a", "", "b"]);
+    expect(files[0].hunks[0].newLines).toEqual(["a", "", "c"]);
+  });
+
+  test("reports hunks without a file header", () => {
+    expect(parseUnifiedDiff("@@ -1 +1 @@\n-a\n+b").errors).toEqual([
+      'Hunk "@@ -1 +1 @@" has no --- / +++ file header before it',
+    ]);
+    expect(parseUnifiedDiff("just some text").errors[0]).toMatch(/^No file headers found/);
+  });
+});
+
+describe("applyPatch with a unified diff", () => {
+  test("applies hunks across several files", () => {
+    const result = applyPatch(fs, { patch: RENAME_PROP });
+
+    expect(result).toBe("Patch applied to 2 files:\n- /App.jsx (+1 -1)\n- /components/Card.jsx (+2 -2)");
+    expect(fs.readFile("/App.jsx")).toContain('<Card heading="Hi" />');
+    expect(fs.readFile("/components/Card.jsx")).toBe(
+      "export default function Card({ heading }) {\n  return <h2>{heading}</h2>;\n}"
+    );
+  });
+
+  test("finds hunks whose line numbers are off", () => {
+    const patch = "--- a/App.jsx\n+++ b/App.jsx\n@@ -40,1 +40,1 @@\n-}\n+} // end";
+
+    expect(applyPatch(fs, { patch })).toBe("Patch applied to 1 file:\n- /App.jsx (+1 -1)");
+    expect(fs.readFile("/App.jsx")!.endsWith("} // end")).toBe(true);
+  });
+
+  test("creates and deletes files", () => {
+    const patch = [
+      "--- /dev/null",
+      "+++ b/components/Button.jsx",
+      "@@ -0,0 +1,3 @@",
+      "+export default function Button() {",
+      "+  return <button />;",
+      "+}",
+      "--- a/components/Card.jsx",
+      "+++ /dev/null",
+    ].join("\n");
+
+    expect(applyPatch(fs, { patch })).toBe(
+      "Patch applied to 2 files:\n- /components/Button.jsx (added)\n- /components/Card.jsx (deleted)"
+    );
+    expect(fs.readFile("/components/Button.jsx")).toBe("export default function Button() {\n  return <button />;\n}");
+    expect(fs.exists("/components/Card.jsx")).toBe(false);
+  });
+
+  test("changes no file when one hunk fails, and reports each failure", () => {
+    const patch = RENAME_PROP.replace("-  return <h2>{title}</h2>;", "-  return <h3>{title}</h3>;") +
+      "--- a/Missing.jsx\n+++ b/Missing.jsx\n@@ -1 +1 @@\n-a\n+b\n";
+
+    const result = applyPatch(fs, { patch });
+
+    expect(result).toBe(
+      [
+        "Error: Patch not applied; no files were changed.",
+        '- /components/Card.jsx hunk 1 (@@ -1,2 +1,2 @@): expected "  return <h3>{title}</h3>;" at line 2 but found "  return <h2>{title}</h2>;"',
+        "- /Missing.jsx: file not found",
+      ].join("\n")
+    );
+    expect(fs.readFile("/App.jsx")).toBe(APP);
+    expect(fs.readFile("/components/Card.jsx")).toBe(CARD);
+  });
+
+  test("reports context lines that are not in the file", () => {
+    const patch = "--- a/App.jsx\n+++ b/App.jsx\n@@ -1,1 +1,1 @@\n-import Button from '@/components/Button';\n+import X from 'x';";
+
+    expect(applyPatch(fs, { patch })).toContain(
+      `- /App.jsx hunk 1 (@@ -1,1 +1,1 @@): line "import Button from '@/components/Button';" not found`
+    );
+  });
+
+  test("refuses renames and creating files that exist", () => {
+    const result = applyPatch(fs, {
+      patch: "--- a/App.jsx\n+++ b/Main.jsx\n@@ -1 +1 @@\n-a\n+b\n--- /dev/null\n+++ b/App.jsx\n@@ -0,0 +1 @@\n+app",
+    });
+
+    expect(result).toContain("- /App.jsx: renaming to /Main.jsx is not supported; use file_manager to rename");
+    expect(result).toContain("- /App.jsx: cannot create, the file already exists");
+  });
+});
+
+describe("applyPatch with edits", () => {
+  test("applies edits in order, including several to one file", () => {
+    const result = applyPatch(fs, {
+      edits: [
+        { path: "/components/Card.jsx", old_str: "{ title }", new_str: "{ heading }" },
+        { path: "/components/Card.jsx", old_str: "{title}", new_str: "{heading}" },
+        { path: "App.jsx", old_str: 'title="Hi"', new_str: 'heading="Hi"' },
+        { path: "/components/Badge.jsx", old_str: "", new_str: "export default function Badge() {}" },
+      ],
+    });
+
+    expect(result).toBe(
+      "Patch applied to 3 files:\n- /App.jsx (+1 -1)\n- /components/Badge.jsx (added)\n- /components/Card.jsx (+2 -2)"
+    );
+    expect(fs.readFile("/components/Card.jsx")).toContain("<h2>{heading}</h2>");
+    expect(fs.readFile("/components/Badge.jsx")).toBe("export default function Badge() {}");
+  });
+
+  test("requires old_str to match exactly once", () => {
+    const result = applyPatch(fs, {
+      edits: [
+        { path: "/components/Card.jsx", old_str: "title", new_str: "heading" },
+        { path: "/App.jsx", old_str: "Button", new_str: "Card" },
+        { path: "/App.jsx", old_str: "", new_str: "app" },
+      ],
+    });
+
+    expect(result).toBe(
+      [
+        "Error: Patch not applied; no files were changed.",
+        "- /components/Card.jsx edit 1: old_str matches 2 places; include more surrounding lines so it matches once",
+        "- /App.jsx edit 2: old_str not found",
+        "- /App.jsx edit 3: old_str is empty but the file already exists",
+      ].join("\n")
+    );
+  });
+
+  test("inserts replacement text literally", () => {
+    applyPatch(fs, { edits: [{ path: "/components/Card.jsx", old_str: "{title}", new_str: "$& $1" }] });
+
+    expect(fs.readFile("/components/Card.jsx")).toContain("<h2>$& $1</h2>");
+  });
+});
+
+test("rolls back written files when a later write fails", () => {
+  const result = applyPatch(fs, {
+    edits: [
+      { path: "/App.jsx", old_str: "Hi", new_str: "Hello" },
+      { path: "/styles.exe", old_str: "", new_str: "nope" },
+    ],
+  });
+
+  expect(result).toMatch(/^Error: Patch not applied; no files were changed.\n- \/styles.exe: File type not allowed/);
+  expect(fs.readFile("/App.jsx")).toBe(APP);
+});
+
+test("removes folders created for a new file when the patch is rolled back", () => {
+  const result = applyPatch(fs, {
+    edits: [
+      { path: "/features/cards/List.jsx", old_str: "", new_str: "export default function List() {}" },
+      { path: "/features/zz.exe", old_str: "", new_str: "nope" },
+    ],
+  });
+
+  expect(result).toMatch(/^Error: Patch not applied/);
+  expect(fs.exists("/features/cards/List.jsx")).toBe(false);
+  expect(fs.exists("/features/cards")).toBe(false);
+  expect(fs.exists("/features")).toBe(false);
+  expect(fs.exists("/components")).toBe(true);
+});
+
+test("each patched file can be reverted with undo_edit", () => {
+  applyPatch(fs, { patch: RENAME_PROP });
+
+  expect(fs.undoEdit("/components/Card.jsx")).toBe("Reverted last edit to /components/Card.jsx");
+  expect(fs.readFile("/components/Card.jsx")).toBe(CARD);
+  expect(fs.readFile("/App.jsx")).toContain('heading="Hi"');
+});
+
+test("planPatch lists changes without writing", () => {
+  const { changes, errors } = planPatch(fs, { edits: [{ path: "/App.jsx", old_str: "Hi", new_str: "Hello" }] });
+
+  expect(errors).toEqual([]);
+  expect(changes).toEqual([
+    { path: "/App.jsx", status: "modified", before: APP, after: APP.replace("Hi", "Hello") },
+  ]);
+  expect(fs.readFile("/App.jsx")).toBe(APP);
+});
+
+test("applyPatch requires a patch or edits", () => {
+  expect(applyPatch(fs, {})).toBe("Error: Provide a unified diff in patch or a list of edits");
+  expect(applyPatch(fs, { edits: [{ path: "/App.jsx", old_str: "Hi", new_str: "Hi" }] })).toBe("Patch makes no changes");
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../prisma", () => ({
+  prisma: {
+    projectSnapshot: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from "../prisma";
+import { getSnapshotPrompt, truncatePrompt, recordProjectSnapshot } from "../snapshots";
+import { SNAPSHOT_LIMITS } from "../constants";
+
+const mockSnapshots = (prisma as any).projectSnapshot;
+
+describe("snapshots", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSnapshots.findMany.mockResolvedValue([]);
+  });
+
+  describe("getSnapshotPrompt", () => {
+    it("returns the text of the last user message", () => {
+      const messages = [
+        { role: "user", parts: [{ type: "text", text: "Create a button" }] },
+        { role: "assistant", parts: [{ type: "text", text: "Done" }] },
+        { role: "user", parts: [{ type: "text", text: "Make it blue" }] },
+      ];
+
+      expect(getSnapshotPrompt(messages)).toBe("Make it blue");
+    });
+
+    it("handles legacy string and array content", () => {
+      expect(getSnapshotPrompt([{ role: "user", content: "Legacy prompt" }])).toBe(
+        "Legacy prompt"
+      );
+      expect(
+        getSnapshotPrompt([{ role: "user", content: [{ type: "text", text: "Array prompt" }] }])
+      ).toBe("Array prompt");
+    });
+
+    it("returns empty string when there is no user message", () => {
+      expect(getSnapshotPrompt([{ role: "assistant", content: "Hi" }])).toBe("");
+      expect(getSnapshotPrompt([])).toBe("");
+    });
+  });
+
+  describe("truncatePrompt", () => {
+    it("collapses whitespace", () => {
+      expect(truncatePrompt("  Make\n\n a   card ")).toBe("Make a card");
+    });
+
+    it("truncates long prompts to the maximum length", () => {
+      const result = truncatePrompt("a".repeat(500));
+      expect(result.length).toBe(SNAPSHOT_LIMITS.PROMPT_MAX_LENGTH);
+      expect(result.endsWith("…")).toBe(true);
+    });
+  });
+
+  describe("recordProjectSnapshot", () => {
+    it("creates a snapshot with a truncated prompt", async () => {
+      await recordProjectSnapshot({
+        projectId: "project-1",
+        data: "{}",
+        prompt: "Make it blue",
+        source: "chat",
+      });
+
+      expect(mockSnapshots.create).toHaveBeenCalledWith({
+        data: { projectId: "project-1", data: "{}", prompt: "Make it blue", source: "chat" },
+      });
+      expect(mockSnapshots.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it("prunes snapshots beyond the retention limit", async () => {
+      mockSnapshots.findMany.mockResolvedValue([{ id: "old-1" }, { id: "old-2" }]);
+
+      await recordProjectSnapshot({
+        projectId: "project-1",
+        data: "{}",
+        prompt: "",
+        source: "manual",
+      });
+
+      expect(mockSnapshots.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ skip: SNAPSHOT_LIMITS.MAX_PER_PROJECT })
+      );
+      expect(mockSnapshots.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ["old-1", "old-2"] } },
+      });
+    });
+  });
+});
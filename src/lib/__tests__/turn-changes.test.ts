@@ -0,0 +1,65 @@
+import { describe, test, expect } from "vitest";
+import { countChangedLines, diffFileStates, isChangeReverted } from "../turn-changes";
+
+describe("diffFileStates", () => {
+  test("should list added, modified and deleted files by path", () => {
+    const before = new Map([
+      ["/App.jsx", "app"],
+      ["/Old.jsx", "old"],
+      ["/styles.css", "body {}"],
+    ]);
+    const after = new Map([
+      ["/App.jsx", "app v2"],
+      ["/components/Card.jsx", "card"],
+      ["/styles.css", "body {}"],
+    ]);
+
+    expect(diffFileStates(before, after)).toEqual([
+      { path: "/App.jsx", status: "modified", before: "app", after: "app v2" },
+      { path: "/components/Card.jsx", status: "added", before: null, after: "card" },
+      { path: "/Old.jsx", status: "deleted", before: "old", after: null },
+    ]);
+  });
+
+  test("should return nothing when no file changed", () => {
+    const files = new Map([["/App.jsx", "app"]]);
+
+    expect(diffFileStates(files, new Map(files))).toEqual([]);
+  });
+});
+
+describe("isChangeReverted", () => {
+  test("should compare the current content with the content before the turn", () => {
+    const modified = { path: "/App.jsx", status: "modified" as const, before: "app", after: "app v2" };
+    const added = { path: "/Card.jsx", status: "added" as const, before: null, after: "card" };
+
+    expect(isChangeReverted(modified, "app v2")).toBe(false);
+    expect(isChangeReverted(modified, "app")).toBe(true);
+    expect(isChangeReverted(added, "card")).toBe(false);
+    expect(isChangeReverted(added, null)).toBe(true);
+  });
+});
+
+describe("countChangedLines", () => {
+  test("should count lines of an edited region", () => {
+    const change = {
+      path: "/App.jsx",
+      status: "modified" as const,
+      before: "a\nb\nc\nd",
+      after: "a\nB\nB2\nc\nd",
+    };
+
+    expect(countChangedLines(change)).toEqual({ added: 2, removed: 1 });
+  });
+
+  test("should count every line of added and deleted files", () => {
+    expect(countChangedLines({ path: "/A.jsx", status: "added", before: null, after: "1\n2" })).toEqual({
+      added: 2,
+      removed: 0,
+    });
+    expect(countChangedLines({ path: "/A.jsx", status: "deleted", before: "1\n2\n3", after: null })).toEqual({
+      added: 0,
+      removed: 3,
+    });
+  });
+});
@@ -6,6 +6,7 @@ import {
   PASSWORD_REGEX,
   validatePassword,
   sanitizeProjectName,
+  validateShareToken,
 } from "../validation";
 
 describe("validation", () => {
@@ -136,4 +137,19 @@ describe("validation", () => {
       expect(sanitizeProjectName("project-name_v1.0")).toBe("project-name_v1.0");
     });
   });
+
+  describe("validateShareToken", () => {
+    it("accepts base64url tokens", () => {
+      expect(validateShareToken("abcDEF123_-abcDEF123_-abcDEF123_")).toBe(true);
+    });
+
+    it("rejects malformed tokens", () => {
+      expect(validateShareToken("")).toBe(false);
+      expect(validateShareToken("short")).toBe(false);
+      expect(validateShareToken("a".repeat(65))).toBe(false);
+      expect(validateShareToken("abcdefghijklmnop'; DROP")).toBe(false);
+      expect(validateShareToken(null)).toBe(false);
+      expect(validateShareToken(42)).toBe(false);
+    });
+  });
 });
@@ -17,6 +17,16 @@ export function errorResponse(message: string, status: number): Response {
   return Response.json({ error: message }, { status });
 }
 
+/**
+ * Add headers to a response, e.g. CORS headers every response of a route needs
+ */
+export function withHeaders(response: Response, headers: Record<string, string>): Response {
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
 // ============================================================================
 // Common Error Responses
 // ============================================================================
@@ -20,6 +20,10 @@ export const RATE_LIMITS = {
   VALIDATE: { limit: 10, window: 60 * 60 * 1000 },
   /** API key check: 20 checks per hour per user */
   CHECK: { limit: 20, window: 60 * 60 * 1000 },
+  /** Preview runtime modules (public): 300 requests per minute per IP */
+  PREVIEW_MODULES: { limit: 300, window: 60 * 1000 },
+  /** Preview Tailwind styles (public): 120 compiles per minute per IP */
+  PREVIEW_STYLES: { limit: 120, window: 60 * 1000 },
 } as const;
 
 // ============================================================================
@@ -72,9 +76,92 @@ export const DEFAULT_PROVIDER = "anthropic" as const;
 /** Empty API keys JSON string for comparison */
 export const EMPTY_API_KEYS = "{}";
 
+// ============================================================================
+// Project Snapshots
+// ============================================================================
+
+export const SNAPSHOT_LIMITS = {
+  /** Maximum snapshots kept per project (oldest are pruned) */
+  MAX_PER_PROJECT: 50,
+  /** Maximum length of the prompt stored with a snapshot */
+  PROMPT_MAX_LENGTH: 200,
+} as const;
+
+// ============================================================================
+// Project Sharing
+// ============================================================================
+
+export const SHARE_LINKS = {
+  /** Random bytes in a share token (base64url encoded, 32 characters) */
+  TOKEN_BYTES: 24,
+} as const;
+
+// ============================================================================
+// Project Instructions
+// ============================================================================
+
+export const PROJECT_INSTRUCTIONS = {
+  /** Maximum characters of custom instructions, from the settings panel or the instructions file */
+  MAX_LENGTH: 4_000,
+  /** Instructions file in the project's files, exported and imported with them */
+  FILE_PATH: "/.uigen/instructions.md",
+} as const;
+
 // ============================================================================
 // API Key Validation
 // ============================================================================
 
 /** Timeout for API key validation requests in milliseconds */
 export const VALIDATION_TIMEOUT_MS = 10_000;
+
+// ============================================================================
+// Auto-Repair
+// ============================================================================
+
+export const AUTO_REPAIR = {
+  /** Build checks the AI may run per turn before it must stop and report */
+  MAX_BUILD_CHECKS: 5,
+  /** Maximum preview errors sent with a chat request */
+  MAX_REPORTED_ERRORS: 10,
+  /** Maximum length of each reported preview error */
+  MAX_ERROR_LENGTH: 2_000,
+} as const;
+
+// ============================================================================
+// Preview
+// ============================================================================
+
+export const PREVIEW_BUILD = {
+  /** Delay after the last file change before the preview rebuilds, in milliseconds */
+  DEBOUNCE_MS: 200,
+} as const;
+
+// ============================================================================
+// Type Checking
+// ============================================================================
+
+export const TYPE_CHECK = {
+  /** Delay after the last file change before the editor type checks, in milliseconds */
+  DEBOUNCE_MS: 500,
+  /** Type checks the AI may run per turn before it must stop and report */
+  MAX_CHECKS: 5,
+  /** Maximum diagnostics listed in one check_types result */
+  MAX_REPORTED_DIAGNOSTICS: 30,
+} as const;
+
+// ============================================================================
+// File Search
+// ============================================================================
+
+export const FILE_SEARCH = {
+  /** Maximum matching lines listed in one search_files grep result */
+  MAX_MATCHES: 100,
+  /** Matching lines longer than this are cut off in grep results */
+  MAX_LINE_LENGTH: 200,
+  /** Maximum files one read_many call returns */
+  MAX_READ_FILES: 20,
+  /** Maximum length of a grep regular expression */
+  MAX_PATTERN_LENGTH: 500,
+  /** Time limit for matching a grep pattern against the project (ms) */
+  GREP_TIMEOUT_MS: 1000,
+} as const;
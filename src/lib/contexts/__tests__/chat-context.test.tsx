@@ -1,9 +1,11 @@
 import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
-import { render, screen, waitFor, cleanup } from "@testing-library/react";
+import { render, screen, waitFor, cleanup, fireEvent, act } from "@testing-library/react";
 import { ChatProvider, useChat } from "../chat-context";
 import { useFileSystem } from "../file-system-context";
 import { useChat as useAIChat } from "@ai-sdk/react";
+import { DefaultChatTransport } from "ai";
 import * as anonTracker from "@/lib/anon-work-tracker";
+import { saveProject } from "@/actions/save-project";
 
 // Mock dependencies
 vi.mock("../file-system-context", () => ({
@@ -23,6 +25,10 @@ vi.mock("@/lib/anon-work-tracker", () => ({
   setHasAnonWork: vi.fn(),
 }));
 
+vi.mock("@/actions/save-project", () => ({
+  saveProject: vi.fn(),
+}));
+
 // Helper component to access chat context
 function TestComponent() {
   const chat = useChat();
@@ -45,9 +51,14 @@ function TestComponent() {
 describe("ChatContext", () => {
   const mockFileSystem = {
     serialize: vi.fn(() => ({ "/test.js": { type: "file", content: "test" } })),
+    getAllFiles: vi.fn(() => new Map([["/test.js", "test"]])),
   };
 
-  const mockHandleToolCall = vi.fn();
+  const mockApplyFileDelta = vi.fn();
+  const mockSyncFiles = vi.fn();
+  const mockPrepareStaging = vi.fn((_review: boolean): any => mockFileSystem);
+  const mockAcceptStagedChanges = vi.fn();
+  const mockRejectStagedChanges = vi.fn();
 
   // v6 API: sendMessage/regenerate instead of handleInputChange/handleSubmit/reload
   const mockUseAIChat = {
@@ -63,7 +74,12 @@ describe("ChatContext", () => {
 
     (useFileSystem as any).mockReturnValue({
       fileSystem: mockFileSystem,
-      handleToolCall: mockHandleToolCall,
+      applyFileDelta: mockApplyFileDelta,
+      syncFiles: mockSyncFiles,
+      stagedFileSystem: null,
+      prepareStaging: mockPrepareStaging,
+      acceptStagedChanges: mockAcceptStagedChanges,
+      rejectStagedChanges: mockRejectStagedChanges,
     });
 
     (useAIChat as any).mockReturnValue(mockUseAIChat);
@@ -109,7 +125,7 @@ describe("ChatContext", () => {
       expect.objectContaining({
         transport: expect.anything(),
         messages: initialMessages,
-        onToolCall: expect.any(Function),
+        onData: expect.any(Function),
         onError: expect.any(Function),
       })
     );
@@ -184,13 +200,195 @@ describe("ChatContext", () => {
     expect(form).toBeDefined();
   });
 
-  test("handles tool calls", () => {
-    let onToolCallHandler: any;
+  test("sends the message on submit", () => {
+    render(
+      <ChatProvider>
+        <TestComponent />
+      </ChatProvider>
+    );
+
+    fireEvent.change(screen.getByTestId("input"), { target: { value: "Make it blue" } });
+    fireEvent.submit(screen.getByTestId("form"));
+
+    expect(mockUseAIChat.sendMessage).toHaveBeenCalledWith({ text: "Make it blue" });
+  });
+
+  test("sends messages from outside the input without changing it", () => {
+    function FixButton() {
+      const { sendMessage, input } = useChat();
+      return <button onClick={() => sendMessage("Fix this error")}>{input || "Fix"}</button>;
+    }
+
+    render(
+      <ChatProvider>
+        <FixButton />
+      </ChatProvider>
+    );
+
+    fireEvent.click(screen.getByText("Fix"));
+
+    expect(mockUseAIChat.sendMessage).toHaveBeenCalledWith({ text: "Fix this error" });
+    expect(screen.getByText("Fix")).toBeDefined();
+  });
+
+  test("sends preview errors only while auto-repair is on", () => {
+    function AutoRepairToggle() {
+      const { setAutoRepair, setPreviewErrors } = useChat();
+      return (
+        <>
+          <button onClick={() => setPreviewErrors(["Uncaught Error: boom"])}>Report</button>
+          <button onClick={() => setAutoRepair(true)}>Enable</button>
+        </>
+      );
+    }
+
+    render(
+      <ChatProvider>
+        <AutoRepairToggle />
+      </ChatProvider>
+    );
+    const lastBody = () => vi.mocked(DefaultChatTransport).mock.calls.at(-1)![0]!.body;
+
+    fireEvent.click(screen.getByText("Report"));
+    expect(lastBody()).not.toHaveProperty("autoRepair");
+
+    fireEvent.click(screen.getByText("Enable"));
+    expect(lastBody()).toMatchObject({ autoRepair: true, previewErrors: ["Uncaught Error: boom"] });
+  });
+
+  test("applies file changes streamed by the server", () => {
+    let onDataHandler: any;
+
+    (useAIChat as any).mockImplementation((config: any) => {
+      onDataHandler = config.onData;
+      return mockUseAIChat;
+    });
+
+    render(
+      <ChatProvider>
+        <TestComponent />
+      </ChatProvider>
+    );
+
+    const delta = { upserts: [], deletes: ["/old.js"] };
+    onDataHandler({ type: "data-fs-delta", data: delta });
+    expect(mockApplyFileDelta).toHaveBeenCalledWith(delta);
+
+    const sync = { files: {}, checksum: "811c9dc5" };
+    onDataHandler({ type: "data-fs-sync", data: sync });
+    expect(mockSyncFiles).toHaveBeenCalledWith(sync);
+
+    onDataHandler({ type: "data-other", data: {} });
+    expect(mockApplyFileDelta).toHaveBeenCalledTimes(1);
+    expect(mockSyncFiles).toHaveBeenCalledTimes(1);
+  });
+
+  test("records the files each response changed", async () => {
+    let onFinishHandler: any;
+    (useAIChat as any).mockImplementation((config: any) => {
+      onFinishHandler = config.onFinish;
+      return mockUseAIChat;
+    });
+
+    function Changes() {
+      const { sendMessage, turnChanges } = useChat();
+      return (
+        <>
+          <button onClick={() => sendMessage("Add a card")}>Send</button>
+          <div data-testid="changes">{JSON.stringify(turnChanges)}</div>
+        </>
+      );
+    }
+
+    render(
+      <ChatProvider>
+        <Changes />
+      </ChatProvider>
+    );
+
+    fireEvent.click(screen.getByText("Send"));
+    mockFileSystem.getAllFiles.mockReturnValueOnce(
+      new Map([["/test.js", "test v2"], ["/Card.jsx", "card"]])
+    );
+    act(() => onFinishHandler({ message: { id: "assistant-1", role: "assistant", parts: [] } }));
+
+    expect(JSON.parse(screen.getByTestId("changes").textContent!)).toEqual({
+      "assistant-1": [
+        { path: "/Card.jsx", status: "added", before: null, after: "card" },
+        { path: "/test.js", status: "modified", before: "test", after: "test v2" },
+      ],
+    });
+  });
 
+  test("records a response's changes from the staged files while reviewing", () => {
+    let onFinishHandler: any;
     (useAIChat as any).mockImplementation((config: any) => {
-      onToolCallHandler = config.onToolCall;
+      onFinishHandler = config.onFinish;
       return mockUseAIChat;
     });
+    const stagedFiles = { getAllFiles: vi.fn(() => new Map([["/test.js", "test"]])) };
+    mockPrepareStaging.mockReturnValueOnce(stagedFiles);
+
+    function Changes() {
+      const { sendMessage, turnChanges } = useChat();
+      return (
+        <>
+          <button onClick={() => sendMessage("Add a card")}>Send</button>
+          <div data-testid="changes">{JSON.stringify(turnChanges)}</div>
+        </>
+      );
+    }
+
+    render(
+      <ChatProvider>
+        <Changes />
+      </ChatProvider>
+    );
+
+    fireEvent.click(screen.getByText("Send"));
+    // The edits only reach the staged copy; the project's files stay the same
+    stagedFiles.getAllFiles.mockReturnValueOnce(new Map([["/test.js", "test v2"]]));
+    act(() => onFinishHandler({ message: { id: "assistant-1", role: "assistant", parts: [] } }));
+
+    expect(JSON.parse(screen.getByTestId("changes").textContent!)).toEqual({
+      "assistant-1": [{ path: "/test.js", status: "modified", before: "test", after: "test v2" }],
+    });
+  });
+
+  test("stages edits and skips saving files while reviewing changes", () => {
+    function Review() {
+      const { sendMessage, setReviewChanges } = useChat();
+      return (
+        <>
+          <button onClick={() => setReviewChanges(true)}>Review</button>
+          <button onClick={() => sendMessage("Add a card")}>Send</button>
+        </>
+      );
+    }
+    const lastBody = () => (DefaultChatTransport as any).mock.calls.at(-1)[0].body;
+
+    render(
+      <ChatProvider projectId="project-1">
+        <Review />
+      </ChatProvider>
+    );
+
+    fireEvent.click(screen.getByText("Send"));
+    expect(mockPrepareStaging).toHaveBeenLastCalledWith(false);
+    expect(lastBody().reviewChanges).toBeUndefined();
+
+    fireEvent.click(screen.getByText("Review"));
+    fireEvent.click(screen.getByText("Send"));
+    expect(mockPrepareStaging).toHaveBeenLastCalledWith(true);
+    expect(lastBody().reviewChanges).toBe(true);
+  });
+
+  test("sends the staged files while edits await review", () => {
+    const stagedFileSystem = { serialize: vi.fn(() => ({ "/staged.js": {} })) };
+    (useFileSystem as any).mockReturnValue({
+      ...(useFileSystem as any)(),
+      stagedFileSystem,
+    });
 
     render(
       <ChatProvider>
@@ -198,11 +396,28 @@ describe("ChatContext", () => {
       </ChatProvider>
     );
 
-    // v6 API: toolCall has 'input' instead of 'args'
-    const toolCall = { toolName: "test", input: {} };
-    onToolCallHandler({ toolCall });
+    const body = (DefaultChatTransport as any).mock.calls.at(-1)[0].body;
+    expect(body.files).toEqual({ "/staged.js": {} });
+    expect(body.reviewChanges).toBe(true);
+  });
+
+  test("saves the project once staged edits are accepted", async () => {
+    (saveProject as any).mockResolvedValue({ success: true });
+    let accept: any;
+    function Accept() {
+      accept = useChat().acceptChanges;
+      return null;
+    }
+
+    render(
+      <ChatProvider projectId="project-1">
+        <Accept />
+      </ChatProvider>
+    );
 
-    expect(mockHandleToolCall).toHaveBeenCalledWith(toolCall);
+    await expect(accept(["/App.jsx"])).resolves.toEqual({ success: true });
+    expect(mockAcceptStagedChanges).toHaveBeenCalledWith(["/App.jsx"]);
+    expect(saveProject).toHaveBeenCalledWith("project-1", mockFileSystem.serialize(), "Accepted AI changes");
   });
 
   // NEW TESTS FOR ERROR HANDLING (Added after debugging session)
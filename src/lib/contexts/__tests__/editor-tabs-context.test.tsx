@@ -0,0 +1,110 @@
+import { test, expect, beforeEach, afterEach } from "vitest";
+import React from "react";
+import { renderHook, act, cleanup } from "@testing-library/react";
+import { EditorTabsProvider, useEditorTabs } from "../editor-tabs-context";
+import { FileSystemProvider, useFileSystem } from "../file-system-context";
+import { VirtualFileSystem } from "@/lib/file-system";
+import { saveTabsState } from "@/lib/editor-tabs";
+
+let fileSystem: VirtualFileSystem;
+
+beforeEach(() => {
+  localStorage.clear();
+  fileSystem = new VirtualFileSystem();
+  fileSystem.createFile("/App.jsx", "export default function App() {}");
+  fileSystem.createFile("/Card.jsx", "export default function Card() {}");
+  fileSystem.createFile("/Button.jsx", "export default function Button() {}");
+});
+
+afterEach(() => {
+  cleanup();
+});
+
+function renderTabs(projectId?: string) {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <FileSystemProvider fileSystem={fileSystem}>
+      <EditorTabsProvider projectId={projectId}>{children}</EditorTabsProvider>
+    </FileSystemProvider>
+  );
+  return renderHook(() => ({ tabs: useEditorTabs(), fs: useFileSystem() }), { wrapper });
+}
+
+test("opens the selected file as a tab", () => {
+  const { result } = renderTabs();
+
+  expect(result.current.tabs.panes[0].tabs).toEqual(["/App.jsx"]);
+
+  act(() => result.current.fs.setSelectedFile("/Card.jsx"));
+
+  expect(result.current.tabs.panes[0]).toEqual({ tabs: ["/App.jsx", "/Card.jsx"], active: "/Card.jsx" });
+});
+
+test("selects the file of an activated or closed tab", () => {
+  const { result } = renderTabs();
+  act(() => result.current.fs.setSelectedFile("/Card.jsx"));
+
+  act(() => result.current.tabs.activateTab(0, "/App.jsx"));
+  expect(result.current.fs.selectedFile).toBe("/App.jsx");
+
+  act(() => result.current.tabs.closeTab(0, "/App.jsx"));
+  expect(result.current.fs.selectedFile).toBe("/Card.jsx");
+  expect(result.current.tabs.panes[0].tabs).toEqual(["/Card.jsx"]);
+});
+
+test("splits the focused file into a second pane", () => {
+  const { result } = renderTabs();
+  expect(result.current.tabs.canSplit).toBe(true);
+
+  act(() => result.current.tabs.split());
+  act(() => result.current.fs.setSelectedFile("/Button.jsx"));
+
+  expect(result.current.tabs.panes).toEqual([
+    { tabs: ["/App.jsx"], active: "/App.jsx" },
+    { tabs: ["/App.jsx", "/Button.jsx"], active: "/Button.jsx" },
+  ]);
+  expect(result.current.tabs.focusedPane).toBe(1);
+  expect(result.current.tabs.canSplit).toBe(false);
+
+  act(() => result.current.tabs.focusPane(0));
+  expect(result.current.fs.selectedFile).toBe("/App.jsx");
+});
+
+test("marks files changed while not shown", () => {
+  const { result } = renderTabs();
+  act(() => result.current.fs.setSelectedFile("/Card.jsx"));
+  act(() => result.current.tabs.activateTab(0, "/App.jsx"));
+
+  // e.g. the AI editing a file in the background
+  act(() => result.current.fs.updateFile("/Card.jsx", "export default function Card() { return null; }"));
+  expect(result.current.tabs.isModified("/Card.jsx")).toBe(true);
+  expect(result.current.tabs.isModified("/App.jsx")).toBe(false);
+
+  act(() => result.current.tabs.activateTab(0, "/Card.jsx"));
+  expect(result.current.tabs.isModified("/Card.jsx")).toBe(false);
+});
+
+test("closes tabs of deleted files", () => {
+  const { result } = renderTabs();
+  act(() => result.current.fs.setSelectedFile("/Card.jsx"));
+
+  act(() => result.current.fs.deleteFile("/Card.jsx"));
+
+  expect(result.current.tabs.panes[0].tabs).toEqual(["/App.jsx"]);
+});
+
+test("persists tabs per project and restores them", () => {
+  saveTabsState("project-1", {
+    panes: [{ tabs: ["/App.jsx", "/Button.jsx", "/Deleted.jsx"], active: "/Button.jsx" }],
+    focused: 0,
+    viewed: {},
+  });
+
+  const { result } = renderTabs("project-1");
+
+  expect(result.current.tabs.panes[0]).toEqual({ tabs: ["/App.jsx", "/Button.jsx"], active: "/Button.jsx" });
+  expect(result.current.fs.selectedFile).toBe("/Button.jsx");
+
+  act(() => result.current.fs.setSelectedFile("/Card.jsx"));
+  const stored = JSON.parse(localStorage.getItem("react-ai-ui-generator_editor_tabs_project-1")!);
+  expect(stored.panes[0].tabs).toEqual(["/App.jsx", "/Button.jsx", "/Card.jsx"]);
+});
@@ -2,6 +2,7 @@ import { test, expect, vi, beforeEach, afterEach } from "vitest";
 import { renderHook, act, cleanup } from "@testing-library/react";
 import { FileSystemProvider, useFileSystem } from "../file-system-context";
 import { VirtualFileSystem } from "@/lib/file-system";
+import { checksumFiles } from "@/lib/file-sync";
 
 // Mock the VirtualFileSystem
 vi.mock("@/lib/file-system", () => ({
@@ -15,10 +16,10 @@ const mockFileSystem = {
   rename: vi.fn(),
   readFile: vi.fn(),
   getAllFiles: vi.fn(),
-  createFileWithParents: vi.fn(),
-  replaceInFile: vi.fn(),
-  insertInFile: vi.fn(),
+  createDirectory: vi.fn(),
   getNode: vi.fn(),
+  exists: vi.fn(),
+  deserializeFromNodes: vi.fn(),
   serialize: vi.fn(() => ({})),
 };
 
@@ -223,286 +224,169 @@ test("selects first root file when App.jsx doesn't exist", () => {
   expect(result.current.selectedFile).toBe("/a.js"); // First file alphabetically
 });
 
-test("throws error when used outside provider", () => {
-  expect(() => {
-    renderHook(() => useFileSystem());
-  }).toThrowError("useFileSystem must be used within a FileSystemProvider");
-});
-
-test("uses provided file system when passed", () => {
-  const customFileSystem = {
-    ...mockFileSystem,
-    custom: true,
-  };
-
+test("restoreFiles replaces the file tree and keeps a surviving selection", () => {
   const { result } = renderHook(() => useFileSystem(), {
-    wrapper: ({ children }) => (
-      <FileSystemProvider fileSystem={customFileSystem as any}>
-        {children}
-      </FileSystemProvider>
-    ),
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
   });
 
-  expect(result.current.fileSystem).toBe(customFileSystem);
-});
-
-// Tool call tests
-test("handles str_replace_editor create command", () => {
-  mockFileSystem.createFileWithParents.mockReturnValue("File created");
-  mockFileSystem.createFile.mockReturnValue({});
-
-  const { result } = renderHook(() => useFileSystem(), {
-    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  act(() => {
+    result.current.setSelectedFile("/App.jsx");
   });
 
+  const snapshot = {
+    "/": { type: "directory" as const, name: "/", path: "/" },
+    "/App.jsx": { type: "file" as const, name: "App.jsx", path: "/App.jsx", content: "old" },
+  };
   const initialTrigger = result.current.refreshTrigger;
+  mockFileSystem.exists.mockReturnValue(true);
 
   act(() => {
-    result.current.handleToolCall({
-      toolName: "str_replace_editor",
-      input: {
-        command: "create",
-        path: "/test.js",
-        file_text: "console.log('test');",
-      },
-    });
+    result.current.restoreFiles(snapshot);
   });
 
-  expect(mockFileSystem.createFileWithParents).toHaveBeenCalledWith(
-    "/test.js",
-    "console.log('test');"
-  );
-  expect(mockFileSystem.createFile).toHaveBeenCalledWith(
-    "/test.js",
-    "console.log('test');"
-  );
+  expect(mockFileSystem.deserializeFromNodes).toHaveBeenCalledWith(snapshot);
+  expect(result.current.selectedFile).toBe("/App.jsx");
   expect(result.current.refreshTrigger).toBe(initialTrigger + 1);
 });
 
-test("handles str_replace_editor create command with error", () => {
-  mockFileSystem.createFileWithParents.mockReturnValue("Error: File exists");
-
+test("restoreFiles clears selectedFile when it no longer exists", () => {
   const { result } = renderHook(() => useFileSystem(), {
     wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
   });
 
-  const initialTrigger = result.current.refreshTrigger;
+  act(() => {
+    result.current.setSelectedFile("/components/Gone.jsx");
+  });
+
+  mockFileSystem.exists.mockReturnValue(false);
 
   act(() => {
-    result.current.handleToolCall({
-      toolName: "str_replace_editor",
-      input: {
-        command: "create",
-        path: "/test.js",
-        file_text: "content",
-      },
-    });
+    result.current.restoreFiles({});
   });
 
-  expect(result.current.refreshTrigger).toBe(initialTrigger); // No refresh on error
+  expect(result.current.selectedFile).toBeNull();
 });
 
-test("handles str_replace_editor str_replace command", () => {
-  mockFileSystem.replaceInFile.mockReturnValue("Replaced successfully");
-  mockFileSystem.readFile.mockReturnValue("new content");
-  mockFileSystem.updateFile.mockReturnValue(true);
-
+test("revertChanges restores files from before a turn", () => {
   const { result } = renderHook(() => useFileSystem(), {
     wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
   });
-
+  mockFileSystem.exists.mockImplementation((path: string) => path === "/App.jsx");
   const initialTrigger = result.current.refreshTrigger;
 
   act(() => {
-    result.current.handleToolCall({
-      toolName: "str_replace_editor",
-      input: {
-        command: "str_replace",
-        path: "/test.js",
-        old_str: "old",
-        new_str: "new",
-      },
-    });
+    result.current.revertChanges([
+      { path: "/App.jsx", status: "modified", before: "old", after: "new" },
+      { path: "/Card.jsx", status: "added", before: null, after: "card" },
+      { path: "/Button.jsx", status: "deleted", before: "button", after: null },
+    ]);
   });
 
-  expect(mockFileSystem.replaceInFile).toHaveBeenCalledWith("/test.js", "old", "new");
-  expect(mockFileSystem.readFile).toHaveBeenCalledWith("/test.js");
-  expect(mockFileSystem.updateFile).toHaveBeenCalledWith("/test.js", "new content");
+  expect(mockFileSystem.updateFile).toHaveBeenCalledWith("/App.jsx", "old");
+  expect(mockFileSystem.deleteFile).toHaveBeenCalledWith("/Card.jsx");
+  expect(mockFileSystem.createFile).toHaveBeenCalledWith("/Button.jsx", "button");
   expect(result.current.refreshTrigger).toBe(initialTrigger + 1);
 });
 
-test("handles str_replace_editor str_replace command with error", () => {
-  mockFileSystem.replaceInFile.mockReturnValue("Error: Not found");
+test("throws error when used outside provider", () => {
+  expect(() => {
+    renderHook(() => useFileSystem());
+  }).toThrowError("useFileSystem must be used within a FileSystemProvider");
+});
 
-  const { result } = renderHook(() => useFileSystem(), {
-    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
-  });
+test("uses provided file system when passed", () => {
+  const customFileSystem = {
+    ...mockFileSystem,
+    custom: true,
+  };
 
-  act(() => {
-    result.current.handleToolCall({
-      toolName: "str_replace_editor",
-      input: {
-        command: "str_replace",
-        path: "/test.js",
-        old_str: "old",
-        new_str: "new",
-      },
-    });
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => (
+      <FileSystemProvider fileSystem={customFileSystem as any}>
+        {children}
+      </FileSystemProvider>
+    ),
   });
 
-  expect(mockFileSystem.readFile).not.toHaveBeenCalled();
-  expect(mockFileSystem.updateFile).not.toHaveBeenCalled();
+  expect(result.current.fileSystem).toBe(customFileSystem);
 });
 
-test("handles str_replace_editor insert command", () => {
-  mockFileSystem.insertInFile.mockReturnValue("Inserted successfully");
-  mockFileSystem.readFile.mockReturnValue("updated content");
-  mockFileSystem.updateFile.mockReturnValue(true);
+// File sync tests
+test("applyFileDelta applies the server's changes and triggers refresh", () => {
+  mockFileSystem.exists.mockImplementation((path: string) => path === "/App.jsx");
 
   const { result } = renderHook(() => useFileSystem(), {
     wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
   });
-
   const initialTrigger = result.current.refreshTrigger;
 
   act(() => {
-    result.current.handleToolCall({
-      toolName: "str_replace_editor",
-      input: {
-        command: "insert",
-        path: "/test.js",
-        new_str: "new line",
-        insert_line: 5,
-      },
+    result.current.applyFileDelta({
+      upserts: [
+        { type: "file", name: "App.jsx", path: "/App.jsx", content: "app v2" },
+        { type: "directory", name: "components", path: "/components" },
+        { type: "file", name: "Card.jsx", path: "/components/Card.jsx", content: "card" },
+      ],
+      deletes: ["/old.js"],
     });
   });
 
-  expect(mockFileSystem.insertInFile).toHaveBeenCalledWith("/test.js", 5, "new line");
-  expect(mockFileSystem.readFile).toHaveBeenCalledWith("/test.js");
-  expect(mockFileSystem.updateFile).toHaveBeenCalledWith("/test.js", "updated content");
+  expect(mockFileSystem.deleteFile).toHaveBeenCalledWith("/old.js");
+  expect(mockFileSystem.updateFile).toHaveBeenCalledWith("/App.jsx", "app v2");
+  expect(mockFileSystem.createDirectory).toHaveBeenCalledWith("/components");
+  expect(mockFileSystem.createFile).toHaveBeenCalledWith("/components/Card.jsx", "card");
   expect(result.current.refreshTrigger).toBe(initialTrigger + 1);
 });
 
-test("handles str_replace_editor insert command with error", () => {
-  mockFileSystem.insertInFile.mockReturnValue("Error: Invalid line");
+test("applyFileDelta clears selectedFile when the delta deletes it", () => {
+  mockFileSystem.exists.mockReturnValue(false);
 
   const { result } = renderHook(() => useFileSystem(), {
     wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
   });
 
   act(() => {
-    result.current.handleToolCall({
-      toolName: "str_replace_editor",
-      input: {
-        command: "insert",
-        path: "/test.js",
-        new_str: "new line",
-        insert_line: 999,
-      },
-    });
-  });
-
-  expect(mockFileSystem.readFile).not.toHaveBeenCalled();
-  expect(mockFileSystem.updateFile).not.toHaveBeenCalled();
-});
-
-test("handles file_manager rename command", () => {
-  mockFileSystem.rename.mockReturnValue(true);
-
-  const { result } = renderHook(() => useFileSystem(), {
-    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+    result.current.setSelectedFile("/test.js");
   });
-
   act(() => {
-    result.current.handleToolCall({
-      toolName: "file_manager",
-      input: {
-        command: "rename",
-        path: "/old.js",
-        new_path: "/new.js",
-      },
-    });
+    result.current.applyFileDelta({ upserts: [], deletes: ["/test.js"] });
   });
 
-  expect(mockFileSystem.rename).toHaveBeenCalledWith("/old.js", "/new.js");
+  expect(result.current.selectedFile).toBeNull();
 });
 
-test("handles file_manager delete command", () => {
-  mockFileSystem.deleteFile.mockReturnValue(true);
-
+test("syncFiles leaves files alone when the checksum matches", () => {
   const { result } = renderHook(() => useFileSystem(), {
     wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
   });
+  const initialTrigger = result.current.refreshTrigger;
 
+  let resynced = true;
   act(() => {
-    result.current.handleToolCall({
-      toolName: "file_manager",
-      input: {
-        command: "delete",
-        path: "/test.js",
-      },
-    });
+    // The mock file system serializes to {}
+    resynced = result.current.syncFiles({ files: {}, checksum: checksumFiles({}) });
   });
 
-  expect(mockFileSystem.deleteFile).toHaveBeenCalledWith("/test.js");
+  expect(resynced).toBe(false);
+  expect(mockFileSystem.deserializeFromNodes).not.toHaveBeenCalled();
+  expect(result.current.refreshTrigger).toBe(initialTrigger);
 });
 
-test("handles unknown tool name gracefully", () => {
-  const { result } = renderHook(() => useFileSystem(), {
-    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
-  });
-
-  expect(() => {
-    act(() => {
-      result.current.handleToolCall({
-        toolName: "unknown_tool",
-        input: {},
-      });
-    });
-  }).not.toThrow();
-});
-
-test("handles unknown command gracefully", () => {
-  const { result } = renderHook(() => useFileSystem(), {
-    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
-  });
-
-  expect(() => {
-    act(() => {
-      result.current.handleToolCall({
-        toolName: "str_replace_editor",
-        input: {
-          command: "unknown",
-          path: "/test.js",
-        },
-      });
-    });
-  }).not.toThrow();
-
-  expect(mockFileSystem.createFileWithParents).not.toHaveBeenCalled();
-  expect(mockFileSystem.replaceInFile).not.toHaveBeenCalled();
-  expect(mockFileSystem.insertInFile).not.toHaveBeenCalled();
-});
-
-test("handles null file content when updating file", () => {
-  mockFileSystem.replaceInFile.mockReturnValue("Replaced successfully");
-  mockFileSystem.readFile.mockReturnValue(null);
+test("syncFiles replaces drifted files with the server's", () => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  const files = { "/App.jsx": { type: "file" as const, name: "App.jsx", path: "/App.jsx", content: "app" } };
 
   const { result } = renderHook(() => useFileSystem(), {
     wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
   });
+  const initialTrigger = result.current.refreshTrigger;
 
+  let resynced = false;
   act(() => {
-    result.current.handleToolCall({
-      toolName: "str_replace_editor",
-      input: {
-        command: "str_replace",
-        path: "/test.js",
-        old_str: "old",
-        new_str: "new",
-      },
-    });
+    resynced = result.current.syncFiles({ files, checksum: checksumFiles(files) });
   });
 
-  expect(mockFileSystem.updateFile).not.toHaveBeenCalled();
-});
\ No newline at end of file
+  expect(resynced).toBe(true);
+  expect(mockFileSystem.deserializeFromNodes).toHaveBeenCalledWith(files);
+  expect(result.current.refreshTrigger).toBe(initialTrigger + 1);
+});
@@ -0,0 +1,143 @@
+import { test, expect, beforeEach, afterEach } from "vitest";
+import React from "react";
+import { renderHook, act, cleanup } from "@testing-library/react";
+import { FileSystemProvider, useFileSystem } from "../file-system-context";
+import { VirtualFileSystem, type FileNode } from "@/lib/file-system";
+import { checksumFiles } from "@/lib/file-sync";
+
+// Review mode staging against a real VirtualFileSystem
+let fileSystem: VirtualFileSystem;
+
+beforeEach(() => {
+  fileSystem = new VirtualFileSystem();
+  fileSystem.createFile("/App.jsx", "app");
+  fileSystem.createFile("/Card.jsx", "card");
+});
+
+afterEach(() => {
+  cleanup();
+});
+
+function file(path: string, content: string): FileNode {
+  return { type: "file", name: path.split("/").pop()!, path, content };
+}
+
+function renderStaging() {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <FileSystemProvider fileSystem={fileSystem}>{children}</FileSystemProvider>
+  );
+  const { result } = renderHook(() => useFileSystem(), { wrapper });
+
+  // One staged turn: edit App.jsx, add Button.jsx, delete Card.jsx
+  act(() => result.current.prepareStaging(true));
+  act(() =>
+    result.current.applyFileDelta({
+      upserts: [file("/App.jsx", "app v2"), file("/Button.jsx", "button")],
+      deletes: ["/Card.jsx"],
+    })
+  );
+  return result;
+}
+
+test("stages file deltas without touching the project", () => {
+  const result = renderStaging();
+
+  expect(fileSystem.readFile("/App.jsx")).toBe("app");
+  expect(fileSystem.exists("/Button.jsx")).toBe(false);
+  expect(result.current.getStagedChanges().map((change) => [change.path, change.status])).toEqual([
+    ["/App.jsx", "modified"],
+    ["/Button.jsx", "added"],
+    ["/Card.jsx", "deleted"],
+  ]);
+});
+
+test("previews the project with staged edits on top", () => {
+  const result = renderStaging();
+  act(() => result.current.updateFile("/Card.jsx", "card edited by the user"));
+  fileSystem.createFile("/notes.md", "notes");
+
+  expect(Object.fromEntries(result.current.getPreviewFiles())).toEqual({
+    "/App.jsx": "app v2",
+    "/Button.jsx": "button",
+    "/notes.md": "notes",
+  });
+});
+
+test("accepts some files and rejects the rest", () => {
+  const result = renderStaging();
+
+  act(() => result.current.acceptStagedChanges(["/App.jsx", "/Button.jsx"]));
+
+  expect(fileSystem.readFile("/App.jsx")).toBe("app v2");
+  expect(fileSystem.readFile("/Button.jsx")).toBe("button");
+  expect(result.current.getStagedChanges().map((change) => change.path)).toEqual(["/Card.jsx"]);
+
+  act(() => result.current.rejectStagedChanges());
+
+  expect(fileSystem.readFile("/Card.jsx")).toBe("card");
+  expect(result.current.getStagedChanges()).toEqual([]);
+  expect(result.current.stagedFileSystem).toBeNull();
+});
+
+test("applies file deltas to the project again once review ends", () => {
+  const result = renderStaging();
+  act(() => result.current.acceptStagedChanges());
+  expect(result.current.stagedFileSystem).toBeNull();
+
+  act(() => result.current.prepareStaging(false));
+  act(() => result.current.applyFileDelta({ upserts: [file("/Footer.jsx", "footer")], deletes: [] }));
+
+  expect(fileSystem.readFile("/Footer.jsx")).toBe("footer");
+});
+
+test("keeps staging edits still under review when review is turned off", () => {
+  const result = renderStaging();
+
+  act(() => result.current.prepareStaging(false));
+  act(() => result.current.applyFileDelta({ upserts: [file("/Footer.jsx", "footer")], deletes: [] }));
+
+  expect(fileSystem.exists("/Footer.jsx")).toBe(false);
+  expect(result.current.getStagedChanges().map((change) => change.path)).toContain("/Footer.jsx");
+});
+
+test("resyncs the staged copy rather than the project", () => {
+  const result = renderStaging();
+  const staged = result.current.stagedFileSystem!;
+  staged.updateFile("/App.jsx", "drifted");
+  const server = { "/": { type: "directory" as const, name: "/", path: "/" }, "/App.jsx": file("/App.jsx", "app v3") };
+
+  act(() => {
+    result.current.syncFiles({ files: server, checksum: checksumFiles(server) });
+  });
+
+  expect(staged.readFile("/App.jsx")).toBe("app v3");
+  expect(staged.exists("/Button.jsx")).toBe(false);
+  expect(fileSystem.readFile("/App.jsx")).toBe("app");
+});
+
+test("returns the file system the AI's next edits go to", () => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <FileSystemProvider fileSystem={fileSystem}>{children}</FileSystemProvider>
+  );
+  const { result } = renderHook(() => useFileSystem(), { wrapper });
+
+  expect(result.current.prepareStaging(false)).toBe(fileSystem);
+
+  let staged!: VirtualFileSystem;
+  act(() => {
+    staged = result.current.prepareStaging(true);
+  });
+  expect(staged).toBe(result.current.stagedFileSystem);
+  expect(result.current.prepareStaging(true)).toBe(staged);
+});
+
+test("stages reverts of a turn while edits await review", () => {
+  const result = renderStaging();
+
+  act(() =>
+    result.current.revertChanges([{ path: "/App.jsx", status: "modified", before: "app", after: "app v2" }])
+  );
+
+  expect(result.current.stagedFileSystem!.readFile("/App.jsx")).toBe("app");
+  expect(result.current.getStagedChanges().map((change) => change.path)).toEqual(["/Button.jsx", "/Card.jsx"]);
+});
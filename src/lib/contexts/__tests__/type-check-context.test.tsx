@@ -0,0 +1,118 @@
+import { test, expect, vi, beforeEach, afterEach } from "vitest";
+import { renderHook, act, cleanup } from "@testing-library/react";
+import { TypeCheckProvider, useTypeCheck } from "../type-check-context";
+import { TYPE_CHECK } from "@/lib/constants";
+
+const mockGetAllFiles = vi.fn();
+let mockRefreshTrigger = 0;
+
+vi.mock("../file-system-context", () => ({
+  useFileSystem: () => ({
+    getAllFiles: mockGetAllFiles,
+    refreshTrigger: mockRefreshTrigger,
+  }),
+}));
+
+const mockCheck = vi.fn();
+const mockIsAvailable = vi.fn();
+const mockTerminate = vi.fn();
+
+vi.mock("@/lib/typescript/type-check-worker", () => ({
+  TypeCheckWorker: vi.fn().mockImplementation(() => ({
+    check: mockCheck,
+    isAvailable: mockIsAvailable,
+    terminate: mockTerminate,
+  })),
+}));
+
+const diagnostic = {
+  path: "/App.tsx",
+  line: 2,
+  column: 9,
+  endLine: 2,
+  endColumn: 14,
+  message: "Type 'string' is not assignable to type 'number'.",
+  code: 2322,
+  severity: "error",
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.clearAllMocks();
+  mockRefreshTrigger = 0;
+  mockIsAvailable.mockReturnValue(true);
+  mockCheck.mockResolvedValue([diagnostic]);
+  mockGetAllFiles.mockReturnValue(
+    new Map([
+      ["/App.tsx", "const count: number = 'one';"],
+      ["/Button.jsx", "export default function Button() {}"],
+      ["/styles.css", "body {}"],
+    ])
+  );
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+});
+
+function renderTypeCheck() {
+  return renderHook(() => useTypeCheck(), {
+    wrapper: ({ children }) => <TypeCheckProvider>{children}</TypeCheckProvider>,
+  });
+}
+
+test("has no diagnostics without a provider", () => {
+  const { result } = renderHook(() => useTypeCheck());
+
+  expect(result.current).toEqual({ diagnostics: [], checking: false });
+});
+
+test("checks the project's script files after the debounce", async () => {
+  const { result } = renderTypeCheck();
+  expect(mockCheck).not.toHaveBeenCalled();
+
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(TYPE_CHECK.DEBOUNCE_MS);
+  });
+
+  expect(mockCheck).toHaveBeenCalledWith([
+    ["/App.tsx", "const count: number = 'one';"],
+    ["/Button.jsx", "export default function Button() {}"],
+  ]);
+  expect(result.current).toEqual({ diagnostics: [diagnostic], checking: false });
+});
+
+test("doesn't check projects without TypeScript files", async () => {
+  mockGetAllFiles.mockReturnValue(new Map([["/App.jsx", "export default function App() {}"]]));
+  const { result } = renderTypeCheck();
+
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(TYPE_CHECK.DEBOUNCE_MS);
+  });
+
+  expect(mockCheck).not.toHaveBeenCalled();
+  expect(result.current.diagnostics).toEqual([]);
+});
+
+test("clears diagnostics when a check fails", async () => {
+  const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+  mockCheck.mockRejectedValue(new Error("Failed to load type libraries (500)"));
+  const { result } = renderTypeCheck();
+
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(TYPE_CHECK.DEBOUNCE_MS);
+  });
+
+  expect(result.current).toEqual({ diagnostics: [], checking: false });
+  expect(consoleError).toHaveBeenCalled();
+  consoleError.mockRestore();
+});
+
+test("terminates the worker on unmount", () => {
+  const { unmount } = renderTypeCheck();
+
+  unmount();
+
+  expect(mockTerminate).toHaveBeenCalled();
+});
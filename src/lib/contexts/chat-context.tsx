@@ -8,12 +8,22 @@ import {
   useState,
   useCallback,
   useMemo,
+  useRef,
 } from "react";
 import { useChat as useAIChat } from "@ai-sdk/react";
 import { UIMessage, DefaultChatTransport } from "ai";
 import { useFileSystem } from "./file-system-context";
+import type { VirtualFileSystem } from "@/lib/file-system";
 import { setHasAnonWork } from "@/lib/anon-work-tracker";
 import { type ProviderId } from "@/lib/providers";
+import { diffFileStates, type FileChange } from "@/lib/turn-changes";
+import {
+  FILE_DELTA_PART,
+  FILE_SYNC_PART,
+  type FileSystemDelta,
+  type FileSystemSync,
+} from "@/lib/file-sync";
+import { saveProject } from "@/actions/save-project";
 
 // Props for ChatProvider
 interface ChatContextProps {
@@ -29,12 +39,21 @@ interface ChatContextType {
   input: string; // Current text in the input field
   setInput: (value: string) => void; // Update input state
   handleSubmit: (e?: React.FormEvent<HTMLFormElement>) => void; // Send message to API
+  sendMessage: (text: string) => void; // Send a message without touching the input field
   status: string; // Loading state: "idle", "streaming", etc.
   error: Error | undefined; // Error state from API
   reload: () => void; // Retry last failed message
   provider: ProviderId; // Current AI provider
   model: string; // Current model ID
   setProviderAndModel: (provider: ProviderId, model: string) => void; // Update provider/model
+  autoRepair: boolean; // AI checks its edits with check_build and fixes the errors it finds
+  setAutoRepair: (enabled: boolean) => void;
+  setPreviewErrors: (errors: string[]) => void; // Latest preview errors, sent when auto-repairing
+  turnChanges: Record<string, FileChange[]>; // Files each assistant message changed, by message ID (this session only)
+  reviewChanges: boolean; // AI edits are staged until accepted instead of applied right away
+  setReviewChanges: (enabled: boolean) => void;
+  acceptChanges: (paths?: string[]) => Promise<{ success: boolean; error?: string }>; // Apply staged edits and save the project
+  rejectChanges: (paths?: string[]) => void; // Discard staged edits
 }
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
@@ -53,9 +72,26 @@ export function ChatProvider({
   const [model, setModel] = useState<string>(initialModel);
   // Local input state (v6 useChat doesn't provide input/handleInputChange)
   const [input, setInput] = useState("");
+  // Auto-repair state; preview errors are only sent while it's on
+  const [autoRepair, setAutoRepair] = useState(false);
+  const [previewErrors, setPreviewErrors] = useState<string[]>([]);
+  const [turnChanges, setTurnChanges] = useState<Record<string, FileChange[]>>({});
+  const [reviewChanges, setReviewChanges] = useState(false);
+  // The file system the pending request edits (the staging copy in review mode),
+  // and every file in it as it was when the request was sent
+  const turnStartRef = useRef<{ fileSystem: VirtualFileSystem; files: Map<string, string> } | null>(null);
 
   // Get file system from FileSystemContext to access it here
-  const { fileSystem, handleToolCall, refreshTrigger } = useFileSystem();
+  const {
+    fileSystem,
+    applyFileDelta,
+    syncFiles,
+    refreshTrigger,
+    stagedFileSystem,
+    prepareStaging,
+    acceptStagedChanges,
+    rejectStagedChanges,
+  } = useFileSystem();
 
   // Memoize transport to recreate when provider/model/files change
   // This ensures the body sent to the API is always up-to-date
@@ -64,24 +100,29 @@ export function ChatProvider({
       api: "/api/chat",
       body: {
         // Send current file state with each message
-        // Server reconstructs VirtualFileSystem from this
-        files: fileSystem.serialize(),
+        // Server reconstructs VirtualFileSystem from this; while edits await review
+        // the AI works on the staged copy
+        files: (stagedFileSystem ?? fileSystem).serialize(),
         projectId, // Server uses this to know where to save results
         provider, // Selected AI provider
         model, // Selected model
+        // Lets the server run check_build and see errors from the preview
+        ...(autoRepair && { autoRepair, previewErrors }),
+        // Staged edits aren't saved to the project until they're accepted
+        ...((reviewChanges || stagedFileSystem) && { reviewChanges: true }),
       },
     });
-  }, [fileSystem, projectId, provider, model, refreshTrigger]);
+  }, [fileSystem, stagedFileSystem, projectId, provider, model, autoRepair, previewErrors, reviewChanges, refreshTrigger]);
 
   // Use Vercel AI SDK's useChat hook for streaming + agentic loop (v6 API)
   // This handles:
   // 1. Sending messages to /api/chat
   // 2. Streaming response chunks
-  // 3. Parsing and calling tools
+  // 3. Applying the file changes the server's tools made
   // 4. Maintaining message history
   const {
     messages,
-    sendMessage,
+    sendMessage: sendChatMessage,
     regenerate,
     status,
     error,
@@ -89,29 +130,60 @@ export function ChatProvider({
     // v6 API: Use transport for API configuration
     transport,
     messages: initialMessages, // Load saved conversation if provided
-    // Hook called when AI calls a tool (v6: toolCall has 'input' property)
-    onToolCall: ({ toolCall }) => {
-      handleToolCall(toolCall as { toolName: string; input: any });
+    // Tools only run on the server; their file changes arrive as data parts
+    onData: (part) => {
+      if (part.type === FILE_DELTA_PART) {
+        applyFileDelta(part.data as FileSystemDelta);
+      } else if (part.type === FILE_SYNC_PART) {
+        syncFiles(part.data as FileSystemSync);
+      }
     },
     // Hook called when an error occurs
     onError: (error) => {
       console.error("[Chat Error]", error);
     },
+    // Hook called when the response ends (also on errors, after any edits it made)
+    onFinish: ({ message }) => {
+      const start = turnStartRef.current;
+      turnStartRef.current = null;
+      if (!start || message.role !== "assistant") return;
+
+      const changes = diffFileStates(start.files, start.fileSystem.getAllFiles());
+      if (changes.length > 0) {
+        setTurnChanges((current) => ({ ...current, [message.id]: changes }));
+      }
+    },
   });
 
+  // Before each request: pick where the AI's edits go and remember how the files
+  // started, so the turn's changes can be shown once it finishes
+  const startTurn = useCallback(() => {
+    const target = prepareStaging(reviewChanges);
+    turnStartRef.current = { fileSystem: target, files: target.getAllFiles() };
+  }, [prepareStaging, reviewChanges]);
+
+  // Send a user message, e.g. an "Ask AI to fix" request from the preview
+  const sendMessage = useCallback((text: string) => {
+    if (!text.trim()) return;
+
+    startTurn();
+    sendChatMessage({ text });
+  }, [sendChatMessage, startTurn]);
+
   // Wrapper for sendMessage that matches old handleSubmit API
   const handleSubmit = useCallback((e?: React.FormEvent<HTMLFormElement>) => {
     e?.preventDefault();
     if (!input.trim()) return;
 
-    sendMessage({ text: input });
+    sendMessage(input);
     setInput(""); // Clear input after sending
   }, [sendMessage, input]);
 
   // Wrapper for regenerate to match old reload API
   const reload = useCallback(() => {
+    startTurn();
     regenerate();
-  }, [regenerate]);
+  }, [regenerate, startTurn]);
 
   // Update provider and model
   const setProviderAndModel = useCallback((newProvider: ProviderId, newModel: string) => {
@@ -119,6 +191,13 @@ export function ChatProvider({
     setModel(newModel);
   }, []);
 
+  // Accepted edits are saved right away; the chat route didn't save them
+  const acceptChanges = useCallback(async (paths?: string[]) => {
+    acceptStagedChanges(paths);
+    if (!projectId) return { success: true };
+    return saveProject(projectId, fileSystem.serialize(), "Accepted AI changes");
+  }, [acceptStagedChanges, projectId, fileSystem]);
+
   // Track anonymous user work in localStorage
   // Allows anonymous users to resume later or save to account
   useEffect(() => {
@@ -134,12 +213,21 @@ export function ChatProvider({
         input,
         setInput,
         handleSubmit,
+        sendMessage,
         status,
         error,
         reload,
         provider,
         model,
         setProviderAndModel,
+        autoRepair,
+        setAutoRepair,
+        setPreviewErrors,
+        turnChanges,
+        reviewChanges,
+        setReviewChanges,
+        acceptChanges,
+        rejectChanges: rejectStagedChanges,
       }}
     >
       {children}
@@ -156,3 +244,8 @@ export function useChat() {
   }
   return context;
 }
+
+// Chat context, or null outside a ChatProvider (e.g. the public share page)
+export function useOptionalChat() {
+  return useContext(ChatContext) ?? null;
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { useFileSystem } from "./file-system-context";
+import { hashContent } from "@/lib/transform/transform-cache";
+import {
+  EMPTY_TABS_STATE,
+  MAX_PANES,
+  closeTab as closeTabInState,
+  focusPane as focusPaneInState,
+  getFocusedFile,
+  getVisibleFiles,
+  isModifiedSinceViewed,
+  loadTabsState,
+  markViewed,
+  openTab as openTabInState,
+  retainExistingFiles,
+  saveTabsState,
+  splitPane,
+  type EditorPane,
+  type EditorTabsState,
+} from "@/lib/editor-tabs";
+
+interface EditorTabsContextType {
+  panes: EditorPane[]; // One pane, or two side by side
+  focusedPane: number; // The pane showing the selected file
+  activateTab: (paneIndex: number, path: string) => void; // Show an open tab and focus its pane
+  closeTab: (paneIndex: number, path: string) => void;
+  focusPane: (paneIndex: number) => void;
+  canSplit: boolean;
+  split: () => void; // Open the selected file in a second pane
+  isModified: (path: string) => boolean; // Changed (e.g. by the AI) since last shown
+}
+
+const EditorTabsContext = createContext<EditorTabsContextType | undefined>(undefined);
+
+// Provider for the editor's tabs and split panes, persisted per project
+// Must be inside a FileSystemProvider; the focused pane's active tab is always
+// the selected file, so the file tree and openFile() open tabs too
+export function EditorTabsProvider({
+  children,
+  projectId,
+}: {
+  children: React.ReactNode;
+  projectId?: string; // Tabs of anonymous or shared projects aren't persisted
+}) {
+  const { fileSystem, selectedFile, setSelectedFile, getFileContent, refreshTrigger } =
+    useFileSystem();
+  const [state, setState] = useState<EditorTabsState>(EMPTY_TABS_STATE);
+  // Restored focused file; re-selected until the file system's initial selection
+  // (the entry file) has been replaced by it
+  const pendingSelectionRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const stored = projectId ? loadTabsState(projectId) : null;
+    if (!stored) return;
+    const restored = retainExistingFiles(stored, (path) => fileSystem.exists(path));
+    pendingSelectionRef.current = getFocusedFile(restored);
+    setState(restored);
+  }, [projectId, fileSystem]);
+
+  // Nothing to save until something is opened or restored
+  useEffect(() => {
+    if (projectId && state !== EMPTY_TABS_STATE) saveTabsState(projectId, state);
+  }, [projectId, state]);
+
+  // Follow the selected file: whatever selects a file opens it in the focused pane
+  useEffect(() => {
+    const pending = pendingSelectionRef.current;
+    if (pending) {
+      if (pending !== selectedFile) {
+        setSelectedFile(pending);
+        return;
+      }
+      pendingSelectionRef.current = null;
+    }
+    if (selectedFile && getFocusedFile(state) !== selectedFile) {
+      setState((current) => openTabInState(current, selectedFile));
+    }
+  }, [selectedFile, state, setSelectedFile]);
+
+  // Close tabs of deleted files, and remember what the visible files look like now
+  useEffect(() => {
+    setState((current) => {
+      let next = retainExistingFiles(current, (path) => fileSystem.exists(path));
+      for (const path of getVisibleFiles(next)) {
+        const content = getFileContent(path);
+        if (content !== null) next = markViewed(next, path, hashContent(content));
+      }
+      return next;
+    });
+  }, [refreshTrigger, state.panes, fileSystem, getFileContent]);
+
+  // Closing the focused pane's last tab selects nothing, and the file system then
+  // falls back to the entry file
+  const apply = useCallback(
+    (next: EditorTabsState) => {
+      setState(next);
+      setSelectedFile(getFocusedFile(next));
+    },
+    [setSelectedFile]
+  );
+
+  const activateTab = useCallback(
+    (paneIndex: number, path: string) => apply(openTabInState(state, path, paneIndex)),
+    [apply, state]
+  );
+
+  const closeTab = useCallback(
+    (paneIndex: number, path: string) => apply(closeTabInState(state, paneIndex, path)),
+    [apply, state]
+  );
+
+  const focusPane = useCallback(
+    (paneIndex: number) => {
+      if (paneIndex !== state.focused) apply(focusPaneInState(state, paneIndex));
+    },
+    [apply, state]
+  );
+
+  const split = useCallback(() => apply(splitPane(state)), [apply, state]);
+
+  // Recomputed on every render; the provider re-renders whenever files change
+  const isModified = (path: string) => {
+    const content = getFileContent(path);
+    return content !== null && isModifiedSinceViewed(state, path, hashContent(content));
+  };
+
+  return (
+    <EditorTabsContext.Provider
+      value={{
+        panes: state.panes,
+        focusedPane: state.focused,
+        activateTab,
+        closeTab,
+        focusPane,
+        canSplit: state.panes.length < MAX_PANES && getFocusedFile(state) !== null,
+        split,
+        isModified,
+      }}
+    >
+      {children}
+    </EditorTabsContext.Provider>
+  );
+}
+
+export function useEditorTabs() {
+  const context = useContext(EditorTabsContext);
+  if (!context) {
+    throw new Error("useEditorTabs must be used within an EditorTabsProvider");
+  }
+  return context;
+}
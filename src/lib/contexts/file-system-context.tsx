@@ -6,14 +6,22 @@ import React, {
   useState,
   useCallback,
   useEffect,
+  useRef,
 } from "react";
 import { VirtualFileSystem, FileNode } from "@/lib/file-system";
+import { applyChanges, diffFileStates, type FileChange } from "@/lib/turn-changes";
+import {
+  applyFileDelta as applyDeltaTo,
+  checksumFiles,
+  type FileSystemDelta,
+  type FileSystemSync,
+} from "@/lib/file-sync";
 
-// Represents a tool call from Claude (str_replace_editor or file_manager)
-// In AI SDK v6, the property is 'input' instead of 'args'
-interface ToolCall {
-  toolName: string;
-  input: any; // Tool-specific arguments (v6 API)
+// A position in a file the editor should reveal (1-based line and column)
+export interface EditorLocation {
+  path: string;
+  line?: number;
+  column?: number;
 }
 
 // Context API type definition for FileSystemContext
@@ -21,6 +29,9 @@ interface FileSystemContextType {
   fileSystem: VirtualFileSystem; // Instance managing the virtual file tree
   selectedFile: string | null; // Currently open file path in editor
   setSelectedFile: (path: string | null) => void; // Update selected file
+  editorLocation: EditorLocation | null; // Set by openFile until the editor has revealed it
+  openFile: (path: string, line?: number, column?: number) => void; // Open a file at a line in the editor
+  clearEditorLocation: () => void; // Called by the editor once the location is shown
   createFile: (path: string, content?: string) => void; // Create file and notify UI
   updateFile: (path: string, content: string) => void; // Update file and notify UI
   deleteFile: (path: string) => void; // Delete file and notify UI
@@ -28,7 +39,16 @@ interface FileSystemContextType {
   getFileContent: (path: string) => string | null; // Read file content
   getAllFiles: () => Map<string, string>; // Get all files for serialization
   refreshTrigger: number; // Incremented to force UI re-renders
-  handleToolCall: (toolCall: ToolCall) => void; // Execute Claude's tool calls
+  applyFileDelta: (delta: FileSystemDelta) => void; // Apply file changes streamed by the chat route
+  syncFiles: (sync: FileSystemSync) => boolean; // Replace drifted files with the server's; returns whether it did
+  restoreFiles: (data: Record<string, FileNode>) => void; // Replace all files with a saved version
+  revertChanges: (changes: FileChange[]) => void; // Undo file changes made by an AI turn
+  stagedFileSystem: VirtualFileSystem | null; // Copy of the project the AI edits in review mode
+  prepareStaging: (review: boolean) => VirtualFileSystem; // Before each request: stage the AI's edits or not; returns the file system they go to
+  getStagedChanges: () => FileChange[]; // AI edits awaiting review
+  acceptStagedChanges: (paths?: string[]) => void; // Apply staged edits (all by default) to the project
+  rejectStagedChanges: (paths?: string[]) => void; // Discard staged edits (all by default)
+  getPreviewFiles: () => Map<string, string>; // Project files with staged edits on top
   reset: () => void; // Clear all files
 }
 
@@ -36,8 +56,14 @@ const FileSystemContext = createContext<FileSystemContextType | undefined>(
   undefined
 );
 
+// A staging copy of the project for review mode, and the files it started from
+interface Staging {
+  fileSystem: VirtualFileSystem;
+  base: Map<string, string>;
+}
+
 // Provider component that gives descendants access to the virtual file system
-// Manages file state, auto-selection of files, and tool call execution
+// Manages file state, auto-selection of files, and syncing the AI's edits from the server
 export function FileSystemProvider({
   children,
   fileSystem: providedFileSystem,
@@ -59,8 +85,13 @@ export function FileSystemProvider({
 
   // Track which file is open in the editor
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const [editorLocation, setEditorLocation] = useState<EditorLocation | null>(null);
   // Increment this to force UI re-renders when file structure changes
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  // Review mode: the AI's edits go to a staging copy until the user accepts them
+  // The ref is what file deltas read; the state re-renders consumers
+  const stagingRef = useRef<Staging | null>(null);
+  const [stagedFileSystem, setStagedFileSystem] = useState<VirtualFileSystem | null>(null);
 
   // Helper to trigger UI refresh by incrementing refreshTrigger
   const triggerRefresh = useCallback(() => {
@@ -139,6 +170,20 @@ export function FileSystemProvider({
     [fileSystem, selectedFile, triggerRefresh]
   );
 
+  // Select a file and ask the editor to reveal a line, e.g. from a preview error
+  const openFile = useCallback(
+    (path: string, line?: number, column?: number) => {
+      if (!fileSystem.exists(path)) return;
+      setSelectedFile(path);
+      setEditorLocation({ path, line, column });
+    },
+    [fileSystem]
+  );
+
+  const clearEditorLocation = useCallback(() => {
+    setEditorLocation(null);
+  }, []);
+
   const getFileContent = useCallback(
     (path: string) => {
       return fileSystem.readFile(path);
@@ -156,89 +201,151 @@ export function FileSystemProvider({
     triggerRefresh();
   }, [fileSystem, triggerRefresh]);
 
-  // Execute tool calls from Claude
-  // Routes to either str_replace_editor (file content) or file_manager (file ops)
-  const handleToolCall = useCallback(
-    (toolCall: ToolCall) => {
-      const { toolName, input: args } = toolCall;
-
-      // STR_REPLACE_EDITOR TOOL: Create/edit files
-      // Commands: create, str_replace, insert, view
-      if (toolName === "str_replace_editor" && args) {
-        const { command, path, file_text, old_str, new_str, insert_line } = args;
-
-        switch (command) {
-          // Create a new file with content
-          case "create":
-            if (path && file_text !== undefined) {
-              // First update the backend file system
-              const result = fileSystem.createFileWithParents(path, file_text);
-              // Then trigger UI update (only if no error)
-              if (!result.startsWith("Error:")) {
-                createFile(path, file_text);
-              }
-            }
-            break;
-
-          // Replace all occurrences of old_str with new_str in a file
-          case "str_replace":
-            if (path && old_str !== undefined && new_str !== undefined) {
-              // Execute replacement in file system
-              const result = fileSystem.replaceInFile(path, old_str, new_str);
-              // Update UI with new content (only if no error)
-              if (!result.startsWith("Error:")) {
-                const content = fileSystem.readFile(path);
-                if (content !== null) {
-                  updateFile(path, content);
-                }
-              }
-            }
-            break;
-
-          // Insert text at a specific line
-          case "insert":
-            if (path && new_str !== undefined && insert_line !== undefined) {
-              // Execute insertion in file system
-              const result = fileSystem.insertInFile(path, insert_line, new_str);
-              // Update UI with new content (only if no error)
-              if (!result.startsWith("Error:")) {
-                const content = fileSystem.readFile(path);
-                if (content !== null) {
-                  updateFile(path, content);
-                }
-              }
-            }
-            break;
+  // Replace the whole file tree with a serialized version (e.g. a project snapshot)
+  // Keeps the selected file open if it still exists in the restored version
+  const restoreFiles = useCallback(
+    (data: Record<string, FileNode>) => {
+      fileSystem.deserializeFromNodes(data);
+      setSelectedFile((current) =>
+        current && fileSystem.exists(current) ? current : null
+      );
+      triggerRefresh();
+    },
+    [fileSystem, triggerRefresh]
+  );
+
+  // Put files back the way they were before an AI turn: modified files get their
+  // old content, added files are deleted and deleted files are recreated. While
+  // edits await review the revert is staged with them
+  const revertChanges = useCallback(
+    (changes: FileChange[]) => {
+      applyChanges(stagingRef.current?.fileSystem ?? fileSystem, changes, "before");
+      setSelectedFile((current) =>
+        current && fileSystem.exists(current) ? current : null
+      );
+      triggerRefresh();
+    },
+    [fileSystem, triggerRefresh]
+  );
+
+  // Staged edits are those made since staging began, so edits the user makes to
+  // the project meanwhile are neither shown as changes nor overwritten
+  const getStagedChanges = useCallback((): FileChange[] => {
+    const staging = stagingRef.current;
+    return staging ? diffFileStates(staging.base, staging.fileSystem.getAllFiles()) : [];
+  }, []);
+
+  // With review on, the AI's next edits are staged; a new turn keeps building on
+  // edits still under review. With review off, an empty staging copy is dropped
+  const prepareStaging = useCallback(
+    (review: boolean) => {
+      const staging = stagingRef.current;
+      if (staging) {
+        if (!review && getStagedChanges().length === 0) {
+          stagingRef.current = null;
+          setStagedFileSystem(null);
+          return fileSystem;
         }
+        return staging.fileSystem;
       }
+      if (!review) return fileSystem;
+
+      const copy = new VirtualFileSystem();
+      copy.deserializeFromNodes(fileSystem.serialize());
+      stagingRef.current = { fileSystem: copy, base: copy.getAllFiles() };
+      setStagedFileSystem(copy);
+      return copy;
+    },
+    [fileSystem, getStagedChanges]
+  );
 
-      // FILE_MANAGER TOOL: File/directory operations
-      // Commands: rename, delete
-      if (toolName === "file_manager" && args) {
-        const { command, path, new_path } = args;
-
-        switch (command) {
-          // Rename or move a file
-          case "rename":
-            if (path && new_path) {
-              renameFile(path, new_path);
-            }
-            break;
-
-          // Delete a file or directory
-          case "delete":
-            if (path) {
-              const success = fileSystem.deleteFile(path);
-              // Update UI if deletion succeeded
-              if (success) {
-                deleteFile(path);
-              }
-            }
-            break;
+  const selectStagedChanges = useCallback(
+    (paths?: string[]) =>
+      getStagedChanges().filter((change) => !paths || paths.includes(change.path)),
+    [getStagedChanges]
+  );
+
+  // Staging ends once nothing is left to review
+  const settleStaging = useCallback(() => {
+    if (getStagedChanges().length === 0) {
+      stagingRef.current = null;
+      setStagedFileSystem(null);
+    }
+    setSelectedFile((current) =>
+      current && fileSystem.exists(current) ? current : null
+    );
+    triggerRefresh();
+  }, [fileSystem, getStagedChanges, triggerRefresh]);
+
+  const acceptStagedChanges = useCallback(
+    (paths?: string[]) => {
+      const staging = stagingRef.current;
+      if (!staging) return;
+      const changes = selectStagedChanges(paths);
+      applyChanges(fileSystem, changes, "after");
+      for (const change of changes) {
+        if (change.after === null) {
+          staging.base.delete(change.path);
+        } else {
+          staging.base.set(change.path, change.after);
         }
       }
+      settleStaging();
+    },
+    [fileSystem, selectStagedChanges, settleStaging]
+  );
+
+  const rejectStagedChanges = useCallback(
+    (paths?: string[]) => {
+      const staging = stagingRef.current;
+      if (!staging) return;
+      applyChanges(staging.fileSystem, selectStagedChanges(paths), "before");
+      settleStaging();
     },
-    [fileSystem, createFile, updateFile, deleteFile, renameFile]
+    [selectStagedChanges, settleStaging]
+  );
+
+  const getPreviewFiles = useCallback(() => {
+    const files = fileSystem.getAllFiles();
+    for (const change of getStagedChanges()) {
+      if (change.after === null) {
+        files.delete(change.path);
+      } else {
+        files.set(change.path, change.after);
+      }
+    }
+    return files;
+  }, [fileSystem, getStagedChanges]);
+
+  // The chat route's tools are the source of truth for the AI's edits: their
+  // changes arrive as deltas, applied to the staging copy in review mode
+  const applyFileDelta = useCallback(
+    (delta: FileSystemDelta) => {
+      applyDeltaTo(stagingRef.current?.fileSystem ?? fileSystem, delta);
+      // The delta may delete the selected file
+      setSelectedFile((current) =>
+        current && fileSystem.exists(current) ? current : null
+      );
+      triggerRefresh();
+    },
+    [fileSystem, triggerRefresh]
+  );
+
+  // Once a response ends the server sends its whole tree; files that no longer
+  // match it (e.g. a delta failed to apply) are replaced
+  const syncFiles = useCallback(
+    ({ files, checksum }: FileSystemSync) => {
+      const target = stagingRef.current?.fileSystem ?? fileSystem;
+      if (checksumFiles(target.serialize()) === checksum) return false;
+
+      target.deserializeFromNodes(files);
+      setSelectedFile((current) =>
+        current && fileSystem.exists(current) ? current : null
+      );
+      triggerRefresh();
+      return true;
+    },
+    [fileSystem, triggerRefresh]
   );
 
   return (
@@ -247,6 +354,9 @@ export function FileSystemProvider({
         fileSystem,
         selectedFile,
         setSelectedFile,
+        editorLocation,
+        openFile,
+        clearEditorLocation,
         createFile,
         updateFile,
         deleteFile,
@@ -254,7 +364,16 @@ export function FileSystemProvider({
         getFileContent,
         getAllFiles,
         refreshTrigger,
-        handleToolCall,
+        applyFileDelta,
+        syncFiles,
+        restoreFiles,
+        revertChanges,
+        stagedFileSystem,
+        prepareStaging,
+        getStagedChanges,
+        acceptStagedChanges,
+        rejectStagedChanges,
+        getPreviewFiles,
         reset,
       }}
     >
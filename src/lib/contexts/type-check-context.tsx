@@ -0,0 +1,79 @@
+"use client";
+
+import React, { createContext, useContext, useEffect, useRef, useState } from "react";
+import { useFileSystem } from "./file-system-context";
+import { TypeCheckWorker } from "@/lib/typescript/type-check-worker";
+import { isTypeCheckedPath, type TypeDiagnostic } from "@/lib/typescript/type-checker";
+import { TYPE_CHECK } from "@/lib/constants";
+
+interface TypeCheckContextType {
+  diagnostics: TypeDiagnostic[]; // Errors in the project's .ts/.tsx files, from the last check
+  checking: boolean; // A check is running
+}
+
+// Without a provider (e.g. share pages) there are simply no diagnostics
+const TypeCheckContext = createContext<TypeCheckContextType>({
+  diagnostics: [],
+  checking: false,
+});
+
+// Provider that type checks the project's files in a worker whenever they change
+// Must be inside a FileSystemProvider
+export function TypeCheckProvider({ children }: { children: React.ReactNode }) {
+  const { getAllFiles, refreshTrigger } = useFileSystem();
+  const [diagnostics, setDiagnostics] = useState<TypeDiagnostic[]>([]);
+  const [checking, setChecking] = useState(false);
+  const workerRef = useRef<TypeCheckWorker | null>(null);
+
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // Checks are debounced like preview builds; results of superseded checks are dropped
+  useEffect(() => {
+    workerRef.current ??= new TypeCheckWorker();
+    const worker = workerRef.current;
+    const files = Array.from(getAllFiles()).filter(([path]) => /\.(jsx?|tsx?)$/.test(path));
+
+    // Plain JavaScript projects never load TypeScript
+    if (!worker.isAvailable() || !files.some(([path]) => isTypeCheckedPath(path))) {
+      setDiagnostics([]);
+      setChecking(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setChecking(true);
+      try {
+        const result = await worker.check(files);
+        if (!cancelled) setDiagnostics(result);
+      } catch (error) {
+        if (!cancelled) {
+          console.error("Type check failed:", error);
+          setDiagnostics([]);
+        }
+      } finally {
+        if (!cancelled) setChecking(false);
+      }
+    }, TYPE_CHECK.DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [getAllFiles, refreshTrigger]);
+
+  return (
+    <TypeCheckContext.Provider value={{ diagnostics, checking }}>
+      {children}
+    </TypeCheckContext.Provider>
+  );
+}
+
+export function useTypeCheck() {
+  return useContext(TypeCheckContext);
+}
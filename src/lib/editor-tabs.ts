@@ -0,0 +1,184 @@
+/**
+ * Editor tab state
+ * Each pane has its own open tabs; with a split there are two panes side by side.
+ * The focused pane's active tab is the file system context's selected file.
+ * "viewed" holds a hash of each file's content when it was last shown, so files
+ * changed elsewhere (by the AI) since then get a modified indicator.
+ * Persisted in localStorage per project.
+ */
+
+export interface EditorPane {
+  tabs: string[]; // Open file paths, in tab order
+  active: string | null;
+}
+
+export interface EditorTabsState {
+  panes: EditorPane[]; // One pane, or two when split
+  focused: number; // Index of the pane that follows the selected file
+  viewed: Record<string, string>; // Path -> content hash when last shown
+}
+
+export const MAX_PANES = 2;
+
+export const EMPTY_TABS_STATE: EditorTabsState = {
+  panes: [{ tabs: [], active: null }],
+  focused: 0,
+  viewed: {},
+};
+
+export function getFocusedFile(state: EditorTabsState): string | null {
+  return state.panes[state.focused]?.active ?? null;
+}
+
+// Files shown in a pane right now
+export function getVisibleFiles(state: EditorTabsState): string[] {
+  return state.panes.map((pane) => pane.active).filter((path): path is string => path !== null);
+}
+
+function updatePane(
+  state: EditorTabsState,
+  index: number,
+  update: (pane: EditorPane) => EditorPane
+): EditorTabsState {
+  return {
+    ...state,
+    panes: state.panes.map((pane, i) => (i === index ? update(pane) : pane)),
+  };
+}
+
+/**
+ * Show a file in a pane (the focused one by default) and focus that pane
+ * A file that isn't open yet gets a tab right after the active one
+ */
+export function openTab(state: EditorTabsState, path: string, paneIndex = state.focused): EditorTabsState {
+  const next = updatePane(state, paneIndex, (pane) => {
+    if (pane.tabs.includes(path)) return { ...pane, active: path };
+    const at = pane.active ? pane.tabs.indexOf(pane.active) + 1 : pane.tabs.length;
+    return { tabs: [...pane.tabs.slice(0, at), path, ...pane.tabs.slice(at)], active: path };
+  });
+  return { ...next, focused: paneIndex };
+}
+
+/**
+ * Close a tab; closing the active one activates its right neighbour, else its left
+ * A split pane with no tabs left is closed
+ */
+export function closeTab(state: EditorTabsState, paneIndex: number, path: string): EditorTabsState {
+  const pane = state.panes[paneIndex];
+  if (!pane || !pane.tabs.includes(path)) return state;
+
+  const index = pane.tabs.indexOf(path);
+  const tabs = pane.tabs.filter((tab) => tab !== path);
+  const active = pane.active === path ? (tabs[index] ?? tabs[index - 1] ?? null) : pane.active;
+
+  if (tabs.length === 0 && state.panes.length > 1) {
+    return {
+      ...state,
+      panes: state.panes.filter((_, i) => i !== paneIndex),
+      focused: 0,
+    };
+  }
+  return updatePane(state, paneIndex, () => ({ tabs, active }));
+}
+
+export function focusPane(state: EditorTabsState, paneIndex: number): EditorTabsState {
+  if (paneIndex === state.focused || !state.panes[paneIndex]) return state;
+  return { ...state, focused: paneIndex };
+}
+
+// Open the focused file in a second pane beside the first, and focus it
+export function splitPane(state: EditorTabsState): EditorTabsState {
+  const file = getFocusedFile(state);
+  if (state.panes.length >= MAX_PANES || !file) return state;
+  return {
+    ...state,
+    panes: [...state.panes, { tabs: [file], active: file }],
+    focused: state.panes.length,
+  };
+}
+
+// Close the tabs of files that no longer exist (deleted or renamed)
+export function retainExistingFiles(
+  state: EditorTabsState,
+  exists: (path: string) => boolean
+): EditorTabsState {
+  let next = state;
+  for (let index = state.panes.length - 1; index >= 0; index--) {
+    for (const path of state.panes[index].tabs) {
+      if (!exists(path)) next = closeTab(next, index, path);
+    }
+  }
+
+  const viewed = Object.fromEntries(Object.entries(next.viewed).filter(([path]) => exists(path)));
+  if (next === state && Object.keys(viewed).length === Object.keys(state.viewed).length) {
+    return state;
+  }
+  return { ...next, viewed };
+}
+
+export function markViewed(state: EditorTabsState, path: string, hash: string): EditorTabsState {
+  if (state.viewed[path] === hash) return state;
+  return { ...state, viewed: { ...state.viewed, [path]: hash } };
+}
+
+// Changed since it was last shown; files never shown aren't marked
+export function isModifiedSinceViewed(state: EditorTabsState, path: string, hash: string): boolean {
+  const viewed = state.viewed[path];
+  return viewed !== undefined && viewed !== hash;
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+const STORAGE_KEY_PREFIX = "react-ai-ui-generator_editor_tabs_";
+
+function isPane(value: unknown): value is EditorPane {
+  const pane = value as EditorPane | null;
+  return (
+    !!pane &&
+    Array.isArray(pane.tabs) &&
+    pane.tabs.every((tab) => typeof tab === "string") &&
+    (pane.active === null || pane.tabs.includes(pane.active))
+  );
+}
+
+// Validate stored state; anything malformed is dropped
+export function parseTabsState(value: unknown): EditorTabsState | null {
+  const state = value as EditorTabsState | null;
+  if (
+    !state ||
+    !Array.isArray(state.panes) ||
+    state.panes.length < 1 ||
+    state.panes.length > MAX_PANES ||
+    !state.panes.every(isPane) ||
+    !Number.isInteger(state.focused) ||
+    !state.panes[state.focused] ||
+    typeof state.viewed !== "object" ||
+    state.viewed === null ||
+    !Object.values(state.viewed).every((hash) => typeof hash === "string")
+  ) {
+    return null;
+  }
+  return { panes: state.panes, focused: state.focused, viewed: state.viewed };
+}
+
+export function loadTabsState(projectId: string): EditorTabsState | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_PREFIX + projectId);
+    return stored ? parseTabsState(JSON.parse(stored)) : null;
+  } catch {
+    // localStorage not available, or invalid JSON
+    return null;
+  }
+}
+
+export function saveTabsState(projectId: string, state: EditorTabsState): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(STORAGE_KEY_PREFIX + projectId, JSON.stringify(state));
+  } catch {
+    // localStorage not available or full
+  }
+}
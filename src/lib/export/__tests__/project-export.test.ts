@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from "vitest";
+import { unzipSync, strFromU8 } from "fflate";
+import {
+  toPackageName,
+  rewriteAbsoluteImports,
+  buildExportFiles,
+  createProjectZip,
+  downloadProjectZip,
+} from "../project-export";
+
+function filesOf(entries: Record<string, string>): Map<string, string> {
+  return new Map(Object.entries(entries));
+}
+
+describe("project-export", () => {
+  describe("toPackageName", () => {
+    it("slugifies project names", () => {
+      expect(toPackageName("My Dashboard!")).toBe("my-dashboard");
+      expect(toPackageName("  --  ")).toBe("uigen-project");
+    });
+  });
+
+  describe("rewriteAbsoluteImports", () => {
+    it("rewrites root-absolute imports to the @/ alias", () => {
+      const code = [
+        'import Button from "/components/Button";',
+        "import { Card } from '/components/Card.jsx';",
+        'const Lazy = lazy(() => import("/components/Lazy"));',
+        'import "/styles.css";',
+      ].join("\n");
+
+      expect(rewriteAbsoluteImports(code)).toBe(
+        [
+          'import Button from "@/components/Button";',
+          "import { Card } from '@/components/Card.jsx';",
+          'const Lazy = lazy(() => import("@/components/Lazy"));',
+          'import "@/styles.css";',
+        ].join("\n")
+      );
+    });
+
+    it("leaves relative, aliased and package imports alone", () => {
+      const code = [
+        'import A from "./A";',
+        'import B from "@/components/B";',
+        'import { motion } from "framer-motion";',
+        'const url = "//cdn.example.com/x.js";',
+      ].join("\n");
+
+      expect(rewriteAbsoluteImports(code)).toBe(code);
+    });
+  });
+
+  describe("buildExportFiles", () => {
+    it("places sources under src/ with a Vite entry for App.jsx", () => {
+      const output = buildExportFiles(
+        filesOf({
+          "/App.jsx": 'import Button from "/components/Button";\nexport default function App() {}',
+          "/components/Button.jsx": "export default function Button() {}",
+        }),
+        "Demo"
+      );
+
+      expect(output["src/App.jsx"]).toContain('from "@/components/Button"');
+      expect(output["src/components/Button.jsx"]).toBeDefined();
+      expect(output["src/main.jsx"]).toContain('import App from "@/App";');
+      expect(output["src/main.jsx"]).toContain('import "./tailwind.css";');
+      expect(output["index.html"]).toContain('src="/src/main.jsx"');
+      expect(output["vite.config.js"]).toContain('"@": fileURLToPath(new URL("./src"');
+      expect(output["tailwind.config.js"]).toContain("./src/**/*.{js,jsx,ts,tsx}");
+      expect(JSON.parse(output["jsconfig.json"]).compilerOptions.paths).toEqual({
+        "@/*": ["./src/*"],
+      });
+      expect(output["tsconfig.json"]).toBeUndefined();
+    });
+
+    it("lists imported third-party packages as dependencies", () => {
+      const output = buildExportFiles(
+        filesOf({
+          "/App.jsx": [
+            'import React from "react";',
+            'import { motion } from "framer-motion";',
+            'import debounce from "lodash/debounce";',
+            'import * as Dialog from "@radix-ui/react-dialog";',
+            'import Local from "@/components/Local";',
+          ].join("\n"),
+        }),
+        "Demo"
+      );
+
+      const pkg = JSON.parse(output["package.json"]);
+      expect(pkg.name).toBe("demo");
+      expect(pkg.scripts.dev).toBe("vite");
+      expect(pkg.dependencies).toEqual({
+        react: "^19.0.0",
+        "react-dom": "^19.0.0",
+        "@radix-ui/react-dialog": "latest",
+        "framer-motion": "latest",
+        lodash: "latest",
+      });
+      expect(pkg.devDependencies.tailwindcss).toBeDefined();
+    });
+
+    it("prefers versions declared in a project package.json", () => {
+      const output = buildExportFiles(
+        filesOf({
+          "/App.jsx": 'import { motion } from "framer-motion";',
+          "/package.json": JSON.stringify({ dependencies: { "framer-motion": "^11.0.0" } }),
+        }),
+        "Demo"
+      );
+
+      expect(output["src/package.json"]).toBeUndefined();
+      expect(JSON.parse(output["package.json"]).dependencies["framer-motion"]).toBe("^11.0.0");
+    });
+
+    it("adds TypeScript config and imports project CSS for TypeScript projects", () => {
+      const output = buildExportFiles(
+        filesOf({
+          "/App.tsx": "export default function App() {}",
+          "/styles.css": "body { margin: 0; }",
+        }),
+        "Demo"
+      );
+
+      expect(output["tsconfig.json"]).toBeDefined();
+      expect(output["jsconfig.json"]).toBeUndefined();
+      expect(JSON.parse(output["package.json"]).devDependencies.typescript).toBeDefined();
+      expect(output["src/main.jsx"]).toContain('import "@/styles.css";');
+      expect(output["src/main.jsx"]).toContain('import App from "@/App";');
+    });
+
+    it("does not overwrite project files that collide with generated ones", () => {
+      const output = buildExportFiles(
+        filesOf({
+          "/App.jsx": "export default function App() {}",
+          "/main.jsx": "// user file",
+        }),
+        "Demo"
+      );
+
+      expect(output["src/main.jsx"]).toBe("// user file");
+      expect(output["src/uigen-main.jsx"]).toContain('import App from "@/App";');
+      expect(output["index.html"]).toContain('src="/src/uigen-main.jsx"');
+    });
+
+    it("keeps the project instructions file at the root instead of under src/", () => {
+      const output = buildExportFiles(
+        filesOf({
+          "/App.jsx": "export default function App() {}",
+          "/.uigen/instructions.md": "Use the brand color #0f766e",
+        }),
+        "Demo"
+      );
+
+      expect(output[".uigen/instructions.md"]).toBe("Use the brand color #0f766e");
+      expect(output["src/.uigen/instructions.md"]).toBeUndefined();
+    });
+  });
+
+  describe("createProjectZip", () => {
+    it("zips the project under a top-level folder", () => {
+      const zip = unzipSync(
+        createProjectZip(filesOf({ "/App.jsx": "export default function App() {}" }), "My App")
+      );
+
+      expect(Object.keys(zip)).toContain("my-app/package.json");
+      expect(strFromU8(zip["my-app/src/App.jsx"])).toBe("export default function App() {}");
+    });
+  });
+
+  describe("downloadProjectZip", () => {
+    it("revokes the download URL only after the click has been handled", () => {
+      vi.useFakeTimers();
+      URL.createObjectURL = vi.fn(() => "blob:zip");
+      URL.revokeObjectURL = vi.fn();
+      const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+
+      downloadProjectZip(filesOf({ "/App.jsx": "export default 1" }), "Landing page");
+
+      expect(click).toHaveBeenCalled();
+      expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+      vi.runAllTimers();
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:zip");
+
+      click.mockRestore();
+      vi.useRealTimers();
+    });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Project export
+ * Turns the virtual file system into a standalone Vite + React + Tailwind
+ * project so generated components can be moved into a real repository
+ */
+
+import { strToU8, zipSync } from "fflate";
+import { collectPackageImports } from "@/lib/transform/jsx-transformer";
+
+// Project settings folder (e.g. /.uigen/instructions.md), kept out of src/
+const PROJECT_CONFIG_DIRECTORY = "/.uigen/";
+
+// Entry points the preview looks for, in order
+const ENTRY_CANDIDATES = ["/App.jsx", "/App.tsx", "/index.jsx", "/index.tsx"];
+
+const BASE_DEPENDENCIES: Record<string, string> = {
+  react: "^19.0.0",
+  "react-dom": "^19.0.0",
+};
+
+const BASE_DEV_DEPENDENCIES: Record<string, string> = {
+  "@vitejs/plugin-react": "^4.3.4",
+  autoprefixer: "^10.4.20",
+  postcss: "^8.4.49",
+  tailwindcss: "^3.4.17",
+  vite: "^6.0.0",
+};
+
+const TYPESCRIPT_DEV_DEPENDENCIES: Record<string, string> = {
+  "@types/react": "^19.0.0",
+  "@types/react-dom": "^19.0.0",
+  typescript: "^5.7.0",
+};
+
+/**
+ * Convert a project name into a package and folder name
+ * "My Dashboard!" -> "my-dashboard"
+ */
+export function toPackageName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "uigen-project";
+}
+
+/**
+ * Rewrite root-absolute imports ("/components/Button") to the @/ alias
+ * Vite resolves a leading slash against the project root, not src/
+ */
+export function rewriteAbsoluteImports(code: string): string {
+  return code.replace(
+    /(\bfrom\s+|\bimport\s*\(?\s*)(['"])\/(?!\/)/g,
+    (_, prefix: string, quote: string) => `${prefix}${quote}@/`
+  );
+}
+
+/**
+ * Read dependencies declared in a /package.json file in the VFS, if any
+ */
+function readManifestDependencies(
+  files: Map<string, string>
+): { dependencies: Record<string, string>; devDependencies: Record<string, string> } {
+  const manifest = files.get("/package.json");
+  if (!manifest) return { dependencies: {}, devDependencies: {} };
+
+  try {
+    const parsed = JSON.parse(manifest);
+    return {
+      dependencies: parsed.dependencies || {},
+      devDependencies: parsed.devDependencies || {},
+    };
+  } catch {
+    return { dependencies: {}, devDependencies: {} };
+  }
+}
+
+/**
+ * Build the file map for an exported project
+ * Keys are paths relative to the project root, values are file contents
+ */
+export function buildExportFiles(
+  files: Map<string, string>,
+  projectName: string
+): Record<string, string> {
+  const packageName = toPackageName(projectName);
+  const output: Record<string, string> = {};
+  const sourcePaths = Array.from(files.keys()).filter(
+    (path) => path !== "/package.json" && !path.startsWith(PROJECT_CONFIG_DIRECTORY)
+  );
+  const usesTypeScript = sourcePaths.some((path) => /\.tsx?$/.test(path));
+
+  // Project settings such as the instructions file stay at the root, where an
+  // import of the exported folder finds them again
+  for (const path of files.keys()) {
+    if (path.startsWith(PROJECT_CONFIG_DIRECTORY)) {
+      output[path.slice(1)] = files.get(path) ?? "";
+    }
+  }
+
+  // Project sources live under src/ so the @/ alias can point there
+  for (const path of sourcePaths) {
+    const content = files.get(path) ?? "";
+    output[`src${path}`] = /\.(jsx?|tsx?)$/.test(path)
+      ? rewriteAbsoluteImports(content)
+      : content;
+  }
+
+  // Packages the preview imports become real dependencies
+  const manifest = readManifestDependencies(files);
+  const dependencies: Record<string, string> = { ...BASE_DEPENDENCIES };
+  for (const pkg of Array.from(collectPackageImports(files)).sort()) {
+    if (!dependencies[pkg]) {
+      dependencies[pkg] = "latest";
+    }
+  }
+  Object.assign(dependencies, manifest.dependencies);
+
+  output["package.json"] = JSON.stringify(
+    {
+      name: packageName,
+      private: true,
+      version: "0.0.0",
+      type: "module",
+      scripts: {
+        dev: "vite",
+        build: "vite build",
+        preview: "vite preview",
+      },
+      dependencies,
+      devDependencies: {
+        ...BASE_DEV_DEPENDENCIES,
+        ...(usesTypeScript ? TYPESCRIPT_DEV_DEPENDENCIES : {}),
+        ...manifest.devDependencies,
+      },
+    },
+    null,
+    2
+  ) + "\n";
+
+  output["vite.config.js"] = `import { fileURLToPath, URL } from "node:url";
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+});
+`;
+
+  output["tailwind.config.js"] = `/** @type {import('tailwindcss').Config} */
+export default {
+  content: ["./index.html", "./src/**/*.{js,jsx,ts,tsx}"],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
+`;
+
+  output["postcss.config.js"] = `export default {
+  plugins: {
+    tailwindcss: {},
+    autoprefixer: {},
+  },
+};
+`;
+
+  // Editor path resolution for the @/ alias
+  output[usesTypeScript ? "tsconfig.json" : "jsconfig.json"] = JSON.stringify(
+    {
+      compilerOptions: {
+        target: "ES2020",
+        module: "ESNext",
+        moduleResolution: "bundler",
+        jsx: "react-jsx",
+        ...(usesTypeScript ? { strict: true, noEmit: true, allowJs: true, skipLibCheck: true } : {}),
+        baseUrl: ".",
+        paths: { "@/*": ["./src/*"] },
+      },
+      include: ["src"],
+    },
+    null,
+    2
+  ) + "\n";
+
+  // The preview injects Tailwind and every CSS file globally; the entry does the same
+  // Generated files are renamed if the project already has a file at that path
+  const mainFile = sourcePaths.includes("/main.jsx") ? "uigen-main.jsx" : "main.jsx";
+  const tailwindFile = sourcePaths.includes("/tailwind.css") ? "uigen-tailwind.css" : "tailwind.css";
+  const entry = ENTRY_CANDIDATES.find((path) => files.has(path));
+  const cssImports = sourcePaths
+    .filter((path) => path.endsWith(".css"))
+    .map((path) => `import "@${path}";\n`)
+    .join("");
+
+  output[`src/${tailwindFile}`] = "@tailwind base;\n@tailwind components;\n@tailwind utilities;\n";
+  output[`src/${mainFile}`] = `import { StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import "./${tailwindFile}";
+${cssImports}${entry ? `import App from "@${entry.replace(/\.(jsx|tsx)$/, "")}";` : `function App() {
+  return null;
+}`}
+
+createRoot(document.getElementById("root")).render(
+  <StrictMode>
+    <App />
+  </StrictMode>
+);
+`;
+
+  output["index.html"] = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${projectName.replace(/[<>&]/g, "")}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/${mainFile}"></script>
+  </body>
+</html>
+`;
+
+  if (!files.has("/README.md")) {
+    output["README.md"] = `# ${projectName}
+
+Exported from UIGen.
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+`;
+  }
+
+  return output;
+}
+
+/**
+ * Zip an exported project under a single top-level folder
+ */
+export function createProjectZip(files: Map<string, string>, projectName: string): Uint8Array {
+  const folder = toPackageName(projectName);
+  const entries: Record<string, Uint8Array> = {};
+
+  for (const [path, content] of Object.entries(buildExportFiles(files, projectName))) {
+    entries[`${folder}/${path}`] = strToU8(content);
+  }
+
+  return zipSync(entries);
+}
+
+/**
+ * Trigger a browser download of the exported project
+ */
+export function downloadProjectZip(files: Map<string, string>, projectName: string): void {
+  const zip = createProjectZip(files, projectName);
+  const url = URL.createObjectURL(new Blob([zip as BlobPart], { type: "application/zip" }));
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${toPackageName(projectName)}.zip`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers cancel the download if the URL is revoked before it starts
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,129 @@
+/**
+ * Server-authoritative file sync
+ * The chat route runs the AI's tools against its own file system and streams
+ * what they changed as data parts; the client applies those changes instead of
+ * running the tools again. At the end of a response the server sends its whole
+ * file tree with a checksum, and a client that has drifted replaces its files
+ */
+
+import type { UIMessageChunk } from "ai";
+import type { FileNode, VirtualFileSystem } from "./file-system";
+
+// Data part types in the chat stream (transient: never stored in messages)
+export const FILE_DELTA_PART = "data-fs-delta";
+export const FILE_SYNC_PART = "data-fs-sync";
+
+// Nodes created or changed since the last delta, and paths removed
+export interface FileSystemDelta {
+  upserts: FileNode[]; // Sorted so parents come before children
+  deletes: string[];
+}
+
+// The server's whole file tree once a response has finished
+export interface FileSystemSync {
+  files: Record<string, FileNode>; // As produced by VirtualFileSystem.serialize
+  checksum: string;
+}
+
+// Compare two serialized trees; a node that changes between file and directory
+// is deleted and created again
+export function diffSerializedFiles(
+  before: Record<string, FileNode>,
+  after: Record<string, FileNode>
+): FileSystemDelta {
+  const upserts: FileNode[] = [];
+  const deletes: string[] = [];
+
+  for (const [path, node] of Object.entries(after)) {
+    const previous = before[path];
+    if (previous && previous.type !== node.type) {
+      deletes.push(path);
+    }
+    if (!previous || previous.type !== node.type || previous.content !== node.content) {
+      upserts.push(node);
+    }
+  }
+  for (const path of Object.keys(before)) {
+    if (!after[path]) {
+      deletes.push(path);
+    }
+  }
+
+  return {
+    upserts: upserts.sort((a, b) => (a.path < b.path ? -1 : 1)),
+    deletes: deletes.sort(),
+  };
+}
+
+/**
+ * FNV-1a hash of every path, node type and file content, so the client can tell
+ * whether its tree matches the server's without comparing files
+ */
+export function checksumFiles(files: Record<string, FileNode>): string {
+  let hash = 0x811c9dc5;
+  for (const path of Object.keys(files).sort()) {
+    const node = files[path];
+    const entry = `${path}\0${node.type}\0${node.content ?? ""}\0`;
+    for (let i = 0; i < entry.length; i++) {
+      hash ^= entry.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+// Apply a delta from the server; deleting a directory removes its contents, so
+// the deletes of its children that follow find nothing and are skipped
+export function applyFileDelta(fileSystem: VirtualFileSystem, { upserts, deletes }: FileSystemDelta): void {
+  for (const path of deletes) {
+    fileSystem.deleteFile(path);
+  }
+  for (const node of upserts) {
+    if (node.type === "directory") {
+      if (!fileSystem.exists(node.path)) {
+        fileSystem.createDirectory(node.path);
+      }
+    } else if (fileSystem.exists(node.path)) {
+      fileSystem.updateFile(node.path, node.content ?? "");
+    } else {
+      fileSystem.createFile(node.path, node.content ?? "");
+    }
+  }
+}
+
+/**
+ * Add file sync parts to the chat stream: a delta before each tool result that
+ * changed files, and the whole tree at the end if anything changed
+ */
+export function streamFileChanges(fileSystem: VirtualFileSystem): TransformStream<UIMessageChunk, UIMessageChunk> {
+  let synced = fileSystem.serialize();
+  let changed = false;
+
+  // Tools run before their results reach the stream, so by then the file
+  // system holds their changes (and any from tools running alongside them)
+  const sendDelta = (controller: TransformStreamDefaultController<UIMessageChunk>) => {
+    const current = fileSystem.serialize();
+    const delta = diffSerializedFiles(synced, current);
+    if (delta.upserts.length === 0 && delta.deletes.length === 0) return;
+
+    controller.enqueue({ type: FILE_DELTA_PART, data: delta, transient: true });
+    synced = current;
+    changed = true;
+  };
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      if (chunk.type === "tool-output-available" || chunk.type === "tool-output-error") {
+        sendDelta(controller);
+      }
+      controller.enqueue(chunk);
+    },
+    flush(controller) {
+      sendDelta(controller);
+      if (changed) {
+        const sync: FileSystemSync = { files: synced, checksum: checksumFiles(synced) };
+        controller.enqueue({ type: FILE_SYNC_PART, data: sync, transient: true });
+      }
+    },
+  });
+}
@@ -7,10 +7,22 @@ export interface FileNode {
   children?: Map<string, FileNode>; // Only present for directories
 }
 
+// A recorded change to a path, holding what's needed to revert it
+// Entries are keyed by the path as it exists after the change (new path for renames)
+export interface EditJournalEntry {
+  command: "create" | "replace" | "insert" | "rename" | "delete";
+  path: string;
+  previousContent?: string; // replace/insert: file content before the edit
+  previousPath?: string; // rename: path before the move
+  deletedNodes?: FileNode[]; // delete: removed file/directory subtree (without children Maps)
+  createdDirectories?: string[]; // create: parent directories created with the file, outermost first
+}
+
 // Security limits for virtual file system
 const MAX_FILES = 100;
 const MAX_FILE_SIZE = 500_000; // 500KB per file
 const MAX_TOTAL_SIZE = 5_000_000; // 5MB total
+const MAX_EDIT_HISTORY = 20; // Undo depth per path
 const ALLOWED_EXTENSIONS = [
   ".js",
   ".jsx",
@@ -27,6 +39,8 @@ const ALLOWED_EXTENSIONS = [
 export class VirtualFileSystem {
   private files: Map<string, FileNode> = new Map(); // Global index: path -> FileNode for O(1) lookups
   private root: FileNode; // Root directory node
+  private editJournal: Map<string, EditJournalEntry[]> = new Map(); // path -> edits, most recent last
+  private isUndoing = false; // Suppresses journaling while an undo is applied
 
   constructor() {
     this.root = {
@@ -81,18 +95,23 @@ export class VirtualFileSystem {
 
   // Check if adding a file would exceed size limits
   private checkSizeLimits(newFileSize: number): boolean {
+    return this.getSizeLimitError(newFileSize) === null;
+  }
+
+  // Describe which size limit adding a file would exceed, or null if within limits
+  private getSizeLimitError(newFileSize: number): string | null {
     // Check file count
     const fileCount = Array.from(this.files.values()).filter(
       (node) => node.type === "file"
     ).length;
 
     if (fileCount >= MAX_FILES) {
-      return false;
+      return `File limit reached (max ${MAX_FILES} files)`;
     }
 
     // Check individual file size
     if (newFileSize > MAX_FILE_SIZE) {
-      return false;
+      return `File too large (max ${MAX_FILE_SIZE / 1000}KB)`;
     }
 
     // Check total size
@@ -104,10 +123,25 @@ export class VirtualFileSystem {
     }
 
     if (totalSize + newFileSize > MAX_TOTAL_SIZE) {
-      return false;
+      return `Project size limit reached (max ${MAX_TOTAL_SIZE / 1_000_000}MB)`;
     }
 
-    return true;
+    return null;
+  }
+
+  // Describe why a new file would be rejected, or null if it can be created
+  private getCreateFileError(path: string, contentLength: number): string | null {
+    const normalized = this.normalizePath(path);
+
+    if (!this.validatePath(normalized)) {
+      return `Invalid path: ${path}`;
+    }
+
+    if (!this.validateFileExtension(normalized)) {
+      return `File type not allowed: ${path} (allowed: ${ALLOWED_EXTENSIONS.join(", ")})`;
+    }
+
+    return this.getSizeLimitError(contentLength);
   }
 
   // Normalize paths to consistent format: leading /, no trailing slash (except root), no double slashes
@@ -278,6 +312,19 @@ export class VirtualFileSystem {
   // Returns false if file doesn't exist, parent is invalid, or trying to delete root
   deleteFile(path: string): boolean {
     const normalized = this.normalizePath(path);
+
+    // Capture the subtree before removal so the delete can be undone
+    const deletedNodes = this.collectSubtree(normalized);
+    if (!this.removeNode(normalized)) {
+      return false;
+    }
+
+    this.recordEdit({ command: "delete", path: normalized, deletedNodes });
+    return true;
+  }
+
+  // Remove a node and its descendants from the tree and the global index
+  private removeNode(normalized: string): boolean {
     const file = this.files.get(normalized);
 
     // Can't delete root or non-existent files
@@ -294,7 +341,7 @@ export class VirtualFileSystem {
     // This ensures the global index is cleaned up properly
     if (file.type === "directory" && file.children) {
       for (const [_, child] of file.children) {
-        this.deleteFile(child.path);
+        this.removeNode(child.path);
       }
     }
 
@@ -389,6 +436,14 @@ export class VirtualFileSystem {
       this.updateChildrenPaths(sourceNode);
     }
 
+    // Edit history follows the moved paths
+    this.moveEditHistory(normalizedOld, normalizedNew);
+    this.recordEdit({
+      command: "rename",
+      path: normalizedNew,
+      previousPath: normalizedOld,
+    });
+
     return true;
   }
 
@@ -478,6 +533,7 @@ export class VirtualFileSystem {
   deserialize(data: Record<string, string>): void {
     // Clear existing tree structure, keep only root
     this.files.clear();
+    this.editJournal.clear();
     this.root.children?.clear();
     this.files.set("/", this.root);
 
@@ -506,6 +562,7 @@ export class VirtualFileSystem {
   deserializeFromNodes(data: Record<string, FileNode>): void {
     // Clear existing tree structure, keep only root
     this.files.clear();
+    this.editJournal.clear();
     this.root.children?.clear();
     this.files.set("/", this.root);
 
@@ -593,19 +650,31 @@ export class VirtualFileSystem {
       return `Error: File already exists: ${path}`;
     }
 
+    // Validate before creating parent directories so a rejected file leaves no empty folders
+    const rejection = this.getCreateFileError(path, content.length);
+    if (rejection) {
+      return `Error: ${rejection}`;
+    }
+
     // Create parent directories if they don't exist
     const parts = path.split("/").filter(Boolean);
     let currentPath = "";
+    const createdDirectories: string[] = [];
 
     for (let i = 0; i < parts.length - 1; i++) {
       currentPath += "/" + parts[i];
       if (!this.exists(currentPath)) {
         this.createDirectory(currentPath);
+        createdDirectories.push(currentPath);
       }
     }
 
     // Create the file
-    this.createFile(path, content);
+    const file = this.createFile(path, content);
+    if (!file) {
+      return `Error: Could not create file: ${path}`;
+    }
+    this.recordEdit({ command: "create", path: file.path, createdDirectories });
     return `File created: ${path}`;
   }
 
@@ -638,7 +707,13 @@ export class VirtualFileSystem {
 
     // Replace all occurrences using split/join (handles literal strings, not regex)
     const updatedContent = content.split(oldStr).join(newStr || "");
-    this.updateFile(path, updatedContent);
+    if (this.updateFile(path, updatedContent)) {
+      this.recordEdit({
+        command: "replace",
+        path: file.path,
+        previousContent: content,
+      });
+    }
 
     return `Replaced ${occurrences} occurrence(s) of the string in ${path}`;
   }
@@ -670,14 +745,153 @@ export class VirtualFileSystem {
     // Insert the text at the specified line index
     lines.splice(insertLine, 0, text || "");
     const updatedContent = lines.join("\n");
-    this.updateFile(path, updatedContent);
+    if (this.updateFile(path, updatedContent)) {
+      this.recordEdit({
+        command: "insert",
+        path: file.path,
+        previousContent: content,
+      });
+    }
 
     return `Text inserted at line ${insertLine} in ${path}`;
   }
 
+  // Replace a file's whole content as one undoable edit (used by apply_patch)
+  writeFile(path: string, content: string): string {
+    const file = this.getNode(path);
+    if (!file) {
+      return `Error: File not found: ${path}`;
+    }
+
+    if (file.type !== "file") {
+      return `Error: Cannot edit a directory: ${path}`;
+    }
+
+    const previousContent = this.readFile(path) || "";
+    if (!this.updateFile(path, content)) {
+      return `Error: Size limit exceeded writing ${path}`;
+    }
+    this.recordEdit({
+      command: "replace",
+      path: file.path,
+      previousContent,
+    });
+
+    return `Wrote ${path}`;
+  }
+
+  // Revert the most recent journaled change to a path (str_replace_editor undo_edit)
+  // Undo entries are consumed; undoing an undo is not supported
+  undoEdit(path: string): string {
+    const normalized = this.normalizePath(path);
+    const history = this.editJournal.get(normalized);
+    const entry = history?.pop();
+
+    if (!entry) {
+      return `Error: No edit history for ${path}`;
+    }
+    if (history!.length === 0) {
+      this.editJournal.delete(normalized);
+    }
+
+    this.isUndoing = true;
+    try {
+      switch (entry.command) {
+        case "create":
+          if (!this.removeNode(normalized)) {
+            return `Error: Could not undo creation of ${path}`;
+          }
+          // Folders created along with the file go too, unless something else was put in them
+          for (const directory of [...(entry.createdDirectories ?? [])].reverse()) {
+            const node = this.files.get(directory);
+            if (node?.type !== "directory" || node.children!.size > 0) break;
+            this.removeNode(directory);
+          }
+          return `Undid creation of ${normalized}`;
+
+        case "replace":
+        case "insert":
+          if (!this.updateFile(normalized, entry.previousContent ?? "")) {
+            return `Error: Could not revert last edit to ${path}`;
+          }
+          return `Reverted last edit to ${normalized}`;
+
+        case "rename":
+          if (!entry.previousPath || !this.rename(normalized, entry.previousPath)) {
+            return `Error: Could not undo rename of ${path}`;
+          }
+          return `Undid rename: ${normalized} moved back to ${entry.previousPath}`;
+
+        case "delete":
+          if (this.exists(normalized)) {
+            return `Error: Cannot restore ${path} because it already exists`;
+          }
+          this.restoreNodes(entry.deletedNodes || []);
+          return `Restored deleted ${normalized}`;
+      }
+    } finally {
+      this.isUndoing = false;
+    }
+  }
+
+  // Drop all edit history (e.g. at the start of a new chat turn)
+  clearEditHistory(): void {
+    this.editJournal.clear();
+  }
+
+  // Append an entry to a path's edit history, capped at MAX_EDIT_HISTORY
+  private recordEdit(entry: EditJournalEntry): void {
+    if (this.isUndoing) return;
+
+    const history = this.editJournal.get(entry.path) || [];
+    history.push(entry);
+    if (history.length > MAX_EDIT_HISTORY) {
+      history.shift();
+    }
+    this.editJournal.set(entry.path, history);
+  }
+
+  // Re-key edit history for a path (and descendants) after it moves
+  private moveEditHistory(oldPath: string, newPath: string): void {
+    for (const [path, history] of Array.from(this.editJournal)) {
+      if (path === oldPath || path.startsWith(oldPath + "/")) {
+        this.editJournal.delete(path);
+        this.editJournal.set(newPath + path.substring(oldPath.length), history);
+      }
+    }
+  }
+
+  // Copy a node and its descendants without children Maps, parents first
+  private collectSubtree(normalized: string): FileNode[] {
+    const nodes: FileNode[] = [];
+    for (const [path, node] of this.files) {
+      if (path === normalized || path.startsWith(normalized + "/")) {
+        nodes.push({
+          type: node.type,
+          name: node.name,
+          path: node.path,
+          ...(node.type === "file" && { content: node.content }),
+        });
+      }
+    }
+    return nodes.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  // Recreate nodes captured by collectSubtree
+  private restoreNodes(nodes: FileNode[]): void {
+    for (const node of nodes) {
+      if (node.type === "directory") {
+        this.createDirectory(node.path);
+      } else {
+        this.createFile(node.path, node.content || "");
+      }
+    }
+  }
+
   reset(): void {
     // Clear all files and reset to initial state
     this.files.clear();
+    this.editJournal.clear();
     this.root = {
       type: "directory",
       name: "/",
@@ -0,0 +1,219 @@
+import { describe, it, expect, vi } from "vitest";
+import { zipSync, strToU8 } from "fflate";
+import { FILE_LIMITS } from "@/lib/constants";
+import {
+  normalizeImportPath,
+  getIgnoredDirectory,
+  readZipEntries,
+  readUploadedFiles,
+  importProjectFiles,
+  buildImportMessage,
+} from "../project-import";
+
+describe("project-import", () => {
+  describe("normalizeImportPath", () => {
+    it("converts uploaded paths to file system paths", () => {
+      expect(normalizeImportPath("my-app\\src\\App.jsx")).toBe("/my-app/src/App.jsx");
+      expect(normalizeImportPath("./App.jsx")).toBe("/App.jsx");
+      expect(normalizeImportPath("/components//Card.jsx")).toBe("/components/Card.jsx");
+    });
+  });
+
+  describe("getIgnoredDirectory", () => {
+    it("returns the ignored directory containing a path", () => {
+      expect(getIgnoredDirectory("/app/node_modules/react/index.js")).toBe("/app/node_modules");
+      expect(getIgnoredDirectory("/.git/HEAD")).toBe("/.git");
+      expect(getIgnoredDirectory("/components/Button.jsx")).toBeNull();
+    });
+  });
+
+  describe("importProjectFiles", () => {
+    it("strips a shared root folder and creates files", () => {
+      const { fileSystem, imported, rejected } = importProjectFiles([
+        { path: "my-app/App.jsx", content: "export default function App() {}" },
+        { path: "my-app/components/Button.jsx", content: strToU8("export default 1") },
+      ]);
+
+      expect(imported).toEqual(["/App.jsx", "/components/Button.jsx"]);
+      expect(rejected).toEqual([]);
+      expect(fileSystem.readFile("/components/Button.jsx")).toBe("export default 1");
+    });
+
+    it("keeps paths as-is when stripRoot is disabled", () => {
+      const { imported } = importProjectFiles(
+        [{ path: "/src/App.jsx", content: "" }, { path: "/src/index.css", content: "" }],
+        { stripRoot: false }
+      );
+
+      expect(imported).toEqual(["/src/App.jsx", "/src/index.css"]);
+    });
+
+    it("reports every rejected file with a reason", () => {
+      const { imported, rejected } = importProjectFiles([
+        { path: "/App.jsx", content: "ok" },
+        { path: "/logo.png", content: new Uint8Array([137, 80, 78, 71]) },
+        { path: "/big.js", content: "x".repeat(500_001) },
+        { path: "/data.json", content: new Uint8Array([0xff, 0xfe, 0xfd]) },
+        { path: "/node_modules/react/index.js", content: "" },
+        { path: "/node_modules/react-dom/index.js", content: "" },
+      ]);
+
+      expect(imported).toEqual(["/App.jsx"]);
+      expect(rejected).toEqual([
+        { path: "/big.js", reason: "File too large (max 500KB)" },
+        { path: "/data.json", reason: "Not a UTF-8 text file" },
+        { path: "/logo.png", reason: "File type not allowed" },
+        { path: "/node_modules", reason: "Ignored directory" },
+      ]);
+    });
+
+    it("enforces the file count limit through the file system", () => {
+      const entries = Array.from({ length: 101 }, (_, i) => ({
+        path: `/file${String(i).padStart(3, "0")}.js`,
+        content: "",
+      }));
+
+      const { imported, rejected } = importProjectFiles(entries);
+
+      expect(imported).toHaveLength(100);
+      expect(rejected).toEqual([
+        { path: "/file100.js", reason: "File limit reached (max 100 files)" },
+      ]);
+    });
+
+    it("skips OS metadata silently", () => {
+      const { imported, rejected } = importProjectFiles([
+        { path: "app/App.jsx", content: "" },
+        { path: "__MACOSX/app/._App.jsx", content: "" },
+        { path: "app/.DS_Store", content: "" },
+      ]);
+
+      expect(imported).toEqual(["/App.jsx"]);
+      expect(rejected).toEqual([]);
+    });
+
+    it("starts with an empty undo history", () => {
+      const { fileSystem } = importProjectFiles([{ path: "/App.jsx", content: "" }]);
+
+      expect(fileSystem.undoEdit("/App.jsx")).toBe("Error: No edit history for /App.jsx");
+    });
+  });
+
+  describe("readZipEntries", () => {
+    it("reads files and lists ignored entries without content", () => {
+      const zip = zipSync({
+        "app/App.jsx": strToU8("export default 1"),
+        "app/node_modules/react/index.js": strToU8("module.exports = {}"),
+        "app/components/": new Uint8Array(),
+      });
+
+      const entries = readZipEntries(zip);
+      const byPath = Object.fromEntries(entries.map((e) => [e.path, e.content]));
+
+      expect(Object.keys(byPath).sort()).toEqual([
+        "app/App.jsx",
+        "app/node_modules/react/index.js",
+      ]);
+      expect(byPath["app/node_modules/react/index.js"]).toBe("");
+    });
+
+    it("rejects oversized files without decompressing them", () => {
+      const zip = zipSync({
+        "App.jsx": strToU8("export default 1"),
+        "data.js": strToU8("a".repeat(FILE_LIMITS.MAX_FILE_SIZE + 1)),
+      });
+
+      const entries = readZipEntries(zip);
+      expect(entries.find((e) => e.path === "data.js")).toEqual({
+        path: "data.js",
+        content: "",
+        rejected: "File too large (max 500KB)",
+      });
+
+      const { imported, rejected } = importProjectFiles(entries);
+      expect(imported).toEqual(["/App.jsx"]);
+      expect(rejected).toEqual([{ path: "/data.js", reason: "File too large (max 500KB)" }]);
+    });
+
+    it("stops decompressing once the file limit is reached", () => {
+      const files: Record<string, Uint8Array> = { "logo.png": strToU8("png") };
+      for (let i = 0; i < FILE_LIMITS.MAX_FILES + 2; i++) {
+        files[`file${i}.js`] = strToU8(`export default ${i}`);
+      }
+
+      const entries = readZipEntries(zipSync(files));
+      const decompressed = entries.filter((e) => e.content !== "");
+      const overLimit = entries.filter((e) => e.rejected);
+
+      expect(decompressed).toHaveLength(FILE_LIMITS.MAX_FILES);
+      expect(overLimit).toHaveLength(2);
+      expect(overLimit[0].rejected).toBe(`File limit reached (max ${FILE_LIMITS.MAX_FILES} files)`);
+      // Disallowed files are skipped without counting towards the limit
+      expect(entries.find((e) => e.path === "logo.png")?.content).toBe("");
+    });
+  });
+
+  describe("readUploadedFiles", () => {
+    function upload(path: string, content: string, size = content.length) {
+      return {
+        name: path.split("/").pop()!,
+        webkitRelativePath: path,
+        size,
+        arrayBuffer: vi.fn(async () => strToU8(content).buffer as ArrayBuffer),
+      };
+    }
+
+    it("reads source files and skips oversized and non-source files unread", async () => {
+      const app = upload("app/App.jsx", "export default 1");
+      const video = upload("app/public/intro.mp4", "", 50_000_000);
+      const bundle = upload("app/.cache/bundle.js", "", FILE_LIMITS.MAX_FILE_SIZE + 1);
+
+      const entries = await readUploadedFiles([app, video, bundle]);
+
+      expect(video.arrayBuffer).not.toHaveBeenCalled();
+      expect(bundle.arrayBuffer).not.toHaveBeenCalled();
+      expect(entries[1]).toEqual({ path: "app/public/intro.mp4", content: "" });
+      expect(entries[2]).toEqual({
+        path: "app/.cache/bundle.js",
+        content: "",
+        rejected: "File too large (max 500KB)",
+      });
+
+      const { imported, rejected } = importProjectFiles(entries);
+      expect(imported).toEqual(["/App.jsx"]);
+      expect(rejected).toEqual([
+        { path: "/.cache/bundle.js", reason: "File too large (max 500KB)" },
+        { path: "/public/intro.mp4", reason: "File type not allowed" },
+      ]);
+    });
+
+    it("stops reading once the project size limit is reached", async () => {
+      const files = Array.from({ length: 11 }, (_, i) => upload(`app/data${i}.js`, "", 490_000));
+
+      const entries = await readUploadedFiles(files);
+
+      expect(entries.filter((e) => e.rejected)).toHaveLength(1);
+      expect(entries[10].rejected).toBe("Project size limit reached (max 5MB)");
+      expect(files[10].arrayBuffer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("buildImportMessage", () => {
+    it("lists imported and rejected files", () => {
+      const message = buildImportMessage(
+        "app.zip",
+        ["/App.jsx", "/components/Card.jsx"],
+        [{ path: "/logo.png", reason: "File type not allowed" }]
+      );
+
+      expect(message).toContain('from "app.zip" into this project (2 files)');
+      expect(message).toContain("- /components/Card.jsx");
+      expect(message).toContain("- /logo.png (File type not allowed)");
+      expect(message).not.toContain("no /App.jsx entry point");
+    });
+
+    it("mentions a missing entry point", () => {
+      expect(buildImportMessage("lib", ["/Card.jsx"], [])).toContain("no /App.jsx entry point");
+    });
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Project import
+ * Loads existing code (a zip, dropped files or a folder) into a virtual file
+ * system, enforcing the same limits as files created by the AI
+ */
+
+import { unzipSync } from "fflate";
+import { VirtualFileSystem } from "@/lib/file-system";
+import { ALLOWED_EXTENSIONS, FILE_LIMITS } from "@/lib/constants";
+
+export interface ImportEntry {
+  path: string; // Path relative to the imported folder or zip root
+  content: string | Uint8Array;
+  rejected?: string; // Reason the entry was rejected while reading (content is then empty)
+}
+
+export interface RejectedFile {
+  path: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  fileSystem: VirtualFileSystem;
+  imported: string[]; // Paths created in the file system, sorted
+  rejected: RejectedFile[];
+}
+
+// Dependency and build folders are never imported; each is reported once
+const IGNORED_DIRECTORIES = new Set(["node_modules", ".git", ".next", "dist", "build"]);
+
+// OS metadata that is skipped without being reported
+const METADATA_PATTERN = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$)/;
+
+// Maximum number of rejected files listed in the import message
+const MAX_LISTED_REJECTIONS = 20;
+
+/**
+ * Normalize an uploaded path to the virtual file system format
+ * "my-app\\src\\App.jsx" -> "/my-app/src/App.jsx"
+ */
+export function normalizeImportPath(path: string): string {
+  const parts = path
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((part) => part && part !== ".");
+  return "/" + parts.join("/");
+}
+
+/**
+ * Remove a top-level folder shared by every path
+ * Zips and folder uploads usually wrap the project in one directory
+ */
+function stripCommonRoot(paths: string[]): Map<string, string> {
+  const segments = paths.map((path) => path.split("/").filter(Boolean));
+  const root = segments[0]?.[0];
+  const shared =
+    root !== undefined &&
+    segments.every((parts) => parts.length > 1 && parts[0] === root);
+
+  return new Map(
+    paths.map((path, i) => [
+      path,
+      shared ? "/" + segments[i].slice(1).join("/") : path,
+    ])
+  );
+}
+
+/**
+ * Ignored directory containing a path, if any
+ * "/app/node_modules/react/index.js" -> "/app/node_modules"
+ */
+export function getIgnoredDirectory(path: string): string | null {
+  const parts = path.split("/").filter(Boolean);
+  const index = parts.findIndex((part) => IGNORED_DIRECTORIES.has(part));
+  return index === -1 ? null : "/" + parts.slice(0, index + 1).join("/");
+}
+
+function hasAllowedExtension(path: string): boolean {
+  const lastDot = path.lastIndexOf(".");
+  if (lastDot === -1) return false;
+  const ext = path.substring(lastDot).toLowerCase();
+  return (ALLOWED_EXTENSIONS as readonly string[]).includes(ext);
+}
+
+function decodeContent(content: string | Uint8Array): string | null {
+  if (typeof content === "string") return content;
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(content);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decide, before reading a file, whether it is read at all
+ * Returns the entry to list in its place (empty content, and the reason when a
+ * limit is exceeded), or null to read it. Counts and sizes of the files read so
+ * far are kept across calls, so the limits apply before anything large is loaded
+ */
+function createReadCheck(): (name: string, size: number) => ImportEntry | null {
+  let fileCount = 0;
+  let totalSize = 0;
+
+  return (name, size) => {
+    const path = normalizeImportPath(name);
+    // Ignored, metadata and disallowed files are reported later without their content
+    if (getIgnoredDirectory(path) || METADATA_PATTERN.test(path) || !hasAllowedExtension(path)) {
+      return { path: name, content: "" };
+    }
+
+    let rejected: string | null = null;
+    if (size > FILE_LIMITS.MAX_FILE_SIZE) {
+      rejected = `File too large (max ${FILE_LIMITS.MAX_FILE_SIZE / 1000}KB)`;
+    } else if (fileCount >= FILE_LIMITS.MAX_FILES) {
+      rejected = `File limit reached (max ${FILE_LIMITS.MAX_FILES} files)`;
+    } else if (totalSize + size > FILE_LIMITS.MAX_TOTAL_SIZE) {
+      rejected = `Project size limit reached (max ${FILE_LIMITS.MAX_TOTAL_SIZE / 1_000_000}MB)`;
+    }
+    if (rejected) {
+      return { path: name, content: "", rejected };
+    }
+
+    fileCount++;
+    totalSize += size;
+    return null;
+  };
+}
+
+/**
+ * Read the entries of a zip archive
+ * Limits are checked against each entry's uncompressed size before it is
+ * decompressed, so a zip bomb is never inflated. Files inside ignored
+ * directories, and files over a limit, are listed with empty content
+ */
+export function readZipEntries(data: Uint8Array): ImportEntry[] {
+  const check = createReadCheck();
+  const skipped: ImportEntry[] = [];
+
+  const files = unzipSync(data, {
+    filter: (file) => {
+      if (file.name.endsWith("/")) return false;
+      const entry = check(file.name, file.originalSize);
+      if (entry) skipped.push(entry);
+      return !entry;
+    },
+  });
+
+  return [
+    ...Object.entries(files).map(([path, content]) => ({ path, content })),
+    ...skipped,
+  ];
+}
+
+// The parts of a dropped or selected File that reading an upload needs
+export interface UploadedFile {
+  name: string;
+  webkitRelativePath: string; // Path inside the chosen folder; empty for single files
+  size: number;
+  arrayBuffer: () => Promise<ArrayBuffer>;
+}
+
+/**
+ * Read dropped or folder-selected files, with the same checks as readZipEntries
+ * Files are read one at a time, and only once their size passes the limits
+ */
+export async function readUploadedFiles(files: UploadedFile[]): Promise<ImportEntry[]> {
+  const check = createReadCheck();
+  const entries: ImportEntry[] = [];
+
+  for (const file of files) {
+    const path = file.webkitRelativePath || file.name;
+    const entry = check(path, file.size);
+    entries.push(entry ?? { path, content: new Uint8Array(await file.arrayBuffer()) });
+  }
+  return entries;
+}
+
+/**
+ * Load uploaded entries into a new virtual file system
+ * Files go through createFileWithParents so every file system limit applies;
+ * each rejected file is returned with the reason it was rejected
+ * stripRoot removes a wrapping folder; disable it for paths that are already final
+ */
+export function importProjectFiles(
+  entries: ImportEntry[],
+  { stripRoot = true }: { stripRoot?: boolean } = {}
+): ImportResult {
+  const fileSystem = new VirtualFileSystem();
+  const imported: string[] = [];
+  const rejected: RejectedFile[] = [];
+  const ignoredDirectories = new Set<string>();
+
+  const candidates = entries.filter((entry) => !METADATA_PATTERN.test(entry.path));
+  const normalized = candidates.map((entry) => normalizeImportPath(entry.path));
+  const paths = stripRoot
+    ? stripCommonRoot(normalized)
+    : new Map(normalized.map((path) => [path, path]));
+
+  const sorted = candidates
+    .map((entry) => ({ ...entry, path: paths.get(normalizeImportPath(entry.path))! }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  for (const entry of sorted) {
+    const ignoredDirectory = getIgnoredDirectory(entry.path);
+    if (ignoredDirectory) {
+      ignoredDirectories.add(ignoredDirectory);
+      continue;
+    }
+
+    if (entry.rejected) {
+      rejected.push({ path: entry.path, reason: entry.rejected });
+      continue;
+    }
+
+    // Cheap checks first so large binary files are never decoded
+    if (!hasAllowedExtension(entry.path)) {
+      rejected.push({ path: entry.path, reason: "File type not allowed" });
+      continue;
+    }
+
+    const size = typeof entry.content === "string" ? entry.content.length : entry.content.byteLength;
+    if (size > FILE_LIMITS.MAX_FILE_SIZE) {
+      rejected.push({
+        path: entry.path,
+        reason: `File too large (max ${FILE_LIMITS.MAX_FILE_SIZE / 1000}KB)`,
+      });
+      continue;
+    }
+
+    const content = decodeContent(entry.content);
+    if (content === null) {
+      rejected.push({ path: entry.path, reason: "Not a UTF-8 text file" });
+      continue;
+    }
+
+    const result = fileSystem.createFileWithParents(entry.path, content);
+    if (result.startsWith("Error:")) {
+      rejected.push({ path: entry.path, reason: result.replace(/^Error:\s*/, "") });
+    } else {
+      imported.push(entry.path);
+    }
+  }
+
+  for (const directory of ignoredDirectories) {
+    rejected.push({ path: directory, reason: "Ignored directory" });
+  }
+
+  // Imported files are not AI edits; start with a clean undo history
+  fileSystem.clearEditHistory();
+
+  return { fileSystem, imported, rejected };
+}
+
+/**
+ * Build the first chat message of an imported project
+ * Tells the AI which files exist so it can work with the imported code
+ */
+export function buildImportMessage(
+  sourceName: string,
+  imported: string[],
+  rejected: RejectedFile[]
+): string {
+  const lines = [
+    `I imported existing code from "${sourceName}" into this project (${imported.length} file${imported.length === 1 ? "" : "s"}):`,
+    ...imported.map((path) => `- ${path}`),
+  ];
+
+  if (!imported.some((path) => /^\/(App|index)\.(jsx|tsx)$/.test(path))) {
+    lines.push(
+      "",
+      "There is no /App.jsx entry point yet, so the preview will fall back to the first component it finds."
+    );
+  }
+
+  if (rejected.length > 0) {
+    lines.push("", `These files were not imported:`);
+    for (const file of rejected.slice(0, MAX_LISTED_REJECTIONS)) {
+      lines.push(`- ${file.path} (${file.reason})`);
+    }
+    if (rejected.length > MAX_LISTED_REJECTIONS) {
+      lines.push(`- …and ${rejected.length - MAX_LISTED_REJECTIONS} more`);
+    }
+  }
+
+  lines.push("", "Review the imported files before making changes.");
+  return lines.join("\n");
+}
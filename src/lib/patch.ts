@@ -0,0 +1,296 @@
+/**
+ * Multi-file patches for the apply_patch tool
+ * A patch is a unified diff or a list of exact-text edits. Every hunk is checked
+ * against the current files before anything is written, so a patch applies to
+ * all of its files or to none of them
+ */
+
+import type { VirtualFileSystem } from "./file-system";
+import { countChangedLines, type FileChange } from "./turn-changes";
+
+// One exact-text replacement; an empty old_str creates the file
+export interface PatchEdit {
+  path: string;
+  old_str: string;
+  new_str: string;
+}
+
+export interface PatchInput {
+  patch?: string; // Unified diff
+  edits?: PatchEdit[];
+}
+
+// One @@ hunk of a unified diff
+export interface DiffHunk {
+  header: string; // The @@ ... @@ part of the hunk line, for error reports
+  oldStart: number; // 1-based line the hunk expects to start at (0 for new files)
+  oldLines: string[]; // Context and removed lines
+  newLines: string[]; // Context and added lines
+}
+
+// The hunks for one file of a unified diff
+export interface FileDiff {
+  oldPath: string | null; // null for /dev/null (the diff creates the file)
+  newPath: string | null; // null for /dev/null (the diff deletes the file)
+  hunks: DiffHunk[];
+}
+
+// The files a patch would change, or why it can't be applied
+export interface PatchPlan {
+  changes: FileChange[];
+  errors: string[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+// "a/components/Card.jsx" and "/components/Card.jsx" both name /components/Card.jsx
+function toProjectPath(path: string): string {
+  const stripped = path.replace(/^[ab]\//, "");
+  return stripped.startsWith("/") ? stripped : `/${stripped}`;
+}
+
+// Path from a ---/+++ line, without a trailing timestamp; null for /dev/null
+function parseDiffPath(header: string): string | null {
+  const path = header.slice(4).split("\t")[0].trim();
+  return path === "/dev/null" ? null : toProjectPath(path);
+}
+
+function isFileHeader(lines: string[], index: number): boolean {
+  return lines[index].startsWith("--- ") && (lines[index + 1] ?? "").startsWith("+++ ");
+}
+
+// A bare empty line inside a hunk is a blank context line that lost its leading
+// space, unless the hunk ends there
+function continuesHunk(lines: string[], index: number): boolean {
+  for (let next = index + 1; next < lines.length; next++) {
+    if (lines[next] === "") continue;
+    return /^[ +\-\\]/.test(lines[next]) && !isFileHeader(lines, next);
+  }
+  return false;
+}
+
+/**
+ * Split a unified diff into files and hunks. Header line counts are not
+ * checked, since hunks are located by their content
+ */
+export function parseUnifiedDiff(patch: string): { files: FileDiff[]; errors: string[] } {
+  const lines = patch.replace(/\r\n/g, "\n").split("\n");
+  const files: FileDiff[] = [];
+  const errors: string[] = [];
+  let file: FileDiff | null = null;
+  let hunk: DiffHunk | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (isFileHeader(lines, i)) {
+      file = { oldPath: parseDiffPath(line), newPath: parseDiffPath(lines[i + 1]), hunks: [] };
+      files.push(file);
+      hunk = null;
+      i++;
+    } else if (line.startsWith("@@")) {
+      const match = HUNK_HEADER.exec(line);
+      hunk = null;
+      if (!file) {
+        errors.push(`Hunk "${line}" has no --- / +++ file header before it`);
+      } else if (!match) {
+        errors.push(`${file.newPath ?? file.oldPath}: malformed hunk header "${line}"`);
+      } else {
+        hunk = { header: match[0], oldStart: Number(match[1]), oldLines: [], newLines: [] };
+        file.hunks.push(hunk);
+      }
+    } else if (hunk && (line.startsWith(" ") || (line === "" && continuesHunk(lines, i)))) {
+      hunk.oldLines.push(line.slice(1));
+      hunk.newLines.push(line.slice(1));
+    } else if (hunk && line.startsWith("-")) {
+      hunk.oldLines.push(line.slice(1));
+    } else if (hunk && line.startsWith("+")) {
+      hunk.newLines.push(line.slice(1));
+    } else if (!line.startsWith("\\")) {
+      // "diff --git", "index" and other lines between files end the hunk
+      hunk = null;
+    }
+  }
+
+  if (files.length === 0 && errors.length === 0) {
+    errors.push("No file headers found; start each file with --- a/path and +++ b/path lines");
+  }
+  return { files, errors };
+}
+
+function matchesAt(lines: string[], expected: string[], start: number): boolean {
+  return expected.every((line, index) => lines[start + index] === line);
+}
+
+// Where the expected lines occur, searching outward from the line the hunk names
+function findLines(lines: string[], expected: string[], hint: number): number {
+  const last = lines.length - expected.length;
+  if (expected.length === 0) return Math.min(hint, lines.length);
+
+  for (let distance = 0; hint - distance >= 0 || hint + distance <= last; distance++) {
+    if (hint + distance <= last && matchesAt(lines, expected, hint + distance)) return hint + distance;
+    if (distance > 0 && hint - distance >= 0 && hint - distance <= last && matchesAt(lines, expected, hint - distance)) {
+      return hint - distance;
+    }
+  }
+  return -1;
+}
+
+// Explain why a hunk's lines aren't in the file: the first line that differs
+// where the hunk's first line appears closest to where it was expected
+function describeMismatch(lines: string[], expected: string[], hint: number): string {
+  const starts = lines.flatMap((line, index) => (line === expected[0] ? [index] : []));
+  if (starts.length === 0) {
+    return `line "${expected[0]}" not found`;
+  }
+
+  const start = starts.reduce((best, index) => (Math.abs(index - hint) < Math.abs(best - hint) ? index : best));
+  const offset = expected.findIndex((line, index) => lines[start + index] !== line);
+  const found = start + offset < lines.length ? `"${lines[start + offset]}"` : "the end of the file";
+  return `expected "${expected[offset]}" at line ${start + offset + 1} but found ${found}`;
+}
+
+function applyHunks(path: string, content: string, hunks: DiffHunk[], errors: string[]): string {
+  const lines = content === "" ? [] : content.split("\n");
+  // How far the file has moved from the line numbers in the hunk headers
+  let offset = 0;
+
+  hunks.forEach((hunk, index) => {
+    const hint = Math.max(0, hunk.oldStart - 1 + offset);
+    const start = findLines(lines, hunk.oldLines, hint);
+    if (start === -1) {
+      errors.push(`${path} hunk ${index + 1} (${hunk.header}): ${describeMismatch(lines, hunk.oldLines, hint)}`);
+      return;
+    }
+    lines.splice(start, hunk.oldLines.length, ...hunk.newLines);
+    offset = start - (hunk.oldStart - 1) + hunk.newLines.length - hunk.oldLines.length;
+  });
+
+  return lines.join("\n");
+}
+
+function applyEdit(label: string, content: string | null, edit: PatchEdit, errors: string[]): string | null {
+  if (edit.old_str === "") {
+    if (content !== null) {
+      errors.push(`${label}: old_str is empty but the file already exists`);
+      return content;
+    }
+    return edit.new_str;
+  }
+  if (content === null) {
+    errors.push(`${label}: file not found`);
+    return content;
+  }
+
+  const occurrences = content.split(edit.old_str).length - 1;
+  if (occurrences !== 1) {
+    errors.push(
+      occurrences === 0
+        ? `${label}: old_str not found`
+        : `${label}: old_str matches ${occurrences} places; include more surrounding lines so it matches once`
+    );
+    return content;
+  }
+  return content.replace(edit.old_str, () => edit.new_str);
+}
+
+/**
+ * Work out every file a patch changes without writing anything. Diff files
+ * and edits are applied in order, so later ones see earlier changes
+ */
+export function planPatch(fileSystem: VirtualFileSystem, { patch, edits }: PatchInput): PatchPlan {
+  const errors: string[] = [];
+  // Planned content by path; null once deleted
+  const planned = new Map<string, string | null>();
+  const read = (path: string) => (planned.has(path) ? planned.get(path)! : fileSystem.readFile(path));
+
+  if (patch) {
+    const parsed = parseUnifiedDiff(patch);
+    errors.push(...parsed.errors);
+
+    for (const { oldPath, newPath, hunks } of parsed.files) {
+      if (oldPath && newPath && oldPath !== newPath) {
+        errors.push(`${oldPath}: renaming to ${newPath} is not supported; use file_manager to rename`);
+      } else if (!oldPath && !newPath) {
+        errors.push("A file header names /dev/null on both sides");
+      } else if (!oldPath) {
+        if (read(newPath!) !== null) {
+          errors.push(`${newPath}: cannot create, the file already exists`);
+        } else {
+          planned.set(newPath!, applyHunks(newPath!, "", hunks, errors));
+        }
+      } else {
+        const content = read(oldPath);
+        if (content === null) {
+          errors.push(`${oldPath}: file not found`);
+        } else if (hunks.length === 0 && newPath) {
+          errors.push(`${oldPath}: no hunks`);
+        } else {
+          const updated = applyHunks(oldPath, content, hunks, errors);
+          planned.set(oldPath, newPath ? updated : null);
+        }
+      }
+    }
+  }
+
+  edits?.forEach((edit, index) => {
+    const path = toProjectPath(edit.path);
+    planned.set(path, applyEdit(`${path} edit ${index + 1}`, read(path), edit, errors));
+  });
+
+  const changes: FileChange[] = [];
+  for (const [path, after] of planned) {
+    const before = fileSystem.readFile(path);
+    if (before === after) continue;
+    const status = before === null ? "added" : after === null ? "deleted" : "modified";
+    changes.push({ path, status, before, after });
+  }
+
+  return { changes: changes.sort((a, b) => a.path.localeCompare(b.path)), errors };
+}
+
+function writeChange(fileSystem: VirtualFileSystem, { path, before, after }: FileChange): string {
+  if (after === null) {
+    return fileSystem.deleteFile(path) ? `Deleted ${path}` : `Error: Could not delete ${path}`;
+  }
+  return before === null ? fileSystem.createFileWithParents(path, after) : fileSystem.writeFile(path, after);
+}
+
+const WRITE_ORDER = { deleted: 0, modified: 1, added: 2 };
+
+/**
+ * Apply a patch to every file or none. Each written file can be reverted with
+ * undo_edit; a write that fails (e.g. a size limit) undoes the ones before it
+ */
+export function applyPatch(fileSystem: VirtualFileSystem, input: PatchInput): string {
+  if (!input.patch && !input.edits?.length) {
+    return "Error: Provide a unified diff in patch or a list of edits";
+  }
+
+  const { changes, errors } = planPatch(fileSystem, input);
+  if (errors.length > 0) {
+    return `Error: Patch not applied; no files were changed.\n${errors.map((error) => `- ${error}`).join("\n")}`;
+  }
+  if (changes.length === 0) {
+    return "Patch makes no changes";
+  }
+
+  // Deletes first, so the patch's own deletions make room under the size limits
+  const ordered = [...changes].sort((a, b) => WRITE_ORDER[a.status] - WRITE_ORDER[b.status]);
+  const written: string[] = [];
+  for (const change of ordered) {
+    const result = writeChange(fileSystem, change);
+    if (result.startsWith("Error:")) {
+      written.reverse().forEach((path) => fileSystem.undoEdit(path));
+      return `Error: Patch not applied; no files were changed.\n- ${change.path}: ${result.slice("Error: ".length)}`;
+    }
+    written.push(change.path);
+  }
+
+  const summary = changes.map((change) => {
+    if (change.status !== "modified") return `- ${change.path} (${change.status})`;
+    const { added, removed } = countChangedLines(change);
+    return `- ${change.path} (+${added} -${removed})`;
+  });
+  return `Patch applied to ${changes.length} file${changes.length === 1 ? "" : "s"}:\n${summary.join("\n")}`;
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeAll, afterEach } from "vitest";
+import {
+  PREVIEW_CONSOLE_MESSAGE,
+  createConsoleBridgeScript,
+  getModuleUrlPaths,
+  isPreviewConsoleMessage,
+  mapStackToFiles,
+  type PreviewConsoleMessage,
+} from "../console-bridge";
+
+describe("console bridge", () => {
+  describe("isPreviewConsoleMessage", () => {
+    it("accepts well-formed entries", () => {
+      expect(
+        isPreviewConsoleMessage({ type: PREVIEW_CONSOLE_MESSAGE, kind: "console", level: "log", message: "hi" })
+      ).toBe(true);
+    });
+
+    it("rejects other messages and unknown levels", () => {
+      expect(isPreviewConsoleMessage({ type: "uigen:gallery-focus", path: "/A.jsx" })).toBe(false);
+      expect(
+        isPreviewConsoleMessage({ type: PREVIEW_CONSOLE_MESSAGE, kind: "console", level: "trace", message: "hi" })
+      ).toBe(false);
+      expect(isPreviewConsoleMessage(null)).toBe(false);
+    });
+  });
+
+  describe("stack mapping", () => {
+    const importMap = JSON.stringify({
+      imports: {
+        "/App.jsx": "blob:http://localhost:3000/aaa",
+        "@/App": "blob:http://localhost:3000/aaa",
+        "/App": "blob:http://localhost:3000/aaa",
+        "/components/Card.tsx": "blob:http://localhost:3000/bbb",
+        react: "/api/preview-runtime/modules/react",
+      },
+    });
+
+    it("maps module blob URLs to file paths", () => {
+      expect(getModuleUrlPaths(importMap)).toEqual(
+        new Map([
+          ["blob:http://localhost:3000/aaa", "/App.jsx"],
+          ["blob:http://localhost:3000/bbb", "/components/Card.tsx"],
+        ])
+      );
+    });
+
+    it("rewrites stack frames with file paths and line numbers", () => {
+      const stack = [
+        "Error: boom",
+        "    at Card (blob:http://localhost:3000/bbb:12:5)",
+        "    at App (blob:http://localhost:3000/aaa:4:3)",
+      ].join("\n");
+
+      expect(mapStackToFiles(stack, getModuleUrlPaths(importMap))).toBe(
+        ["Error: boom", "    at Card (/components/Card.tsx:12:5)", "    at App (/App.jsx:4:3)"].join("\n")
+      );
+    });
+
+    it("ignores an unreadable import map", () => {
+      expect(getModuleUrlPaths("not json").size).toBe(0);
+    });
+  });
+
+  describe("bridge script", () => {
+    const received: PreviewConsoleMessage[] = [];
+    const listener = (event: MessageEvent) => {
+      if (isPreviewConsoleMessage(event.data)) received.push(event.data);
+    };
+
+    // jsdom's top window is its own parent, so the bridge posts to this window
+    beforeAll(() => {
+      const source = createConsoleBridgeScript().replace(/^<script>|<\/script>$/g, "");
+      new Function(source)();
+      window.addEventListener("message", listener);
+    });
+
+    afterEach(() => {
+      received.length = 0;
+    });
+
+    const nextMessage = () =>
+      new Promise<PreviewConsoleMessage>((resolve) => {
+        const check = () => (received.length > 0 ? resolve(received.shift()!) : setTimeout(check, 5));
+        check();
+      });
+
+    it("forwards console calls with substitutions and object formatting", async () => {
+      console.info("Loaded %s items", 3, { page: 1 });
+
+      expect(await nextMessage()).toMatchObject({
+        kind: "console",
+        level: "info",
+        message: 'Loaded 3 items {"page":1}',
+      });
+    });
+
+    it("includes the stack of logged errors", async () => {
+      console.warn("Failed:", new Error("boom"));
+
+      const message = await nextMessage();
+      expect(message.level).toBe("warn");
+      expect(message.message).toBe("Failed: Error: boom");
+      expect(message.stack).toContain("boom");
+    });
+
+    it("formats circular objects", async () => {
+      const value: Record<string, unknown> = { name: "loop" };
+      value.self = value;
+      console.log(value);
+
+      expect((await nextMessage()).message).toBe('{"name":"loop","self":"[Circular]"}');
+    });
+  });
+});
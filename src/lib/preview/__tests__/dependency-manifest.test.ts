@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { VirtualFileSystem } from "@/lib/file-system";
+import {
+  MANIFEST_PATH,
+  addDependency,
+  isValidVersionSpec,
+  readDependencyManifest,
+} from "../dependency-manifest";
+
+describe("dependency manifest", () => {
+  describe("isValidVersionSpec", () => {
+    it("accepts pinned versions and simple ranges", () => {
+      expect(isValidVersionSpec("11.2.0")).toBe(true);
+      expect(isValidVersionSpec("^11.2.0")).toBe(true);
+      expect(isValidVersionSpec("~4.17")).toBe(true);
+      expect(isValidVersionSpec("2.x")).toBe(true);
+      expect(isValidVersionSpec("1.0.0-beta.1")).toBe(true);
+    });
+
+    it("rejects tags and URLs", () => {
+      expect(isValidVersionSpec("latest")).toBe(false);
+      expect(isValidVersionSpec("")).toBe(false);
+      expect(isValidVersionSpec("https://example.com/pkg.tgz")).toBe(false);
+    });
+  });
+
+  describe("readDependencyManifest", () => {
+    it("has no dependencies without a manifest", () => {
+      expect(readDependencyManifest(new Map())).toEqual({ dependencies: {} });
+    });
+
+    it("reads valid dependencies", () => {
+      const files = new Map([
+        [MANIFEST_PATH, JSON.stringify({ name: "app", dependencies: { zod: "3.23.8" } })],
+      ]);
+      expect(readDependencyManifest(files)).toEqual({ dependencies: { zod: "3.23.8" } });
+    });
+
+    it("reports invalid JSON", () => {
+      const result = readDependencyManifest(new Map([[MANIFEST_PATH, "{"]]));
+      expect(result.dependencies).toEqual({});
+      expect(result.error).toContain("Invalid JSON in /package.json");
+    });
+
+    it("reports dependencies that aren't an object", () => {
+      const result = readDependencyManifest(new Map([[MANIFEST_PATH, '{"dependencies": []}']]));
+      expect(result.error).toBe('"dependencies" in /package.json must be an object');
+    });
+
+    it("keeps valid entries and reports invalid ones", () => {
+      const files = new Map([
+        [MANIFEST_PATH, JSON.stringify({ dependencies: { zod: "3.23.8", lodash: "latest" } })],
+      ]);
+      const result = readDependencyManifest(files);
+      expect(result.dependencies).toEqual({ zod: "3.23.8" });
+      expect(result.error).toContain("lodash@latest");
+    });
+  });
+
+  describe("addDependency", () => {
+    let fileSystem: VirtualFileSystem;
+
+    beforeEach(() => {
+      fileSystem = new VirtualFileSystem();
+    });
+
+    it("creates /package.json when it doesn't exist", () => {
+      expect(addDependency(fileSystem, "zod", "3.23.8")).toBe("Added zod@3.23.8 to /package.json");
+      expect(JSON.parse(fileSystem.readFile(MANIFEST_PATH)!)).toEqual({
+        dependencies: { zod: "3.23.8" },
+      });
+    });
+
+    it("keeps other fields and sorts dependencies", () => {
+      fileSystem.createFileWithParents(
+        MANIFEST_PATH,
+        JSON.stringify({ name: "app", dependencies: { zod: "3.23.8" } })
+      );
+      addDependency(fileSystem, "framer-motion", "11.2.0");
+
+      const manifest = JSON.parse(fileSystem.readFile(MANIFEST_PATH)!);
+      expect(manifest.name).toBe("app");
+      expect(Object.keys(manifest.dependencies)).toEqual(["framer-motion", "zod"]);
+    });
+
+    it("updates the version of an existing dependency", () => {
+      addDependency(fileSystem, "zod", "3.22.0");
+      addDependency(fileSystem, "zod", "3.23.8");
+      expect(JSON.parse(fileSystem.readFile(MANIFEST_PATH)!).dependencies).toEqual({ zod: "3.23.8" });
+    });
+
+    it("rejects invalid names, unpinned versions and invalid manifests", () => {
+      expect(addDependency(fileSystem, "../etc", "1.0.0")).toMatch(/^Error: Invalid package name/);
+      expect(addDependency(fileSystem, "zod", "latest")).toMatch(/^Error: Invalid version/);
+      expect(fileSystem.readFile(MANIFEST_PATH)).toBeNull();
+
+      fileSystem.createFileWithParents(MANIFEST_PATH, "{");
+      expect(addDependency(fileSystem, "zod", "3.23.8")).toMatch(/^Error: \/package.json is not valid JSON/);
+    });
+  });
+});
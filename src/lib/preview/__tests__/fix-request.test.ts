@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { buildFixRequest, getProblemLocation } from "../fix-request";
+
+describe("fix requests", () => {
+  const files = new Map([
+    ["/App.jsx", ["import Card from '@/components/Card';", "", "export default function App() {", "  return <Card />;", "}"].join("\n")],
+    ["/components/Card.jsx", Array.from({ length: 20 }, (_, i) => `// line ${i + 1}`).join("\n")],
+  ]);
+
+  describe("getProblemLocation", () => {
+    it("uses the reported location of build errors", () => {
+      expect(
+        getProblemLocation(
+          { path: "/App.jsx", message: "/App.jsx: Unexpected token (4:9)", line: 4, column: 10 },
+          files
+        )
+      ).toEqual({ path: "/App.jsx", line: 4, column: 10 });
+    });
+
+    it("uses the first stack frame inside a project file", () => {
+      const stack = [
+        "TypeError: x is undefined",
+        "    at render (/api/preview-runtime/modules/react-dom/client:1:200)",
+        "    at Card (/components/Card.jsx:12:5)",
+        "    at App (/App.jsx:4:10)",
+      ].join("\n");
+
+      expect(getProblemLocation({ message: "TypeError: x is undefined", stack }, files)).toEqual({
+        path: "/components/Card.jsx",
+        line: 12,
+        column: 5,
+      });
+    });
+
+    it("returns null without a known file", () => {
+      expect(getProblemLocation({ message: "Script error." }, files)).toBeNull();
+    });
+  });
+
+  describe("buildFixRequest", () => {
+    it("includes the error, stack and the code around the failing line", () => {
+      const request = buildFixRequest(
+        {
+          message: "Uncaught TypeError: x is undefined",
+          stack: "TypeError: x is undefined\n    at Card (/components/Card.jsx:12:5)",
+        },
+        files
+      );
+
+      expect(request).toContain("File: /components/Card.jsx (line 12, column 5)");
+      expect(request).toContain("Uncaught TypeError: x is undefined");
+      expect(request).toContain("at Card (/components/Card.jsx:12:5)");
+      expect(request).toContain("> 12 | // line 12");
+      expect(request).toContain("   7 | // line 7");
+      expect(request).not.toContain("// line 6\n");
+      expect(request).not.toContain("// line 18");
+    });
+
+    it("includes a short file whole when the line is unknown", () => {
+      const request = buildFixRequest({ path: "/App.jsx", message: "Package \"zod\" is not listed" }, files);
+
+      expect(request).toContain("File: /App.jsx\n");
+      expect(request).toContain("export default function App() {");
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createFastRefreshScript,
+  createRefreshHelpers,
+  getHotUpdate,
+  isHotStatusMessage,
+} from "../hot-update";
+
+const importMap = (imports: Record<string, string>) => JSON.stringify({ imports });
+
+describe("hot updates", () => {
+  const base = {
+    react: "/api/preview-runtime/modules/react",
+    "/App.jsx": "blob:app-1",
+    "/App": "blob:app-1",
+    "/components/Card.jsx": "blob:card-1",
+    "/components/Card": "blob:card-1",
+    "@/components/Card": "blob:card-1",
+  };
+
+  describe("getHotUpdate", () => {
+    it("lists modules whose code changed, once per file", () => {
+      const next = {
+        ...base,
+        "/components/Card.jsx": "blob:card-2",
+        "/components/Card": "blob:card-2",
+        "@/components/Card": "blob:card-2",
+      };
+
+      expect(getHotUpdate(importMap(base), importMap(next))).toEqual([
+        { path: "/components/Card.jsx", url: "blob:card-2" },
+      ]);
+    });
+
+    it("returns an empty list when nothing changed", () => {
+      expect(getHotUpdate(importMap(base), importMap(base))).toEqual([]);
+    });
+
+    it("needs a full reload when files or packages change", () => {
+      expect(getHotUpdate(importMap(base), importMap({ ...base, "/Button.jsx": "blob:button" }))).toBeNull();
+      expect(
+        getHotUpdate(importMap(base), importMap({ ...base, react: "https://esm.sh/react@19" }))
+      ).toBeNull();
+      expect(getHotUpdate("not json", importMap(base))).toBeNull();
+    });
+  });
+
+  describe("isHotStatusMessage", () => {
+    it("accepts status replies from the preview", () => {
+      expect(isHotStatusMessage({ type: "uigen:hot-status", status: "ready" })).toBe(true);
+      expect(isHotStatusMessage({ type: "uigen:hot-status", status: "reload", reason: "x" })).toBe(true);
+      expect(isHotStatusMessage({ type: "uigen:hot-status", status: "done" })).toBe(false);
+      expect(isHotStatusMessage({ type: "uigen:console", status: "ready" })).toBe(false);
+    });
+  });
+
+  describe("createRefreshHelpers", () => {
+    afterEach(() => {
+      delete (window as any).__uigenRefresh;
+    });
+
+    // Runs the helpers plus a body using them, like a transformed module
+    const run = (body: string) => new Function(`${body}\n${createRefreshHelpers("/App.jsx")}`)();
+
+    it("registers components under their file path", () => {
+      const register = vi.fn();
+      (window as any).__uigenRefresh = { register, createSignatureFunctionForTransform: vi.fn() };
+
+      run(`function App() {}\n$RefreshReg$(App, "App");`);
+
+      expect(register).toHaveBeenCalledWith(expect.any(Function), "/App.jsx App");
+    });
+
+    it("does nothing without the refresh runtime", () => {
+      expect(() => run(`var _s = $RefreshSig$();\n_s(function App() {}, "");\n$RefreshReg$(null, "App");`)).not.toThrow();
+    });
+  });
+
+  describe("createFastRefreshScript", () => {
+    it("installs the runtime and replies once the document is rendered", () => {
+      const script = createFastRefreshScript();
+
+      expect(script).toContain("import RefreshRuntime from 'react-refresh/runtime'");
+      expect(script).toContain("RefreshRuntime.injectIntoGlobalHook(window)");
+      expect(script).toContain("window.__uigenMounted.then(() => reply('ready'))");
+      expect(script).toContain("uigen:hot-update");
+    });
+  });
+});
@@ -0,0 +1,95 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import { isValidModuleSpecifier, isExportedSubpath, bundlePreviewModule } from "../module-bundler";
+
+describe("module-bundler", () => {
+  describe("isValidModuleSpecifier", () => {
+    it("accepts packages and subpaths", () => {
+      expect(isValidModuleSpecifier("react")).toBe(true);
+      expect(isValidModuleSpecifier("react-dom/client")).toBe(true);
+      expect(isValidModuleSpecifier("@radix-ui/react-dialog")).toBe(true);
+    });
+
+    it("rejects traversal and invalid names", () => {
+      expect(isValidModuleSpecifier("react/../../etc/passwd")).toBe(false);
+      expect(isValidModuleSpecifier("../react")).toBe(false);
+      expect(isValidModuleSpecifier("react//client")).toBe(false);
+    });
+  });
+
+  describe("isExportedSubpath", () => {
+    it("matches exact and pattern exports", () => {
+      expect(isExportedSubpath(".", [".", "./client"])).toBe(true);
+      expect(isExportedSubpath("./client", [".", "./client"])).toBe(true);
+      expect(isExportedSubpath("./locale/de", [".", "./locale/*"])).toBe(true);
+      expect(isExportedSubpath("./server", [".", "./client"])).toBe(false);
+      expect(isExportedSubpath("./locale/", [".", "./locale/*"])).toBe(false);
+    });
+
+    it("allows only the package itself without an exports map", () => {
+      expect(isExportedSubpath(".", null)).toBe(true);
+      expect(isExportedSubpath("./dist/esm/icons/x.js", null)).toBe(false);
+    });
+
+    it("never serves JSON files", () => {
+      expect(isExportedSubpath("./package.json", [".", "./package.json"])).toBe(false);
+    });
+  });
+
+  describe("bundlePreviewModule", () => {
+    it("refuses packages outside the allowlist", async () => {
+      const result = await bundlePreviewModule("left-pad");
+
+      expect(result).toEqual({
+        success: false,
+        status: 404,
+        error: 'Package "left-pad" is not in the preview allowlist',
+      });
+    });
+
+    it("refuses subpaths the package doesn't export", async () => {
+      const result = await bundlePreviewModule("react-dom/cjs/react-dom.development");
+
+      expect(result).toEqual({
+        success: false,
+        status: 404,
+        error: 'Module "react-dom/cjs/react-dom.development" is not exported by "react-dom"',
+      });
+    });
+
+    it("bundles a CommonJS package with named and default exports", async () => {
+      const result = await bundlePreviewModule("react/jsx-runtime");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.code).toMatch(/export\s*\{[^}]*\bjsx\b/);
+        expect(result.code).toContain("default");
+      }
+    });
+
+    it("serves development builds even when the app runs in production", async () => {
+      vi.stubEnv("NODE_ENV", "production");
+      try {
+        const result = await bundlePreviewModule("react-refresh/runtime");
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.code).toContain("performReactRefresh");
+          expect(result.code).not.toContain("should not be included in the production bundle");
+        }
+      } finally {
+        vi.unstubAllEnvs();
+      }
+    });
+
+    it("keeps shared packages external", async () => {
+      const result = await bundlePreviewModule("react-dom/client");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.code).toMatch(/from\s*"react"/);
+        expect(result.code).toMatch(/from\s*"react-dom"/);
+      }
+    });
+  });
+});
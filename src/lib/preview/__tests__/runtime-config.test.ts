@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  getPreviewRuntimeConfig,
+  getLocalModuleUrl,
+  getCdnModuleUrl,
+  getPackageName,
+  isValidPackageName,
+} from "../runtime-config";
+
+describe("runtime-config", () => {
+  describe("getPreviewRuntimeConfig", () => {
+    it("serves React and the default packages locally without a CDN", () => {
+      const config = getPreviewRuntimeConfig({});
+
+      expect(config.packages).toEqual(expect.arrayContaining(["react", "react-dom", "lucide-react"]));
+      expect(config.cdnFallback).toBe(false);
+    });
+
+    it("replaces the defaults with the configured allowlist", () => {
+      const config = getPreviewRuntimeConfig({
+        packages: " framer-motion, @headlessui/react ,not a package,",
+        cdnFallback: "true",
+      });
+
+      expect(config.packages).toEqual(["react", "react-dom", "framer-motion", "@headlessui/react"]);
+      expect(config.cdnFallback).toBe(true);
+    });
+
+    it("only enables the CDN fallback for an explicit true", () => {
+      expect(getPreviewRuntimeConfig({ cdnFallback: "1" }).cdnFallback).toBe(false);
+    });
+  });
+
+  describe("module URLs", () => {
+    it("builds local and CDN URLs for a specifier", () => {
+      expect(getLocalModuleUrl("react-dom/client")).toBe("/api/preview-runtime/modules/react-dom/client");
+      expect(getCdnModuleUrl("lodash/debounce", "4.17.21")).toBe(
+        "https://esm.sh/lodash@4.17.21/debounce?external=react,react-dom"
+      );
+    });
+  });
+
+  describe("package names", () => {
+    it("drops subpaths and keeps scopes", () => {
+      expect(getPackageName("lodash/debounce")).toBe("lodash");
+      expect(getPackageName("@radix-ui/react-dialog/dist")).toBe("@radix-ui/react-dialog");
+    });
+
+    it("validates npm package names", () => {
+      expect(isValidPackageName("@radix-ui/react-dialog")).toBe(true);
+      expect(isValidPackageName("../etc")).toBe(false);
+      expect(isValidPackageName("Not Valid")).toBe(false);
+    });
+  });
+});
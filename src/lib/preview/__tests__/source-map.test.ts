@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  createSourceComments,
+  decodeVLQ,
+  getOriginalPosition,
+  mapStackToSources,
+  type SourceMap,
+} from "../source-map";
+
+describe("source maps", () => {
+  // 0-based: generated line 0 maps column 0 -> 0:0 and column 4 -> 0:10; line 2 maps column 2 -> 1:2
+  const map: SourceMap = { version: 3, sources: ["/App.jsx"], mappings: "AAAA,IAAU;;EACR" };
+
+  describe("decodeVLQ", () => {
+    it("decodes single and multi-digit values with their sign", () => {
+      expect(decodeVLQ("AAgBC")).toEqual([0, 0, 16, 1]);
+      expect(decodeVLQ("D")).toEqual([-1]);
+    });
+
+    it("rejects characters outside base64", () => {
+      expect(() => decodeVLQ("A!")).toThrow('Invalid VLQ character "!"');
+    });
+  });
+
+  describe("getOriginalPosition", () => {
+    it("uses the closest segment at or before the column", () => {
+      expect(getOriginalPosition(map, { line: 1, column: 1 })).toEqual({ line: 1, column: 1 });
+      expect(getOriginalPosition(map, { line: 1, column: 9 })).toEqual({ line: 1, column: 11 });
+      expect(getOriginalPosition(map, { line: 3, column: 7 })).toEqual({ line: 2, column: 3 });
+    });
+
+    it("returns null for lines without mappings", () => {
+      expect(getOriginalPosition(map, { line: 2, column: 1 })).toBeNull();
+      expect(getOriginalPosition(map, { line: 8, column: 1 })).toBeNull();
+    });
+  });
+
+  describe("mapStackToSources", () => {
+    it("rewrites locations in files with a source map", () => {
+      const stack = [
+        "TypeError: x is undefined",
+        "    at App (/App.jsx:3:5)",
+        "    at Card (/Card.jsx:3:5)",
+      ].join("\n");
+
+      expect(mapStackToSources(stack, new Map([["/App.jsx", map]]))).toBe(
+        [
+          "TypeError: x is undefined",
+          "    at App (/App.jsx:2:3)",
+          "    at Card (/Card.jsx:3:5)",
+        ].join("\n")
+      );
+    });
+  });
+
+  describe("createSourceComments", () => {
+    it("inlines the map and names the module after its path", () => {
+      const comments = createSourceComments("/App.jsx", map);
+      const encoded = comments.match(/base64,(\S+)/)![1];
+
+      expect(JSON.parse(atob(encoded))).toEqual(map);
+      expect(comments.endsWith("\n//# sourceURL=/App.jsx")).toBe(true);
+    });
+
+    it("only names the module without a map", () => {
+      expect(createSourceComments("/App.jsx")).toBe("\n//# sourceURL=/App.jsx");
+    });
+  });
+});
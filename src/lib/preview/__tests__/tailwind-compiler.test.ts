@@ -0,0 +1,35 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { extractTailwindCandidates, compileTailwind } from "../tailwind-compiler";
+
+describe("tailwind-compiler", () => {
+  describe("extractTailwindCandidates", () => {
+    it("collects class-like tokens from sources", () => {
+      const candidates = extractTailwindCandidates([
+        '<div className="flex p-4 hover:bg-red-500">',
+        "const cls = `md:grid-cols-3 ${active}`;",
+      ]);
+
+      expect(candidates).toEqual(
+        expect.arrayContaining(["flex", "p-4", "hover:bg-red-500", "md:grid-cols-3"])
+      );
+    });
+
+    it("skips empty and overly long tokens", () => {
+      const candidates = extractTailwindCandidates(["  ''  123 " + "a".repeat(300)]);
+
+      expect(candidates).toEqual([]);
+    });
+  });
+
+  describe("compileTailwind", () => {
+    it("compiles only the utilities that are used", async () => {
+      const css = await compileTailwind(["flex", "bg-blue-500", "notaclass"]);
+
+      expect(css).toContain(".flex");
+      expect(css).toContain(".bg-blue-500");
+      expect(css).not.toContain("notaclass");
+      expect(css).not.toContain(".grid");
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  VIEWPORT_BOUNDS,
+  SIDE_BY_SIDE_GAP,
+  clampViewportDimension,
+  getViewportSize,
+  getFitScale,
+  getSideBySideSize,
+} from "../viewport";
+
+describe("viewport", () => {
+  describe("clampViewportDimension", () => {
+    it("keeps custom sizes within bounds", () => {
+      expect(clampViewportDimension(50)).toBe(VIEWPORT_BOUNDS.MIN);
+      expect(clampViewportDimension(99999)).toBe(VIEWPORT_BOUNDS.MAX);
+      expect(clampViewportDimension(414.6)).toBe(415);
+      expect(clampViewportDimension(NaN)).toBe(VIEWPORT_BOUNDS.MIN);
+    });
+  });
+
+  describe("getViewportSize", () => {
+    const custom = { width: 500, height: 900 };
+
+    it("returns null when filling the pane", () => {
+      expect(getViewportSize("fill", custom, false)).toBeNull();
+    });
+
+    it("returns preset sizes and swaps them when rotated", () => {
+      expect(getViewportSize("phone", custom, false)).toEqual({ width: 375, height: 667 });
+      expect(getViewportSize("phone", custom, true)).toEqual({ width: 667, height: 375 });
+    });
+
+    it("uses the clamped custom size", () => {
+      expect(getViewportSize("custom", custom, false)).toEqual({ width: 500, height: 900 });
+      expect(getViewportSize("custom", { width: 10, height: 900 }, false)).toEqual({
+        width: VIEWPORT_BOUNDS.MIN,
+        height: 900,
+      });
+    });
+  });
+
+  describe("getFitScale", () => {
+    it("shrinks content to fit the available space", () => {
+      expect(getFitScale({ width: 1280, height: 800 }, { width: 640, height: 800 })).toBe(0.5);
+      expect(getFitScale({ width: 375, height: 667 }, { width: 1000, height: 333.5 })).toBe(0.5);
+    });
+
+    it("never enlarges content", () => {
+      expect(getFitScale({ width: 375, height: 667 }, { width: 2000, height: 2000 })).toBe(1);
+    });
+
+    it("ignores unmeasured panes", () => {
+      expect(getFitScale({ width: 1280, height: 800 }, { width: 0, height: 0 })).toBe(1);
+    });
+  });
+
+  describe("getSideBySideSize", () => {
+    it("adds widths and gaps and takes the tallest height", () => {
+      expect(
+        getSideBySideSize([
+          { width: 375, height: 667 },
+          { width: 768, height: 1024 },
+        ])
+      ).toEqual({ width: 375 + 768 + SIDE_BY_SIDE_GAP, height: 1024 });
+    });
+  });
+});
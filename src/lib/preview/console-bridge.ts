@@ -0,0 +1,231 @@
+/**
+ * Preview console bridge
+ * A script injected into preview documents forwards console calls, uncaught
+ * errors, unhandled rejections and fetch calls to the parent window, where the
+ * preview's console panel shows them
+ */
+
+import { PREVIEW_RUNTIME_PATH } from "./runtime-config";
+
+/** postMessage type of forwarded console entries */
+export const PREVIEW_CONSOLE_MESSAGE = "uigen:console";
+
+/** Most entries kept by the console panel; older ones are dropped */
+export const MAX_CONSOLE_ENTRIES = 500;
+
+export type ConsoleLevel = "log" | "info" | "warn" | "error" | "debug";
+
+// console: console.* calls; error: uncaught errors and rejections; network: fetch calls;
+// build: preview build errors, added by the editor rather than the bridge
+export type ConsoleEntryKind = "console" | "error" | "network" | "build";
+
+export interface PreviewConsoleMessage {
+  type: typeof PREVIEW_CONSOLE_MESSAGE;
+  kind: Exclude<ConsoleEntryKind, "build">;
+  level: ConsoleLevel;
+  message: string;
+  stack?: string;
+}
+
+export interface PreviewConsoleEntry {
+  id: number;
+  kind: ConsoleEntryKind;
+  level: ConsoleLevel;
+  message: string;
+  stack?: string;
+  path?: string; // File a build error belongs to, or the first project file in a stack
+  line?: number; // 1-based location in that file, when known
+  column?: number;
+}
+
+const LEVELS: ConsoleLevel[] = ["log", "info", "warn", "error", "debug"];
+const KINDS: PreviewConsoleMessage["kind"][] = ["console", "error", "network"];
+
+// Longest message or stack forwarded from the preview
+const MAX_MESSAGE_LENGTH = 10_000;
+
+// Errors worth asking the AI to fix; failed requests usually aren't caused by the code
+export function isFixableEntry(entry: PreviewConsoleEntry): boolean {
+  return entry.level === "error" && entry.kind !== "network";
+}
+
+export function isPreviewConsoleMessage(data: unknown): data is PreviewConsoleMessage {
+  const message = data as Partial<PreviewConsoleMessage> | null;
+  return (
+    !!message &&
+    message.type === PREVIEW_CONSOLE_MESSAGE &&
+    KINDS.includes(message.kind as PreviewConsoleMessage["kind"]) &&
+    LEVELS.includes(message.level as ConsoleLevel) &&
+    typeof message.message === "string" &&
+    (message.stack === undefined || typeof message.stack === "string")
+  );
+}
+
+/**
+ * File paths of the preview's modules, keyed by their blob URL
+ * Every file has several import map keys; the absolute path with extension is kept
+ */
+export function getModuleUrlPaths(importMap: string): Map<string, string> {
+  const paths = new Map<string, string>();
+  try {
+    const { imports } = JSON.parse(importMap) as { imports?: Record<string, string> };
+    for (const [key, url] of Object.entries(imports ?? {})) {
+      if (url.startsWith("blob:") && key.startsWith("/") && /\.(jsx?|tsx?)$/.test(key)) {
+        paths.set(url, key);
+      }
+    }
+  } catch {
+    // An unreadable import map just leaves URLs as they are
+  }
+  return paths;
+}
+
+/**
+ * Replace module blob URLs in a message or stack trace with file paths
+ * "at App (blob:http://localhost:3000/1f2e:12:5)" -> "at App (/App.jsx:12:5)"
+ */
+export function mapStackToFiles(text: string, urlPaths: Map<string, string>): string {
+  let mapped = text;
+  for (const [url, path] of urlPaths) {
+    mapped = mapped.split(url).join(path);
+  }
+  return mapped;
+}
+
+/**
+ * Inline script installing the bridge; must run before any module script so
+ * errors thrown while loading are captured. Requests to the preview runtime
+ * and blob URLs are internal and aren't reported as network calls.
+ */
+export function createConsoleBridgeScript(): string {
+  return `<script>
+    (function () {
+      var MAX_LENGTH = ${MAX_MESSAGE_LENGTH};
+      var RUNTIME_PATH = ${JSON.stringify(PREVIEW_RUNTIME_PATH)};
+
+      function post(kind, level, message, stack) {
+        try {
+          window.parent.postMessage({
+            type: ${JSON.stringify(PREVIEW_CONSOLE_MESSAGE)},
+            kind: kind,
+            level: level,
+            message: String(message).slice(0, MAX_LENGTH),
+            stack: stack ? String(stack).slice(0, MAX_LENGTH) : undefined
+          }, '*');
+        } catch (e) {
+          // The parent is gone or the entry can't be cloned; nothing to report to
+        }
+      }
+
+      function format(value) {
+        if (typeof value === 'string') return value;
+        if (value instanceof Error) return value.name + ': ' + value.message;
+        if (typeof value === 'function') return 'ƒ ' + (value.name || 'anonymous') + '()';
+        if (value === null || typeof value !== 'object') return String(value);
+        if (typeof Element !== 'undefined' && value instanceof Element) {
+          return '<' + value.tagName.toLowerCase() + '>';
+        }
+        try {
+          var seen = new WeakSet();
+          return JSON.stringify(value, function (key, item) {
+            if (typeof item === 'function') return 'ƒ ' + (item.name || 'anonymous') + '()';
+            if (typeof item === 'bigint') return item.toString();
+            if (item instanceof Error) return item.name + ': ' + item.message;
+            if (typeof item === 'object' && item !== null) {
+              if (seen.has(item)) return '[Circular]';
+              seen.add(item);
+            }
+            return item;
+          });
+        } catch (e) {
+          return Object.prototype.toString.call(value);
+        }
+      }
+
+      // Applies printf-style substitutions ("%s", "%d", "%o", "%c") like the browser console
+      function formatArgs(args) {
+        var rest = Array.prototype.slice.call(args);
+        if (typeof rest[0] === 'string' && /%[sdifoOc]/.test(rest[0])) {
+          var template = rest.shift();
+          var text = template.replace(/%([sdifoOc%])/g, function (match, type) {
+            if (type === '%') return '%';
+            if (rest.length === 0) return match;
+            var next = rest.shift();
+            if (type === 'c') return '';
+            if (type === 'd' || type === 'i') return String(parseInt(next, 10));
+            if (type === 'f') return String(parseFloat(next));
+            return format(next);
+          });
+          rest.unshift(text);
+        }
+        return rest.map(format).join(' ');
+      }
+
+      function findStack(args) {
+        for (var i = 0; i < args.length; i++) {
+          if (args[i] instanceof Error && args[i].stack) return args[i].stack;
+        }
+        return undefined;
+      }
+
+      ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+        var original = console[level];
+        console[level] = function () {
+          post('console', level, formatArgs(arguments), findStack(arguments));
+          return original.apply(console, arguments);
+        };
+      });
+
+      window.addEventListener('error', function (event) {
+        var error = event.error;
+        var location = event.filename ? event.filename + ':' + event.lineno + ':' + event.colno : undefined;
+        post(
+          'error',
+          'error',
+          'Uncaught ' + (error instanceof Error ? format(error) : event.message),
+          error instanceof Error && error.stack ? error.stack : location
+        );
+      });
+
+      window.addEventListener('unhandledrejection', function (event) {
+        var reason = event.reason;
+        post(
+          'error',
+          'error',
+          'Unhandled rejection: ' + format(reason),
+          reason instanceof Error ? reason.stack : undefined
+        );
+      });
+
+      var originalFetch = window.fetch;
+      if (!originalFetch) return;
+      window.fetch = function (input, init) {
+        var request = originalFetch.apply(window, arguments);
+        var url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        var method = String((init && init.method) || (input && input.method) || 'GET').toUpperCase();
+        var resolved;
+        try {
+          resolved = new URL(url, document.baseURI);
+        } catch (e) {
+          return request;
+        }
+        var internal = resolved.protocol === 'blob:' ||
+          (resolved.origin === new URL(document.baseURI).origin && resolved.pathname.indexOf(RUNTIME_PATH) === 0);
+        if (internal) return request;
+
+        var started = performance.now();
+        request.then(function (response) {
+          var duration = Math.round(performance.now() - started);
+          post(
+            'network',
+            response.ok ? 'info' : 'error',
+            method + ' ' + url + ' ' + response.status + (response.statusText ? ' ' + response.statusText : '') + ' (' + duration + ' ms)'
+          );
+        }, function (error) {
+          post('network', 'error', method + ' ' + url + ' failed: ' + format(error));
+        });
+        return request;
+      };
+    })();
+  </script>`;
+}
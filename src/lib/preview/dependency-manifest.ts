@@ -0,0 +1,116 @@
+/**
+ * Project dependency manifest
+ * The virtual /package.json pins the versions of third-party packages the
+ * preview loads; packages outside the local runtime must be listed there
+ */
+
+import type { VirtualFileSystem } from "@/lib/file-system";
+import { isValidPackageName } from "./runtime-config";
+
+export const MANIFEST_PATH = "/package.json";
+
+export interface DependencyManifest {
+  dependencies: Record<string, string>; // Package name -> version or range
+  error?: string; // Set when /package.json exists but can't be used
+}
+
+// Exact versions and simple ranges: "11.2.0", "^11.2.0", "~4.17", "2.x", "1.0.0-beta.1"
+// Tags like "latest" are rejected because they aren't pinned
+const VERSION_PATTERN = /^[\^~]?(\d+|x|\*)(\.(\d+|x|\*)){0,2}(-[0-9A-Za-z.-]+)?$/;
+
+export function isValidVersionSpec(version: string): boolean {
+  return VERSION_PATTERN.test(version);
+}
+
+/**
+ * Read the dependencies listed in /package.json
+ * A missing manifest has no dependencies; an invalid one reports why
+ */
+export function readDependencyManifest(files: Map<string, string>): DependencyManifest {
+  const content = files.get(MANIFEST_PATH);
+  if (content === undefined) return { dependencies: {} };
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(content);
+  } catch (error) {
+    return {
+      dependencies: {},
+      error: `Invalid JSON in ${MANIFEST_PATH}: ${error instanceof Error ? error.message : "parse error"}`,
+    };
+  }
+
+  const dependencies = (manifest as { dependencies?: unknown })?.dependencies;
+  if (dependencies === undefined) return { dependencies: {} };
+  if (!dependencies || typeof dependencies !== "object" || Array.isArray(dependencies)) {
+    return { dependencies: {}, error: `"dependencies" in ${MANIFEST_PATH} must be an object` };
+  }
+
+  const valid: Record<string, string> = {};
+  const invalid: string[] = [];
+  for (const [name, version] of Object.entries(dependencies)) {
+    if (isValidPackageName(name) && typeof version === "string" && isValidVersionSpec(version)) {
+      valid[name] = version;
+    } else {
+      invalid.push(`${name}@${String(version)}`);
+    }
+  }
+
+  return invalid.length > 0
+    ? {
+        dependencies: valid,
+        error: `Invalid dependencies in ${MANIFEST_PATH}: ${invalid.join(", ")} (use a package name and a pinned version such as "1.2.3" or "^1.2.3")`,
+      }
+    : { dependencies: valid };
+}
+
+/**
+ * Add or update a dependency in /package.json
+ * Creates the manifest if needed; other fields are kept and dependencies stay sorted.
+ * Writes go through the file system's create/replace so they can be undone.
+ * Returns a message, prefixed with "Error:" on failure (like other file system edits)
+ */
+export function addDependency(
+  fileSystem: VirtualFileSystem,
+  name: string,
+  version: string
+): string {
+  if (!isValidPackageName(name)) {
+    return `Error: Invalid package name: ${name}`;
+  }
+  if (!isValidVersionSpec(version)) {
+    return `Error: Invalid version "${version}" for ${name}. Use a pinned version such as "1.2.3" or "^1.2.3"`;
+  }
+
+  const existing = fileSystem.readFile(MANIFEST_PATH);
+  let manifest: Record<string, unknown> = {};
+  if (existing !== null) {
+    try {
+      manifest = JSON.parse(existing);
+    } catch {
+      return `Error: ${MANIFEST_PATH} is not valid JSON; fix it before adding dependencies`;
+    }
+    if (!manifest || typeof manifest !== "object" || Array.isArray(manifest)) {
+      return `Error: ${MANIFEST_PATH} must contain a JSON object`;
+    }
+  }
+
+  const current = manifest.dependencies;
+  const dependencies: Record<string, unknown> =
+    current && typeof current === "object" && !Array.isArray(current)
+      ? { ...(current as Record<string, unknown>), [name]: version }
+      : { [name]: version };
+  manifest.dependencies = Object.fromEntries(
+    Object.entries(dependencies).sort(([a], [b]) => a.localeCompare(b))
+  );
+  const content = JSON.stringify(manifest, null, 2) + "\n";
+
+  const result =
+    existing === null
+      ? fileSystem.createFileWithParents(MANIFEST_PATH, content)
+      : existing === content
+        ? "unchanged"
+        : fileSystem.replaceInFile(MANIFEST_PATH, existing, content);
+
+  return result.startsWith("Error:") ? result : `Added ${name}@${version} to ${MANIFEST_PATH}`;
+}
@@ -0,0 +1,98 @@
+/**
+ * "Ask AI to fix" requests
+ * Turns a preview error into a chat message with the error, the file it points
+ * at and the code around the failing line
+ */
+
+export interface PreviewProblem {
+  message: string;
+  stack?: string;
+  path?: string; // File the problem is in, when already known (build errors)
+  line?: number; // 1-based position in that file
+  column?: number;
+}
+
+export interface ProblemLocation {
+  path: string;
+  line?: number;
+  column?: number;
+}
+
+// Lines of code shown on each side of the failing line
+const CONTEXT_LINES = 5;
+
+// Stack frames end in "/path/File.jsx:line:column"
+const STACK_LOCATION_PATTERN = /(\/[^\s():]+\.(?:jsx?|tsx?)):(\d+)(?::(\d+))?/;
+
+/**
+ * Where a problem happened: its file plus the line and column when known
+ * Runtime errors use the first stack frame inside a project file
+ */
+export function getProblemLocation(
+  problem: PreviewProblem,
+  files: Map<string, string>
+): ProblemLocation | null {
+  if (problem.path) {
+    return { path: problem.path, line: problem.line, column: problem.column };
+  }
+
+  for (const text of [problem.stack, problem.message]) {
+    for (const line of text?.split("\n") ?? []) {
+      const match = line.match(STACK_LOCATION_PATTERN);
+      if (match && files.has(match[1])) {
+        return {
+          path: match[1],
+          line: Number(match[2]),
+          column: match[3] ? Number(match[3]) : undefined,
+        };
+      }
+    }
+  }
+  return null;
+}
+
+// Numbered lines around the failing line, which is marked with ">"
+function getCodeExcerpt(content: string, line: number): string {
+  const lines = content.split("\n");
+  const start = Math.max(1, line - CONTEXT_LINES);
+  const end = Math.min(lines.length, line + CONTEXT_LINES);
+  const width = String(end).length;
+
+  const excerpt: string[] = [];
+  for (let number = start; number <= end; number++) {
+    const marker = number === line ? ">" : " ";
+    excerpt.push(`${marker} ${String(number).padStart(width)} | ${lines[number - 1]}`);
+  }
+  return excerpt.join("\n");
+}
+
+/**
+ * Chat message asking the AI to fix a preview error
+ * Includes the whole file when the line is unknown and the file is short
+ */
+export function buildFixRequest(problem: PreviewProblem, files: Map<string, string>): string {
+  const location = getProblemLocation(problem, files);
+  const sections = ["Fix this error in the preview."];
+
+  if (location) {
+    sections.push(
+      `File: ${location.path}${location.line ? ` (line ${location.line}${location.column ? `, column ${location.column}` : ""})` : ""}`
+    );
+  }
+  sections.push(`Error:\n\`\`\`\n${problem.message}\n\`\`\``);
+  if (problem.stack && problem.stack !== problem.message) {
+    sections.push(`Stack trace:\n\`\`\`\n${problem.stack}\n\`\`\``);
+  }
+
+  const content = location ? files.get(location.path) : undefined;
+  if (location && content !== undefined) {
+    const lineCount = content.split("\n").length;
+    if (location.line && location.line <= lineCount) {
+      sections.push(`Code around line ${location.line}:\n\`\`\`\n${getCodeExcerpt(content, location.line)}\n\`\`\``);
+    } else if (lineCount <= CONTEXT_LINES * 4) {
+      sections.push(`Code:\n\`\`\`\n${content}\n\`\`\``);
+    }
+  }
+
+  return sections.join("\n\n");
+}
@@ -0,0 +1,146 @@
+/**
+ * Hot updates for the preview (React Fast Refresh)
+ * Transformed modules register their components with the refresh runtime. When a
+ * rebuild only changes module code, the editor posts the changed module URLs to the
+ * preview, which imports them and re-renders in place, keeping hook state. Anything
+ * else (new files, packages, styles, errors) needs a full reload.
+ */
+
+/** postMessage type of hot updates sent to the preview */
+export const HOT_UPDATE_MESSAGE = "uigen:hot-update";
+
+/** postMessage type of the preview's replies */
+export const HOT_STATUS_MESSAGE = "uigen:hot-status";
+
+export interface HotModule {
+  path: string;
+  url: string; // Blob URL of the module's new version
+}
+
+export interface HotUpdateMessage {
+  type: typeof HOT_UPDATE_MESSAGE;
+  modules: HotModule[];
+  imports: Record<string, string>; // The new build's import map
+}
+
+// ready: the document is rendered and accepts updates; applied: an update was swapped
+// in; reload: an update wasn't refresh-safe (or failed) and the document must be rebuilt
+export type HotStatus = "ready" | "applied" | "reload";
+
+export interface HotStatusMessage {
+  type: typeof HOT_STATUS_MESSAGE;
+  status: HotStatus;
+  reason?: string;
+}
+
+const STATUSES: HotStatus[] = ["ready", "applied", "reload"];
+
+export function isHotStatusMessage(data: unknown): data is HotStatusMessage {
+  const message = data as Partial<HotStatusMessage> | null;
+  return (
+    !!message &&
+    message.type === HOT_STATUS_MESSAGE &&
+    STATUSES.includes(message.status as HotStatus) &&
+    (message.reason === undefined || typeof message.reason === "string")
+  );
+}
+
+function parseImports(importMap: string): Record<string, string> | null {
+  try {
+    return (JSON.parse(importMap) as { imports?: Record<string, string> }).imports ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Modules to hot-swap to get from one build's import map to the next
+ * null when the builds differ in more than module code: added or removed files,
+ * packages or stubs. An empty list means nothing changed.
+ */
+export function getHotUpdate(previousImportMap: string, nextImportMap: string): HotModule[] | null {
+  const previous = parseImports(previousImportMap);
+  const next = parseImports(nextImportMap);
+  if (!previous || !next) return null;
+
+  const keys = Object.keys(next);
+  if (keys.length !== Object.keys(previous).length) return null;
+
+  const modules: HotModule[] = [];
+  for (const key of keys) {
+    if (!(key in previous)) return null;
+    if (previous[key] === next[key]) continue;
+    if (!previous[key].startsWith("blob:") || !next[key].startsWith("blob:")) return null;
+    // Every file has several keys; the absolute path with extension names it once
+    if (key.startsWith("/") && /\.(jsx?|tsx?)$/.test(key)) {
+      modules.push({ path: key, url: next[key] });
+    }
+  }
+  return modules;
+}
+
+/**
+ * Declarations appended to a transformed module for the refresh Babel plugin's
+ * $RefreshReg$ / $RefreshSig$ calls. Function declarations are hoisted, so they're
+ * defined before the module body runs; outside a refreshable preview they do nothing.
+ */
+export function createRefreshHelpers(path: string): string {
+  return `
+function $RefreshReg$(type, id) {
+  if (window.__uigenRefresh) window.__uigenRefresh.register(type, ${JSON.stringify(path)} + " " + id);
+}
+function $RefreshSig$() {
+  return window.__uigenRefresh ? window.__uigenRefresh.createSignatureFunctionForTransform() : function (type) { return type; };
+}`;
+}
+
+/**
+ * Scripts installing the refresh runtime in a preview document; must come before any
+ * script importing react-dom. Module scripts call window.__uigenSetMounted() once their
+ * components are rendered, and only then does the document accept hot updates.
+ * An update is refresh-safe when every export of every changed module is a component;
+ * otherwise importers would keep stale values, so the document asks for a reload.
+ */
+export function createFastRefreshScript(): string {
+  return `<script>
+    window.__uigenMounted = new Promise((resolve) => { window.__uigenSetMounted = resolve; });
+  </script>
+  <script type="module">
+    import RefreshRuntime from 'react-refresh/runtime';
+
+    RefreshRuntime.injectIntoGlobalHook(window);
+    window.__uigenRefresh = RefreshRuntime;
+
+    function reply(status, reason) {
+      window.parent.postMessage({ type: ${JSON.stringify(HOT_STATUS_MESSAGE)}, status, reason }, '*');
+    }
+
+    async function applyUpdate({ modules, imports }) {
+      try {
+        for (const update of modules) {
+          const module = await import(update.url);
+          const exports = Object.values(module);
+          if (exports.length === 0 || !exports.every((value) => RefreshRuntime.isLikelyComponentType(value))) {
+            reply('reload', update.path + ' exports values other than components');
+            return;
+          }
+        }
+        RefreshRuntime.performReactRefresh();
+        window.__uigenImports = imports;
+        window.__uigenStyles = window.__uigenLoadStyles();
+        reply('applied');
+      } catch (error) {
+        reply('reload', String(error));
+      }
+    }
+
+    // Updates are applied one at a time, in order
+    let updates = Promise.resolve();
+    window.addEventListener('message', (event) => {
+      if (event.source !== window.parent || !event.data || event.data.type !== ${JSON.stringify(HOT_UPDATE_MESSAGE)}) return;
+      updates = updates.then(() => applyUpdate(event.data));
+    });
+
+    window.__uigenMounted.then(() => reply('ready'));
+  </script>`;
+}
@@ -0,0 +1,248 @@
+/**
+ * Preview module bundler
+ * Bundles allowlisted npm packages from this app's node_modules into browser
+ * ES modules for the preview runtime, so the preview never needs a CDN
+ */
+
+import path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { readFile } from "fs/promises";
+import type { Plugin } from "esbuild";
+import {
+  getPreviewRuntimeConfig,
+  getPackageName,
+  isValidPackageName,
+  RUNTIME_PACKAGES,
+} from "./runtime-config";
+
+export type BundleResult =
+  | { success: true; code: string }
+  | { success: false; status: number; error: string };
+
+const execFileAsync = promisify(execFile);
+
+// Bundles are deterministic for a given install; the most recently used are kept,
+// and failures are dropped so they can be retried
+const MAX_CACHED_BUNDLES = 100;
+const bundleCache = new Map<string, Promise<BundleResult>>();
+
+// Subpaths each allowlisted package exports, read from its package.json
+const exportsCache = new Map<string, Promise<string[] | null>>();
+
+// Module specifier: package name plus an optional subpath, no traversal
+const SUBPATH_PATTERN = /^[A-Za-z0-9._~-]+$/;
+
+/**
+ * Whether a specifier is safe to resolve from node_modules
+ * "react-dom/client" -> true, "react/../../etc" -> false
+ */
+export function isValidModuleSpecifier(specifier: string): boolean {
+  const name = getPackageName(specifier);
+  if (!isValidPackageName(name)) return false;
+  const subpath = specifier.slice(name.length);
+  if (!subpath) return true;
+  return subpath
+    .slice(1)
+    .split("/")
+    .every((part) => SUBPATH_PATTERN.test(part) && part !== "." && part !== "..");
+}
+
+// Time allowed for reading a module's export names in a child process
+const EXPORT_NAMES_TIMEOUT_MS = 15_000;
+
+/**
+ * Names a module exports, read by loading it in Node
+ * Needed because CommonJS packages like React have no static ES exports;
+ * Node detects their named exports when they are imported. It runs in a child
+ * process with the development build the preview gets (some packages, like
+ * react-refresh, throw in production), and keeps the module out of this server
+ */
+async function getExportNames(specifier: string): Promise<string[]> {
+  const script = `const mod = await import(${JSON.stringify(specifier)}); console.log(JSON.stringify(Object.keys(mod)));`;
+  const { stdout } = await execFileAsync(process.execPath, ["--input-type=module", "-e", script], {
+    cwd: process.cwd(),
+    env: { ...process.env, NODE_ENV: "development" },
+    timeout: EXPORT_NAMES_TIMEOUT_MS,
+  });
+  const exported: string[] = JSON.parse(stdout);
+  return exported.filter(
+    (name) => /^[A-Za-z_$][\w$]*$/.test(name) && name !== "default" && name !== "__esModule"
+  );
+}
+
+/**
+ * Keep other allowlisted packages out of each bundle so the preview shares one
+ * copy of them (React must be a singleton). CommonJS require() calls to them are
+ * routed through a shim that re-exports the import map's module.
+ */
+function sharedPackagesPlugin(specifier: string, packages: string[]): Plugin {
+  return {
+    name: "preview-shared-packages",
+    setup(build) {
+      build.onResolve({ filter: /^[^./]/ }, (args) => {
+        if (args.namespace === "preview-shared") {
+          return { path: args.path, external: true };
+        }
+        if (args.path === specifier || !packages.includes(getPackageName(args.path))) {
+          return undefined;
+        }
+        return { path: args.path, namespace: "preview-shared" };
+      });
+      build.onLoad({ filter: /.*/, namespace: "preview-shared" }, (args) => ({
+        contents: `export * from ${JSON.stringify(args.path)};\nexport { default } from ${JSON.stringify(args.path)};\n`,
+        loader: "js",
+      }));
+    },
+  };
+}
+
+async function buildModule(specifier: string, packages: string[]): Promise<BundleResult> {
+  let names: string[];
+  try {
+    names = await getExportNames(specifier);
+  } catch {
+    return { success: false, status: 404, error: `Module "${specifier}" is not installed` };
+  }
+
+  // Every module gets named exports plus a default (module.exports for CommonJS)
+  const entry = [
+    `import * as mod from ${JSON.stringify(specifier)};`,
+    names.length > 0 ? `export const { ${names.join(", ")} } = mod;` : "",
+    "export default mod.default ?? mod;",
+  ].join("\n");
+
+  try {
+    const { build } = await import("esbuild");
+    const result = await build({
+      stdin: { contents: entry, resolveDir: process.cwd(), loader: "js" },
+      bundle: true,
+      format: "esm",
+      platform: "browser",
+      write: false,
+      minify: true,
+      logLevel: "silent",
+      // The preview is a development environment whatever this app's build is:
+      // Fast Refresh needs React's development build, which also gives clearer errors
+      define: { "process.env.NODE_ENV": JSON.stringify("development") },
+      plugins: [sharedPackagesPlugin(specifier, packages)],
+    });
+    return { success: true, code: result.outputFiles[0].text };
+  } catch (error) {
+    console.error(`[Preview Runtime] Failed to bundle ${specifier}:`, error);
+    return { success: false, status: 500, error: `Failed to bundle "${specifier}"` };
+  }
+}
+
+/**
+ * Keys of a package's exports map ("." is the package itself), or null if it has
+ * none; only the package itself is served then
+ */
+function readExportedSubpaths(name: string): Promise<string[] | null> {
+  let subpaths = exportsCache.get(name);
+  if (!subpaths) {
+    subpaths = readFile(path.join(process.cwd(), "node_modules", name, "package.json"), "utf8")
+      .then((manifest) => {
+        const { exports } = JSON.parse(manifest);
+        if (!exports || typeof exports !== "object") return null;
+        const keys = Object.keys(exports);
+        // Conditions ({ import, require }) instead of subpaths export only the package itself
+        return keys.every((key) => key.startsWith(".")) ? keys : ["."];
+      })
+      .catch(() => null);
+    exportsCache.set(name, subpaths);
+  }
+  return subpaths;
+}
+
+/**
+ * Whether a package's manifest exports a subpath
+ * ("./client", ["./client"]) -> true, ("./locale/de", ["./locale/*"]) -> true
+ */
+export function isExportedSubpath(subpath: string, exported: string[] | null): boolean {
+  if (!exported) return subpath === ".";
+  if (subpath.endsWith(".json")) return false;
+  return exported.some((key) => {
+    const [prefix, suffix, ...rest] = key.split("*");
+    if (suffix === undefined) return key === subpath;
+    return (
+      rest.length === 0 &&
+      subpath.length > prefix.length + suffix.length &&
+      subpath.startsWith(prefix) &&
+      subpath.endsWith(suffix)
+    );
+  });
+}
+
+/**
+ * Bundle an allowlisted module for the preview
+ * Only the package itself and the subpaths its manifest exports are built
+ */
+export async function bundlePreviewModule(specifier: string): Promise<BundleResult> {
+  if (!isValidModuleSpecifier(specifier)) {
+    return { success: false, status: 400, error: "Invalid module specifier" };
+  }
+
+  const { packages } = getPreviewRuntimeConfig();
+  const name = getPackageName(specifier);
+  if (!packages.includes(name) && !RUNTIME_PACKAGES.includes(name)) {
+    return {
+      success: false,
+      status: 404,
+      error: `Package "${name}" is not in the preview allowlist`,
+    };
+  }
+
+  const cached = bundleCache.get(specifier);
+  if (cached) {
+    // Move to the end, so the least recently used bundle is evicted first
+    bundleCache.delete(specifier);
+    bundleCache.set(specifier, cached);
+    return cached;
+  }
+
+  const subpath = `.${specifier.slice(name.length)}`;
+  if (!isExportedSubpath(subpath, await readExportedSubpaths(name))) {
+    return { success: false, status: 404, error: `Module "${specifier}" is not exported by "${name}"` };
+  }
+
+  // Another request may have started the same build while the manifest was read
+  let bundle = bundleCache.get(specifier);
+  if (!bundle) {
+    const building = buildModule(specifier, packages);
+    bundle = building;
+    if (bundleCache.size >= MAX_CACHED_BUNDLES) {
+      bundleCache.delete(bundleCache.keys().next().value!);
+    }
+    bundleCache.set(specifier, building);
+    building.then((result) => {
+      if (!result.success && bundleCache.get(specifier) === building) {
+        bundleCache.delete(specifier);
+      }
+    });
+  }
+  return bundle;
+}
+
+/**
+ * Installed versions of the allowlisted packages, shown as their resolved versions
+ * null for packages that are allowlisted but not installed
+ */
+export async function getInstalledPackageVersions(): Promise<Record<string, string | null>> {
+  const { packages } = getPreviewRuntimeConfig();
+  const versions = await Promise.all(
+    packages.map(async (name) => {
+      try {
+        const manifest = await readFile(
+          path.join(process.cwd(), "node_modules", name, "package.json"),
+          "utf8"
+        );
+        const version = JSON.parse(manifest).version;
+        return [name, typeof version === "string" ? version : null] as const;
+      } catch {
+        return [name, null] as const;
+      }
+    })
+  );
+  return Object.fromEntries(versions);
+}
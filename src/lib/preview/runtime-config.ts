@@ -0,0 +1,90 @@
+/**
+ * Preview runtime configuration
+ * The preview loads React, allowlisted packages and Tailwind styles from this
+ * app's own server so it works without internet access; esm.sh is only used
+ * when the CDN fallback is explicitly enabled
+ */
+
+export interface PreviewRuntimeConfig {
+  packages: string[]; // Package names bundled and served locally
+  cdnFallback: boolean; // Load packages that aren't allowlisted from esm.sh
+}
+
+/** Base path of the local runtime routes */
+export const PREVIEW_RUNTIME_PATH = "/api/preview-runtime";
+
+/** Endpoint compiling the Tailwind classes used by the previewed sources */
+export const PREVIEW_TAILWIND_URL = `${PREVIEW_RUNTIME_PATH}/tailwind`;
+
+// Always served locally; the preview needs exactly one copy of React
+const CORE_PACKAGES = ["react", "react-dom"];
+
+// Served for the preview's own scripts rather than project code (Fast Refresh)
+export const RUNTIME_PACKAGES = ["react-refresh"];
+
+// Installed with this app, so they can be bundled without extra setup
+const DEFAULT_PACKAGES = [
+  "lucide-react",
+  "clsx",
+  "tailwind-merge",
+  "class-variance-authority",
+  "date-fns",
+];
+
+// npm package name, optionally scoped
+const PACKAGE_NAME_PATTERN = /^(@[a-z0-9][a-z0-9._~-]*\/)?[a-z0-9][a-z0-9._~-]*$/;
+
+export function isValidPackageName(name: string): boolean {
+  return PACKAGE_NAME_PATTERN.test(name);
+}
+
+// Package name from a bare specifier, dropping any subpath
+// "lodash/debounce" -> "lodash", "@radix-ui/react-dialog/dist" -> "@radix-ui/react-dialog"
+export function getPackageName(importPath: string): string {
+  const parts = importPath.split("/");
+  return importPath.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+/**
+ * Read the runtime configuration from the environment
+ * NEXT_PUBLIC_PREVIEW_PACKAGES: comma-separated allowlist replacing the defaults
+ * NEXT_PUBLIC_PREVIEW_CDN_FALLBACK: "true" to load other packages from esm.sh
+ * Both are public so the client builds the same import map the server serves
+ */
+export function getPreviewRuntimeConfig(
+  env: { packages?: string; cdnFallback?: string } = {
+    // Referenced literally so Next.js inlines them into the client bundle
+    packages: process.env.NEXT_PUBLIC_PREVIEW_PACKAGES,
+    cdnFallback: process.env.NEXT_PUBLIC_PREVIEW_CDN_FALLBACK,
+  }
+): PreviewRuntimeConfig {
+  const configured = env.packages
+    ?.split(",")
+    .map((name) => name.trim())
+    .filter(isValidPackageName);
+
+  return {
+    packages: Array.from(
+      new Set([...CORE_PACKAGES, ...(configured?.length ? configured : DEFAULT_PACKAGES)])
+    ),
+    cdnFallback: env.cdnFallback === "true",
+  };
+}
+
+/**
+ * URL of a locally served module
+ * "react-dom/client" -> "/api/preview-runtime/modules/react-dom/client"
+ */
+export function getLocalModuleUrl(specifier: string): string {
+  return `${PREVIEW_RUNTIME_PATH}/modules/${specifier}`;
+}
+
+/**
+ * URL of a pinned module on esm.sh, used only with the CDN fallback enabled
+ * React stays external so the package shares the preview's single copy
+ * ("framer-motion/dom", "11.2.0") -> "https://esm.sh/framer-motion@11.2.0/dom?external=react,react-dom"
+ */
+export function getCdnModuleUrl(specifier: string, version: string): string {
+  const name = getPackageName(specifier);
+  return `https://esm.sh/${name}@${version}${specifier.slice(name.length)}?external=react,react-dom`;
+}
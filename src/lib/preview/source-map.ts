@@ -0,0 +1,142 @@
+/**
+ * Source maps for preview modules
+ * Each transformed file carries an inline source map; stack traces from the
+ * preview point at transformed code and are mapped back to the original file
+ * with a small VLQ decoder
+ */
+
+export interface SourceMap {
+  version: number;
+  sources: string[];
+  names?: string[];
+  mappings: string;
+  sourcesContent?: (string | null)[];
+  file?: string;
+}
+
+export interface SourcePosition {
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+// Decoded segment: generated column, then the original line and column (all 0-based)
+type Segment = [generatedColumn: number, originalLine: number, originalColumn: number];
+
+const BASE64_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_VALUES = new Map(Array.from(BASE64_CHARS, (char, index) => [char, index]));
+
+/**
+ * Decode one Base64 VLQ field list, e.g. "AAgBC" -> [0, 0, 16, 1]
+ * Each digit holds 5 bits plus a continuation bit; the lowest bit of a value is its sign
+ */
+export function decodeVLQ(encoded: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of encoded) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) throw new Error(`Invalid VLQ character "${char}"`);
+
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+// Segments of each generated line; fields are deltas from the previous segment,
+// and the generated column resets on every line
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let originalLine = 0;
+  let originalColumn = 0;
+
+  for (const line of mappings.split(";")) {
+    const segments: Segment[] = [];
+    let generatedColumn = 0;
+    for (const field of line.split(",")) {
+      if (!field) continue;
+      const [column, , lineDelta, columnDelta] = decodeVLQ(field);
+      generatedColumn += column;
+      // Segments without a source position map nothing
+      if (lineDelta === undefined) continue;
+      originalLine += lineDelta;
+      originalColumn += columnDelta;
+      segments.push([generatedColumn, originalLine, originalColumn]);
+    }
+    lines.push(segments);
+  }
+  return lines;
+}
+
+// Decoded mappings are reused while the same build's maps are in use
+const decodedCache = new WeakMap<SourceMap, Segment[][]>();
+
+/**
+ * Original position of a position in the transformed code
+ * Uses the closest segment at or before the column on that line
+ */
+export function getOriginalPosition(
+  map: SourceMap,
+  position: SourcePosition
+): SourcePosition | null {
+  let lines = decodedCache.get(map);
+  if (!lines) {
+    try {
+      lines = decodeMappings(map.mappings);
+    } catch {
+      return null;
+    }
+    decodedCache.set(map, lines);
+  }
+
+  const segments = lines[position.line - 1];
+  if (!segments || segments.length === 0) return null;
+
+  let match = segments[0];
+  for (const segment of segments) {
+    if (segment[0] > position.column - 1) break;
+    match = segment;
+  }
+  return { line: match[1] + 1, column: match[2] + 1 };
+}
+
+// "/components/Card.jsx:12:5" in stack frames and messages
+const LOCATION_PATTERN = /(\/[^\s():]+\.(?:jsx?|tsx?)):(\d+):(\d+)/g;
+
+/**
+ * Rewrite transformed-code locations in a stack trace to original locations
+ * "at Card (/components/Card.jsx:14:22)" -> "at Card (/components/Card.jsx:12:5)"
+ */
+export function mapStackToSources(text: string, maps: Map<string, SourceMap>): string {
+  return text.replace(LOCATION_PATTERN, (location, path: string, line: string, column: string) => {
+    const map = maps.get(path);
+    const original = map && getOriginalPosition(map, { line: Number(line), column: Number(column) });
+    return original ? `${path}:${original.line}:${original.column}` : location;
+  });
+}
+
+// UTF-8 safe base64, available in browsers and Node
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/**
+ * Comments appended to a transformed module: its inline source map and a
+ * sourceURL so stack traces and devtools name the virtual file, not a blob URL
+ */
+export function createSourceComments(path: string, map?: SourceMap | null): string {
+  const mapComment = map
+    ? `\n//# sourceMappingURL=data:application/json;charset=utf-8;base64,${toBase64(JSON.stringify(map))}`
+    : "";
+  return `${mapComment}\n//# sourceURL=${path}`;
+}
@@ -0,0 +1,80 @@
+/**
+ * Preview Tailwind compiler
+ * Compiles only the Tailwind classes that appear in the previewed sources,
+ * replacing the browser-side Tailwind CDN
+ */
+
+import path from "path";
+import { readFile } from "fs/promises";
+
+// Longest token considered a class candidate; longer strings are code or data
+const MAX_CANDIDATE_LENGTH = 200;
+
+// Compiled stylesheets for the most recently used class sets
+const MAX_CACHED_STYLESHEETS = 50;
+const stylesheetCache = new Map<string, string>();
+
+let tailwindSource: Promise<{ path: string; content: string }> | null = null;
+
+/**
+ * Split sources into possible class names
+ * Over-collection is fine: Tailwind ignores tokens that aren't utilities
+ * '<div className="flex hover:bg-red-500">' -> [..., "flex", "hover:bg-red-500", ...]
+ */
+export function extractTailwindCandidates(sources: string[]): string[] {
+  const candidates = new Set<string>();
+  for (const source of sources) {
+    for (const token of source.split(/[\s"'`{};<>]+/)) {
+      if (token && token.length <= MAX_CANDIDATE_LENGTH && /[a-z]/i.test(token)) {
+        candidates.add(token);
+      }
+    }
+  }
+  return Array.from(candidates).sort();
+}
+
+// Tailwind's stylesheet (theme, preflight and utilities) from this app's install
+function loadTailwindSource() {
+  if (!tailwindSource) {
+    // Not resolvable through the package's exports map, so read it from node_modules
+    const file = path.join(process.cwd(), "node_modules", "tailwindcss", "index.css");
+    tailwindSource = readFile(file, "utf8")
+      .then((content) => ({ path: file, content }))
+      .catch((error) => {
+        tailwindSource = null; // Retry on the next request
+        throw error;
+      });
+  }
+  return tailwindSource;
+}
+
+/**
+ * Compile the CSS for a set of class candidates
+ * A fresh compiler is used per class set because Tailwind compilers accumulate
+ * every candidate they have built
+ */
+export async function compileTailwind(candidates: string[]): Promise<string> {
+  const key = candidates.join(" ");
+  const cached = stylesheetCache.get(key);
+  if (cached !== undefined) {
+    // Move to the end, so the least recently used stylesheet is evicted first
+    stylesheetCache.delete(key);
+    stylesheetCache.set(key, cached);
+    return cached;
+  }
+
+  const { compile } = await import("tailwindcss");
+  const source = await loadTailwindSource();
+  const compiler = await compile('@import "tailwindcss";', {
+    base: path.dirname(source.path),
+    loadStylesheet: async () => ({ ...source, base: path.dirname(source.path) }),
+  });
+  const css = compiler.build(candidates);
+
+  // Evict the least recently used entry (Maps iterate in insertion order)
+  if (stylesheetCache.size >= MAX_CACHED_STYLESHEETS) {
+    stylesheetCache.delete(stylesheetCache.keys().next().value!);
+  }
+  stylesheetCache.set(key, css);
+  return css;
+}
@@ -0,0 +1,86 @@
+/**
+ * Preview viewports
+ * Device presets and the sizing math for rendering the preview at a fixed
+ * width and height inside a pane of any size
+ */
+
+export type ViewportPresetId = "fill" | "phone" | "tablet" | "desktop" | "custom";
+
+export interface ViewportPreset {
+  id: Exclude<ViewportPresetId, "fill" | "custom">;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+export const VIEWPORT_PRESETS: readonly ViewportPreset[] = [
+  { id: "phone", label: "Phone", width: 375, height: 667 },
+  { id: "tablet", label: "Tablet", width: 768, height: 1024 },
+  { id: "desktop", label: "Desktop", width: 1280, height: 800 },
+];
+
+// Smallest and largest custom dimension, in CSS pixels
+export const VIEWPORT_BOUNDS = { MIN: 200, MAX: 3840 } as const;
+
+// Space between frames in side-by-side mode, in CSS pixels
+export const SIDE_BY_SIDE_GAP = 24;
+
+/**
+ * Clamp a custom dimension to the supported range
+ * Non-numeric input falls back to the minimum
+ */
+export function clampViewportDimension(value: number): number {
+  if (!Number.isFinite(value)) return VIEWPORT_BOUNDS.MIN;
+  return Math.min(VIEWPORT_BOUNDS.MAX, Math.max(VIEWPORT_BOUNDS.MIN, Math.round(value)));
+}
+
+/**
+ * Size of a preset, swapped when rotated
+ * Returns null for "fill", which follows the pane
+ */
+export function getViewportSize(
+  presetId: ViewportPresetId,
+  custom: ViewportSize,
+  rotated: boolean
+): ViewportSize | null {
+  if (presetId === "fill") return null;
+
+  const size =
+    presetId === "custom"
+      ? {
+          width: clampViewportDimension(custom.width),
+          height: clampViewportDimension(custom.height),
+        }
+      : VIEWPORT_PRESETS.find((preset) => preset.id === presetId)!;
+
+  return rotated
+    ? { width: size.height, height: size.width }
+    : { width: size.width, height: size.height };
+}
+
+/**
+ * Scale that fits content into the available space without enlarging it
+ * "content" may be several frames laid out in a row; pass their combined size
+ */
+export function getFitScale(content: ViewportSize, available: ViewportSize): number {
+  if (content.width <= 0 || content.height <= 0) return 1;
+  if (available.width <= 0 || available.height <= 0) return 1;
+  return Math.min(1, available.width / content.width, available.height / content.height);
+}
+
+/**
+ * Combined size of the side-by-side frames laid out in a row
+ */
+export function getSideBySideSize(sizes: ViewportSize[]): ViewportSize {
+  return {
+    width:
+      sizes.reduce((total, size) => total + size.width, 0) +
+      SIDE_BY_SIDE_GAP * Math.max(0, sizes.length - 1),
+    height: Math.max(0, ...sizes.map((size) => size.height)),
+  };
+}
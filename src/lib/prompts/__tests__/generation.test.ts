@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { buildInstructionsPrompt } from "../generation";
+import { PROJECT_INSTRUCTIONS } from "@/lib/constants";
+
+describe("buildInstructionsPrompt", () => {
+  it("is empty when the project has no instructions", () => {
+    expect(buildInstructionsPrompt("", null)).toBe("");
+    expect(buildInstructionsPrompt("  \n", "\n")).toBe("");
+  });
+
+  it("includes instructions from settings", () => {
+    const prompt = buildInstructionsPrompt("Use TypeScript", null);
+
+    expect(prompt).toContain("<project_settings>\nUse TypeScript\n</project_settings>");
+    expect(prompt).not.toContain("<instructions_file");
+  });
+
+  it("includes the instructions file with its path", () => {
+    const prompt = buildInstructionsPrompt("", "# Brand\nPrimary: #0f766e\n");
+
+    expect(prompt).toContain(
+      `<instructions_file path="${PROJECT_INSTRUCTIONS.FILE_PATH}">\n# Brand\nPrimary: #0f766e\n</instructions_file>`
+    );
+    expect(prompt).not.toContain("<project_settings>");
+  });
+
+  it("includes both sources, settings first", () => {
+    const prompt = buildInstructionsPrompt("No external packages", "Use cards");
+
+    expect(prompt.indexOf("No external packages")).toBeLessThan(prompt.indexOf("Use cards"));
+  });
+
+  it("truncates instructions over the length limit", () => {
+    const prompt = buildInstructionsPrompt("x".repeat(PROJECT_INSTRUCTIONS.MAX_LENGTH + 50), null);
+
+    expect(prompt).toContain(`${"x".repeat(PROJECT_INSTRUCTIONS.MAX_LENGTH)}\n[truncated]`);
+    expect(prompt).not.toContain("x".repeat(PROJECT_INSTRUCTIONS.MAX_LENGTH + 1));
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Project snapshot helpers
+ * Every successful chat turn and manual save records a version of the
+ * project's file system so a bad AI turn can be rolled back
+ */
+
+import { prisma } from "./prisma";
+import { SNAPSHOT_LIMITS } from "./constants";
+
+export type SnapshotSource = "chat" | "manual";
+
+/**
+ * Summary of a snapshot shown in the history panel (no file data)
+ */
+export type SnapshotSummary = {
+  id: string;
+  prompt: string;
+  source: SnapshotSource;
+  createdAt: Date;
+};
+
+/**
+ * Extract the text of the most recent user message
+ * Handles both UIMessage format (parts) and legacy format (content)
+ */
+export function getSnapshotPrompt(messages: any[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message?.role !== "user") continue;
+
+    let text = "";
+    if (typeof message.content === "string") {
+      text = message.content;
+    } else if (Array.isArray(message.parts)) {
+      text = message.parts
+        .filter((p: any) => p?.type === "text" && typeof p.text === "string")
+        .map((p: any) => p.text)
+        .join(" ");
+    } else if (Array.isArray(message.content)) {
+      text = message.content
+        .filter((c: any) => typeof c === "string" || c?.type === "text")
+        .map((c: any) => (typeof c === "string" ? c : c.text))
+        .join(" ");
+    }
+
+    return truncatePrompt(text);
+  }
+
+  return "";
+}
+
+/**
+ * Collapse whitespace and truncate a prompt to the stored maximum length
+ */
+export function truncatePrompt(prompt: string): string {
+  const collapsed = prompt.replace(/\s+/g, " ").trim();
+  if (collapsed.length <= SNAPSHOT_LIMITS.PROMPT_MAX_LENGTH) {
+    return collapsed;
+  }
+  return collapsed.slice(0, SNAPSHOT_LIMITS.PROMPT_MAX_LENGTH - 1) + "…";
+}
+
+/**
+ * Record a snapshot of a project's serialized file system
+ * Prunes the oldest snapshots beyond SNAPSHOT_LIMITS.MAX_PER_PROJECT
+ * Caller is responsible for verifying project ownership
+ */
+export async function recordProjectSnapshot({
+  projectId,
+  data,
+  prompt,
+  source,
+}: {
+  projectId: string;
+  data: string;
+  prompt: string;
+  source: SnapshotSource;
+}): Promise<void> {
+  await prisma.projectSnapshot.create({
+    data: {
+      projectId,
+      data,
+      prompt: truncatePrompt(prompt),
+      source,
+    },
+  });
+
+  // Keep only the newest MAX_PER_PROJECT snapshots
+  const stale = await prisma.projectSnapshot.findMany({
+    where: { projectId },
+    orderBy: { createdAt: "desc" },
+    skip: SNAPSHOT_LIMITS.MAX_PER_PROJECT,
+    select: { id: true },
+  });
+
+  if (stale.length > 0) {
+    await prisma.projectSnapshot.deleteMany({
+      where: { id: { in: stale.map((s: { id: string }) => s.id) } },
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, test, expect, beforeEach, vi } from "vitest";
+import { buildAddDependencyTool } from "../add-dependency";
+import { VirtualFileSystem } from "@/lib/file-system";
+
+vi.mock("@/lib/preview/module-bundler", () => ({
+  getInstalledPackageVersions: vi.fn(async () => ({ "lucide-react": "0.475.0" })),
+}));
+
+// Helper to execute tool (v6 API requires two arguments)
+async function executeTool(tool: ReturnType<typeof buildAddDependencyTool>, args: any) {
+  return tool.execute!(args, {} as any) as Promise<string>;
+}
+
+describe("add-dependency tool", () => {
+  let fileSystem: VirtualFileSystem;
+
+  beforeEach(() => {
+    fileSystem = new VirtualFileSystem();
+    vi.unstubAllEnvs();
+  });
+
+  test("should describe the locally bundled packages", () => {
+    const tool = buildAddDependencyTool(fileSystem);
+    expect(tool.description).toContain("/package.json");
+    expect(tool.description).toContain("lucide-react");
+  });
+
+  test("should report the installed version of a local package", async () => {
+    const tool = buildAddDependencyTool(fileSystem);
+    const result = await executeTool(tool, { name: "lucide-react", version: "^0.475.0" });
+
+    expect(result).toBe(
+      "Added lucide-react@^0.475.0 to /package.json. The preview serves lucide-react 0.475.0 locally."
+    );
+    expect(fileSystem.readFile("/package.json")).toContain('"lucide-react": "^0.475.0"');
+  });
+
+  test("should report packages loaded from esm.sh with the CDN fallback", async () => {
+    vi.stubEnv("NEXT_PUBLIC_PREVIEW_CDN_FALLBACK", "true");
+    const tool = buildAddDependencyTool(fileSystem);
+    const result = await executeTool(tool, { name: "framer-motion", version: "11.2.0" });
+
+    expect(result).toContain("The preview loads framer-motion@11.2.0 from esm.sh");
+  });
+
+  test("should warn when a package can't be loaded", async () => {
+    const tool = buildAddDependencyTool(fileSystem);
+    const result = await executeTool(tool, { name: "framer-motion", version: "11.2.0" });
+
+    expect(result).toContain("Warning: framer-motion is not available in the preview");
+  });
+
+  test("should return errors for unpinned versions", async () => {
+    const tool = buildAddDependencyTool(fileSystem);
+    const result = await executeTool(tool, { name: "framer-motion", version: "latest" });
+
+    expect(result).toMatch(/^Error: Invalid version/);
+    expect(fileSystem.readFile("/package.json")).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { buildApplyPatchTool } from "../apply-patch";
+import { VirtualFileSystem } from "@/lib/file-system";
+
+// Helper to execute tool (v6 API requires two arguments)
+async function executeTool(tool: ReturnType<typeof buildApplyPatchTool>, args: any) {
+  return tool.execute!(args, {} as any) as Promise<string>;
+}
+
+describe("apply-patch tool", () => {
+  let fileSystem: VirtualFileSystem;
+  let tool: ReturnType<typeof buildApplyPatchTool>;
+
+  beforeEach(() => {
+    fileSystem = new VirtualFileSystem();
+    fileSystem.createFile("/App.jsx", "export default function App() {\n  return <div>Hi</div>;\n}");
+    tool = buildApplyPatchTool(fileSystem);
+  });
+
+  test("should apply a unified diff", async () => {
+    const result = await executeTool(tool, {
+      patch: "--- a/App.jsx\n+++ b/App.jsx\n@@ -2 +2 @@\n-  return <div>Hi</div>;\n+  return <div>Hello</div>;\n",
+    });
+
+    expect(result).toBe("Patch applied to 1 file:\n- /App.jsx (+1 -1)");
+    expect(fileSystem.readFile("/App.jsx")).toContain("<div>Hello</div>");
+  });
+
+  test("should apply a list of edits or none of them", async () => {
+    const result = await executeTool(tool, {
+      edits: [
+        { path: "/App.jsx", old_str: "Hi", new_str: "Hello" },
+        { path: "/Card.jsx", old_str: "card", new_str: "Card" },
+      ],
+    });
+
+    expect(result).toBe("Error: Patch not applied; no files were changed.\n- /Card.jsx edit 2: file not found");
+    expect(fileSystem.readFile("/App.jsx")).toContain("<div>Hi</div>");
+  });
+});
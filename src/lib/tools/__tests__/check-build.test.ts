@@ -0,0 +1,50 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { buildCheckBuildTool } from "../check-build";
+import { VirtualFileSystem } from "@/lib/file-system";
+import { AUTO_REPAIR } from "@/lib/constants";
+
+// Helper to execute tool (v6 API requires two arguments)
+async function executeTool(tool: ReturnType<typeof buildCheckBuildTool>) {
+  return tool.execute!({}, {} as any) as Promise<string>;
+}
+
+describe("check-build tool", () => {
+  let fileSystem: VirtualFileSystem;
+
+  beforeEach(() => {
+    fileSystem = new VirtualFileSystem();
+    fileSystem.createFileWithParents("/App.jsx", "export default function App() { return <div />; }");
+  });
+
+  test("should report a clean build", async () => {
+    const result = await executeTool(buildCheckBuildTool(fileSystem));
+
+    expect(result).toContain("Build is clean.");
+    expect(result).toContain(`${AUTO_REPAIR.MAX_BUILD_CHECKS - 1} build checks left this turn.`);
+  });
+
+  test("should report syntax errors with their file", async () => {
+    fileSystem.createFileWithParents("/components/Card.jsx", "export default function Card() { return <div>; }");
+
+    const result = await executeTool(buildCheckBuildTool(fileSystem));
+
+    expect(result).toContain("Build has 1 error:");
+    expect(result).toContain("- /components/Card.jsx:");
+  });
+
+  test("should include preview errors on the first check only", async () => {
+    const tool = buildCheckBuildTool(fileSystem, ["Uncaught ReferenceError: items is not defined"]);
+
+    expect(await executeTool(tool)).toContain("- Uncaught ReferenceError: items is not defined");
+    expect(await executeTool(tool)).not.toContain("items is not defined");
+  });
+
+  test("should stop after the check budget is used", async () => {
+    const tool = buildCheckBuildTool(fileSystem);
+    for (let i = 0; i < AUTO_REPAIR.MAX_BUILD_CHECKS; i++) {
+      await executeTool(tool);
+    }
+
+    expect(await executeTool(tool)).toContain("Build check budget used up");
+  });
+});
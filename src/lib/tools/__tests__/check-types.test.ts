@@ -0,0 +1,57 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { buildCheckTypesTool } from "../check-types";
+import { VirtualFileSystem } from "@/lib/file-system";
+import { TYPE_CHECK } from "@/lib/constants";
+
+// Helper to execute tool (v6 API requires two arguments)
+async function executeTool(tool: ReturnType<typeof buildCheckTypesTool>) {
+  return tool.execute!({}, {} as any) as Promise<string>;
+}
+
+describe("check-types tool", () => {
+  let fileSystem: VirtualFileSystem;
+
+  beforeEach(() => {
+    fileSystem = new VirtualFileSystem();
+    fileSystem.createFileWithParents(
+      "/App.tsx",
+      "export default function App() { return <div className=\"p-4\" />; }"
+    );
+  });
+
+  test("should report a project without type errors", async () => {
+    const result = await executeTool(buildCheckTypesTool(fileSystem));
+
+    expect(result).toContain("No type errors.");
+    expect(result).toContain(`${TYPE_CHECK.MAX_CHECKS - 1} type checks left this turn.`);
+  }, 60_000);
+
+  test("should report type errors with their location", async () => {
+    fileSystem.createFileWithParents(
+      "/components/Counter.tsx",
+      "export function Counter() {\n  const count: number = \"zero\";\n  return <span>{count}</span>;\n}"
+    );
+
+    const result = await executeTool(buildCheckTypesTool(fileSystem));
+
+    expect(result).toContain("Found 1 type error:");
+    expect(result).toContain("- /components/Counter.tsx:2:9 - error TS2322:");
+  }, 60_000);
+
+  test("should skip projects without TypeScript files", async () => {
+    fileSystem = new VirtualFileSystem();
+    fileSystem.createFileWithParents("/App.jsx", "export default function App() { return <div />; }");
+
+    expect(await executeTool(buildCheckTypesTool(fileSystem))).toContain("No TypeScript files to check.");
+  });
+
+  test("should stop after the check budget is used", async () => {
+    fileSystem = new VirtualFileSystem();
+    const tool = buildCheckTypesTool(fileSystem);
+    for (let i = 0; i < TYPE_CHECK.MAX_CHECKS; i++) {
+      await executeTool(tool);
+    }
+
+    expect(await executeTool(tool)).toContain("Type check budget used up");
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { buildSearchFilesTool, globToRegExp, matchesGlob } from "../search-files";
+import { VirtualFileSystem } from "@/lib/file-system";
+import { FILE_SEARCH } from "@/lib/constants";
+
+// Helper to execute tool (v6 API requires two arguments)
+async function executeTool(tool: ReturnType<typeof buildSearchFilesTool>, args: any) {
+  return tool.execute!(args, {} as any) as Promise<string>;
+}
+
+describe("matchesGlob", () => {
+  test("should match file names in any folder when the pattern has no slash", () => {
+    expect(matchesGlob("/App.jsx", "*.jsx")).toBe(true);
+    expect(matchesGlob("/components/ui/Button.jsx", "*.jsx")).toBe(true);
+    expect(matchesGlob("/components/Button.tsx", "*.jsx")).toBe(false);
+  });
+
+  test("should anchor patterns with a slash to the root", () => {
+    expect(matchesGlob("/components/Card.jsx", "/components/*")).toBe(true);
+    expect(matchesGlob("/components/ui/Card.jsx", "/components/*")).toBe(false);
+    expect(matchesGlob("/components/ui/Card.jsx", "components/**")).toBe(true);
+    expect(matchesGlob("/App.tsx", "**/*.tsx")).toBe(true);
+  });
+
+  test("should support ? and {a,b}", () => {
+    expect(matchesGlob("/components/Card.tsx", "*.{jsx,tsx}")).toBe(true);
+    expect(matchesGlob("/a1.js", "/a?.js")).toBe(true);
+    expect(matchesGlob("/a/b.js", "/a?b.js")).toBe(false);
+  });
+
+  test("should treat regex characters literally", () => {
+    expect(globToRegExp("/file(1).js").test("/file(1).js")).toBe(true);
+    expect(globToRegExp("/a.js").test("/abjs")).toBe(false);
+  });
+});
+
+describe("search-files tool", () => {
+  let fileSystem: VirtualFileSystem;
+  let tool: ReturnType<typeof buildSearchFilesTool>;
+
+  beforeEach(() => {
+    fileSystem = new VirtualFileSystem();
+    fileSystem.createFile("/App.jsx", "import Card from '@/components/Card';\nexport default function App() {\n  return <Card />;\n}");
+    fileSystem.createFile("/components/Card.jsx", "import { useState } from 'react';\nexport default function Card() {\n  const [open, setOpen] = useState(false);\n}");
+    fileSystem.createFile("/components/Button.tsx", "export function Button() {}");
+    tool = buildSearchFilesTool(fileSystem);
+  });
+
+  describe("glob command", () => {
+    test("should list matching paths", async () => {
+      expect(await executeTool(tool, { command: "glob", pattern: "/components/*" })).toBe(
+        "/components/Button.tsx\n/components/Card.jsx"
+      );
+    });
+
+    test("should report when nothing matches", async () => {
+      expect(await executeTool(tool, { command: "glob", pattern: "*.css" })).toBe("No files match *.css");
+    });
+  });
+
+  describe("grep command", () => {
+    test("should return matching lines with file and line numbers", async () => {
+      const result = await executeTool(tool, { command: "grep", pattern: "useState" });
+
+      expect(result).toBe(
+        [
+          "/components/Card.jsx:1: import { useState } from 'react';",
+          "/components/Card.jsx:3: const [open, setOpen] = useState(false);",
+          "",
+          "Found 2 matches in 1 file.",
+        ].join("\n")
+      );
+    });
+
+    test("should filter files with include and support ignore_case", async () => {
+      const result = await executeTool(tool, {
+        command: "grep",
+        pattern: "^export default function",
+        include: "/*.jsx",
+      });
+      expect(result).toContain("/App.jsx:2:");
+      expect(result).not.toContain("Card.jsx");
+
+      expect(await executeTool(tool, { command: "grep", pattern: "BUTTON", ignore_case: true })).toContain(
+        "/components/Button.tsx:1:"
+      );
+    });
+
+    test("should report invalid regular expressions", async () => {
+      expect(await executeTool(tool, { command: "grep", pattern: "(" })).toMatch(/^Error: Invalid regular expression/);
+    });
+
+    test("should reject patterns over the length limit", async () => {
+      const pattern = "a".repeat(FILE_SEARCH.MAX_PATTERN_LENGTH + 1);
+
+      expect(await executeTool(tool, { command: "grep", pattern })).toBe(
+        `Error: Pattern too long (max ${FILE_SEARCH.MAX_PATTERN_LENGTH} characters)`
+      );
+    });
+
+    test("should stop patterns that backtrack catastrophically", async () => {
+      fileSystem.createFile("/data.js", `${"a".repeat(40)}b`);
+
+      const started = Date.now();
+      const result = await executeTool(tool, { command: "grep", pattern: "(a+)+$" });
+
+      expect(result).toMatch(/^Error: Search timed out after 1s/);
+      expect(Date.now() - started).toBeLessThan(FILE_SEARCH.GREP_TIMEOUT_MS + 1000);
+    });
+
+    test("should report when nothing matches", async () => {
+      expect(await executeTool(tool, { command: "grep", pattern: "useEffect", include: "*.jsx" })).toBe(
+        "No matches for useEffect in *.jsx"
+      );
+    });
+
+    test("should cap the number of listed matches", async () => {
+      fileSystem.createFile("/data.js", Array.from({ length: FILE_SEARCH.MAX_MATCHES + 5 }, () => "item").join("\n"));
+
+      const result = await executeTool(tool, { command: "grep", pattern: "item" });
+
+      expect(result.split("\n").filter((line) => line.startsWith("/data.js:"))).toHaveLength(FILE_SEARCH.MAX_MATCHES);
+      expect(result).toContain("...and 5 more");
+      expect(result).toContain(`Found ${FILE_SEARCH.MAX_MATCHES + 5} matches in 1 file.`);
+    });
+  });
+
+  describe("read_many command", () => {
+    test("should return several files with line numbers", async () => {
+      const result = await executeTool(tool, {
+        command: "read_many",
+        paths: ["/components/Button.tsx", "/missing.jsx"],
+      });
+
+      expect(result).toBe(
+        "=== /components/Button.tsx ===\n1\texport function Button() {}\n\n=== /missing.jsx ===\nFile not found: /missing.jsx"
+      );
+    });
+
+    test("should require paths", async () => {
+      expect(await executeTool(tool, { command: "read_many", paths: [] })).toBe("Error: paths is required for read_many");
+    });
+  });
+
+  test("should require a pattern for glob and grep", async () => {
+    expect(await executeTool(tool, { command: "glob" })).toBe("Error: pattern is required for glob");
+    expect(await executeTool(tool, { command: "grep" })).toBe("Error: pattern is required for grep");
+  });
+});
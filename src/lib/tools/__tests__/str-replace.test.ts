@@ -263,17 +263,48 @@ describe("str-replace tool", () => {
   });
 
   describe("undo_edit command", () => {
-    test("should return error message as undo is not supported", async () => {
-      fileSystem.createFileWithParents("/App.jsx", "content");
+    test("should revert the last str_replace", async () => {
+      fileSystem.createFileWithParents("/App.jsx", "const x = 1;");
+      await executeTool(tool, {
+        command: "str_replace",
+        path: "/App.jsx",
+        old_str: "1",
+        new_str: "2",
+      });
+
+      const result = await executeTool(tool, {
+        command: "undo_edit",
+        path: "/App.jsx",
+      });
+
+      expect(result).toContain("Reverted last edit");
+      expect(fileSystem.readFile("/App.jsx")).toBe("const x = 1;");
+    });
+
+    test("should undo file creation", async () => {
+      await executeTool(tool, {
+        command: "create",
+        path: "/components/Button.jsx",
+        file_text: "export default () => null;",
+      });
+
+      const result = await executeTool(tool, {
+        command: "undo_edit",
+        path: "/components/Button.jsx",
+      });
+
+      expect(result).toContain("Undid creation");
+      expect(fileSystem.exists("/components/Button.jsx")).toBe(false);
+    });
 
+    test("should return error when path has no edit history", async () => {
       const result = await executeTool(tool, {
         command: "undo_edit",
         path: "/App.jsx",
       });
 
       expect(result).toContain("Error");
-      expect(result).toContain("undo_edit");
-      expect(result).toContain("not supported");
+      expect(result).toContain("No edit history");
     });
   });
 
@@ -0,0 +1,46 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { VirtualFileSystem } from "@/lib/file-system";
+import { addDependency } from "@/lib/preview/dependency-manifest";
+import { getPreviewRuntimeConfig } from "@/lib/preview/runtime-config";
+import { getInstalledPackageVersions } from "@/lib/preview/module-bundler";
+
+// v6 API: inputSchema instead of parameters
+const addDependencyInputSchema = z.object({
+  name: z.string().describe('The npm package name, e.g. "framer-motion"'),
+  version: z
+    .string()
+    .describe('A pinned version or range, e.g. "11.2.0" or "^11.2.0". Tags like "latest" are not allowed.'),
+});
+
+type AddDependencyInput = z.infer<typeof addDependencyInputSchema>;
+
+// Records a dependency in /package.json
+export function buildAddDependencyTool(fileSystem: VirtualFileSystem) {
+  const config = getPreviewRuntimeConfig();
+
+  return tool({
+    description: [
+      "Add a third-party npm package to /package.json with a pinned version. Add a package before importing it.",
+      `The preview bundles these packages locally: ${config.packages.join(", ")}.`,
+      config.cdnFallback
+        ? "Other packages are loaded from esm.sh at the version listed in /package.json."
+        : "Other packages cannot be loaded by the preview; prefer the packages above or plain React.",
+    ].join(" "),
+    inputSchema: addDependencyInputSchema,
+    execute: async ({ name, version }: AddDependencyInput) => {
+      const result = addDependency(fileSystem, name, version);
+      if (result.startsWith("Error:")) {
+        return result;
+      }
+
+      if (config.packages.includes(name)) {
+        const installed = (await getInstalledPackageVersions())[name];
+        return `${result}. The preview serves ${name}${installed ? ` ${installed}` : ""} locally.`;
+      }
+      return config.cdnFallback
+        ? `${result}. The preview loads ${name}@${version} from esm.sh.`
+        : `${result}. Warning: ${name} is not available in the preview; the preview will show an error if it is imported.`;
+    },
+  });
+}
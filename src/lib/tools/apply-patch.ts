@@ -0,0 +1,36 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { VirtualFileSystem } from "@/lib/file-system";
+import { applyPatch } from "@/lib/patch";
+
+// v6 API: inputSchema instead of parameters
+const applyPatchInputSchema = z.object({
+  patch: z
+    .string()
+    .optional()
+    .describe(
+      "A unified diff: for each file a --- a/path and +++ b/path header, then @@ -line,count +line,count @@ hunks with space (context), - (removed) and + (added) lines. Use --- /dev/null to create a file and +++ /dev/null to delete one."
+    ),
+  edits: z
+    .array(
+      z.object({
+        path: z.string(),
+        old_str: z.string().describe("Exact text to replace; must occur once in the file. Empty to create the file."),
+        new_str: z.string(),
+      })
+    )
+    .optional()
+    .describe("Exact-text replacements, applied in order"),
+});
+
+type ApplyPatchInput = z.infer<typeof applyPatchInputSchema>;
+
+// Edits across several files at once, applied to every file or none
+export function buildApplyPatchTool(fileSystem: VirtualFileSystem) {
+  return tool({
+    description:
+      "Change several files in one call with a unified diff (patch) or a list of exact-text edits (edits). Every hunk and edit is checked first: if any fails, no file is changed and each failure is reported, so fix those and send the whole patch again.",
+    inputSchema: applyPatchInputSchema,
+    execute: async (input: ApplyPatchInput) => applyPatch(fileSystem, input),
+  });
+}
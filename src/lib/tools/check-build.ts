@@ -0,0 +1,53 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { VirtualFileSystem } from "@/lib/file-system";
+import { checkBuild } from "@/lib/transform/jsx-transformer";
+import { AUTO_REPAIR } from "@/lib/constants";
+
+// v6 API: inputSchema instead of parameters
+const checkBuildInputSchema = z.object({});
+
+// Reports the errors the preview would show for the current files, so the AI can
+// fix them before finishing. Errors the preview reported before this turn are
+// included too, since runtime errors can't be detected on the server.
+// Each turn gets a limited number of checks.
+export function buildCheckBuildTool(
+  fileSystem: VirtualFileSystem,
+  previewErrors: string[] = []
+) {
+  let checks = 0;
+
+  return tool({
+    description:
+      "Check the project for errors the preview would show (syntax errors, invalid /package.json, packages that can't be loaded). Call it after editing files and keep fixing until it reports a clean build.",
+    inputSchema: checkBuildInputSchema,
+    execute: async () => {
+      if (checks >= AUTO_REPAIR.MAX_BUILD_CHECKS) {
+        return `Build check budget used up (${AUTO_REPAIR.MAX_BUILD_CHECKS} checks). Stop editing and summarize any errors that remain.`;
+      }
+      checks++;
+      const remaining = AUTO_REPAIR.MAX_BUILD_CHECKS - checks;
+
+      const errors = checkBuild(fileSystem.getAllFiles());
+      const lines =
+        errors.length === 0
+          ? ["Build is clean."]
+          : [
+              `Build has ${errors.length} error${errors.length > 1 ? "s" : ""}:`,
+              ...errors.map(({ path, error }) => `- ${path}: ${error}`),
+            ];
+
+      // Only shown on the first check; later checks reflect the AI's own edits
+      if (checks === 1 && previewErrors.length > 0) {
+        lines.push(
+          "",
+          "Runtime errors the preview reported before this turn (check whether your edits fixed them):",
+          ...previewErrors.map((error) => `- ${error}`)
+        );
+      }
+
+      lines.push("", `${remaining} build check${remaining === 1 ? "" : "s"} left this turn.`);
+      return lines.join("\n");
+    },
+  });
+}
@@ -0,0 +1,63 @@
+import { tool } from "ai";
+import { z } from "zod";
+import ts from "typescript";
+import { VirtualFileSystem } from "@/lib/file-system";
+import { TypeChecker, formatDiagnostic, isTypeCheckedPath } from "@/lib/typescript/type-checker";
+import { loadTypeLibraries } from "@/lib/typescript/type-libraries";
+import { TYPE_CHECK } from "@/lib/constants";
+
+// v6 API: inputSchema instead of parameters
+const checkTypesInputSchema = z.object({});
+
+// Parsed lib files are shared by every check on this server
+const documentRegistry = ts.createDocumentRegistry();
+
+// Reports type errors in the project's .ts/.tsx files, which the preview's build
+// can't see since Babel only strips types. Each turn gets a limited number of checks.
+export function buildCheckTypesTool(fileSystem: VirtualFileSystem) {
+  let checks = 0;
+
+  return tool({
+    description:
+      "Type check the project's TypeScript (.ts/.tsx) files with the TypeScript compiler and React's type definitions. Call it after editing TypeScript files and fix the errors it reports before finishing.",
+    inputSchema: checkTypesInputSchema,
+    execute: async () => {
+      if (checks >= TYPE_CHECK.MAX_CHECKS) {
+        return `Type check budget used up (${TYPE_CHECK.MAX_CHECKS} checks). Stop editing and summarize any errors that remain.`;
+      }
+      checks++;
+      const remaining = TYPE_CHECK.MAX_CHECKS - checks;
+      const footer = `${remaining} type check${remaining === 1 ? "" : "s"} left this turn.`;
+
+      const files = fileSystem.getAllFiles();
+      if (!Array.from(files.keys()).some(isTypeCheckedPath)) {
+        return `No TypeScript files to check.\n\n${footer}`;
+      }
+
+      const checker = new TypeChecker(await loadTypeLibraries(), documentRegistry);
+      let diagnostics;
+      try {
+        checker.setFiles(files);
+        diagnostics = checker.getDiagnostics();
+      } finally {
+        checker.dispose();
+      }
+
+      const lines =
+        diagnostics.length === 0
+          ? ["No type errors."]
+          : [
+              `Found ${diagnostics.length} type error${diagnostics.length > 1 ? "s" : ""}:`,
+              ...diagnostics
+                .slice(0, TYPE_CHECK.MAX_REPORTED_DIAGNOSTICS)
+                .map((diagnostic) => `- ${formatDiagnostic(diagnostic)}`),
+            ];
+      if (diagnostics.length > TYPE_CHECK.MAX_REPORTED_DIAGNOSTICS) {
+        lines.push(`...and ${diagnostics.length - TYPE_CHECK.MAX_REPORTED_DIAGNOSTICS} more`);
+      }
+
+      lines.push("", footer);
+      return lines.join("\n");
+    },
+  });
+}
@@ -0,0 +1,175 @@
+import vm from "node:vm";
+import { tool } from "ai";
+import { z } from "zod";
+import { VirtualFileSystem } from "../file-system";
+import { FILE_SEARCH } from "@/lib/constants";
+
+// v6 API: inputSchema instead of parameters
+const searchFilesInputSchema = z.object({
+  command: z
+    .enum(["glob", "grep", "read_many"])
+    .describe("glob: find files by path, grep: search file contents, read_many: read several files"),
+  pattern: z
+    .string()
+    .optional()
+    .describe(
+      'For glob, a path pattern such as "**/*.tsx" or "/components/*"; for grep, a JavaScript regular expression'
+    ),
+  include: z
+    .string()
+    .optional()
+    .describe('For grep, only search files whose path matches this glob, e.g. "*.jsx"'),
+  ignore_case: z.boolean().optional().describe("For grep, match regardless of case"),
+  paths: z
+    .array(z.string())
+    .optional()
+    .describe(`For read_many, the files to read (at most ${FILE_SEARCH.MAX_READ_FILES})`),
+});
+
+type SearchFilesInput = z.infer<typeof searchFilesInputSchema>;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Glob syntax: * within a folder, ** across folders, ? one character, {a,b} alternatives
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" also matches no folder at all
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{" && glob.indexOf("}", i) !== -1) {
+      const end = glob.indexOf("}", i);
+      source += `(?:${glob.slice(i + 1, end).split(",").map(escapeRegExp).join("|")})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Patterns without a slash match file names in any folder, like .gitignore
+export function matchesGlob(path: string, glob: string): boolean {
+  const pattern = !glob.includes("/") ? `/**/${glob}` : glob.startsWith("/") ? glob : `/${glob}`;
+  return globToRegExp(pattern).test(path);
+}
+
+function findFiles(files: Map<string, string>, pattern: string): string {
+  const matches = Array.from(files.keys())
+    .filter((path) => matchesGlob(path, pattern))
+    .sort();
+  return matches.length === 0 ? `No files match ${pattern}` : matches.join("\n");
+}
+
+// Every line is tested in one script with a time limit, so a pattern that
+// backtracks catastrophically (e.g. "(a+)+$") is stopped instead of blocking the server
+const MATCH_LINES = new vm.Script("lines.map((line) => regex.test(line))");
+
+function matchLines(regex: RegExp, lines: string[]): boolean[] | null {
+  try {
+    return MATCH_LINES.runInNewContext({ regex, lines }, { timeout: FILE_SEARCH.GREP_TIMEOUT_MS });
+  } catch (error) {
+    if ((error as { code?: string }).code === "ERR_SCRIPT_EXECUTION_TIMEOUT") return null;
+    throw error;
+  }
+}
+
+function grepFiles(
+  files: Map<string, string>,
+  pattern: string,
+  include: string | undefined,
+  ignoreCase: boolean
+): string {
+  if (pattern.length > FILE_SEARCH.MAX_PATTERN_LENGTH) {
+    return `Error: Pattern too long (max ${FILE_SEARCH.MAX_PATTERN_LENGTH} characters)`;
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, ignoreCase ? "i" : "");
+  } catch (error) {
+    return `Error: Invalid regular expression: ${error instanceof Error ? error.message : pattern}`;
+  }
+
+  const lines: { path: string; number: number; text: string }[] = [];
+  for (const path of Array.from(files.keys()).sort()) {
+    if (include && !matchesGlob(path, include)) continue;
+    files.get(path)!.split("\n").forEach((text, index) => lines.push({ path, number: index + 1, text }));
+  }
+
+  const matched = matchLines(regex, lines.map((line) => line.text));
+  if (!matched) {
+    return `Error: Search timed out after ${FILE_SEARCH.GREP_TIMEOUT_MS / 1000}s; simplify the pattern (avoid nested quantifiers such as (a+)+) or narrow it with include`;
+  }
+
+  const results: string[] = [];
+  const matchedFiles = new Set<string>();
+  let total = 0;
+  lines.forEach(({ path, number, text: line }, index) => {
+    if (!matched[index]) return;
+    total++;
+    matchedFiles.add(path);
+    if (results.length < FILE_SEARCH.MAX_MATCHES) {
+      const text =
+        line.length > FILE_SEARCH.MAX_LINE_LENGTH ? `${line.slice(0, FILE_SEARCH.MAX_LINE_LENGTH)}…` : line;
+      results.push(`${path}:${number}: ${text.trim()}`);
+    }
+  });
+
+  if (total === 0) {
+    return `No matches for ${pattern}${include ? ` in ${include}` : ""}`;
+  }
+  const summary = `Found ${total} match${total === 1 ? "" : "es"} in ${matchedFiles.size} file${matchedFiles.size === 1 ? "" : "s"}`;
+  const more = total > results.length ? `\n...and ${total - results.length} more; narrow the pattern or use include` : "";
+  return `${results.join("\n")}${more}\n\n${summary}.`;
+}
+
+function readFiles(fileSystem: VirtualFileSystem, paths: string[]): string {
+  const shown = paths.slice(0, FILE_SEARCH.MAX_READ_FILES);
+  const sections = shown.map((path) => `=== ${path} ===\n${fileSystem.viewFile(path)}`);
+  if (paths.length > shown.length) {
+    sections.push(`...${paths.length - shown.length} more not read; request them in another call`);
+  }
+  return sections.join("\n\n");
+}
+
+// Read-only search over the project, so the AI doesn't have to list folders and
+// view files one at a time to find code
+export function buildSearchFilesTool(fileSystem: VirtualFileSystem) {
+  return tool({
+    description:
+      "Search the project without viewing files one by one. Commands: glob (list files whose path matches a pattern), grep (find lines matching a regular expression, with file and line numbers), read_many (view several files with line numbers in one call).",
+    inputSchema: searchFilesInputSchema,
+    execute: async ({ command, pattern, include, ignore_case, paths }: SearchFilesInput) => {
+      switch (command) {
+        case "glob":
+          if (!pattern) return "Error: pattern is required for glob";
+          return findFiles(fileSystem.getAllFiles(), pattern);
+
+        case "grep":
+          if (!pattern) return "Error: pattern is required for grep";
+          return grepFiles(fileSystem.getAllFiles(), pattern, include, ignore_case === true);
+
+        case "read_many":
+          if (!paths || paths.length === 0) return "Error: paths is required for read_many";
+          return readFiles(fileSystem, paths);
+
+        default:
+          return "Error: Unknown command";
+      }
+    },
+  });
+}
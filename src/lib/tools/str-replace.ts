@@ -18,7 +18,7 @@ type StrReplaceInput = z.infer<typeof strReplaceInputSchema>;
 export const buildStrReplaceTool = (fileSystem: VirtualFileSystem) => {
   return tool({
     description:
-      "A text editor tool for viewing, creating, and editing files. Commands: view (view file), create (create new file), str_replace (replace text), insert (insert at line), undo_edit (not supported).",
+      "A text editor tool for viewing, creating, and editing files. Commands: view (view file), create (create new file), str_replace (replace text), insert (insert at line), undo_edit (revert the most recent create, str_replace, insert, rename or delete of a path made during this response).",
     inputSchema: strReplaceInputSchema,
     execute: async ({
       command,
@@ -46,7 +46,7 @@ export const buildStrReplaceTool = (fileSystem: VirtualFileSystem) => {
           return fileSystem.insertInFile(path, insert_line || 0, new_str || "");
 
         case "undo_edit":
-          return `Error: undo_edit command is not supported in this version. Use str_replace to revert changes.`;
+          return fileSystem.undoEdit(path);
       }
     },
   });
@@ -4,8 +4,18 @@ import {
   createBlobURL,
   createImportMap,
   createPreviewHTML,
+  isPackageImport,
+  getPackageName,
+  collectPackageImports,
+  discoverGalleryComponents,
+  getComponentName,
+  createGalleryHTML,
+  discoverStoryFiles,
+  createStoriesHTML,
+  checkBuild,
 } from "../jsx-transformer";
 import * as Babel from "@babel/standalone";
+import { createRefreshHelpers } from "@/lib/preview/hot-update";
 
 // Mock @babel/standalone
 vi.mock("@babel/standalone", () => ({
@@ -28,7 +38,7 @@ test("transformJSX transforms TypeScript files with correct presets", () => {
   const result = transformJSX(code, "test.tsx", new Set());
 
   expect(result.error).toBeUndefined();
-  expect(result.code).toBe("var Component = () => <div>Hello</div>;");
+  expect(result.code).toBe("var Component = () => <div>Hello</div>;" + createRefreshHelpers("test.tsx"));
   expect(result.missingImports).toBeDefined();
 });
 
@@ -37,7 +47,7 @@ test("transformJSX handles JavaScript files without TypeScript preset", () => {
   const result = transformJSX(code, "test.jsx", new Set());
 
   expect(result.error).toBeUndefined();
-  expect(result.code).toBe(code);
+  expect(result.code).toBe(code + createRefreshHelpers("test.jsx"));
   expect(result.missingImports).toBeDefined();
 });
 
@@ -71,6 +81,80 @@ test("transformJSX handles transform errors gracefully", () => {
   vi.mocked(Babel.transform).mockReset();
 });
 
+test("transformJSX reports where Babel found a syntax error", () => {
+  vi.mocked(Babel.transform).mockImplementationOnce(() => {
+    throw Object.assign(new Error("/Card.jsx: Unexpected token (3:4)"), { loc: { line: 3, column: 4 } });
+  });
+
+  const result = transformJSX("invalid code", "/Card.jsx", new Set());
+
+  // Babel columns are 0-based
+  expect(result.loc).toEqual({ line: 3, column: 5 });
+});
+
+test("transformJSX returns the source map of the transformed code", () => {
+  const map = { version: 3, sources: ["/App.jsx"], mappings: "AAAA" };
+  vi.mocked(Babel.transform).mockImplementationOnce(() => ({ code: "const a = 1;", map }) as any);
+
+  const result = transformJSX("const a = 1;", "/App.jsx", new Set());
+
+  expect(result.map).toBe(map);
+  expect(Babel.transform).toHaveBeenLastCalledWith(
+    "const a = 1;",
+    expect.objectContaining({ sourceMaps: true, sourceFileName: "/App.jsx" })
+  );
+});
+
+test("createImportMap names modules after their file and keeps their source maps", async () => {
+  const map = { version: 3, sources: ["/App.jsx"], mappings: "AAAA" };
+  vi.mocked(Babel.transform).mockImplementationOnce(() => ({ code: "export default 1;", map }) as any);
+  vi.mocked(URL.createObjectURL).mockClear();
+
+  const result = createImportMap(new Map([["/App.jsx", "export default 1;"]]));
+  const blob = vi.mocked(URL.createObjectURL).mock.calls[0][0] as Blob;
+  // jsdom's Blob has no text()
+  const source = await new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+
+  expect(source).toContain("export default 1;");
+  expect(source).toContain("//# sourceMappingURL=data:application/json;charset=utf-8;base64,");
+  expect(source).toMatch(/\/\/# sourceURL=\/App\.jsx$/);
+  expect(result.sourceMaps.get("/App.jsx")).toBe(map);
+});
+
+test("createImportMap uses data URLs for isolated previews", () => {
+  vi.mocked(Babel.transform).mockImplementationOnce(() => ({ code: "export default 1;" }) as any);
+  vi.mocked(URL.createObjectURL).mockClear();
+
+  const result = createImportMap(new Map([["/App.jsx", "export default 1;"]]), undefined, undefined, true);
+  const url: string = JSON.parse(result.importMap).imports["/App.jsx"];
+
+  expect(URL.createObjectURL).not.toHaveBeenCalled();
+  expect(url.startsWith("data:application/javascript;charset=utf-8,")).toBe(true);
+  expect(decodeURIComponent(url.slice(url.indexOf(",") + 1))).toContain("export default 1;");
+});
+
+test("transformJSX registers components for Fast Refresh", () => {
+  transformJSX("export default function App() {}", "/App.jsx", new Set());
+
+  const options = vi.mocked(Babel.transform).mock.lastCall![1] as { plugins: unknown[][] };
+  expect(options.plugins[0][1]).toEqual({ skipEnvCheck: true, emitFullSignatures: true });
+});
+
+test("createPreviewHTML installs the refresh runtime before loading the app", () => {
+  const { importMap } = createImportMap(new Map([["/App.jsx", "export default function App() {}"]]));
+  const html = createPreviewHTML("/App.jsx", importMap);
+
+  expect(JSON.parse(importMap).imports["react-refresh/runtime"]).toBe(
+    "/api/preview-runtime/modules/react-refresh/runtime"
+  );
+  expect(html.indexOf("import RefreshRuntime")).toBeLessThan(html.indexOf("loadApp()"));
+  expect(html).toContain("window.__uigenSetMounted?.()");
+});
+
 test("createBlobURL creates blob with correct mime type", () => {
   const code = "console.log('test');";
   const url = createBlobURL(code);
@@ -94,15 +178,121 @@ test("createBlobURL accepts custom mime type", () => {
   );
 });
 
-test("createImportMap includes React CDN imports", () => {
+test("createImportMap serves React from the local runtime", () => {
   const files = new Map();
   const result = createImportMap(files);
   const parsed = JSON.parse(result.importMap);
 
-  expect(parsed.imports).toHaveProperty("react", "https://esm.sh/react@19");
-  expect(parsed.imports).toHaveProperty("react-dom", "https://esm.sh/react-dom@19");
-  expect(parsed.imports).toHaveProperty("react-dom/client", "https://esm.sh/react-dom@19/client");
-  expect(parsed.imports).toHaveProperty("react/jsx-runtime", "https://esm.sh/react@19/jsx-runtime");
+  expect(parsed.imports).toHaveProperty("react", "/api/preview-runtime/modules/react");
+  expect(parsed.imports).toHaveProperty("react-dom", "/api/preview-runtime/modules/react-dom");
+  expect(parsed.imports).toHaveProperty("react-dom/client", "/api/preview-runtime/modules/react-dom/client");
+  expect(parsed.imports).toHaveProperty("react/jsx-runtime", "/api/preview-runtime/modules/react/jsx-runtime");
+  expect(result.importMap).not.toContain("esm.sh");
+});
+
+test("createImportMap maps allowlisted packages and their subpaths locally", () => {
+  const files = new Map([
+    ["/App.jsx", 'import { Star } from "lucide-react";\nexport default function App() {}'],
+  ]);
+  const result = createImportMap(files, { packages: ["react", "react-dom", "lucide-react"], cdnFallback: false });
+  const parsed = JSON.parse(result.importMap);
+
+  expect(parsed.imports["lucide-react"]).toBe("/api/preview-runtime/modules/lucide-react");
+  expect(parsed.imports["lucide-react/"]).toBe("/api/preview-runtime/modules/lucide-react/");
+  expect(result.errors).toEqual([]);
+});
+
+test("createImportMap reports packages that aren't allowlisted", () => {
+  const files = new Map([
+    ["/App.jsx", 'import { motion } from "framer-motion";\nexport default function App() {}'],
+    ["/Card.jsx", 'import { motion } from "framer-motion/dom";\nexport default function Card() {}'],
+  ]);
+  const result = createImportMap(files, { packages: ["react", "react-dom"], cdnFallback: false });
+  const parsed = JSON.parse(result.importMap);
+
+  expect(parsed.imports["framer-motion"]).toBeUndefined();
+  expect(result.errors).toHaveLength(1);
+  expect(result.errors[0].path).toBe("/App.jsx");
+  expect(result.errors[0].error).toContain('Package "framer-motion" is not available in the preview');
+});
+
+test("createImportMap loads packages pinned in /package.json from esm.sh with the CDN fallback", () => {
+  const files = new Map([
+    ["/App.jsx", 'import { motion } from "framer-motion";\nimport { animate } from "framer-motion/dom";\nexport default function App() {}'],
+    ["/package.json", JSON.stringify({ dependencies: { "framer-motion": "11.2.0" } })],
+  ]);
+  const result = createImportMap(files, { packages: ["react", "react-dom"], cdnFallback: true });
+  const parsed = JSON.parse(result.importMap);
+
+  expect(parsed.imports["framer-motion"]).toBe("https://esm.sh/framer-motion@11.2.0?external=react,react-dom");
+  expect(parsed.imports["framer-motion/dom"]).toBe("https://esm.sh/framer-motion@11.2.0/dom?external=react,react-dom");
+  expect(parsed.imports.react).toBe("/api/preview-runtime/modules/react");
+  expect(result.errors).toEqual([]);
+});
+
+test("createImportMap reports CDN packages missing from /package.json", () => {
+  const files = new Map([
+    ["/App.jsx", 'import { motion } from "framer-motion";\nexport default function App() {}'],
+  ]);
+  const result = createImportMap(files, { packages: ["react", "react-dom"], cdnFallback: true });
+  const parsed = JSON.parse(result.importMap);
+
+  expect(parsed.imports["framer-motion"]).toBeUndefined();
+  expect(result.errors).toHaveLength(1);
+  expect(result.errors[0].path).toBe("/App.jsx");
+  expect(result.errors[0].error).toContain('Package "framer-motion" is not listed in /package.json');
+});
+
+test("createImportMap lists imported and manifest packages with their sources", () => {
+  const files = new Map([
+    ["/App.jsx", 'import { Star } from "lucide-react";\nimport { motion } from "framer-motion";\nexport default function App() {}'],
+    ["/package.json", JSON.stringify({ dependencies: { "date-fns": "^3.6.0", zod: "3.23.8" } })],
+  ]);
+  const result = createImportMap(files, {
+    packages: ["react", "react-dom", "lucide-react", "date-fns"],
+    cdnFallback: true,
+  });
+
+  expect(result.packages).toEqual([
+    { name: "date-fns", version: "^3.6.0", source: "local" },
+    { name: "framer-motion", version: undefined, source: "unlisted" },
+    { name: "lucide-react", version: undefined, source: "local" },
+    { name: "zod", version: "3.23.8", source: "cdn" },
+  ]);
+});
+
+test("createImportMap reports an invalid /package.json", () => {
+  const files = new Map([
+    ["/App.jsx", "export default function App() {}"],
+    ["/package.json", "{ not json"],
+  ]);
+  const result = createImportMap(files, { packages: ["react", "react-dom"], cdnFallback: true });
+
+  expect(result.errors).toHaveLength(1);
+  expect(result.errors[0].path).toBe("/package.json");
+  expect(result.errors[0].error).toContain("Invalid JSON in /package.json");
+});
+
+test("checkBuild reports syntax, manifest and package errors without building", () => {
+  vi.mocked(Babel.transform).mockImplementationOnce(() => ({ code: "" }) as any);
+  vi.mocked(Babel.transform).mockImplementationOnce(() => {
+    throw new Error("/Card.jsx: Unterminated JSX contents. (1:45)");
+  });
+  const files = new Map([
+    ["/App.jsx", 'import { motion } from "framer-motion";\nexport default function App() { return <div />; }'],
+    ["/Card.jsx", "export default function Card() { return <div>; }"],
+    ["/package.json", "{ not json"],
+  ]);
+  const errors = checkBuild(files, { packages: ["react", "react-dom"], cdnFallback: false });
+
+  expect(errors.map((error) => error.path)).toEqual(["/Card.jsx", "/package.json", "/App.jsx"]);
+  expect(errors[0].error).toContain("Unterminated JSX contents");
+  expect(errors[2].error).toContain('Package "framer-motion" is not available in the preview');
+});
+
+test("checkBuild returns no errors for a clean project", () => {
+  const files = new Map([["/App.jsx", "export default function App() { return <div />; }"]]);
+  expect(checkBuild(files, { packages: ["react", "react-dom"], cdnFallback: false })).toEqual([]);
 });
 
 test("createImportMap transforms JavaScript and TypeScript files", () => {
@@ -172,7 +362,7 @@ test("createPreviewHTML generates valid HTML with import map", () => {
   const importMap = JSON.stringify({
     imports: {
       "/App.jsx": "blob:mock-url-123",
-      "react": "https://esm.sh/react@19",
+      "react": "/api/preview-runtime/modules/react",
     },
   });
 
@@ -186,9 +376,12 @@ test("createPreviewHTML generates valid HTML with import map", () => {
   expect(html).toContain("import('blob:mock-url-123')");
 });
 
-test("createPreviewHTML includes Tailwind CSS", () => {
+test("createPreviewHTML compiles Tailwind CSS with the local runtime", () => {
   const html = createPreviewHTML("/App.jsx", "{}");
-  expect(html).toContain("https://cdn.tailwindcss.com");
+  expect(html).toContain('<style id="uigen-tailwind"></style>');
+  expect(html).toContain("/api/preview-runtime/tailwind");
+  expect(html).toContain("await window.__uigenStyles");
+  expect(html).not.toContain("cdn.tailwindcss.com");
 });
 
 test("createPreviewHTML includes error boundary", () => {
@@ -358,7 +551,7 @@ test("createPreviewHTML preserves existing styles with CSS injection", () => {
   const html = createPreviewHTML("/App.jsx", "{}", customStyles);
   
   // Should have both Tailwind and custom styles
-  expect(html).toContain("https://cdn.tailwindcss.com");
+  expect(html).toContain("/api/preview-runtime/tailwind");
   expect(html).toContain("h1 { color: blue; }");
   // Existing styles should remain
   expect(html).toContain("body {");
@@ -454,6 +647,15 @@ test("createPreviewHTML displays syntax errors", () => {
   expect(html).not.toContain("loadApp()");
 });
 
+test("createPreviewHTML shows the reported location of syntax errors", () => {
+  const html = createPreviewHTML("/App.jsx", "{}", "", [
+    { path: "/Card.jsx", error: "/Card.jsx: Unexpected token (3:4)", line: 3, column: 5 },
+  ]);
+
+  expect(html).toContain('<span class="error-location">3:5</span>');
+  expect(html).not.toContain("(3:4)");
+});
+
 test("files with syntax errors are not included in import map", () => {
   // Mock Babel to throw error for BadComponent
   vi.mocked(Babel.transform).mockImplementation((code, options) => {
@@ -493,4 +695,116 @@ test("files with syntax errors are not included in import map", () => {
   
   // Restore mock
   vi.mocked(Babel.transform).mockReset();
-});
\ No newline at end of file
+});
+test("isPackageImport distinguishes packages from local imports", () => {
+  expect(isPackageImport("react")).toBe(true);
+  expect(isPackageImport("@radix-ui/react-dialog")).toBe(true);
+  expect(isPackageImport("./Button")).toBe(false);
+  expect(isPackageImport("/components/Button")).toBe(false);
+  expect(isPackageImport("@/components/Button")).toBe(false);
+});
+
+test("getPackageName strips subpaths", () => {
+  expect(getPackageName("lodash/debounce")).toBe("lodash");
+  expect(getPackageName("@radix-ui/react-dialog/dist/index")).toBe("@radix-ui/react-dialog");
+  expect(getPackageName("react")).toBe("react");
+});
+
+test("collectPackageImports returns third-party packages from JS files only", () => {
+  const files = new Map([
+    ["/App.jsx", 'import { motion } from "framer-motion";\nimport Button from "@/components/Button";'],
+    ["/utils.ts", 'import debounce from "lodash/debounce";'],
+    ["/notes.md", 'import fake from "not-a-package";'],
+  ]);
+
+  expect(collectPackageImports(files)).toEqual(new Set(["framer-motion", "lodash"]));
+});
+
+test("discoverGalleryComponents finds default-exported components under /components", () => {
+  const files = new Map([
+    ["/App.jsx", "export default function App() {}"],
+    ["/components/Card.jsx", "export default function Card() {}"],
+    ["/components/ui/Button.tsx", "const Button = () => null;\nexport default Button;"],
+    ["/components/helpers.js", "export const helper = () => {};"],
+    ["/components/Card.stories.jsx", "export default { title: 'Card' };"],
+    ["/components/Card.test.jsx", "export default {};"],
+    ["/components/theme.css", "export default"],
+    ["/src/components/Badge.jsx", "export default function Badge() {}"],
+  ]);
+
+  expect(discoverGalleryComponents(files)).toEqual([
+    "/components/Card.jsx",
+    "/components/ui/Button.tsx",
+    "/src/components/Badge.jsx",
+  ]);
+});
+
+test("getComponentName returns the file name without extension", () => {
+  expect(getComponentName("/components/ui/Button.tsx")).toBe("Button");
+});
+
+test("createGalleryHTML renders a cell per component with its module URL", () => {
+  const importMap = JSON.stringify({
+    imports: {
+      "/components/Card.jsx": "blob:card",
+      "/components/Button.jsx": "blob:button",
+    },
+  });
+
+  const html = createGalleryHTML(["/components/Button.jsx", "/components/Card.jsx"], importMap);
+
+  expect(html).toContain('id="gallery-cell-0"');
+  expect(html).toContain('id="gallery-cell-1"');
+  expect(html).toContain('data-focus-path="/components/Card.jsx"');
+  expect(html).toContain('"url":"blob:button"');
+  expect(html).toContain("class ErrorBoundary");
+  expect(html).toContain("uigen:gallery-focus");
+  expect(html).toContain("/api/preview-runtime/tailwind");
+});
+
+test("createGalleryHTML shows syntax errors instead of loading components", () => {
+  const html = createGalleryHTML(["/components/Card.jsx"], "{}", "", [
+    { path: "/components/Card.jsx", error: "Unexpected token (1:5)" },
+  ]);
+
+  expect(html).toContain("Syntax Error");
+  expect(html).not.toContain("import(url)");
+});
+
+test("discoverStoryFiles finds *.stories files anywhere in the project", () => {
+  const files = new Map([
+    ["/App.jsx", "export default function App() {}"],
+    ["/components/Card.stories.jsx", "export default { component: Card };"],
+    ["/Button.stories.tsx", "export default { component: Button };"],
+    ["/components/Card.jsx", "export default function Card() {}"],
+    ["/stories.md", "# Stories"],
+  ]);
+
+  expect(discoverStoryFiles(files)).toEqual([
+    "/Button.stories.tsx",
+    "/components/Card.stories.jsx",
+  ]);
+});
+
+test("createStoriesHTML loads each story file and renders its variants", () => {
+  const importMap = JSON.stringify({
+    imports: { "/components/Card.stories.jsx": "blob:card-stories" },
+  });
+
+  const html = createStoriesHTML(["/components/Card.stories.jsx"], importMap);
+
+  expect(html).toContain('"name":"Card"');
+  expect(html).toContain('"url":"blob:card-stories"');
+  expect(html).toContain("await import(url)");
+  expect(html).toContain("class ErrorBoundary");
+  expect(html).toContain("/api/preview-runtime/tailwind");
+});
+
+test("createStoriesHTML shows syntax errors instead of loading stories", () => {
+  const html = createStoriesHTML(["/components/Card.stories.jsx"], "{}", "", [
+    { path: "/components/Card.stories.jsx", error: "Unexpected token (1:5)" },
+  ]);
+
+  expect(html).toContain("Syntax Error");
+  expect(html).not.toContain("import(url)");
+});
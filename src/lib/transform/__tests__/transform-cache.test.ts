@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TransformCache, hashContent } from "../transform-cache";
+
+describe("TransformCache", () => {
+  let nextUrl = 0;
+
+  beforeEach(() => {
+    nextUrl = 0;
+    global.URL.createObjectURL = vi.fn(() => `blob:module-${nextUrl++}`);
+    global.URL.revokeObjectURL = vi.fn();
+  });
+
+  const existing = new Set(["/App.jsx"]);
+
+  it("hashes equal content to the same key", () => {
+    expect(hashContent("const a = 1;")).toBe(hashContent("const a = 1;"));
+    expect(hashContent("const a = 1;")).not.toBe(hashContent("const a = 2;"));
+  });
+
+  it("reuses transforms and blob URLs of unchanged files", () => {
+    const cache = new TransformCache();
+    const content = "export default function App() { return <div />; }";
+
+    const first = cache.transform("/App.jsx", content, existing);
+    const url = cache.getModuleURL("/App.jsx", content);
+    cache.prune();
+
+    expect(cache.transform("/App.jsx", content, existing)).toBe(first);
+    expect(cache.getModuleURL("/App.jsx", content)).toBe(url);
+    expect(URL.createObjectURL).toHaveBeenCalledTimes(1);
+  });
+
+  it("revokes blob URLs of modules a build no longer uses", () => {
+    const cache = new TransformCache();
+    cache.transform("/App.jsx", "export default 1;", existing);
+    const oldUrl = cache.getModuleURL("/App.jsx", "export default 1;");
+    cache.prune();
+
+    cache.transform("/App.jsx", "export default 2;", existing);
+    const newUrl = cache.getModuleURL("/App.jsx", "export default 2;");
+    cache.prune();
+
+    expect(newUrl).not.toBe(oldUrl);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith(oldUrl);
+    expect(cache.has("/App.jsx", "export default 1;")).toBe(false);
+  });
+
+  it("lists the JS and TS files that still need a transform", () => {
+    const cache = new TransformCache();
+    cache.add("/App.jsx", "export default 1;", { code: "export default 1;" });
+    const files = new Map([
+      ["/App.jsx", "export default 1;"],
+      ["/Card.tsx", "export const Card = () => null;"],
+      ["/styles.css", "body {}"],
+    ]);
+
+    expect(cache.getMisses(files)).toEqual([["/Card.tsx", "export const Card = () => null;"]]);
+  });
+
+  it("shares blob URLs of identical generated modules", () => {
+    const cache = new TransformCache();
+
+    expect(cache.getSourceURL("export default 1;")).toBe(cache.getSourceURL("export default 1;"));
+    cache.clear();
+
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:module-0");
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { TransformWorker } from "../transform-worker";
+
+// Minimal Worker stand-in: answers each request with one result per module
+class FakeWorker extends EventTarget {
+  static instances: FakeWorker[] = [];
+  postMessage = vi.fn((request: { id: number; modules: Array<[string, string]> }) => {
+    const results = request.modules.map(([path]) => ({ code: `// ${path}` }));
+    queueMicrotask(() => {
+      this.dispatchEvent(new MessageEvent("message", { data: { id: request.id, results } }));
+    });
+  });
+  terminate = vi.fn();
+
+  constructor() {
+    super();
+    FakeWorker.instances.push(this);
+  }
+}
+
+describe("TransformWorker", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWorker.instances = [];
+  });
+
+  it("is unavailable without Web Workers", () => {
+    vi.stubGlobal("Worker", undefined);
+    expect(new TransformWorker().isAvailable()).toBe(false);
+  });
+
+  it("resolves with the worker's results", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const worker = new TransformWorker();
+
+    const results = await worker.transform([["/App.jsx", "export default 1;"]], ["/App.jsx"]);
+
+    expect(results).toEqual([{ code: "// /App.jsx" }]);
+    expect(FakeWorker.instances[0].postMessage).toHaveBeenCalledWith({
+      id: 0,
+      modules: [["/App.jsx", "export default 1;"]],
+      paths: ["/App.jsx"],
+    });
+  });
+
+  it("rejects pending requests and stops being used when the worker fails", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const worker = new TransformWorker();
+    const request = worker.transform([["/App.jsx", ""]], ["/App.jsx"]);
+
+    FakeWorker.instances[0].dispatchEvent(Object.assign(new Event("error"), { message: "Failed to load" }));
+
+    await expect(request).rejects.toThrow("Failed to load");
+    expect(worker.isAvailable()).toBe(false);
+    expect(FakeWorker.instances[0].terminate).toHaveBeenCalled();
+  });
+});
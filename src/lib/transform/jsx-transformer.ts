@@ -1,8 +1,31 @@
 import * as Babel from "@babel/standalone";
+import ReactRefreshBabel from "react-refresh/babel";
+import {
+  getPreviewRuntimeConfig,
+  getLocalModuleUrl,
+  getCdnModuleUrl,
+  getPackageName,
+  PREVIEW_TAILWIND_URL,
+  type PreviewRuntimeConfig,
+} from "@/lib/preview/runtime-config";
+import {
+  readDependencyManifest,
+  MANIFEST_PATH,
+  type DependencyManifest,
+} from "@/lib/preview/dependency-manifest";
+import { createConsoleBridgeScript } from "@/lib/preview/console-bridge";
+import { createSourceComments, type SourceMap, type SourcePosition } from "@/lib/preview/source-map";
+import {
+  createFastRefreshScript,
+  createRefreshHelpers,
+} from "@/lib/preview/hot-update";
+import type { TransformCache } from "./transform-cache";
 
 export interface TransformResult {
   code: string;
+  map?: SourceMap; // Maps the transformed code back to the original file
   error?: string;
+  loc?: SourcePosition; // Where the syntax error is, when Babel reports it
   missingImports?: Set<string>; // Packages/modules imported but not in files
   cssImports?: Set<string>; // CSS files imported
 }
@@ -20,6 +43,38 @@ export { ${componentName} };
 `;
 }
 
+// Third-party packages are bare specifiers: not relative, absolute, or @/ aliased
+export function isPackageImport(importPath: string): boolean {
+  return (
+    !importPath.startsWith(".") &&
+    !importPath.startsWith("/") &&
+    !importPath.startsWith("@/")
+  );
+}
+
+export { getPackageName };
+
+// Collect the third-party packages imported by JS/TS files
+// These are the packages createImportMap resolves through the preview runtime
+export function collectPackageImports(files: Map<string, string>): Set<string> {
+  const packages = new Set<string>();
+  // Any module specifier: static, namespace, side-effect and dynamic imports
+  const specifierRegex = /(?:\bfrom\s+|\bimport\s*\(?\s*)['"]([^'"]+)['"]/g;
+
+  for (const [path, content] of files) {
+    if (!/\.(jsx?|tsx?)$/.test(path)) continue;
+
+    let match;
+    while ((match = specifierRegex.exec(content)) !== null) {
+      if (isPackageImport(match[1]) && !match[1].endsWith(".css")) {
+        packages.add(getPackageName(match[1]));
+      }
+    }
+  }
+
+  return packages;
+}
+
 // Transform a single JSX/TSX file to JavaScript using Babel
 // Extracts imports for later resolution. Detects and removes CSS imports (not valid in browser ESM).
 // Returns transformed code or error message
@@ -65,18 +120,27 @@ export function transformJSX(
         ["react", { runtime: "automatic" }], // auto imports React functions
         ...(isTypeScript ? ["typescript"] : []), // support TS syntax
       ],
-      plugins: [],
+      // Registers components with the preview's refresh runtime for hot updates
+      plugins: [[ReactRefreshBabel, { skipEnvCheck: true, emitFullSignatures: true }]],
+      sourceMaps: true, // Stack traces are mapped back to the original file
+      sourceFileName: filename,
     });
 
+    const output = result.code || "";
     return {
-      code: result.code || "",
+      // Appended after the mapped code, so the source map stays valid
+      code: output + createRefreshHelpers(filename),
+      map: (result.map as SourceMap | null | undefined) ?? undefined,
       missingImports: imports, // Caller will resolve these
       cssImports: cssImports, // Caller will handle these
     };
   } catch (error) {
+    // Babel syntax errors carry the position (0-based column) on error.loc
+    const loc = (error as { loc?: { line: number; column: number } }).loc;
     return {
       code: "",
       error: error instanceof Error ? error.message : "Unknown transform error",
+      ...(loc && { loc: { line: loc.line, column: loc.column + 1 } }),
     };
   }
 }
@@ -89,31 +153,137 @@ export function createBlobURL(
   return URL.createObjectURL(blob);
 }
 
+// Isolated previews run in an opaque origin, which can't load this page's blob URLs
+export function createDataURL(
+  code: string,
+  mimeType: string = "application/javascript"
+): string {
+  return `data:${mimeType};charset=utf-8,${encodeURIComponent(code)}`;
+}
+
+// Where a third-party package is loaded from
+// local: bundled by the preview runtime; cdn: pinned version from esm.sh
+// unlisted: needs esm.sh but has no version in /package.json; unavailable: no CDN fallback
+export type PackageSource = "local" | "cdn" | "unlisted" | "unavailable";
+
+export interface PackageResolution {
+  name: string;
+  version?: string; // Version or range from /package.json
+  source: PackageSource;
+}
+
 export interface ImportMapResult {
   importMap: string;
   styles: string;
-  errors: Array<{ path: string; error: string }>;
+  errors: PreviewError[];
+  packages: PackageResolution[]; // Imported or listed packages, sorted by name
+  sourceMaps: Map<string, SourceMap>; // path -> source map of its transformed code
+}
+
+function getPackageSource(
+  name: string,
+  config: PreviewRuntimeConfig,
+  dependencies: Record<string, string>
+): PackageSource {
+  if (config.packages.includes(name)) return "local";
+  if (!config.cdnFallback) return "unavailable";
+  return dependencies[name] ? "cdn" : "unlisted";
+}
+
+// URL of a third-party module: served locally if allowlisted, or the version pinned
+// in /package.json from esm.sh when the CDN fallback is enabled; otherwise null
+function resolvePackageUrl(
+  specifier: string,
+  config: PreviewRuntimeConfig,
+  dependencies: Record<string, string>
+): string | null {
+  const name = getPackageName(specifier);
+  switch (getPackageSource(name, config, dependencies)) {
+    case "local":
+      return getLocalModuleUrl(specifier);
+    case "cdn":
+      return getCdnModuleUrl(specifier, dependencies[name]);
+    default:
+      return null;
+  }
+}
+
+// Preview error for a package that can't be loaded, shown instead of a failed import
+function getPackageError(name: string, source: PackageSource, config: PreviewRuntimeConfig): string {
+  if (source === "unlisted") {
+    return `Package "${name}" is not listed in ${MANIFEST_PATH}. Add it as a dependency with a pinned version (for example "${name}": "1.2.3") so the preview doesn't load an unpinned release.`;
+  }
+  return `Package "${name}" is not available in the preview. Allowed packages: ${config.packages.join(", ")}. Add it to NEXT_PUBLIC_PREVIEW_PACKAGES, or set NEXT_PUBLIC_PREVIEW_CDN_FALLBACK=true to load it from esm.sh.`;
+}
+
+// Where each imported or listed package loads from, plus errors for the manifest and for
+// packages that can't be loaded (they would otherwise fail with an unclear error)
+function resolvePackages(
+  packageImporters: Map<string, string>, // package -> first importing file
+  manifest: DependencyManifest,
+  config: PreviewRuntimeConfig
+): { packages: PackageResolution[]; errors: PreviewError[] } {
+  const errors: PreviewError[] = [];
+  if (manifest.error) {
+    errors.push({ path: MANIFEST_PATH, error: manifest.error });
+  }
+
+  const packageNames = new Set([...packageImporters.keys(), ...Object.keys(manifest.dependencies)]);
+  const packages: PackageResolution[] = Array.from(packageNames)
+    .sort()
+    .map((name) => ({
+      name,
+      version: manifest.dependencies[name],
+      source: getPackageSource(name, config, manifest.dependencies),
+    }));
+  for (const { name, source } of packages) {
+    const from = packageImporters.get(name);
+    if (from && (source === "unlisted" || source === "unavailable")) {
+      errors.push({ path: from, error: getPackageError(name, source, config) });
+    }
+  }
+  return { packages, errors };
 }
 
 // Generate an import map for browser ESM resolution
-// Maps import paths (like "@/components/Button") to blob URLs or CDN URLs
-// Handles three types of imports: local files (blob URLs), third-party packages (esm.sh CDN), and stubs
-export function createImportMap(files: Map<string, string>): ImportMapResult {
-  // Start with core libraries from CDN (React, React-DOM, JSX runtime)
+// Maps import paths (like "@/components/Button") to blob URLs or runtime URLs
+// Handles three types of imports: local files (blob URLs), third-party packages
+// (local runtime, or esm.sh with the CDN fallback), and stubs
+// With a cache, unchanged modules keep their transform and blob URL across builds
+// Isolated previews (sandboxed without allow-same-origin) get data URLs and skip the cache
+export function createImportMap(
+  files: Map<string, string>,
+  config: PreviewRuntimeConfig = getPreviewRuntimeConfig(),
+  transformCache?: TransformCache,
+  isolated = false
+): ImportMapResult {
+  const cache = isolated ? undefined : transformCache;
+  const createModuleURL = isolated ? createDataURL : createBlobURL;
+  // Start with core libraries from the local runtime (React, React-DOM, JSX runtime)
   const imports: Record<string, string> = {
-    react: "https://esm.sh/react@19",
-    "react-dom": "https://esm.sh/react-dom@19",
-    "react-dom/client": "https://esm.sh/react-dom@19/client",
-    "react/jsx-runtime": "https://esm.sh/react@19/jsx-runtime",
-    "react/jsx-dev-runtime": "https://esm.sh/react@19/jsx-dev-runtime",
+    react: getLocalModuleUrl("react"),
+    "react-dom": getLocalModuleUrl("react-dom"),
+    "react-dom/client": getLocalModuleUrl("react-dom/client"),
+    "react/jsx-runtime": getLocalModuleUrl("react/jsx-runtime"),
+    "react/jsx-dev-runtime": getLocalModuleUrl("react/jsx-dev-runtime"),
+    "react-refresh/runtime": getLocalModuleUrl("react-refresh/runtime"),
   };
 
+  // Every allowlisted package and its subpaths, since served bundles import each other
+  for (const name of config.packages) {
+    imports[name] = getLocalModuleUrl(name);
+    imports[`${name}/`] = `${getLocalModuleUrl(name)}/`;
+  }
+  const manifest = readDependencyManifest(files);
+  const packageImporters = new Map<string, string>(); // package -> first importing file
+
   const transformedFiles = new Map<string, string>(); // path -> blob URL
   const existingFiles = new Set(files.keys()); // All available files
   const allImports = new Set<string>(); // Imports needing resolution
   const allCssImports = new Set<{ from: string; cssPath: string }>(); // CSS imports to process
   let collectedStyles = ""; // All CSS concatenated
-  const errors: Array<{ path: string; error: string }> = [];
+  const errors: PreviewError[] = [];
+  const sourceMaps = new Map<string, SourceMap>();
 
   // PASS 1: Transform all JS/TS files to blob URLs and collect import requirements
   for (const [path, content] of files) {
@@ -123,34 +293,38 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
       path.endsWith(".ts") ||
       path.endsWith(".tsx")
     ) {
-      // Transform JSX to JavaScript
-      const { code, error, missingImports, cssImports } = transformJSX(
-        content,
-        path,
-        existingFiles
-      );
+      // Transform JSX to JavaScript (unchanged files come from the cache, if given)
+      const { code, map, error, loc, missingImports, cssImports } = cache
+        ? cache.transform(path, content, existingFiles)
+        : transformJSX(content, path, existingFiles);
 
       // Track syntax errors but continue processing other files
       if (error) {
-        errors.push({ path, error });
+        errors.push({ path, error, ...loc });
         continue;
       }
 
       // Create blob URL for transformed code (data URL for browser ESM)
-      const blobUrl = createBlobURL(code);
+      // The module names its virtual path and carries its source map
+      const blobUrl = cache
+        ? cache.getModuleURL(path, content)
+        : createModuleURL(code + createSourceComments(path, map));
+      if (map) sourceMaps.set(path, map);
       transformedFiles.set(path, blobUrl);
 
       // Process imports extracted by transformJSX
       if (missingImports) {
         missingImports.forEach((imp) => {
           // Distinguish third-party packages from local imports
-          const isPackage = !imp.startsWith(".") &&
-                            !imp.startsWith("/") &&
-                            !imp.startsWith("@/");
-
-          if (isPackage) {
-            // Third-party packages: map to esm.sh CDN (e.g., "lodash" -> esm.sh/lodash)
-            imports[imp] = `https://esm.sh/${imp}`;
+          if (isPackageImport(imp)) {
+            // Third-party packages: map to the local runtime or, if enabled, esm.sh
+            const packageUrl = resolvePackageUrl(imp, config, manifest.dependencies);
+            if (packageUrl) {
+              imports[imp] = packageUrl;
+            }
+            if (!packageImporters.has(getPackageName(imp))) {
+              packageImporters.set(getPackageName(imp), path);
+            }
           } else {
             // Local imports: collect for path resolution below
             allImports.add(imp);
@@ -197,6 +371,9 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
     }
   }
 
+  const { packages, errors: packageErrors } = resolvePackages(packageImporters, manifest, config);
+  errors.push(...packageErrors);
+
   // PASS 2: Resolve CSS imports by path (relative to importing file)
   for (const { from, cssPath } of allCssImports) {
     let resolvedPath = cssPath;
@@ -227,15 +404,12 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
     }
 
     // Check if this is a third-party package (no path separators or relative indicators)
-    const isPackage = !importPath.startsWith(".") &&
-                      !importPath.startsWith("/") &&
-                      !importPath.startsWith("@/");
-
-    if (isPackage) {
-      // Map third-party packages to esm.sh CDN
-      const packageUrl = `https://esm.sh/${importPath}`;
-      imports[importPath] = packageUrl;
-      continue;
+    if (isPackageImport(importPath)) {
+      const packageUrl = resolvePackageUrl(importPath, config, manifest.dependencies);
+      if (packageUrl) {
+        imports[importPath] = packageUrl;
+        continue;
+      }
     }
 
     // For local imports, check if file exists in various forms
@@ -269,7 +443,9 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
 
       // Create a stub component that renders empty div
       const placeholderCode = createPlaceholderModule(componentName);
-      const placeholderUrl = createBlobURL(placeholderCode);
+      const placeholderUrl = cache
+        ? cache.getSourceURL(placeholderCode)
+        : createModuleURL(placeholderCode);
 
       // Add all import variations pointing to this stub
       imports[importPath] = placeholderUrl;
@@ -280,13 +456,51 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
     }
   }
 
+  // Modules this build no longer uses are released
+  cache?.prune();
+
   return {
     importMap: JSON.stringify({ imports }, null, 2), // JSON string for <script type="importmap">
     styles: collectedStyles, // All CSS injected into <style> tag
-    errors // Syntax errors to display to user
+    errors, // Syntax and package errors to display to user
+    packages, // Third-party packages and where they load from
+    sourceMaps, // For mapping preview stack traces to original locations
   };
 }
 
+/**
+ * Errors the preview would show for these files, without building it
+ * Covers Babel syntax errors, the dependency manifest and packages that can't be
+ * loaded. Used by the chat route to check the AI's edits on the server.
+ */
+export function checkBuild(
+  files: Map<string, string>,
+  config: PreviewRuntimeConfig = getPreviewRuntimeConfig()
+): PreviewError[] {
+  const errors: PreviewError[] = [];
+  const packageImporters = new Map<string, string>(); // package -> first importing file
+  const existingFiles = new Set(files.keys());
+
+  for (const [path, content] of files) {
+    if (!/\.(jsx?|tsx?)$/.test(path)) continue;
+
+    const { error, loc, missingImports } = transformJSX(content, path, existingFiles);
+    if (error) {
+      errors.push({ path, error, ...loc });
+      continue;
+    }
+    for (const imp of missingImports ?? []) {
+      if (isPackageImport(imp) && !packageImporters.has(getPackageName(imp))) {
+        packageImporters.set(getPackageName(imp), path);
+      }
+    }
+  }
+
+  const manifest = readDependencyManifest(files);
+  errors.push(...resolvePackages(packageImporters, manifest, config).errors);
+  return errors;
+}
+
 // Helper function to resolve relative paths
 function resolveRelativePath(fromDir: string, relativePath: string): string {
   const parts = fromDir.split("/").filter(Boolean);
@@ -303,34 +517,25 @@ function resolveRelativePath(fromDir: string, relativePath: string): string {
   return "/" + parts.join("/");
 }
 
-// Generate the HTML that runs in the preview iframe
-// Combines: import map, CSS styles, and either error display or app loading
-// If syntax errors exist, shows them instead of attempting to load the app
-export function createPreviewHTML(
-  entryPoint: string,
-  importMap: string,
-  styles: string = "",
-  errors: Array<{ path: string; error: string }> = []
-): string {
-  // Resolve the entry point (e.g., "/App.jsx") to its blob URL using the import map
-  let entryPointUrl = entryPoint;
-  try {
-    const importMapObj = JSON.parse(importMap);
-    if (importMapObj.imports && importMapObj.imports[entryPoint]) {
-      entryPointUrl = importMapObj.imports[entryPoint];
-    }
-  } catch (e) {
-    console.error("Failed to parse import map:", e);
-  }
+// line and column (1-based) are set for syntax errors Babel could locate
+export type PreviewError = { path: string; error: string; line?: number; column?: number };
 
+// Shared document start for preview iframes: the console bridge, base styles, project
+// CSS, the import map, the Fast Refresh runtime and the Tailwind loader. The loader sends the source of every project module to the
+// local runtime, which compiles the classes they use; module scripts await
+// window.__uigenStyles before rendering so there's no flash of unstyled content.
+// Hot updates run the loader again with the new modules.
+function createPreviewHead(importMap: string, styles: string): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>Preview</title>
-  <!-- Load Tailwind CSS from CDN for styling -->
-  <script src="https://cdn.tailwindcss.com"></script>
+  <!-- Forwards console output, errors and fetch calls to the editor -->
+  ${createConsoleBridgeScript()}
+  <!-- Tailwind CSS, compiled by the local runtime -->
+  <style id="uigen-tailwind"></style>
   <style>
     /* Reset and sizing */
     body {
@@ -409,10 +614,36 @@ export function createPreviewHTML(
   <script type="importmap">
     ${importMap}
   </script>
-</head>
-<body>
-  <!-- Show syntax errors if present (Babel transform failures) -->
-  ${errors.length > 0 ? `
+  ${createFastRefreshScript()}
+  <script>
+    window.__uigenImports = JSON.parse(document.querySelector('script[type="importmap"]').textContent).imports;
+    window.__uigenLoadStyles = async () => {
+      try {
+        const urls = [...new Set(Object.values(window.__uigenImports).filter((url) => url.startsWith('blob:') || url.startsWith('data:')))];
+        // Inline source maps would only inflate the request, so they're cut off
+        const sources = await Promise.all(urls.map((url) => fetch(url)
+          .then((res) => res.text())
+          .then((text) => text.split('\\n//# sourceMappingURL=')[0])));
+        const response = await fetch('${PREVIEW_TAILWIND_URL}', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sources }),
+        });
+        if (!response.ok) throw new Error('HTTP ' + response.status);
+        document.getElementById('uigen-tailwind').textContent = await response.text();
+      } catch (error) {
+        console.error('Failed to load Tailwind styles:', error);
+      }
+    };
+    window.__uigenStyles = window.__uigenLoadStyles();
+  </script>
+</head>`;
+}
+
+// Syntax error panel shown instead of running any component (Babel transform failures)
+function createSyntaxErrorsHTML(errors: PreviewError[]): string {
+  if (errors.length === 0) return "";
+  return `
     <div class="syntax-errors">
       <h3>
         <svg width="20" height="20" viewBox="0 0 20 20" fill="none" style="flex-shrink: 0;">
@@ -421,10 +652,11 @@ export function createPreviewHTML(
         Syntax Error${errors.length > 1 ? 's' : ''} (${errors.length})
       </h3>
       ${errors.map(e => {
-        // Extract line:column info from error message
-        const locationMatch = e.error.match(/\((\d+:\d+)\)/);
-        const location = locationMatch ? locationMatch[1] : '';
-        const cleanError = e.error.replace(/\(\d+:\d+\)/, '').trim();
+        // Babel appends "(line:column)" with a 0-based column; show the 1-based location instead
+        const location = e.line ? `${e.line}:${e.column ?? 1}` : '';
+        const cleanError = e.line
+          ? e.error.replace(`(${e.line}:${(e.column ?? 1) - 1})`, '').trim()
+          : e.error;
 
         return `
         <div class="error-item">
@@ -437,14 +669,11 @@ export function createPreviewHTML(
       `;
       }).join('')}
     </div>
-  ` : ''}
-  <!-- Root div for React app mounting -->
-  <div id="root"></div>
-  <!-- App loader script (only if no syntax errors) -->
-  ${errors.length === 0 ? `<script type="module">
-    import React from 'react';
-    import ReactDOM from 'react-dom/client';
+  `;
+}
 
+// Error boundary class injected into preview module scripts to catch runtime errors
+const ERROR_BOUNDARY_SOURCE = `
     // Error boundary component to catch runtime errors in the app
     class ErrorBoundary extends React.Component {
       constructor(props) {
@@ -471,6 +700,45 @@ export function createPreviewHTML(
         return this.props.children;
       }
     }
+`;
+
+// Resolve a module path (e.g., "/App.jsx") to its URL in the import map, or the path itself
+function resolveImportMapUrl(path: string, importMap: string): string {
+  try {
+    const importMapObj = JSON.parse(importMap);
+    if (importMapObj.imports && importMapObj.imports[path]) {
+      return importMapObj.imports[path];
+    }
+  } catch (e) {
+    console.error("Failed to parse import map:", e);
+  }
+  return path;
+}
+
+// Generate the HTML that runs in the preview iframe
+// Combines: import map, CSS styles, and either error display or app loading
+// If syntax errors exist, shows them instead of attempting to load the app
+export function createPreviewHTML(
+  entryPoint: string,
+  importMap: string,
+  styles: string = "",
+  errors: PreviewError[] = []
+): string {
+  // Resolve the entry point (e.g., "/App.jsx") to its blob URL using the import map
+  const entryPointUrl = resolveImportMapUrl(entryPoint, importMap);
+
+  return `${createPreviewHead(importMap, styles)}
+<body>
+  <!-- Show syntax errors if present (Babel transform failures) -->
+  ${createSyntaxErrorsHTML(errors)}
+  <!-- Root div for React app mounting -->
+  <div id="root"></div>
+  <!-- App loader script (only if no syntax errors) -->
+  ${errors.length === 0 ? `<script type="module">
+    import React from 'react';
+    import ReactDOM from 'react-dom/client';
+
+${ERROR_BOUNDARY_SOURCE}
 
     async function loadApp() {
       try {
@@ -483,7 +751,8 @@ export function createPreviewHTML(
           throw new Error('No default export or App export found in ${entryPoint}');
         }
 
-        // Mount app in React root with error boundary
+        // Mount app in React root with error boundary, once styles are ready
+        await window.__uigenStyles;
         const root = ReactDOM.createRoot(document.getElementById('root'));
         root.render(
           React.createElement(ErrorBoundary, null,
@@ -498,7 +767,296 @@ export function createPreviewHTML(
       }
     }
 
-    loadApp();
+    loadApp().then(() => window.__uigenSetMounted?.());
+  </script>` : ''}
+</body>
+</html>`;
+}
+
+// Grid and cell styles shared by the gallery and stories documents
+const GALLERY_STYLES = `
+    .gallery {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(320px, 1fr));
+      gap: 16px;
+      padding: 16px;
+    }
+    .gallery-cell {
+      display: flex;
+      flex-direction: column;
+      background: #fff;
+      border: 1px solid #e5e5e5;
+      border-radius: 8px;
+      overflow: hidden;
+    }
+    .gallery-title {
+      display: flex;
+      justify-content: space-between;
+      gap: 8px;
+      padding: 8px 12px;
+      border: 0;
+      border-bottom: 1px solid #e5e5e5;
+      background: #fafafa;
+      font-size: 12px;
+      text-align: left;
+      cursor: pointer;
+    }
+    .gallery-title:hover {
+      background: #f0f0f0;
+    }
+    .gallery-path {
+      color: #737373;
+      font-family: 'SF Mono', Monaco, Consolas, monospace;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .gallery-stage {
+      padding: 16px;
+      min-height: 160px;
+      overflow: auto;
+    }
+    .gallery-title.static {
+      cursor: default;
+    }
+    .gallery-title.static:hover {
+      background: #fafafa;
+    }
+    .stories-section {
+      padding: 16px 16px 0;
+    }
+    .stories-heading {
+      margin: 0;
+      font-size: 14px;
+      font-weight: 600;
+      color: #171717;
+    }
+    .stories-section .gallery {
+      padding: 12px 0 16px;
+    }
+  `;
+
+// Find components for gallery mode: files under /components with a default export
+// Stories and tests are excluded; results are sorted by path
+export function discoverGalleryComponents(files: Map<string, string>): string[] {
+  return Array.from(files.entries())
+    .filter(
+      ([path, content]) =>
+        /^\/(src\/)?components\//.test(path) &&
+        /\.(jsx?|tsx?)$/.test(path) &&
+        !/\.(stories|test|spec)\.(jsx?|tsx?)$/.test(path) &&
+        /export\s+default\b/.test(content)
+    )
+    .map(([path]) => path)
+    .sort();
+}
+
+// Display name for a component file: "/components/ui/Button.jsx" -> "Button"
+export function getComponentName(path: string): string {
+  return path.substring(path.lastIndexOf("/") + 1).replace(/\.(jsx?|tsx?)$/, "");
+}
+
+// Generate the HTML for gallery mode: every component rendered in its own grid cell
+// Each cell has its own React root and error boundary, so one failing component
+// doesn't hide the rest. Clicking a cell title posts
+// { type: "uigen:gallery-focus", path } to the parent window.
+export function createGalleryHTML(
+  components: string[],
+  importMap: string,
+  styles: string = "",
+  errors: PreviewError[] = []
+): string {
+  const escapeHTML = (value: string) =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+  const cells = components.map((path) => ({
+    path,
+    url: resolveImportMapUrl(path, importMap),
+  }));
+  // Safe to embed in a <script> tag
+  const cellsJSON = JSON.stringify(cells).replace(/</g, "\\u003c");
+
+  return `${createPreviewHead(importMap, styles)}
+<body>
+  <style>${GALLERY_STYLES}</style>
+  ${createSyntaxErrorsHTML(errors)}
+  <div class="gallery">
+    ${components
+      .map(
+        (path, index) => `
+    <div class="gallery-cell">
+      <button class="gallery-title" data-focus-path="${escapeHTML(path)}" title="Focus ${escapeHTML(getComponentName(path))}">
+        <strong>${escapeHTML(getComponentName(path))}</strong>
+        <span class="gallery-path">${escapeHTML(path)}</span>
+      </button>
+      <div class="gallery-stage" id="gallery-cell-${index}"></div>
+    </div>`
+      )
+      .join("")}
+  </div>
+  ${errors.length === 0 ? `<script type="module">
+    import React from 'react';
+    import ReactDOM from 'react-dom/client';
+
+${ERROR_BOUNDARY_SOURCE}
+
+    const cells = ${cellsJSON};
+    await window.__uigenStyles;
+
+    // Load each component independently so a failing import only affects its cell
+    await Promise.all(cells.map(async ({ path, url }, index) => {
+      const mount = document.getElementById('gallery-cell-' + index);
+      try {
+        const module = await import(url);
+        const Component = module.default;
+
+        if (!Component) {
+          throw new Error('No default export found in ' + path);
+        }
+
+        ReactDOM.createRoot(mount).render(
+          React.createElement(ErrorBoundary, null,
+            React.createElement(Component)
+          )
+        );
+      } catch (error) {
+        console.error('Failed to load ' + path + ':', error);
+        mount.innerHTML = '<div class="error-boundary"><h2>Failed to load component</h2><pre></pre></div>';
+        mount.querySelector('pre').textContent = error.toString();
+      }
+    }));
+    window.__uigenSetMounted?.();
+  </script>` : ''}
+  <script>
+    document.querySelectorAll('[data-focus-path]').forEach((button) => {
+      button.addEventListener('click', () => {
+        window.parent.postMessage({ type: 'uigen:gallery-focus', path: button.dataset.focusPath }, '*');
+      });
+    });
+  </script>
+</body>
+</html>`;
+}
+
+// Find story files: *.stories.jsx (or .tsx/.js/.ts) anywhere in the project, sorted by path
+export function discoverStoryFiles(files: Map<string, string>): string[] {
+  return Array.from(files.keys())
+    .filter((path) => /\.stories\.(jsx?|tsx?)$/.test(path))
+    .sort();
+}
+
+// Generate the HTML for the stories view: every variant of every story file side by side
+// Story files use a simplified CSF:
+//   export default { title: "Button", component: Button };
+//   export const Primary = { args: { variant: "primary" } };  // rendered as <Button {...args} />
+//   export const Custom = () => <Button>Custom</Button>;      // rendered as-is
+// Each variant gets its own React root and error boundary
+export function createStoriesHTML(
+  storyFiles: string[],
+  importMap: string,
+  styles: string = "",
+  errors: PreviewError[] = []
+): string {
+  const stories = storyFiles.map((path) => ({
+    path,
+    name: getComponentName(path).replace(/\.stories$/, ""),
+    url: resolveImportMapUrl(path, importMap),
+  }));
+  // Safe to embed in a <script> tag
+  const storiesJSON = JSON.stringify(stories).replace(/</g, "\\u003c");
+
+  return `${createPreviewHead(importMap, styles)}
+<body>
+  <style>${GALLERY_STYLES}</style>
+  ${createSyntaxErrorsHTML(errors)}
+  <div id="stories"></div>
+  ${errors.length === 0 ? `<script type="module">
+    import React from 'react';
+    import ReactDOM from 'react-dom/client';
+
+${ERROR_BOUNDARY_SOURCE}
+
+    const stories = ${storiesJSON};
+    await window.__uigenStyles;
+    const container = document.getElementById('stories');
+
+    // "PrimaryLarge" -> "Primary Large"
+    const formatName = (name) => name.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+
+    function createCell(grid, label) {
+      const cell = document.createElement('div');
+      cell.className = 'gallery-cell';
+      const title = document.createElement('div');
+      title.className = 'gallery-title static';
+      title.innerHTML = '<strong></strong>';
+      title.firstChild.textContent = label;
+      const stage = document.createElement('div');
+      stage.className = 'gallery-stage';
+      cell.append(title, stage);
+      grid.appendChild(cell);
+      return stage;
+    }
+
+    function showError(mount, heading, error) {
+      mount.innerHTML = '<div class="error-boundary"><h2></h2><pre></pre></div>';
+      mount.querySelector('h2').textContent = heading;
+      mount.querySelector('pre').textContent = error.toString();
+    }
+
+    for (const { path, name, url } of stories) {
+      const section = document.createElement('section');
+      section.className = 'stories-section';
+      section.innerHTML = '<h2 class="stories-heading"></h2><div class="gallery"></div>';
+      section.querySelector('.stories-heading').textContent = name;
+      container.appendChild(section);
+      const grid = section.querySelector('.gallery');
+
+      let module;
+      try {
+        module = await import(url);
+      } catch (error) {
+        console.error('Failed to load ' + path + ':', error);
+        showError(grid, 'Failed to load ' + path, error);
+        continue;
+      }
+
+      const meta = module.default || {};
+      const Component = meta.component;
+      if (meta.title) {
+        section.querySelector('.stories-heading').textContent = meta.title;
+      }
+
+      const variants = Object.entries(module).filter(([key]) => key !== 'default');
+      if (variants.length === 0) {
+        grid.textContent = 'No stories exported from ' + path;
+        continue;
+      }
+
+      for (const [key, story] of variants) {
+        const stage = createCell(grid, formatName(key));
+        try {
+          let element;
+          if (typeof story === 'function') {
+            // Function story: renders its own JSX, receives shared args
+            element = React.createElement(story, meta.args || {});
+          } else if (Component) {
+            // Prop set: { args } or a plain props object
+            const props = story && story.args ? story.args : story;
+            element = React.createElement(Component, { ...(meta.args || {}), ...props });
+          } else {
+            throw new Error('Story "' + key + '" is a prop set, but the default export has no component');
+          }
+
+          ReactDOM.createRoot(stage).render(
+            React.createElement(ErrorBoundary, null, element)
+          );
+        } catch (error) {
+          console.error('Failed to render story ' + key + ':', error);
+          showError(stage, 'Something went wrong', error);
+        }
+      }
+    }
+    window.__uigenSetMounted?.();
   </script>` : ''}
 </body>
 </html>`;
@@ -0,0 +1,127 @@
+import { transformJSX, createBlobURL, type TransformResult } from "./jsx-transformer";
+import { createSourceComments } from "@/lib/preview/source-map";
+
+/**
+ * Transform cache for incremental preview builds
+ * Babel output and module blob URLs are kept per file content, so a rebuild only
+ * transforms the files that changed. URLs of modules no build uses anymore are revoked.
+ */
+
+interface CacheEntry {
+  path: string;
+  result: TransformResult;
+  url?: string; // Created on first use; only files without syntax errors get one
+}
+
+// 53-bit string hash (cyrb53); collisions are negligible at project sizes
+export function hashContent(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// The module's path is part of the key: its blob names the path in a sourceURL comment
+function getKey(path: string, content: string): string {
+  return hashContent(`${path}\0${content}`);
+}
+
+export class TransformCache {
+  private entries = new Map<string, CacheEntry>();
+  private placeholders = new Map<string, string>(); // placeholder source hash -> blob URL
+  // Keys used since the last prune; everything else is dropped by prune()
+  private usedEntries = new Set<string>();
+  private usedPlaceholders = new Set<string>();
+
+  has(path: string, content: string): boolean {
+    return this.entries.has(getKey(path, content));
+  }
+
+  // Store a transform done elsewhere (the transform worker)
+  add(path: string, content: string, result: TransformResult): void {
+    const key = getKey(path, content);
+    if (!this.entries.has(key)) {
+      this.entries.set(key, { path, result });
+    }
+  }
+
+  // Cached Babel output for a file, transforming it on a miss
+  transform(path: string, content: string, existingFiles: Set<string>): TransformResult {
+    const key = getKey(path, content);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { path, result: transformJSX(content, path, existingFiles) };
+      this.entries.set(key, entry);
+    }
+    this.usedEntries.add(key);
+    return entry.result;
+  }
+
+  // Blob URL of a transformed file, reused for as long as its content is unchanged
+  getModuleURL(path: string, content: string): string {
+    const key = getKey(path, content);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      throw new Error(`No transform cached for ${path}`);
+    }
+    if (!entry.url) {
+      const { code, map } = entry.result;
+      entry.url = createBlobURL(code + createSourceComments(path, map));
+    }
+    this.usedEntries.add(key);
+    return entry.url;
+  }
+
+  // Blob URL of a generated module (stubs for missing imports), shared by identical sources
+  getSourceURL(source: string): string {
+    const key = hashContent(source);
+    let url = this.placeholders.get(key);
+    if (!url) {
+      url = createBlobURL(source);
+      this.placeholders.set(key, url);
+    }
+    this.usedPlaceholders.add(key);
+    return url;
+  }
+
+  // JS/TS files whose current content hasn't been transformed yet
+  getMisses(files: Map<string, string>): Array<[path: string, content: string]> {
+    return Array.from(files).filter(
+      ([path, content]) => /\.(jsx?|tsx?)$/.test(path) && !this.has(path, content)
+    );
+  }
+
+  /**
+   * Drop entries not used since the last prune and revoke their blob URLs
+   * Called after each build; the previous build's document is replaced by then
+   */
+  prune(): void {
+    for (const [key, entry] of this.entries) {
+      if (!this.usedEntries.has(key)) {
+        if (entry.url) URL.revokeObjectURL(entry.url);
+        this.entries.delete(key);
+      }
+    }
+    for (const [key, url] of this.placeholders) {
+      if (!this.usedPlaceholders.has(key)) {
+        URL.revokeObjectURL(url);
+        this.placeholders.delete(key);
+      }
+    }
+    this.usedEntries.clear();
+    this.usedPlaceholders.clear();
+  }
+
+  // Revoke every blob URL, e.g. when the preview unmounts
+  clear(): void {
+    this.usedEntries.clear();
+    this.usedPlaceholders.clear();
+    this.prune();
+  }
+}
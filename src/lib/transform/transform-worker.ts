@@ -0,0 +1,81 @@
+import type { TransformResult } from "./jsx-transformer";
+
+/**
+ * Client for the transform worker (transform.worker.ts)
+ * Sends changed files to be transformed with Babel off the main thread; results
+ * go into the TransformCache before the preview builds its import map.
+ */
+
+export interface TransformWorkerRequest {
+  id: number;
+  modules: Array<[path: string, content: string]>;
+  paths: string[]; // Every file in the project
+}
+
+export interface TransformWorkerResponse {
+  id: number;
+  results: TransformResult[]; // Same order as the request's modules
+}
+
+interface PendingRequest {
+  resolve: (results: TransformResult[]) => void;
+  reject: (error: Error) => void;
+}
+
+export class TransformWorker {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, PendingRequest>();
+  private failed = false;
+
+  // False during server rendering, in tests, and once the worker has failed to load;
+  // callers then transform on the main thread
+  isAvailable(): boolean {
+    return !this.failed && typeof Worker !== "undefined";
+  }
+
+  // Started on first use; a worker that fails to load rejects every pending request
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL("./transform.worker.ts", import.meta.url));
+      this.worker.addEventListener("message", (event: MessageEvent<TransformWorkerResponse>) => {
+        const request = this.pending.get(event.data.id);
+        this.pending.delete(event.data.id);
+        request?.resolve(event.data.results);
+      });
+      this.worker.addEventListener("error", (event) => {
+        this.failed = true;
+        this.terminate(new Error(event.message || "Transform worker failed"));
+      });
+    }
+    return this.worker;
+  }
+
+  transform(
+    modules: Array<[path: string, content: string]>,
+    paths: string[]
+  ): Promise<TransformResult[]> {
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      this.pending.set(id, { resolve, reject });
+      try {
+        const request: TransformWorkerRequest = { id, modules, paths };
+        this.getWorker().postMessage(request);
+      } catch (error) {
+        this.pending.delete(id);
+        reject(error instanceof Error ? error : new Error("Transform worker failed"));
+      }
+    });
+  }
+
+  private fail(error: Error): void {
+    for (const request of this.pending.values()) request.reject(error);
+    this.pending.clear();
+  }
+
+  terminate(error = new Error("Transform worker stopped")): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.fail(error);
+  }
+}
@@ -0,0 +1,13 @@
+import { transformJSX } from "./jsx-transformer";
+import type { TransformWorkerRequest, TransformWorkerResponse } from "./transform-worker";
+
+// Web Worker entry: runs Babel off the main thread so typing in the editor stays smooth
+self.addEventListener("message", (event: MessageEvent<TransformWorkerRequest>) => {
+  const { id, modules, paths } = event.data;
+  const existingFiles = new Set(paths);
+  const response: TransformWorkerResponse = {
+    id,
+    results: modules.map(([path, content]) => transformJSX(content, path, existingFiles)),
+  };
+  self.postMessage(response);
+});
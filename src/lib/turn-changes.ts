@@ -0,0 +1,91 @@
+/**
+ * Per-turn file changes
+ * The chat records every file before a request and again once the assistant's
+ * response has finished; the difference is what that turn changed
+ */
+
+import type { VirtualFileSystem } from "./file-system";
+
+export type FileChangeStatus = "added" | "modified" | "deleted";
+
+export interface FileChange {
+  path: string;
+  status: FileChangeStatus;
+  before: string | null; // Content before the turn, null if the turn created the file
+  after: string | null; // Content after the turn, null if the turn deleted the file
+}
+
+/**
+ * Compare two file system states (path -> content), sorted by path
+ * A rename shows up as a deleted and an added file
+ */
+export function diffFileStates(
+  before: Map<string, string>,
+  after: Map<string, string>
+): FileChange[] {
+  const changes: FileChange[] = [];
+
+  for (const [path, content] of after) {
+    const previous = before.get(path);
+    if (previous === undefined) {
+      changes.push({ path, status: "added", before: null, after: content });
+    } else if (previous !== content) {
+      changes.push({ path, status: "modified", before: previous, after: content });
+    }
+  }
+  for (const [path, content] of before) {
+    if (!after.has(path)) {
+      changes.push({ path, status: "deleted", before: content, after: null });
+    }
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Write one side of each change to a file system: "before" undoes the changes,
+ * "after" applies them. A null side deletes the file
+ */
+export function applyChanges(
+  fileSystem: VirtualFileSystem,
+  changes: FileChange[],
+  side: "before" | "after"
+): void {
+  for (const change of changes) {
+    const content = change[side];
+    if (content === null) {
+      fileSystem.deleteFile(change.path);
+    } else if (fileSystem.exists(change.path)) {
+      fileSystem.updateFile(change.path, content);
+    } else {
+      fileSystem.createFile(change.path, content);
+    }
+  }
+}
+
+// The file is back to how it was before the turn (e.g. after a revert)
+export function isChangeReverted(change: FileChange, current: string | null): boolean {
+  return current === change.before;
+}
+
+// Count changed lines for a summary like "+12 -3"; lines are matched by a
+// common prefix and suffix, which is exact for the usual single-region edit
+export function countChangedLines(change: FileChange): { added: number; removed: number } {
+  const before = change.before === null ? [] : change.before.split("\n");
+  const after = change.after === null ? [] : change.after.split("\n");
+
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return { added: after.length - start - end, removed: before.length - start - end };
+}
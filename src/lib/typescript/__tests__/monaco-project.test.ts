@@ -0,0 +1,253 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  MonacoProject,
+  configureTypeScript,
+  getLanguageFromPath,
+  getModelPath,
+  loadPackageTypings,
+  type MonacoInstance,
+} from "../monaco-project";
+
+// Minimal text model: holds a value and notifies content listeners
+class FakeModel {
+  private listeners = new Set<() => void>();
+  private disposed = false;
+  constructor(private value: string, public uri: { path: string; toString(): string }) {}
+  getValue = () => this.value;
+  setValue = vi.fn((value: string) => {
+    this.value = value;
+    this.listeners.forEach((listener) => listener());
+  });
+  onDidChangeContent = (listener: () => void) => {
+    this.listeners.add(listener);
+    return { dispose: () => this.listeners.delete(listener) };
+  };
+  isDisposed = () => this.disposed;
+  dispose = vi.fn(() => {
+    this.disposed = true;
+  });
+}
+
+function createFakeMonaco() {
+  const models = new Map<string, FakeModel>();
+  let opener: any = null;
+  const defaults = () => ({
+    setCompilerOptions: vi.fn(),
+    setEagerModelSync: vi.fn(),
+    setDiagnosticsOptions: vi.fn(),
+    addExtraLib: vi.fn(),
+  });
+
+  const monaco = {
+    Uri: {
+      parse: (value: string) => ({ path: decodeURI(value.slice("file://".length)), toString: () => value }),
+    },
+    MarkerSeverity: { Error: 8, Warning: 4 },
+    editor: {
+      getModel: (uri: { toString(): string }) => {
+        const model = models.get(uri.toString());
+        return model && !model.isDisposed() ? model : null;
+      },
+      createModel: vi.fn((value: string, _language: string, uri: { toString(): string; path: string }) => {
+        const model = new FakeModel(value, uri);
+        models.set(uri.toString(), model);
+        return model;
+      }),
+      setModelMarkers: vi.fn(),
+      registerEditorOpener: vi.fn((value: any) => {
+        opener = value;
+        return { dispose: vi.fn(() => (opener = null)) };
+      }),
+    },
+    typescript: {
+      ScriptTarget: { ES2020: 7 },
+      ModuleKind: { ESNext: 99 },
+      ModuleResolutionKind: { NodeJs: 2 },
+      JsxEmit: { ReactJSX: 4 },
+      typescriptDefaults: defaults(),
+      javascriptDefaults: defaults(),
+    },
+  };
+
+  return {
+    monaco,
+    models,
+    open: (path: string, position?: object) =>
+      opener?.openCodeEditor({}, monaco.Uri.parse(getModelPath(path)), position) ?? false,
+    asMonaco: () => monaco as unknown as MonacoInstance,
+  };
+}
+
+describe("getModelPath", () => {
+  test("should turn a virtual path into a file URI", () => {
+    expect(getModelPath("/components/Card.tsx")).toBe("file:///components/Card.tsx");
+    expect(getModelPath("/my file.tsx")).toBe("file:///my%20file.tsx");
+  });
+});
+
+describe("getLanguageFromPath", () => {
+  test("should map extensions to Monaco languages", () => {
+    expect(getLanguageFromPath("/App.jsx")).toBe("javascript");
+    expect(getLanguageFromPath("/App.tsx")).toBe("typescript");
+    expect(getLanguageFromPath("/styles.css")).toBe("css");
+    expect(getLanguageFromPath("/notes")).toBe("plaintext");
+  });
+});
+
+describe("configureTypeScript", () => {
+  test("should resolve the @/ alias and JSX in TypeScript and JavaScript files", () => {
+    const { monaco, asMonaco } = createFakeMonaco();
+
+    configureTypeScript(asMonaco());
+
+    for (const defaults of [monaco.typescript.typescriptDefaults, monaco.typescript.javascriptDefaults]) {
+      expect(defaults.setCompilerOptions).toHaveBeenCalledWith(
+        expect.objectContaining({
+          jsx: monaco.typescript.JsxEmit.ReactJSX,
+          allowJs: true,
+          baseUrl: "file:///",
+          paths: { "@/*": ["./*"] },
+        })
+      );
+      expect(defaults.setEagerModelSync).toHaveBeenCalledWith(true);
+    }
+    expect(monaco.typescript.typescriptDefaults.setDiagnosticsOptions).toHaveBeenCalledWith({
+      noSemanticValidation: true,
+      noSyntaxValidation: true,
+    });
+  });
+});
+
+describe("loadPackageTypings", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("should add package typings as extra libs, once", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        files: {
+          "/node_modules/typescript/lib/lib.es5.d.ts": "interface Array<T> {}",
+          "/node_modules/@types/react/index.d.ts": "declare namespace React {}",
+        },
+      }),
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const { monaco, asMonaco } = createFakeMonaco();
+
+    await loadPackageTypings(asMonaco());
+    await loadPackageTypings(asMonaco());
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(monaco.typescript.typescriptDefaults.addExtraLib).toHaveBeenCalledTimes(1);
+    expect(monaco.typescript.typescriptDefaults.addExtraLib).toHaveBeenCalledWith(
+      "declare namespace React {}",
+      "file:///node_modules/@types/react/index.d.ts"
+    );
+    expect(monaco.typescript.javascriptDefaults.addExtraLib).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("MonacoProject", () => {
+  let fake: ReturnType<typeof createFakeMonaco>;
+  const onEdit = vi.fn();
+  const onOpen = vi.fn();
+  let project: MonacoProject;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fake = createFakeMonaco();
+    project = new MonacoProject(fake.asMonaco(), { onEdit, onOpen });
+  });
+
+  test("should create a model for every file", () => {
+    project.sync(new Map([["/App.tsx", "app"], ["/components/Card.tsx", "card"]]));
+
+    expect(fake.monaco.editor.createModel).toHaveBeenCalledTimes(2);
+    expect(fake.models.get("file:///components/Card.tsx")?.getValue()).toBe("card");
+  });
+
+  test("should update changed files and dispose deleted ones", () => {
+    project.sync(new Map([["/App.tsx", "app"], ["/Old.tsx", "old"]]));
+    const app = fake.models.get("file:///App.tsx")!;
+    const old = fake.models.get("file:///Old.tsx")!;
+
+    project.sync(new Map([["/App.tsx", "app v2"]]));
+
+    expect(app.getValue()).toBe("app v2");
+    expect(old.dispose).toHaveBeenCalled();
+    expect(fake.monaco.editor.createModel).toHaveBeenCalledTimes(2);
+  });
+
+  test("should adopt a model the editor created", () => {
+    const uri = fake.monaco.Uri.parse("file:///App.tsx");
+    const model = fake.monaco.editor.createModel("app", "typescript", uri);
+
+    project.sync(new Map([["/App.tsx", "app"]]));
+    model.setValue("edited");
+
+    expect(fake.monaco.editor.createModel).toHaveBeenCalledTimes(1);
+    expect(onEdit).toHaveBeenCalledWith("/App.tsx", "edited");
+  });
+
+  test("should report edits made in any model", () => {
+    project.sync(new Map([["/App.tsx", "app"], ["/utils.ts", "export const a = 1;"]]));
+
+    // e.g. a rename in a file that isn't open
+    fake.models.get("file:///utils.ts")!.setValue("export const b = 1;");
+
+    expect(onEdit).toHaveBeenCalledWith("/utils.ts", "export const b = 1;");
+  });
+
+  test("should open other project files at the requested location", () => {
+    project.sync(new Map([["/App.tsx", "app"], ["/components/Card.tsx", "card"]]));
+
+    expect(
+      fake.open("/components/Card.tsx", { startLineNumber: 3, startColumn: 17, endLineNumber: 3, endColumn: 21 })
+    ).toBe(true);
+    expect(onOpen).toHaveBeenCalledWith("/components/Card.tsx", 3, 17);
+
+    expect(fake.open("/node_modules/@types/react/index.d.ts")).toBe(false);
+  });
+
+  test("should show diagnostics as markers on their file", () => {
+    project.sync(new Map([["/App.tsx", "app"], ["/Card.tsx", "card"]]));
+
+    project.setDiagnostics([
+      {
+        path: "/Card.tsx",
+        line: 2,
+        column: 3,
+        endLine: 2,
+        endColumn: 8,
+        message: "Type 'number' is not assignable to type 'string'.",
+        code: 2322,
+        severity: "error",
+      },
+    ]);
+
+    const calls = fake.monaco.editor.setModelMarkers.mock.calls.slice(-2);
+    expect(calls[0][2]).toEqual([]);
+    expect(calls[1][0]).toBe(fake.models.get("file:///Card.tsx"));
+    expect(calls[1][2]).toEqual([
+      expect.objectContaining({
+        startLineNumber: 2,
+        startColumn: 3,
+        endColumn: 8,
+        code: "TS2322",
+        severity: fake.monaco.MarkerSeverity.Error,
+      }),
+    ]);
+  });
+
+  test("should dispose its models and opener", () => {
+    project.sync(new Map([["/App.tsx", "app"]]));
+    const model = fake.models.get("file:///App.tsx")!;
+
+    project.dispose();
+
+    expect(model.dispose).toHaveBeenCalled();
+    expect(fake.open("/App.tsx")).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { TypeCheckWorker } from "../type-check-worker";
+
+const diagnostic = {
+  path: "/App.tsx",
+  line: 1,
+  column: 7,
+  endLine: 1,
+  endColumn: 12,
+  message: "Type 'string' is not assignable to type 'number'.",
+  code: 2322,
+  severity: "error",
+};
+
+// Minimal Worker stand-in: reports one diagnostic per request, or an error when asked to
+class FakeWorker extends EventTarget {
+  static instances: FakeWorker[] = [];
+  postMessage = vi.fn((request: { id: number; files: Array<[string, string]> }) => {
+    const data = request.files.length === 0
+      ? { id: request.id, error: "Failed to load type libraries (500)" }
+      : { id: request.id, diagnostics: [diagnostic] };
+    queueMicrotask(() => {
+      this.dispatchEvent(new MessageEvent("message", { data }));
+    });
+  });
+  terminate = vi.fn();
+
+  constructor() {
+    super();
+    FakeWorker.instances.push(this);
+  }
+}
+
+describe("TypeCheckWorker", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWorker.instances = [];
+  });
+
+  it("is unavailable without Web Workers", () => {
+    vi.stubGlobal("Worker", undefined);
+    expect(new TypeCheckWorker().isAvailable()).toBe(false);
+  });
+
+  it("resolves with the worker's diagnostics", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const worker = new TypeCheckWorker();
+
+    const diagnostics = await worker.check([["/App.tsx", "const a: number = 'one';"]]);
+
+    expect(diagnostics).toEqual([diagnostic]);
+    expect(FakeWorker.instances[0].postMessage).toHaveBeenCalledWith({
+      id: 0,
+      files: [["/App.tsx", "const a: number = 'one';"]],
+    });
+  });
+
+  it("rejects a request the worker couldn't check", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const worker = new TypeCheckWorker();
+
+    await expect(worker.check([])).rejects.toThrow("Failed to load type libraries (500)");
+    expect(worker.isAvailable()).toBe(true);
+  });
+
+  it("rejects pending requests and stops being used when the worker fails", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const worker = new TypeCheckWorker();
+    const request = worker.check([["/App.tsx", ""]]);
+
+    FakeWorker.instances[0].dispatchEvent(Object.assign(new Event("error"), { message: "Failed to load" }));
+
+    await expect(request).rejects.toThrow("Failed to load");
+    expect(worker.isAvailable()).toBe(false);
+    expect(FakeWorker.instances[0].terminate).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, test, expect, beforeAll, afterAll } from "vitest";
+import { TypeChecker, formatDiagnostic, isTypeCheckedPath } from "../type-checker";
+import { loadTypeLibraries } from "../type-libraries";
+
+// One checker for the whole file; parsing the lib files takes a few seconds
+let checker: TypeChecker;
+
+beforeAll(async () => {
+  checker = new TypeChecker(await loadTypeLibraries());
+}, 60_000);
+
+afterAll(() => {
+  checker.dispose();
+});
+
+function check(files: Record<string, string>) {
+  checker.setFiles(new Map(Object.entries(files)));
+  return checker.getDiagnostics();
+}
+
+describe("isTypeCheckedPath", () => {
+  test("should check .ts and .tsx files only", () => {
+    expect(isTypeCheckedPath("/App.tsx")).toBe(true);
+    expect(isTypeCheckedPath("/lib/utils.ts")).toBe(true);
+    expect(isTypeCheckedPath("/App.jsx")).toBe(false);
+    expect(isTypeCheckedPath("/types/global.d.ts")).toBe(false);
+  });
+});
+
+describe("TypeChecker", () => {
+  test("should report no errors for a well-typed component", () => {
+    const diagnostics = check({
+      "/App.tsx": `import { useState } from "react";
+export default function App() {
+  const [count, setCount] = useState(0);
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}`,
+    });
+
+    expect(diagnostics).toEqual([]);
+  }, 30_000);
+
+  test("should report type errors with their location", () => {
+    const diagnostics = check({
+      "/App.tsx": `export default function App() {
+  const count: number = "one";
+  return <div>{count}</div>;
+}`,
+    });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      path: "/App.tsx",
+      line: 2,
+      column: 9,
+      code: 2322,
+      severity: "error",
+    });
+    expect(diagnostics[0].message).toContain("not assignable to type 'number'");
+  }, 30_000);
+
+  test("should check props against React's typings across files", () => {
+    const diagnostics = check({
+      "/App.tsx": `import { Card } from "@/components/Card";
+export default function App() {
+  return <Card title={42} />;
+}`,
+      "/components/Card.tsx": `export function Card({ title }: { title: string }) {
+  return <h2>{title}</h2>;
+}`,
+    });
+
+    expect(diagnostics.map(({ path, line, code }) => ({ path, line, code }))).toEqual([
+      { path: "/App.tsx", line: 3, code: 2322 },
+    ]);
+  }, 30_000);
+
+  test("should report missing local modules but not untyped packages", () => {
+    const diagnostics = check({
+      "/App.tsx": `import { Sparkles } from "lucide-react";
+import { Missing } from "./Missing";
+export default function App() {
+  return <div><Sparkles /><Missing /></div>;
+}`,
+    });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toContain("'./Missing'");
+  }, 30_000);
+
+  test("should resolve JavaScript files without checking them", () => {
+    const diagnostics = check({
+      "/App.tsx": `import Button from "./Button";
+export default function App() {
+  return <Button />;
+}`,
+      "/Button.jsx": `export default function Button() { const value = 1; value.push(2); return <button />; }`,
+    });
+
+    expect(diagnostics).toEqual([]);
+  }, 30_000);
+
+  test("should pick up changed files", () => {
+    check({ "/utils.ts": "export const total: number = 1;" });
+    const diagnostics = check({ "/utils.ts": "export const total: number = true;" });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].path).toBe("/utils.ts");
+  }, 30_000);
+});
+
+describe("formatDiagnostic", () => {
+  test("should format a diagnostic like tsc", () => {
+    expect(
+      formatDiagnostic({
+        path: "/App.tsx",
+        line: 2,
+        column: 9,
+        endLine: 2,
+        endColumn: 14,
+        message: "Type 'string' is not assignable to type 'number'.",
+        code: 2322,
+        severity: "error",
+      })
+    ).toBe("/App.tsx:2:9 - error TS2322: Type 'string' is not assignable to type 'number'.");
+  });
+});
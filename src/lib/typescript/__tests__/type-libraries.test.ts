@@ -0,0 +1,28 @@
+import { describe, test, expect } from "vitest";
+import { loadTypeLibraries } from "../type-libraries";
+import { TYPESCRIPT_LIB_DIR } from "../type-checker";
+
+describe("loadTypeLibraries", () => {
+  test("should include the configured libs and the libs they reference", async () => {
+    const libraries = await loadTypeLibraries();
+
+    expect(libraries[`${TYPESCRIPT_LIB_DIR}lib.es2020.d.ts`]).toBeDefined();
+    expect(libraries[`${TYPESCRIPT_LIB_DIR}lib.dom.d.ts`]).toBeDefined();
+    // es2020 -> es2019 -> ... -> es5
+    expect(libraries[`${TYPESCRIPT_LIB_DIR}lib.es5.d.ts`]).toContain("interface Array<T>");
+    expect(libraries[`${TYPESCRIPT_LIB_DIR}lib.es2022.d.ts`]).toBeUndefined();
+  });
+
+  test("should include React's typings and their dependencies", async () => {
+    const libraries = await loadTypeLibraries();
+
+    expect(libraries["/node_modules/@types/react/index.d.ts"]).toContain("declare namespace React");
+    expect(libraries["/node_modules/@types/react/jsx-runtime.d.ts"]).toBeDefined();
+    expect(libraries["/node_modules/@types/react-dom/client.d.ts"]).toBeDefined();
+    expect(libraries["/node_modules/csstype/index.d.ts"]).toBeDefined();
+  });
+
+  test("should load the libraries once", async () => {
+    expect(loadTypeLibraries()).toBe(loadTypeLibraries());
+  });
+});
@@ -0,0 +1,217 @@
+import type * as MonacoEditor from "monaco-editor";
+import { TYPESCRIPT_LIB_DIR, type TypeDiagnostic, type TypeLibraries } from "./type-checker";
+
+/**
+ * Monaco's view of the project
+ * Every virtual file is a Monaco model, so Monaco's TypeScript service sees the whole
+ * project: completions, auto-imports, go to definition, find references and rename
+ * work across files and through the @/ alias. Errors still come from the project's
+ * own type checker (see TypeCheckProvider), which shows them as markers.
+ */
+
+// The full Monaco build @monaco-editor/react loads, TypeScript contribution included
+export type MonacoInstance = typeof MonacoEditor;
+
+type TextModel = MonacoEditor.editor.ITextModel;
+
+// Model path of a virtual file, e.g. "/components/Card.tsx" -> "file:///components/Card.tsx"
+// Also the Editor's path prop, so it attaches to the model kept here
+export function getModelPath(path: string): string {
+  return `file://${encodeURI(path)}`;
+}
+
+export function getLanguageFromPath(path: string): string {
+  const extension = path.split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "js":
+    case "jsx":
+      return "javascript";
+    case "ts":
+    case "tsx":
+      return "typescript";
+    case "json":
+      return "json";
+    case "css":
+      return "css";
+    case "html":
+      return "html";
+    case "md":
+      return "markdown";
+    default:
+      return "plaintext";
+  }
+}
+
+/**
+ * Compiler options matching the preview: JSX with the automatic runtime, JS and TS
+ * files importing each other, and "@/components/Card" resolving to /components/Card
+ */
+export function configureTypeScript(monaco: MonacoInstance): void {
+  const { typescript } = monaco;
+  const compilerOptions: MonacoEditor.typescript.CompilerOptions = {
+    target: typescript.ScriptTarget.ES2020,
+    module: typescript.ModuleKind.ESNext,
+    moduleResolution: typescript.ModuleResolutionKind.NodeJs,
+    jsx: typescript.JsxEmit.ReactJSX,
+    allowJs: true,
+    allowNonTsExtensions: true,
+    esModuleInterop: true,
+    strict: true,
+    noEmit: true,
+    baseUrl: "file:///",
+    paths: { "@/*": ["./*"] },
+  };
+
+  for (const defaults of [typescript.typescriptDefaults, typescript.javascriptDefaults]) {
+    defaults.setCompilerOptions(compilerOptions);
+    // Models that aren't open still take part in navigation and rename
+    defaults.setEagerModelSync(true);
+  }
+
+  // The project's type checker reports errors; Monaco's would duplicate them
+  typescript.typescriptDefaults.setDiagnosticsOptions({
+    noSemanticValidation: true,
+    noSyntaxValidation: true,
+  });
+}
+
+// Extra libs are global to the Monaco instance, so they're only added once per page
+let typingsLoaded: Promise<void> | null = null;
+
+/**
+ * Add React's typings (and what they import) as extra libs
+ * Monaco ships its own TypeScript libs, so only package typings are added
+ */
+export function loadPackageTypings(monaco: MonacoInstance): Promise<void> {
+  if (!typingsLoaded) {
+    typingsLoaded = (async () => {
+      const response = await fetch("/api/type-libraries");
+      if (!response.ok) {
+        throw new Error(`Failed to load type libraries (${response.status})`);
+      }
+      const { files }: { files: TypeLibraries } = await response.json();
+      for (const [path, content] of Object.entries(files)) {
+        if (path.startsWith(TYPESCRIPT_LIB_DIR)) continue;
+        monaco.typescript.typescriptDefaults.addExtraLib(content, getModelPath(path));
+        monaco.typescript.javascriptDefaults.addExtraLib(content, getModelPath(path));
+      }
+    })().catch((error) => {
+      typingsLoaded = null;
+      throw error;
+    });
+  }
+  return typingsLoaded;
+}
+
+// Position to open from an opener request (a range's start, or a position)
+function getLocation(
+  selectionOrPosition?: MonacoEditor.IRange | MonacoEditor.IPosition
+): { line?: number; column?: number } {
+  if (!selectionOrPosition) return {};
+  if ("startLineNumber" in selectionOrPosition) {
+    return { line: selectionOrPosition.startLineNumber, column: selectionOrPosition.startColumn };
+  }
+  return { line: selectionOrPosition.lineNumber, column: selectionOrPosition.column };
+}
+
+interface MonacoProjectOptions {
+  // An edit Monaco made to a file, e.g. a rename or auto-import in a file that isn't open
+  onEdit?: (path: string, content: string) => void;
+  // Go to definition / references chose a location in another file
+  onOpen: (path: string, line?: number, column?: number) => void;
+}
+
+// Owner of the markers set from the project's type checker
+const TYPE_CHECK_MARKER_OWNER = "uigen-type-check";
+
+// Keeps one Monaco model per virtual file for as long as an editor is mounted
+export class MonacoProject {
+  private models = new Map<string, { model: TextModel; listener: MonacoEditor.IDisposable }>();
+  private opener: MonacoEditor.IDisposable;
+  private diagnostics: TypeDiagnostic[] = [];
+
+  constructor(
+    private monaco: MonacoInstance,
+    private options: MonacoProjectOptions
+  ) {
+    this.opener = monaco.editor.registerEditorOpener({
+      openCodeEditor: (_source, resource, selectionOrPosition) => {
+        const path = resource.path;
+        if (!this.models.has(path)) return false;
+        const { line, column } = getLocation(selectionOrPosition);
+        this.options.onOpen(path, line, column);
+        return true;
+      },
+    });
+  }
+
+  // Edits made in Monaco are reported back, including ones this sync made
+  private track(path: string, model: TextModel): void {
+    const listener = model.onDidChangeContent(() => {
+      this.options.onEdit?.(path, model.getValue());
+    });
+    this.models.set(path, { model, listener });
+  }
+
+  private remove(path: string): void {
+    const entry = this.models.get(path);
+    if (!entry) return;
+    this.models.delete(path);
+    entry.listener.dispose();
+    if (!entry.model.isDisposed()) entry.model.dispose();
+  }
+
+  // Create, update and dispose models to match the files
+  sync(files: Map<string, string>): void {
+    for (const [path, content] of files) {
+      const uri = this.monaco.Uri.parse(getModelPath(path));
+      let model = this.models.get(path)?.model;
+      if (model?.isDisposed()) {
+        this.remove(path);
+        model = undefined;
+      }
+      if (!model) {
+        // The Editor may have created the open file's model itself
+        const existing = this.monaco.editor.getModel(uri);
+        model = existing ?? this.monaco.editor.createModel(content, getLanguageFromPath(path), uri);
+        this.track(path, model);
+      }
+      if (model.getValue() !== content) model.setValue(content);
+    }
+
+    for (const path of Array.from(this.models.keys())) {
+      if (!files.has(path)) this.remove(path);
+    }
+    this.applyMarkers();
+  }
+
+  // Show the type checker's diagnostics as markers in every file
+  setDiagnostics(diagnostics: TypeDiagnostic[]): void {
+    this.diagnostics = diagnostics;
+    this.applyMarkers();
+  }
+
+  private applyMarkers(): void {
+    const { MarkerSeverity } = this.monaco;
+    for (const [path, { model }] of this.models) {
+      const markers = this.diagnostics
+        .filter((diagnostic) => diagnostic.path === path)
+        .map((diagnostic) => ({
+          startLineNumber: diagnostic.line,
+          startColumn: diagnostic.column,
+          endLineNumber: diagnostic.endLine,
+          endColumn: diagnostic.endColumn,
+          message: diagnostic.message,
+          code: `TS${diagnostic.code}`,
+          source: "ts",
+          severity: diagnostic.severity === "error" ? MarkerSeverity.Error : MarkerSeverity.Warning,
+        }));
+      this.monaco.editor.setModelMarkers(model, TYPE_CHECK_MARKER_OWNER, markers);
+    }
+  }
+
+  dispose(): void {
+    this.opener.dispose();
+    for (const path of Array.from(this.models.keys())) this.remove(path);
+  }
+}
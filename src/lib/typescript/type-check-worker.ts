@@ -0,0 +1,82 @@
+import type { TypeDiagnostic } from "./type-checker";
+
+/**
+ * Client for the type-check worker (type-check.worker.ts)
+ * Sends the project's script files to a TypeScript language service running off
+ * the main thread; the worker keeps the service between checks, so only changed
+ * files are parsed again.
+ */
+
+export interface TypeCheckWorkerRequest {
+  id: number;
+  files: Array<[path: string, content: string]>;
+}
+
+export type TypeCheckWorkerResponse =
+  | { id: number; diagnostics: TypeDiagnostic[] }
+  | { id: number; error: string };
+
+interface PendingRequest {
+  resolve: (diagnostics: TypeDiagnostic[]) => void;
+  reject: (error: Error) => void;
+}
+
+export class TypeCheckWorker {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, PendingRequest>();
+  private failed = false;
+
+  // False during server rendering, in tests, and once the worker has failed to load;
+  // the editor then shows no type errors
+  isAvailable(): boolean {
+    return !this.failed && typeof Worker !== "undefined";
+  }
+
+  // Started on first use; a worker that fails to load rejects every pending request
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL("./type-check.worker.ts", import.meta.url));
+      this.worker.addEventListener("message", (event: MessageEvent<TypeCheckWorkerResponse>) => {
+        const response = event.data;
+        const request = this.pending.get(response.id);
+        this.pending.delete(response.id);
+        if ("error" in response) {
+          request?.reject(new Error(response.error));
+        } else {
+          request?.resolve(response.diagnostics);
+        }
+      });
+      this.worker.addEventListener("error", (event) => {
+        this.failed = true;
+        this.terminate(new Error(event.message || "Type-check worker failed"));
+      });
+    }
+    return this.worker;
+  }
+
+  check(files: Array<[path: string, content: string]>): Promise<TypeDiagnostic[]> {
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      this.pending.set(id, { resolve, reject });
+      try {
+        const request: TypeCheckWorkerRequest = { id, files };
+        this.getWorker().postMessage(request);
+      } catch (error) {
+        this.pending.delete(id);
+        reject(error instanceof Error ? error : new Error("Type-check worker failed"));
+      }
+    });
+  }
+
+  private fail(error: Error): void {
+    for (const request of this.pending.values()) request.reject(error);
+    this.pending.clear();
+  }
+
+  terminate(error = new Error("Type-check worker stopped")): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.fail(error);
+  }
+}
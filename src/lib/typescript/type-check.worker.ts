@@ -0,0 +1,31 @@
+import { TypeChecker, type TypeLibraries } from "./type-checker";
+import type { TypeCheckWorkerRequest, TypeCheckWorkerResponse } from "./type-check-worker";
+
+// Web Worker entry: type checks off the main thread so typing in the editor stays smooth
+// The libraries are fetched once, on the first check
+let checker: Promise<TypeChecker> | null = null;
+
+async function createChecker(): Promise<TypeChecker> {
+  const response = await fetch("/api/type-libraries");
+  if (!response.ok) {
+    throw new Error(`Failed to load type libraries (${response.status})`);
+  }
+  const { files }: { files: TypeLibraries } = await response.json();
+  return new TypeChecker(files);
+}
+
+self.addEventListener("message", async (event: MessageEvent<TypeCheckWorkerRequest>) => {
+  const { id, files } = event.data;
+  let response: TypeCheckWorkerResponse;
+  try {
+    checker ??= createChecker();
+    const current = await checker;
+    current.setFiles(new Map(files));
+    response = { id, diagnostics: current.getDiagnostics() };
+  } catch (error) {
+    // Try loading the libraries again on the next check
+    checker = null;
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+});
@@ -0,0 +1,161 @@
+import ts from "typescript";
+
+/**
+ * Type checker for the virtual file system
+ * Runs a TypeScript language service over the project's files plus bundled type
+ * libraries (the TypeScript libs and React's typings, see type-libraries.ts).
+ * Babel only strips types, so this is what catches type errors in .ts/.tsx files.
+ * Shared by the editor's type-check worker and the check_types tool.
+ */
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export interface TypeDiagnostic {
+  path: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  endLine: number;
+  endColumn: number;
+  message: string;
+  code: number; // TS error code, e.g. 2322
+  severity: DiagnosticSeverity;
+}
+
+// Type libraries by virtual path, e.g. "/node_modules/@types/react/index.d.ts"
+export type TypeLibraries = Record<string, string>;
+
+// Where the TypeScript lib files live in the virtual file system
+export const TYPESCRIPT_LIB_DIR = "/node_modules/typescript/lib/";
+
+// Libs for a browser preview; lib files pull in the libs they reference
+export const TYPESCRIPT_LIBS = ["lib.es2020.d.ts", "lib.dom.d.ts", "lib.dom.iterable.d.ts"];
+
+export const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  // Resolves "react" and "react/jsx-runtime" to the bundled @types/react files
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: TYPESCRIPT_LIBS,
+  strict: true,
+  // JS files are resolved so TS files can import them, but not checked
+  allowJs: true,
+  checkJs: false,
+  esModuleInterop: true,
+  allowImportingTsExtensions: true,
+  isolatedModules: true,
+  skipLibCheck: true,
+  noEmit: true,
+  // Only the bundled typings, never a scan of node_modules/@types
+  types: [],
+  baseUrl: "/",
+  paths: { "@/*": ["./*"] },
+};
+
+// Files the checker reports on, and files it loads for their exports
+export function isTypeCheckedPath(path: string): boolean {
+  return /\.tsx?$/.test(path) && !path.endsWith(".d.ts");
+}
+
+function isScriptPath(path: string): boolean {
+  return /\.(jsx?|tsx?)$/.test(path);
+}
+
+// Packages the preview loads without typings; a missing declaration for them isn't a bug
+const MISSING_MODULE_CODE = 2307;
+function isUntypedPackageError(diagnostic: ts.Diagnostic): boolean {
+  if (diagnostic.code !== MISSING_MODULE_CODE) return false;
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+  const specifier = /'([^']+)'/.exec(message)?.[1];
+  return !!specifier && !/^(\.|\/|@\/)/.test(specifier);
+}
+
+export class TypeChecker {
+  private files = new Map<string, string>();
+  private versions = new Map<string, number>();
+  private service: ts.LanguageService;
+
+  constructor(
+    private libraries: TypeLibraries,
+    // Share one registry between checkers to parse the lib files only once
+    documentRegistry: ts.DocumentRegistry = ts.createDocumentRegistry()
+  ) {
+    const host: ts.LanguageServiceHost = {
+      getCompilationSettings: () => COMPILER_OPTIONS,
+      getScriptFileNames: () => Array.from(this.files.keys()).filter(isScriptPath),
+      getScriptVersion: (path) => String(this.versions.get(path) ?? 0),
+      getScriptSnapshot: (path) => {
+        const text = this.readFile(path);
+        return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+      },
+      getCurrentDirectory: () => "/",
+      getDefaultLibFileName: (options) => TYPESCRIPT_LIB_DIR + ts.getDefaultLibFileName(options),
+      fileExists: (path) => this.readFile(path) !== undefined,
+      readFile: (path) => this.readFile(path),
+    };
+    this.service = ts.createLanguageService(host, documentRegistry);
+  }
+
+  // Project files win over libraries with the same path
+  private readFile(path: string): string | undefined {
+    return this.files.get(path) ?? this.libraries[path];
+  }
+
+  // Replace the project's files; only changed files are parsed again
+  setFiles(files: Map<string, string>): void {
+    for (const [path, content] of files) {
+      if (this.files.get(path) !== content) {
+        this.versions.set(path, (this.versions.get(path) ?? 0) + 1);
+      }
+    }
+    for (const path of this.files.keys()) {
+      if (!files.has(path)) this.versions.delete(path);
+    }
+    this.files = new Map(files);
+  }
+
+  // Syntax and type errors in every .ts/.tsx file, sorted by file and position
+  getDiagnostics(): TypeDiagnostic[] {
+    const diagnostics: TypeDiagnostic[] = [];
+    for (const path of Array.from(this.files.keys()).filter(isTypeCheckedPath).sort()) {
+      const found = [
+        ...this.service.getSyntacticDiagnostics(path),
+        ...this.service.getSemanticDiagnostics(path),
+      ];
+      for (const diagnostic of found) {
+        if (isUntypedPackageError(diagnostic)) continue;
+        diagnostics.push(toTypeDiagnostic(path, diagnostic));
+      }
+    }
+    return diagnostics;
+  }
+
+  dispose(): void {
+    this.service.dispose();
+  }
+}
+
+function toTypeDiagnostic(path: string, diagnostic: ts.Diagnostic): TypeDiagnostic {
+  const file = diagnostic.file;
+  const start = diagnostic.start ?? 0;
+  const end = start + (diagnostic.length ?? 0);
+  const startPosition = file?.getLineAndCharacterOfPosition(start) ?? { line: 0, character: 0 };
+  const endPosition = file?.getLineAndCharacterOfPosition(end) ?? startPosition;
+
+  return {
+    path: file?.fileName ?? path,
+    line: startPosition.line + 1,
+    column: startPosition.character + 1,
+    endLine: endPosition.line + 1,
+    endColumn: endPosition.character + 1,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+    code: diagnostic.code,
+    severity: diagnostic.category === ts.DiagnosticCategory.Error ? "error" : "warning",
+  };
+}
+
+// "/components/Card.tsx:12:5 - error TS2322: Type 'string' is not assignable to type 'number'."
+export function formatDiagnostic(diagnostic: TypeDiagnostic): string {
+  const { path, line, column, severity, code, message } = diagnostic;
+  return `${path}:${line}:${column} - ${severity} TS${code}: ${message}`;
+}
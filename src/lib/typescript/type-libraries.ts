@@ -0,0 +1,68 @@
+/**
+ * Type libraries for the type checker
+ * Reads the TypeScript lib files and React's typings from this app's node_modules,
+ * so type checking never needs a CDN. Served to the editor by /api/type-libraries.
+ */
+
+import path from "path";
+import { readFile } from "fs/promises";
+import { TYPESCRIPT_LIB_DIR, TYPESCRIPT_LIBS, type TypeLibraries } from "./type-checker";
+
+// Typing files by package; their imports stay within this list
+const TYPE_PACKAGES: Record<string, string[]> = {
+  "@types/react": ["index.d.ts", "global.d.ts", "jsx-runtime.d.ts", "jsx-dev-runtime.d.ts"],
+  "@types/react-dom": ["index.d.ts", "client.d.ts"],
+  csstype: ["index.d.ts"],
+};
+
+// /// <reference lib="es2019" /> -> "lib.es2019.d.ts"
+const LIB_REFERENCE_PATTERN = /^\/\/\/\s*<reference\s+lib="([^"]+)"\s*\/>/gm;
+
+function readModuleFile(...parts: string[]): Promise<string> {
+  return readFile(path.join(process.cwd(), "node_modules", ...parts), "utf-8");
+}
+
+// The lib files and every lib they reference
+async function loadTypeScriptLibs(libraries: TypeLibraries): Promise<void> {
+  const pending = [...TYPESCRIPT_LIBS];
+  const seen = new Set(pending);
+
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    const content = await readModuleFile("typescript", "lib", name);
+    libraries[TYPESCRIPT_LIB_DIR + name] = content;
+
+    for (const [, reference] of content.matchAll(LIB_REFERENCE_PATTERN)) {
+      const file = `lib.${reference.toLowerCase()}.d.ts`;
+      if (!seen.has(file)) {
+        seen.add(file);
+        pending.push(file);
+      }
+    }
+  }
+}
+
+async function load(): Promise<TypeLibraries> {
+  const libraries: TypeLibraries = {};
+  await loadTypeScriptLibs(libraries);
+
+  for (const [name, files] of Object.entries(TYPE_PACKAGES)) {
+    for (const file of files) {
+      libraries[`/node_modules/${name}/${file}`] = await readModuleFile(name, file);
+    }
+  }
+  return libraries;
+}
+
+// Libraries only change when dependencies are reinstalled, so keep them for the server's lifetime
+let cached: Promise<TypeLibraries> | null = null;
+
+export function loadTypeLibraries(): Promise<TypeLibraries> {
+  if (!cached) {
+    cached = load().catch((error) => {
+      cached = null;
+      throw error;
+    });
+  }
+  return cached;
+}
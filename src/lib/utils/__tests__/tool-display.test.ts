@@ -37,6 +37,18 @@ test("getToolDisplayName formats str_replace_editor with insert command", () =>
   expect(getToolDisplayName(tool)).toBe("Updating helper.js");
 });
 
+test("getToolDisplayName formats str_replace_editor with undo_edit command", () => {
+  const tool = {
+    type: "tool-str_replace_editor",
+    input: {
+      command: "undo_edit",
+      path: "/components/Card.jsx",
+    },
+  };
+
+  expect(getToolDisplayName(tool)).toBe("Reverting Card.jsx");
+});
+
 test("getToolDisplayName formats str_replace_editor with view command", () => {
   const tool = {
     type: "tool-str_replace_editor",
@@ -92,6 +104,49 @@ test("getToolDisplayName falls back for file_manager without input", () => {
   expect(getToolDisplayName(tool)).toBe("Managing files");
 });
 
+test("getToolDisplayName formats add_dependency with the package name", () => {
+  const tool = {
+    type: "tool-add_dependency",
+    input: { name: "framer-motion", version: "11.2.0" },
+  };
+
+  expect(getToolDisplayName(tool)).toBe("Adding framer-motion");
+});
+
+test("getToolDisplayName formats check_build", () => {
+  expect(getToolDisplayName({ type: "tool-check_build", input: {} })).toBe("Checking build");
+});
+
+test("getToolDisplayName formats check_types", () => {
+  expect(getToolDisplayName({ type: "tool-check_types", input: {} })).toBe("Checking types");
+});
+
+test("getToolDisplayName formats apply_patch by the files it touches", () => {
+  expect(
+    getToolDisplayName({ type: "tool-apply_patch", input: { patch: "--- a/App.jsx\n+++ b/App.jsx\n@@ -1 +1 @@\n-a\n+b" } })
+  ).toBe("Patching App.jsx");
+  expect(
+    getToolDisplayName({
+      type: "tool-apply_patch",
+      input: { edits: [{ path: "/App.jsx" }, { path: "/components/Card.jsx" }, { path: "/App.jsx" }] },
+    })
+  ).toBe("Patching 2 files");
+  expect(getToolDisplayName({ type: "tool-apply_patch", input: {} })).toBe("Applying patch");
+});
+
+test("getToolDisplayName formats search_files by command", () => {
+  expect(getToolDisplayName({ type: "tool-search_files", input: { command: "glob", pattern: "**/*.tsx" } })).toBe(
+    "Finding **/*.tsx"
+  );
+  expect(getToolDisplayName({ type: "tool-search_files", input: { command: "grep", pattern: "useState" } })).toBe(
+    "Searching for useState"
+  );
+  expect(
+    getToolDisplayName({ type: "tool-search_files", input: { command: "read_many", paths: ["/App.jsx", "/Card.jsx"] } })
+  ).toBe("Reading 2 files");
+  expect(getToolDisplayName({ type: "tool-search_files", input: {} })).toBe("Searching files");
+});
+
 test("getToolDisplayName converts unknown tool names to Title Case", () => {
   const tool = {
     type: "tool-some_custom_tool",
@@ -26,6 +26,8 @@ export function getToolDisplayName(tool: { type: string; input?: unknown }): str
         return `Updating ${filename}`;
       } else if (command === "view" && filename) {
         return `Viewing ${filename}`;
+      } else if (command === "undo_edit" && filename) {
+        return `Reverting ${filename}`;
       } else if (filename) {
         return `Working on ${filename}`;
       }
@@ -48,6 +50,51 @@ export function getToolDisplayName(tool: { type: string; input?: unknown }): str
       return "Managing files";
     }
 
+    case "apply_patch": {
+      const paths = new Set<string>();
+      for (const match of String(args?.patch ?? "").matchAll(/^\+\+\+ (?:b\/)?(\S+)/gm)) {
+        if (match[1] !== "/dev/null") paths.add(match[1]);
+      }
+      if (Array.isArray(args?.edits)) {
+        args.edits.forEach((edit: { path?: string }) => edit?.path && paths.add(edit.path));
+      }
+
+      if (paths.size === 1) {
+        return `Patching ${Array.from(paths)[0].split("/").pop()}`;
+      } else if (paths.size > 1) {
+        return `Patching ${paths.size} files`;
+      }
+
+      return "Applying patch";
+    }
+
+    case "search_files": {
+      const command = args?.command;
+      const pattern = args?.pattern;
+      const count = Array.isArray(args?.paths) ? args.paths.length : 0;
+
+      if (command === "glob" && pattern) {
+        return `Finding ${pattern}`;
+      } else if (command === "grep" && pattern) {
+        return `Searching for ${pattern}`;
+      } else if (command === "read_many" && count > 0) {
+        return count === 1 ? "Reading 1 file" : `Reading ${count} files`;
+      }
+
+      return "Searching files";
+    }
+
+    case "add_dependency": {
+      const name = args?.name;
+      return name ? `Adding ${name}` : "Adding dependency";
+    }
+
+    case "check_build":
+      return "Checking build";
+
+    case "check_types":
+      return "Checking types";
+
     default:
       // For any unknown tools, convert snake_case to Title Case
       return toolName
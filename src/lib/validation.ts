@@ -1,6 +1,6 @@
 /**
  * Validation utilities for user input
- * Centralizes email, password, and project name validation
+ * Centralizes email, password, project name and share token validation
  */
 
 import { PROJECT_NAME_MAX_LENGTH } from "./constants";
@@ -61,3 +61,17 @@ export function sanitizeProjectName(name: string): string {
     .trim()                   // Trim whitespace
     .slice(0, PROJECT_NAME_MAX_LENGTH); // Truncate
 }
+
+// ============================================================================
+// Share Token Validation
+// ============================================================================
+
+/** Share tokens are base64url strings */
+export const SHARE_TOKEN_REGEX = /^[A-Za-z0-9_-]{16,64}$/;
+
+/**
+ * Validate a share token's format, so malformed tokens are rejected before querying
+ */
+export function validateShareToken(token: unknown): token is string {
+  return typeof token === "string" && SHARE_TOKEN_REGEX.test(token);
+}
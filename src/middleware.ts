@@ -2,7 +2,14 @@ import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { verifySession } from "@/lib/auth";
 
+// Public routes that never require a session (read-only share links)
+const publicPaths = ["/share/"];
+
 export async function middleware(request: NextRequest) {
+  if (publicPaths.some((path) => request.nextUrl.pathname.startsWith(path))) {
+    return NextResponse.next();
+  }
+
   const session = await verifySession(request);
 
   // Protected routes that require authentication
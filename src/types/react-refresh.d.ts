@@ -0,0 +1,12 @@
+// react-refresh ships without type declarations; only the Babel plugin is imported from TS
+declare module "react-refresh/babel" {
+  import type { PluginObj } from "@babel/core";
+
+  interface ReactRefreshBabelOptions {
+    skipEnvCheck?: boolean; // Allow the transform outside NODE_ENV=development
+    emitFullSignatures?: boolean; // Hook signatures as plain strings instead of sha1 hashes
+  }
+
+  const plugin: (babel: unknown, options?: ReactRefreshBabelOptions) => PluginObj;
+  export default plugin;
+}